@@ -0,0 +1,92 @@
+using System;
+using System.IO;
+using System.Threading.Tasks;
+using Xunit;
+using Microsoft.Extensions.Logging;
+using DataverseDevKit.Host.Services;
+
+namespace DataverseDevKit.Host.Tests;
+
+/// <summary>
+/// Tests for plugin storage, in particular keys that are not valid or not distinct as file names.
+/// </summary>
+public class StorageServiceTests : IDisposable
+{
+    private const string PluginId = "test-plugin";
+
+    private readonly string _basePath;
+    private readonly ILoggerFactory _loggerFactory;
+
+    public StorageServiceTests()
+    {
+        _basePath = Path.Combine(Path.GetTempPath(), $"ddk-storage-{Guid.NewGuid():N}");
+        _loggerFactory = LoggerFactory.Create(builder => builder.SetMinimumLevel(LogLevel.Debug));
+    }
+
+    public void Dispose()
+    {
+        _loggerFactory.Dispose();
+        if (Directory.Exists(_basePath))
+        {
+            Directory.Delete(_basePath, recursive: true);
+        }
+    }
+
+    private StorageService CreateService()
+    {
+        return new StorageService(_loggerFactory.CreateLogger<StorageService>(), _basePath);
+    }
+
+    [Fact]
+    public async Task KeysDifferingOnlyInCase_AreStoredSeparately()
+    {
+        // Arrange
+        var storage = CreateService();
+
+        // Act
+        await storage.SetAsync(PluginId, "Foo", "upper");
+        await storage.SetAsync(PluginId, "foo", "lower");
+
+        // Assert
+        Assert.Equal("upper", await storage.GetAsync(PluginId, "Foo"));
+        Assert.Equal("lower", await storage.GetAsync(PluginId, "foo"));
+        Assert.Equal(new[] { "Foo", "foo" }, storage.ListKeys(PluginId));
+        Assert.Equal(2, storage.GetUsage(PluginId).KeyCount);
+    }
+
+    [Fact]
+    public async Task ReservedAndLongKeys_RoundTrip()
+    {
+        // Arrange
+        var storage = CreateService();
+        var longKey = new string('k', 1000);
+
+        // Act
+        await storage.SetAsync(PluginId, "CON", "device");
+        await storage.SetAsync(PluginId, longKey, "long");
+        await storage.SetAsync(PluginId, "a/b:c\nd", "special");
+
+        // Assert
+        Assert.Equal("device", await storage.GetAsync(PluginId, "CON"));
+        Assert.Equal("long", await storage.GetAsync(PluginId, longKey));
+        Assert.Equal("special", await storage.GetAsync(PluginId, "a/b:c\nd"));
+        Assert.Equal(new[] { "CON", "a/b:c\nd", longKey }, storage.ListKeys(PluginId));
+    }
+
+    [Fact]
+    public async Task LegacyFiles_AreMigrated()
+    {
+        // Arrange
+        var pluginPath = Path.Combine(_basePath, PluginId);
+        Directory.CreateDirectory(pluginPath);
+        await File.WriteAllTextAsync(Path.Combine(pluginPath, $"{Uri.EscapeDataString("app:settings")}.txt"), "{}");
+
+        // Act
+        var storage = CreateService();
+
+        // Assert
+        Assert.Equal(new[] { "app:settings" }, storage.ListKeys(PluginId));
+        Assert.Equal("{}", await storage.GetAsync(PluginId, "app:settings"));
+        Assert.Empty(Directory.GetFiles(pluginPath, "*.txt"));
+    }
+}
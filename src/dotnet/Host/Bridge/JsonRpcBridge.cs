@@ -1,3 +1,4 @@
+using System.Collections.Concurrent;
 using System.Text.Json;
 using System.Text.Json.Serialization;
 using Microsoft.Extensions.Logging;
@@ -11,26 +12,82 @@ namespace DataverseDevKit.Host.Bridge;
 /// </summary>
 public class JsonRpcBridge
 {
+    /// <summary>
+    /// Notification sent by the frontend to cancel a pending request.
+    /// </summary>
+    public const string CancelRequestMethod = "$/cancelRequest";
+
+    /// <summary>
+    /// Request by which the page asks for the shell's session; the only one accepted without a session.
+    /// </summary>
+    public const string ShellConnectMethod = "shell.connect";
+
+    /// <summary>
+    /// Notification sent to the frontend for a request held until the user confirms it.
+    /// </summary>
+    public const string RequestHeldMethod = "$/requestHeld";
+
+    /// <summary>
+    /// Error code returned for requests cancelled by the frontend.
+    /// </summary>
+    public const int RequestCancelledCode = -32800;
+
+    /// <summary>
+    /// Error code returned when a storage write exceeds the plugin's quota.
+    /// </summary>
+    public const int StorageQuotaExceededCode = -32010;
+
+    /// <summary>
+    /// Error code returned when a plugin calls a method it has no permission for.
+    /// </summary>
+    public const int PermissionDeniedCode = -32011;
+
+    /// <summary>
+    /// Error code returned when a plugin uses a permission the user has not decided on yet.
+    /// </summary>
+    public const int PermissionConsentRequiredCode = -32012;
+
+    /// <summary>
+    /// Error code returned when the user declines a held plugin command.
+    /// </summary>
+    public const int InvokeDeclinedCode = -32013;
+
     private readonly ILogger<JsonRpcBridge> _logger;
     private readonly ConnectionService _connectionService;
     private readonly AuthService _authService;
+    private readonly ConnectionHealthService _connectionHealthService;
     private readonly PluginHostManager _pluginHostManager;
     private readonly StorageService _storageService;
+    private readonly PluginCatalogService _pluginCatalogService;
+    private readonly PluginPermissionService _permissionService;
+    private readonly InvokeGuardService _invokeGuardService;
+    private readonly AuditLogService _auditLogService;
     private readonly Dictionary<string, TaskCompletionSource<string>> _pendingRequests = new();
+    private readonly ConcurrentDictionary<string, CancellationTokenSource> _inFlightRequests = new();
     private readonly JsonSerializerOptions _jsonOptions;
 
     public JsonRpcBridge(
         ILogger<JsonRpcBridge> logger,
         ConnectionService connectionService,
         AuthService authService,
+        ConnectionHealthService connectionHealthService,
         PluginHostManager pluginHostManager,
-        StorageService storageService)
+        StorageService storageService,
+        PluginCatalogService pluginCatalogService,
+        PluginPermissionService permissionService,
+        InvokeGuardService invokeGuardService,
+        AuditLogService auditLogService)
     {
         _logger = logger;
         _connectionService = connectionService;
         _authService = authService;
+        _connectionHealthService = connectionHealthService;
         _pluginHostManager = pluginHostManager;
         _storageService = storageService;
+        _pluginCatalogService = pluginCatalogService;
+        _permissionService = permissionService;
+        _invokeGuardService = invokeGuardService;
+        _auditLogService = auditLogService;
         
         _jsonOptions = new JsonSerializerOptions
         {
@@ -39,20 +96,96 @@ public class JsonRpcBridge
         };
     }
 
+    /// <summary>
+    /// Handles a JSON-RPC message: a single request or notification, or a batch array of them.
+    /// Returns an empty string when there is nothing to answer (notifications only).
+    /// </summary>
     public async Task<string> HandleMessageAsync(string message)
     {
+        if (!message.TrimStart().StartsWith('['))
+        {
+            return await HandleRequestAsync(message);
+        }
+
+        JsonElement[] entries;
+        try
+        {
+            using var document = JsonDocument.Parse(message);
+            entries = document.RootElement.EnumerateArray().Select(e => e.Clone()).ToArray();
+        }
+        catch (JsonException ex)
+        {
+            _logger.LogError(ex, "Error parsing JSON-RPC batch");
+            return CreateErrorResponse(null, -32700, "Parse error");
+        }
+
+        if (entries.Length == 0)
+        {
+            return CreateErrorResponse(null, -32600, "Invalid Request: empty batch");
+        }
+
+        _logger.LogDebug("Handling JSON-RPC batch of {Count} messages", entries.Length);
+
+        // Batch entries run concurrently; the frontend correlates responses by id
+        var responses = await Task.WhenAll(entries.Select(e => HandleRequestAsync(e.GetRawText())));
+        var answered = responses.Where(r => !string.IsNullOrEmpty(r)).ToList();
+
+        return answered.Count == 0 ? string.Empty : $"[{string.Join(",", answered)}]";
+    }
+
+    /// <summary>
+    /// Handles a single JSON-RPC request. Returns an empty string for notifications,
+    /// which must not be answered.
+    /// </summary>
+    private async Task<string> HandleRequestAsync(string message)
+    {
+        JsonRpcRequest? request = null;
+        string? requestKey = null;
+        using var cts = new CancellationTokenSource();
+
         try
         {
-            var request = JsonSerializer.Deserialize<JsonRpcRequest>(message, _jsonOptions);
+            request = JsonSerializer.Deserialize<JsonRpcRequest>(message, _jsonOptions);
             
             if (request == null)
             {
                 return CreateErrorResponse(null, -32700, "Parse error");
             }
 
+            if (request.Method == CancelRequestMethod)
+            {
+                CancelRequest(request.Session, request.Params);
+                return string.Empty;
+            }
+
             _logger.LogDebug("Handling JSON-RPC request: {Method} (id: {Id})", request.Method, request.Id);
 
-            object? result = await DispatchMethodAsync(request.Method, request.Params);
+            if (request.Id != null)
+            {
+                requestKey = GetInFlightKey(request.Session, request.Id.ToString()!);
+                _inFlightRequests[requestKey] = cts;
+            }
+
+            // The session tells the shell and plugin instances apart; the caller a request claims is not trusted
+            RequestCaller? caller = null;
+            if (request.Method != ShellConnectMethod && !_permissionService.IsShellSession(request.Session))
+            {
+                caller = _permissionService.GetCaller(request.Session, request.Method);
+                await _permissionService.AuthorizeAsync(caller, request.Method, request.Params);
+            }
+
+            // Held here rather than in the shell, so no sender can get around the confirmation
+            if (request.Method == "plugin.invoke")
+            {
+                await _invokeGuardService.CheckAsync(caller, request.Id, request.Params, cts.Token);
+            }
+
+            object? result = await DispatchMethodAsync(request.Method, request.Params, cts.Token);
+
+            if (request.Id == null)
+            {
+                return string.Empty;
+            }
 
             var response = new JsonRpcResponse
             {
@@ -62,14 +195,80 @@ public async Task<string> HandleMessageAsync(string message)
 
             return JsonSerializer.Serialize(response, _jsonOptions);
         }
+        catch (OperationCanceledException)
+        {
+            _logger.LogInformation("JSON-RPC request cancelled: {Method} (id: {Id})", request?.Method, request?.Id);
+            return CreateErrorResponse(request?.Id, RequestCancelledCode, "Request cancelled");
+        }
+        catch (StorageQuotaExceededException ex) when (request?.Id != null)
+        {
+            _logger.LogWarning("{Message}", ex.Message);
+            return CreateErrorResponse(request.Id, StorageQuotaExceededCode, ex.Message);
+        }
+        catch (PermissionDeniedException ex) when (request?.Id != null)
+        {
+            _logger.LogWarning("{Message} (instance {InstanceId})", ex.Message, request.Caller?.InstanceId);
+            return CreateErrorResponse(request.Id, PermissionDeniedCode, ex.Message,
+                new { pluginId = ex.PluginId, permission = ex.Permission });
+        }
+        catch (PermissionConsentRequiredException ex) when (request?.Id != null)
+        {
+            _logger.LogInformation("{Message}", ex.Message);
+            return CreateErrorResponse(request.Id, PermissionConsentRequiredCode, ex.Message,
+                new { pluginId = ex.PluginId, permission = ex.Permission });
+        }
+        catch (InvokeDeclinedException ex) when (request?.Id != null)
+        {
+            _logger.LogInformation("{Message}", ex.Message);
+            return CreateErrorResponse(request.Id, InvokeDeclinedCode, ex.Message,
+                new { pluginId = ex.PluginId, command = ex.Command });
+        }
         catch (Exception ex)
         {
             _logger.LogError(ex, "Error handling JSON-RPC message");
-            return CreateErrorResponse(null, -32603, $"Internal error: {ex.Message}");
+            if (request != null && request.Id == null)
+            {
+                return string.Empty;
+            }
+            // Keep the id so the failure can be matched to its request within a batch
+            return CreateErrorResponse(request?.Id, -32603, $"Internal error: {ex.Message}");
+        }
+        finally
+        {
+            if (requestKey != null)
+            {
+                _inFlightRequests.TryRemove(requestKey, out _);
+            }
+        }
+    }
+
+    // Ids are only unique per sender, and a sender may only cancel its own requests
+    private static string GetInFlightKey(string? session, string id) => $"{session}|{id}";
+
+    private void CancelRequest(string? session, JsonElement? paramsElement)
+    {
+        if (!_permissionService.IsIssuedSession(session))
+        {
+            _logger.LogWarning("Ignoring {Method} without a valid session", CancelRequestMethod);
+            return;
+        }
+
+        var id = paramsElement?.TryGetProperty("id", out var idElement) == true
+            ? idElement.ToString()
+            : null;
+
+        if (id != null && _inFlightRequests.TryGetValue(GetInFlightKey(session, id), out var cts))
+        {
+            _logger.LogInformation("Cancelling JSON-RPC request {Id}", id);
+            cts.Cancel();
+        }
+        else
+        {
+            _logger.LogDebug("No in-flight request to cancel for id {Id}", id);
         }
     }
 
-    private async Task<object?> DispatchMethodAsync(string method, JsonElement? paramsElement)
+    private async Task<object?> DispatchMethodAsync(string method, JsonElement? paramsElement, CancellationToken cancellationToken)
     {
         var parts = method.Split('.');
         if (parts.Length != 2)
@@ -83,9 +282,12 @@ public async Task<string> HandleMessageAsync(string message)
         {
             "connection" => await HandleConnectionMethodAsync(methodName, paramsElement),
             "auth" => await HandleAuthMethodAsync(methodName, paramsElement),
-            "plugin" => await HandlePluginMethodAsync(methodName, paramsElement),
+            "plugin" => await HandlePluginMethodAsync(methodName, paramsElement, cancellationToken),
             "events" => await HandleEventsMethodAsync(methodName, paramsElement),
             "storage" => await HandleStorageMethodAsync(methodName, paramsElement),
+            "permissions" => await HandlePermissionsMethodAsync(methodName, paramsElement),
+            "audit" => await HandleAuditMethodAsync(methodName),
+            "shell" => HandleShellMethod(methodName, paramsElement),
             _ => throw new ArgumentException($"Unknown namespace: {namespace_}")
         };
     }
@@ -98,7 +300,9 @@ public async Task<string> HandleMessageAsync(string message)
             "get" => await _connectionService.GetConnectionAsync(GetParam<string>(paramsElement, "id")),
             "setActive" => await _connectionService.SetActiveConnectionAsync(GetParam<string>(paramsElement, "id")),
             "add" => await _connectionService.AddConnectionAsync(DeserializeParams<AddConnectionParams>(paramsElement)),
+            "update" => await _connectionService.UpdateConnectionAsync(DeserializeParams<UpdateConnectionParams>(paramsElement)),
             "remove" => await _connectionService.RemoveConnectionAsync(GetParam<string>(paramsElement, "id")),
+            "checkHealth" => await _connectionHealthService.CheckAsync(GetParam<string>(paramsElement, "id")),
             _ => throw new ArgumentException($"Unknown connection method: {method}")
         };
     }
@@ -111,20 +315,37 @@ public async Task<string> HandleMessageAsync(string message)
             "logout" => await _authService.LogoutAsync(),
             "getStatus" => await _authService.GetStatusAsync(),
             "reauthenticate" => await _authService.LoginAsync(GetParam<string>(paramsElement, "connectionId")),
+            "refresh" => await _authService.RefreshAsync(GetParam<string>(paramsElement, "connectionId")),
             _ => throw new ArgumentException($"Unknown auth method: {method}")
         };
     }
 
-    private async Task<object?> HandlePluginMethodAsync(string method, JsonElement? paramsElement)
+    private async Task<object?> HandlePluginMethodAsync(string method, JsonElement? paramsElement, CancellationToken cancellationToken)
     {
         return method switch
         {
             "list" => await _pluginHostManager.ListPluginsAsync(),
             "invoke" => await _pluginHostManager.InvokePluginCommandAsync(
                 GetParam<string>(paramsElement, "pluginId"),
+                PluginHostManager.GetConnectionInstanceId(GetOptionalParam<string>(paramsElement, "connectionId")),
                 GetParam<string>(paramsElement, "command"),
-                GetParam<string>(paramsElement, "payload")),
+                GetParam<string>(paramsElement, "payload"),
+                cancellationToken),
             "getCommands" => await _pluginHostManager.GetPluginCommandsAsync(GetParam<string>(paramsElement, "pluginId")),
+            "catalog" => await _pluginCatalogService.GetCatalogAsync(
+                GetOptionalParam<string>(paramsElement, "source"),
+                cancellationToken),
+            "install" => await _pluginCatalogService.InstallAsync(
+                GetOptionalParam<string>(paramsElement, "source"),
+                GetParam<string>(paramsElement, "pluginId"),
+                GetOptionalParam<string>(paramsElement, "progressToken"),
+                cancellationToken),
+            "update" => await _pluginCatalogService.UpdateAsync(
+                GetOptionalParam<string>(paramsElement, "source"),
+                GetParam<string>(paramsElement, "pluginId"),
+                GetOptionalParam<string>(paramsElement, "progressToken"),
+                cancellationToken),
+            "uninstall" => await _pluginCatalogService.UninstallAsync(GetParam<string>(paramsElement, "pluginId")),
             _ => throw new ArgumentException($"Unknown plugin method: {method}")
         };
     }
@@ -145,11 +366,77 @@ public async Task<string> HandleMessageAsync(string message)
             "set" => await _storageService.SetAsync(
                 GetParam<string>(paramsElement, "pluginId"),
                 GetParam<string>(paramsElement, "key"),
-                GetParam<string>(paramsElement, "value")),
+                GetParam<string>(paramsElement, "value"),
+                GetOptionalParam<string>(paramsElement, "origin")),
+            "delete" => await _storageService.DeleteAsync(
+                GetParam<string>(paramsElement, "pluginId"),
+                GetParam<string>(paramsElement, "key"),
+                GetOptionalParam<string>(paramsElement, "origin")),
+            "keys" => _storageService.ListKeys(
+                GetParam<string>(paramsElement, "pluginId"),
+                GetOptionalParam<string>(paramsElement, "prefix")),
+            "clear" => await _storageService.ClearAsync(
+                GetParam<string>(paramsElement, "pluginId"),
+                GetOptionalParam<string>(paramsElement, "prefix"),
+                GetOptionalParam<string>(paramsElement, "origin")),
+            "transaction" => await _storageService.TransactAsync(
+                GetParam<string>(paramsElement, "pluginId"),
+                GetParam<List<StorageOperation>>(paramsElement, "operations"),
+                GetOptionalParam<string>(paramsElement, "origin")),
+            "usage" => GetOptionalParam<string>(paramsElement, "pluginId") is { } pluginId
+                ? new[] { _storageService.GetUsage(pluginId) }
+                : _storageService.ListUsage(),
+            "setQuota" => await _storageService.SetQuotaAsync(
+                GetParam<string>(paramsElement, "pluginId"),
+                GetOptionalParam<long?>(paramsElement, "quotaBytes")),
             _ => throw new ArgumentException($"Unknown storage method: {method}")
         };
     }
 
+    private object? HandleShellMethod(string method, JsonElement? paramsElement)
+    {
+        switch (method)
+        {
+            case "connect":
+                _permissionService.RequestShellSession();
+                return new { connected = true };
+            case "registerCaller":
+                return new { session = _permissionService.RegisterCaller(DeserializeParams<RequestCaller>(paramsElement)) };
+            case "confirmInvoke":
+                return _invokeGuardService.Confirm(
+                    GetParam<string>(paramsElement, "id"),
+                    GetParam<bool>(paramsElement, "confirmed"));
+            default:
+                throw new ArgumentException($"Unknown shell method: {method}");
+        }
+    }
+
+    private async Task<object?> HandlePermissionsMethodAsync(string method, JsonElement? paramsElement)
+    {
+        return method switch
+        {
+            "list" => _permissionService.ListGrants(GetOptionalParam<string>(paramsElement, "pluginId")),
+            "set" => await _permissionService.SetGrantAsync(
+                GetParam<string>(paramsElement, "pluginId"),
+                GetParam<string>(paramsElement, "permission"),
+                GetParam<bool>(paramsElement, "granted")),
+            "reset" => await _permissionService.ResetAsync(
+                GetParam<string>(paramsElement, "pluginId"),
+                GetOptionalParam<string>(paramsElement, "permission")),
+            _ => throw new ArgumentException($"Unknown permissions method: {method}")
+        };
+    }
+
+    private async Task<object?> HandleAuditMethodAsync(string method)
+    {
+        return method switch
+        {
+            "list" => _auditLogService.ListEntries(),
+            "clear" => await _auditLogService.ClearAsync(),
+            _ => throw new ArgumentException($"Unknown audit method: {method}")
+        };
+    }
+
     private T GetParam<T>(JsonElement? paramsElement, string paramName)
     {
         if (paramsElement == null || paramsElement.Value.ValueKind == JsonValueKind.Null)
@@ -165,6 +452,16 @@ private T GetParam<T>(JsonElement? paramsElement, string paramName)
         throw new ArgumentException($"Missing parameter: {paramName}");
     }
 
+    private T? GetOptionalParam<T>(JsonElement? paramsElement, string paramName)
+    {
+        if (paramsElement?.TryGetProperty(paramName, out var prop) == true && prop.ValueKind != JsonValueKind.Null)
+        {
+            return JsonSerializer.Deserialize<T>(prop.GetRawText(), _jsonOptions);
+        }
+
+        return default;
+    }
+
     private T DeserializeParams<T>(JsonElement? paramsElement)
     {
         if (paramsElement == null)
@@ -175,7 +472,7 @@ private T DeserializeParams<T>(JsonElement? paramsElement)
         return JsonSerializer.Deserialize<T>(paramsElement.Value.GetRawText(), _jsonOptions)!;
     }
 
-    private string CreateErrorResponse(object? id, int code, string message)
+    private string CreateErrorResponse(object? id, int code, string message, object? data = null)
     {
         var response = new JsonRpcErrorResponse
         {
@@ -183,7 +480,8 @@ private string CreateErrorResponse(object? id, int code, string message)
             Error = new JsonRpcError
             {
                 Code = code,
-                Message = message
+                Message = message,
+                Data = data
             }
         };
 
@@ -197,6 +495,15 @@ internal record JsonRpcRequest
     public object? Id { get; init; }
     public required string Method { get; init; }
     public JsonElement? Params { get; init; }
+    /// <summary>
+    /// Plugin instance that made the request; absent for requests of the shell.
+    /// Informational only, the host goes by <see cref="Session"/>.
+    /// </summary>
+    public RequestCaller? Caller { get; init; }
+    /// <summary>
+    /// Session of the shell or of the plugin instance that made the request.
+    /// </summary>
+    public string? Session { get; init; }
 }
 
 internal record JsonRpcResponse
@@ -215,4 +522,5 @@ internal record JsonRpcError
 {
     public int Code { get; init; }
     public required string Message { get; init; }
+    public object? Data { get; init; }
 }
@@ -1,4 +1,5 @@
 using DataverseDevKit.Host.Bridge;
+using DataverseDevKit.Core.Models;
 using DataverseDevKit.Host.Services;
 using Microsoft.Extensions.Logging;
 using System.Text.Json;
@@ -7,15 +8,38 @@ namespace DataverseDevKit.Host;
 
 public partial class MainPage : ContentPage
 {
+    /// <summary>
+    /// Global function the shell installs to receive its session (SHELL_SESSION_HOOK in the host SDK).
+    /// </summary>
+    private const string ShellSessionHook = "__ddkShellSession";
+
     private readonly JsonRpcBridge _bridge;
     private readonly PluginHostManager _pluginHostManager;
+    private readonly StorageService _storageService;
+    private readonly PluginCatalogService _pluginCatalogService;
+    private readonly TokenProviderService _tokenProvider;
+    private readonly PluginPermissionService _permissionService;
+    private readonly InvokeGuardService _invokeGuardService;
     private readonly ILogger<MainPage> _logger;
 
-    public MainPage(JsonRpcBridge bridge, PluginHostManager pluginHostManager, ILogger<MainPage> logger)
+    public MainPage(
+        JsonRpcBridge bridge,
+        PluginHostManager pluginHostManager,
+        StorageService storageService,
+        PluginCatalogService pluginCatalogService,
+        TokenProviderService tokenProvider,
+        PluginPermissionService permissionService,
+        InvokeGuardService invokeGuardService,
+        ILogger<MainPage> logger)
     {
         InitializeComponent();
         _bridge = bridge;
         _pluginHostManager = pluginHostManager;
+        _storageService = storageService;
+        _pluginCatalogService = pluginCatalogService;
+        _tokenProvider = tokenProvider;
+        _permissionService = permissionService;
+        _invokeGuardService = invokeGuardService;
         _logger = logger;
 
 # if DEBUG
@@ -29,6 +53,21 @@ public MainPage(JsonRpcBridge bridge, PluginHostManager pluginHostManager, ILogg
         
         // Subscribe to plugin events
         _pluginHostManager.PluginEventReceived += OnPluginEventReceived;
+
+        // Let other tabs of a plugin react to its storage changes
+        _storageService.StorageChanged += OnStorageChanged;
+
+        // Progress of plugin installs and updates
+        _pluginCatalogService.ProgressReported += OnCatalogProgress;
+
+        // Codes of device code sign-ins, shown by the shell
+        _tokenProvider.DeviceCodeReceived += OnDeviceCodeReceived;
+
+        // The shell's session goes to the hook the shell installed, never through the message channel
+        _permissionService.ShellSessionRequested += OnShellSessionRequested;
+
+        // Plugin commands on production connections wait for the user's answer in the shell
+        _invokeGuardService.ConfirmationRequested += OnInvokeConfirmationRequested;
         
         _logger.LogInformation("HybridWebView initialized with DefaultFile: {DefaultFile}", hybridWebView.DefaultFile);
     }
@@ -100,27 +139,153 @@ private async void OnPluginEventReceived(object? sender, PluginEventArgs e)
                 PropertyNamingPolicy = JsonNamingPolicy.CamelCase 
             });
 
-            // Marshal to UI thread before interacting with WebView (COM component)
-            await Dispatcher.DispatchAsync(async () =>
+            await ForwardEventAsync(eventJson, evt.Type);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error forwarding plugin event to frontend");
+        }
+    }
+
+    private async void OnStorageChanged(object? sender, StorageChangedEventArgs e)
+    {
+        try
+        {
+            var eventJson = JsonSerializer.Serialize(new
             {
-                try
-                {
-                    // Encode event as base64 to avoid escaping issues
-                    var base64Event = Convert.ToBase64String(System.Text.Encoding.UTF8.GetBytes(eventJson));
-                    var script = $"window.__ddkBridge.handleResponse('{base64Event}');";
-                    await hybridWebView.EvaluateJavaScriptAsync(script);
-                    
-                    _logger.LogInformation("✅ Event forwarded to frontend: {EventType}", evt.Type);
-                }
-                catch (Exception ex)
+                pluginId = e.PluginId,
+                type = StorageService.ChangedEventType,
+                payload = new { keys = e.Keys, origin = e.Origin },
+                timestamp = DateTimeOffset.UtcNow.ToUnixTimeMilliseconds()
+            });
+
+            await ForwardEventAsync(eventJson, StorageService.ChangedEventType);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error forwarding storage change to frontend");
+        }
+    }
+
+    private async void OnCatalogProgress(object? sender, ProgressUpdate update)
+    {
+        try
+        {
+            var eventJson = JsonSerializer.Serialize(new
+            {
+                pluginId = "host",
+                type = ProgressUpdate.EventType,
+                payload = update,
+                timestamp = DateTimeOffset.UtcNow.ToUnixTimeMilliseconds()
+            }, new JsonSerializerOptions
+            {
+                PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+                DefaultIgnoreCondition = System.Text.Json.Serialization.JsonIgnoreCondition.WhenWritingNull
+            });
+
+            await ForwardEventAsync(eventJson, ProgressUpdate.EventType);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error forwarding install progress to frontend");
+        }
+    }
+
+    private async void OnDeviceCodeReceived(object? sender, DeviceCodeEventArgs e)
+    {
+        try
+        {
+            var eventJson = JsonSerializer.Serialize(new
+            {
+                pluginId = "host",
+                type = TokenProviderService.DeviceCodeEventType,
+                payload = new
                 {
-                    _logger.LogError(ex, "Error evaluating JavaScript in WebView");
-                }
+                    connectionId = e.ConnectionId,
+                    userCode = e.UserCode,
+                    verificationUrl = e.VerificationUrl,
+                    message = e.Message,
+                    expiresOn = e.ExpiresOn
+                },
+                timestamp = DateTimeOffset.UtcNow.ToUnixTimeMilliseconds()
             });
+
+            await ForwardEventAsync(eventJson, TokenProviderService.DeviceCodeEventType);
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error forwarding plugin event to frontend");
+            _logger.LogError(ex, "Error forwarding device code to frontend");
+        }
+    }
+
+    private async void OnInvokeConfirmationRequested(object? sender, InvokeConfirmationEventArgs e)
+    {
+        try
+        {
+            var jsonOptions = new JsonSerializerOptions
+            {
+                PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+                DefaultIgnoreCondition = System.Text.Json.Serialization.JsonIgnoreCondition.WhenWritingNull
+            };
+
+            // The bridge stops timing the request out, then the shell asks the user
+            var heldJson = JsonSerializer.Serialize(new
+            {
+                jsonrpc = "2.0",
+                method = JsonRpcBridge.RequestHeldMethod,
+                @params = new { id = e.RequestId }
+            }, jsonOptions);
+            await ForwardEventAsync(heldJson, JsonRpcBridge.RequestHeldMethod);
+
+            var eventJson = JsonSerializer.Serialize(new
+            {
+                pluginId = "host",
+                type = InvokeGuardService.ConfirmEventType,
+                payload = e.Request,
+                timestamp = DateTimeOffset.UtcNow.ToUnixTimeMilliseconds()
+            }, jsonOptions);
+            await ForwardEventAsync(eventJson, InvokeGuardService.ConfirmEventType);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error forwarding a held plugin command to frontend");
         }
     }
+
+    private async void OnShellSessionRequested(object? sender, string session)
+    {
+        try
+        {
+            await Dispatcher.DispatchAsync(async () =>
+            {
+                var script = $"window.{ShellSessionHook}?.('{session}');";
+                await hybridWebView.EvaluateJavaScriptAsync(script);
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error handing the shell session to the WebView");
+        }
+    }
+
+    private async Task ForwardEventAsync(string eventJson, string eventType)
+    {
+        // Marshal to UI thread before interacting with WebView (COM component)
+        await Dispatcher.DispatchAsync(async () =>
+        {
+            try
+            {
+                // Encode event as base64 to avoid escaping issues
+                var base64Event = Convert.ToBase64String(System.Text.Encoding.UTF8.GetBytes(eventJson));
+                var script = $"window.__ddkBridge.handleResponse('{base64Event}');";
+                await hybridWebView.EvaluateJavaScriptAsync(script);
+                
+                _logger.LogInformation("✅ Event forwarded to frontend: {EventType}", eventType);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error evaluating JavaScript in WebView");
+            }
+        });
+    }
 }
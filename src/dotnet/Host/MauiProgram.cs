@@ -36,8 +36,13 @@ public static MauiApp CreateMauiApp()
         builder.Services.AddSingleton<TokenProviderService>();
         builder.Services.AddSingleton<TokenCallbackServer>();
         builder.Services.AddSingleton<AuthService>();
+        builder.Services.AddSingleton<ConnectionHealthService>();
         builder.Services.AddSingleton<StorageService>();
         builder.Services.AddSingleton<PluginHostManager>();
+        builder.Services.AddSingleton<PluginCatalogService>();
+        builder.Services.AddSingleton<PluginPermissionService>();
+        builder.Services.AddSingleton<AuditLogService>();
+        builder.Services.AddSingleton<InvokeGuardService>();
         builder.Services.AddSingleton<JsonRpcBridge>();
 
 #if DEBUG
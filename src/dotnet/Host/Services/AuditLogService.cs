@@ -0,0 +1,140 @@
+using System.Text.Json;
+using Microsoft.Extensions.Logging;
+
+namespace DataverseDevKit.Host.Services;
+
+/// <summary>
+/// Audit trail of the plugin commands <see cref="InvokeGuardService"/> held on production
+/// connections, newest first, with the user's answer. It is kept by the host and can only
+/// be read and cleared by the shell, so plugins sharing the page cannot rewrite it.
+/// </summary>
+public class AuditLogService
+{
+    /// <summary>
+    /// Entries kept; older ones are dropped.
+    /// </summary>
+    public const int MaxEntries = 500;
+
+    // Payloads are cut so a single bulk command can't fill the file
+    private const int MaxPayloadLength = 2000;
+    private const string AuditFileName = "audit.json";
+
+    private readonly ILogger<AuditLogService> _logger;
+    private readonly string _auditPath;
+    private readonly List<InvokeAuditEntry> _entries;
+
+    public AuditLogService(ILogger<AuditLogService> logger)
+    {
+        _logger = logger;
+
+        var basePath = Path.Combine(
+            Environment.GetFolderPath(Environment.SpecialFolder.LocalApplicationData),
+            "DataverseDevKit");
+        Directory.CreateDirectory(basePath);
+        _auditPath = Path.Combine(basePath, AuditFileName);
+        _entries = LoadEntries();
+    }
+
+    /// <summary>
+    /// Records the user's answer to a held command.
+    /// </summary>
+    public async Task<InvokeAuditEntry> RecordAsync(InvokeConfirmationRequest request, bool confirmed)
+    {
+        var entry = new InvokeAuditEntry
+        {
+            Id = request.Id,
+            PluginId = request.PluginId,
+            PluginName = request.PluginName,
+            Command = request.Command,
+            CommandLabel = request.CommandLabel,
+            SideEffects = request.SideEffects,
+            Payload = request.Payload.Length > MaxPayloadLength
+                ? $"{request.Payload[..MaxPayloadLength]}…"
+                : request.Payload,
+            ConnectionId = request.ConnectionId,
+            ConnectionName = request.ConnectionName,
+            ConnectionUrl = request.ConnectionUrl,
+            Caller = request.Caller,
+            Confirmed = confirmed,
+            OccurredAt = DateTimeOffset.UtcNow
+        };
+
+        lock (_entries)
+        {
+            _entries.Insert(0, entry);
+            if (_entries.Count > MaxEntries)
+            {
+                _entries.RemoveRange(MaxEntries, _entries.Count - MaxEntries);
+            }
+        }
+
+        await SaveEntriesAsync();
+        _logger.LogInformation("{PluginId}.{Command} on {Connection} {Decision}",
+            entry.PluginId, entry.Command, entry.ConnectionName, confirmed ? "confirmed" : "declined");
+        return entry;
+    }
+
+    public List<InvokeAuditEntry> ListEntries()
+    {
+        lock (_entries)
+        {
+            return _entries.ToList();
+        }
+    }
+
+    /// <summary>
+    /// Empties the audit trail. Returns the number of entries removed.
+    /// </summary>
+    public async Task<int> ClearAsync()
+    {
+        int removed;
+        lock (_entries)
+        {
+            removed = _entries.Count;
+            _entries.Clear();
+        }
+
+        await SaveEntriesAsync();
+        return removed;
+    }
+
+    private List<InvokeAuditEntry> LoadEntries()
+    {
+        if (!File.Exists(_auditPath))
+        {
+            return [];
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<List<InvokeAuditEntry>>(File.ReadAllText(_auditPath)) ?? [];
+        }
+        catch (JsonException ex)
+        {
+            _logger.LogWarning(ex, "Ignoring unreadable audit file");
+            return [];
+        }
+    }
+
+    private async Task SaveEntriesAsync()
+    {
+        string json;
+        lock (_entries)
+        {
+            json = JsonSerializer.Serialize(_entries);
+        }
+        await File.WriteAllTextAsync(_auditPath, json);
+    }
+}
+
+/// <summary>
+/// A held command as recorded in the audit trail.
+/// </summary>
+public record InvokeAuditEntry : InvokeConfirmationRequest
+{
+    /// <summary>
+    /// Whether the user confirmed the command; declined commands never reached the plugin.
+    /// </summary>
+    public bool Confirmed { get; init; }
+    public DateTimeOffset OccurredAt { get; init; }
+}
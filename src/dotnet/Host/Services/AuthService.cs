@@ -27,6 +27,15 @@ public async Task<AuthResult> LoginAsync(string connectionId)
         return await _tokenProvider.LoginInteractiveAsync(connectionId);
     }
 
+    /// <summary>
+    /// Refreshes the access token of a connection silently, before it expires.
+    /// </summary>
+    public async Task<AuthResult> RefreshAsync(string connectionId)
+    {
+        _logger.LogInformation("Token refresh requested for connection: {ConnectionId}", connectionId);
+        return await _tokenProvider.RefreshAsync(connectionId);
+    }
+
     /// <summary>
     /// Signs out from the current connection.
     /// </summary>
@@ -0,0 +1,92 @@
+using System.Diagnostics;
+using System.Net.Http.Headers;
+using System.Text.Json;
+using Microsoft.Extensions.Logging;
+
+namespace DataverseDevKit.Host.Services;
+
+/// <summary>
+/// Checks whether a connection's Dataverse environment is reachable with its
+/// current token, measuring the latency and reading the organization version.
+/// </summary>
+public sealed class ConnectionHealthService : IDisposable
+{
+    private readonly ILogger<ConnectionHealthService> _logger;
+    private readonly ConnectionService _connectionService;
+    private readonly TokenProviderService _tokenProvider;
+    private readonly HttpClient _httpClient;
+
+    public ConnectionHealthService(
+        ILogger<ConnectionHealthService> logger,
+        ConnectionService connectionService,
+        TokenProviderService tokenProvider)
+    {
+        _logger = logger;
+        _connectionService = connectionService;
+        _tokenProvider = tokenProvider;
+        _httpClient = new HttpClient { Timeout = TimeSpan.FromSeconds(15) };
+    }
+
+    /// <summary>
+    /// Calls <c>RetrieveVersion</c> on the connection's environment and records the
+    /// outcome on the connection. Failures are reported in the result, not thrown.
+    /// </summary>
+    public async Task<ConnectionHealth> CheckAsync(string connectionId, CancellationToken cancellationToken = default)
+    {
+        var connection = await _connectionService.GetConnectionAsync(connectionId)
+            ?? throw new ArgumentException($"Connection not found: {connectionId}");
+
+        ConnectionHealth health;
+        try
+        {
+            var token = await _tokenProvider.GetAccessTokenAsync(connectionId, cancellationToken);
+            await _connectionService.UpdateTokenExpiryAsync(connectionId, token.ExpiresOn);
+
+            using var request = new HttpRequestMessage(
+                HttpMethod.Get,
+                $"{connection.Url.TrimEnd('/')}/api/data/v9.2/RetrieveVersion()");
+            request.Headers.Authorization = new AuthenticationHeaderValue("Bearer", token.AccessToken);
+            request.Headers.Accept.Add(new MediaTypeWithQualityHeaderValue("application/json"));
+
+            var stopwatch = Stopwatch.StartNew();
+            using var response = await _httpClient.SendAsync(request, cancellationToken);
+            stopwatch.Stop();
+            response.EnsureSuccessStatusCode();
+
+            using var body = await JsonDocument.ParseAsync(
+                await response.Content.ReadAsStreamAsync(cancellationToken),
+                cancellationToken: cancellationToken);
+            var version = body.RootElement.TryGetProperty("Version", out var versionElement)
+                ? versionElement.GetString()
+                : null;
+
+            health = new ConnectionHealth
+            {
+                CheckedAt = DateTimeOffset.UtcNow,
+                IsHealthy = true,
+                LatencyMs = stopwatch.ElapsedMilliseconds,
+                OrganizationVersion = version,
+                User = connection.AuthenticatedUser
+            };
+        }
+        catch (Exception ex) when (ex is not OperationCanceledException || !cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogWarning("Health check failed for connection {ConnectionName}: {Message}", connection.Name, ex.Message);
+            health = new ConnectionHealth
+            {
+                CheckedAt = DateTimeOffset.UtcNow,
+                IsHealthy = false,
+                User = connection.AuthenticatedUser,
+                Error = ex.Message
+            };
+        }
+
+        await _connectionService.UpdateHealthAsync(connectionId, health);
+        return health;
+    }
+
+    public void Dispose()
+    {
+        _httpClient.Dispose();
+    }
+}
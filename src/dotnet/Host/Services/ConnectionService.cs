@@ -1,10 +1,14 @@
 using System.Text.Json;
+using System.Text.RegularExpressions;
 using Microsoft.Extensions.Logging;
+using Microsoft.Maui.Storage;
 
 namespace DataverseDevKit.Host.Services;
 
 /// <summary>
 /// Manages Dataverse connections with file-based persistence.
+/// Client secrets and certificate passwords are kept in the platform's secure storage,
+/// never in the connections file.
 /// </summary>
 public sealed class ConnectionService : IDisposable
 {
@@ -21,6 +25,15 @@ public sealed class ConnectionService : IDisposable
         PropertyNamingPolicy = JsonNamingPolicy.CamelCase
     };
 
+    /// <summary>
+    /// Names of the secrets kept in secure storage, per connection.
+    /// </summary>
+    public const string ClientSecretName = "clientSecret";
+    public const string CertificatePasswordName = "certificatePassword";
+
+    private static readonly Regex ThumbprintPattern = new("^[0-9A-F]{40}$");
+    private static readonly Regex CertificateFilePattern = new(@"\.(pfx|p12)$", RegexOptions.IgnoreCase);
+
     public ConnectionService(ILogger<ConnectionService> logger)
     {
         _logger = logger;
@@ -136,7 +149,11 @@ public async Task<Connection> SetActiveConnectionAsync(string id)
     public async Task<Connection> AddConnectionAsync(AddConnectionParams params_)
     {
         await EnsureInitializedAsync();
-        
+
+        ValidateAuthSettings(params_);
+        var authType = params_.AuthType ?? AuthTypes.OAuth;
+        var appOnly = authType is AuthTypes.ClientSecret or AuthTypes.Certificate or AuthTypes.ManagedIdentity;
+
         var connection = new Connection
         {
             Id = Guid.NewGuid().ToString(),
@@ -144,11 +161,61 @@ public async Task<Connection> AddConnectionAsync(AddConnectionParams params_)
             Url = params_.Url,
             IsActive = false,
             IsAuthenticated = false,
-            AuthenticatedUser = null
+            AuthenticatedUser = null,
+            Environment = ValidateEnvironment(params_.Environment),
+            AuthType = authType,
+            ClientId = appOnly ? NullIfEmpty(params_.ClientId) : null,
+            TenantId = appOnly ? NullIfEmpty(params_.TenantId) : null,
+            CertificateThumbprint = authType == AuthTypes.Certificate && !string.IsNullOrWhiteSpace(params_.CertificateThumbprint)
+                ? NormalizeThumbprint(params_.CertificateThumbprint)
+                : null,
+            CertificatePath = authType == AuthTypes.Certificate ? NullIfEmpty(params_.CertificatePath) : null
         };
 
+        if (authType == AuthTypes.ClientSecret)
+        {
+            await SecureStorage.Default.SetAsync(SecretKey(connection.Id, ClientSecretName), params_.ClientSecret!);
+        }
+        else if (connection.CertificatePath != null && !string.IsNullOrEmpty(params_.CertificatePassword))
+        {
+            await SecureStorage.Default.SetAsync(SecretKey(connection.Id, CertificatePasswordName), params_.CertificatePassword);
+        }
+
         _connections.Add(connection);
-        _logger.LogInformation("Connection added: {Name}", connection.Name);
+        _logger.LogInformation("Connection added: {Name} ({AuthType})", connection.Name, connection.AuthType);
+        await SaveAsync();
+
+        return connection;
+    }
+
+    /// <summary>
+    /// Reads the client secret or certificate password of a connection from secure storage.
+    /// </summary>
+    public Task<string?> GetSecretAsync(string connectionId, string name)
+    {
+        return SecureStorage.Default.GetAsync(SecretKey(connectionId, name));
+    }
+
+    /// <summary>
+    /// Renames a connection or changes its environment tag. An empty environment removes the tag.
+    /// </summary>
+    public async Task<Connection> UpdateConnectionAsync(UpdateConnectionParams params_)
+    {
+        await EnsureInitializedAsync();
+
+        var connection = _connections.FirstOrDefault(c => c.Id == params_.Id)
+            ?? throw new ArgumentException($"Connection not found: {params_.Id}");
+
+        if (!string.IsNullOrWhiteSpace(params_.Name))
+        {
+            connection.Name = params_.Name;
+        }
+        if (params_.Environment != null)
+        {
+            connection.Environment = ValidateEnvironment(params_.Environment);
+        }
+
+        _logger.LogInformation("Connection updated: {Name} ({Environment})", connection.Name, connection.Environment ?? "untagged");
         await SaveAsync();
 
         return connection;
@@ -165,6 +232,8 @@ public async Task<bool> RemoveConnectionAsync(string id)
         }
 
         _connections.Remove(connection);
+        SecureStorage.Default.Remove(SecretKey(id, ClientSecretName));
+        SecureStorage.Default.Remove(SecretKey(id, CertificatePasswordName));
         _logger.LogInformation("Connection removed: {Name}", connection.Name);
         await SaveAsync();
 
@@ -175,7 +244,7 @@ public async Task<bool> RemoveConnectionAsync(string id)
     /// Updates the authentication state for a connection.
     /// Called by TokenProviderService after login/logout.
     /// </summary>
-    public async Task UpdateAuthStateAsync(string connectionId, bool isAuthenticated, string? user)
+    public async Task UpdateAuthStateAsync(string connectionId, bool isAuthenticated, string? user, DateTimeOffset? expiresOn = null)
     {
         await EnsureInitializedAsync();
         
@@ -184,12 +253,147 @@ public async Task UpdateAuthStateAsync(string connectionId, bool isAuthenticated
         {
             connection.IsAuthenticated = isAuthenticated;
             connection.AuthenticatedUser = user;
+            connection.ExpiresOn = isAuthenticated ? expiresOn : null;
+            if (!isAuthenticated)
+            {
+                connection.Health = null;
+            }
             _logger.LogInformation("Connection {Name} auth state updated: {IsAuth}, user: {User}", 
                 connection.Name, isAuthenticated, user);
             await SaveAsync();
         }
     }
 
+    /// <summary>
+    /// Updates when the access token of a connection expires, e.g. after a silent refresh.
+    /// </summary>
+    public async Task UpdateTokenExpiryAsync(string connectionId, DateTimeOffset expiresOn)
+    {
+        await EnsureInitializedAsync();
+
+        var connection = _connections.FirstOrDefault(c => c.Id == connectionId);
+        if (connection != null && connection.ExpiresOn != expiresOn)
+        {
+            connection.ExpiresOn = expiresOn;
+            await SaveAsync();
+        }
+    }
+
+    /// <summary>
+    /// Records the result of the latest health check of a connection.
+    /// </summary>
+    public async Task UpdateHealthAsync(string connectionId, ConnectionHealth health)
+    {
+        await EnsureInitializedAsync();
+
+        var connection = _connections.FirstOrDefault(c => c.Id == connectionId);
+        if (connection != null)
+        {
+            connection.Health = health;
+            await SaveAsync();
+        }
+    }
+
+    /// <summary>
+    /// Checks that a new connection has the settings its auth type needs. Mirrors
+    /// <c>validateConnectionParams</c> of the host SDK.
+    /// </summary>
+    private static void ValidateAuthSettings(AddConnectionParams params_)
+    {
+        if (string.IsNullOrWhiteSpace(params_.Name))
+        {
+            throw new ArgumentException("Name is required");
+        }
+        if (!Uri.TryCreate(params_.Url?.Trim(), UriKind.Absolute, out var url) || url.Scheme != Uri.UriSchemeHttps)
+        {
+            throw new ArgumentException("URL must be an https:// address, e.g. https://yourorg.crm.dynamics.com");
+        }
+
+        switch (params_.AuthType ?? AuthTypes.OAuth)
+        {
+            case AuthTypes.OAuth:
+            case AuthTypes.DeviceCode:
+                break;
+            case AuthTypes.ClientSecret:
+                RequireClientId(params_.ClientId);
+                Require(params_.TenantId, "Tenant ID");
+                Require(params_.ClientSecret, "Client secret");
+                break;
+            case AuthTypes.Certificate:
+                RequireClientId(params_.ClientId);
+                Require(params_.TenantId, "Tenant ID");
+                var hasThumbprint = !string.IsNullOrWhiteSpace(params_.CertificateThumbprint);
+                var hasPath = !string.IsNullOrWhiteSpace(params_.CertificatePath);
+                if (hasThumbprint == hasPath)
+                {
+                    throw new ArgumentException(hasThumbprint
+                        ? "Use either a thumbprint or a certificate file, not both"
+                        : "A certificate thumbprint or file is required");
+                }
+                if (hasThumbprint && !ThumbprintPattern.IsMatch(NormalizeThumbprint(params_.CertificateThumbprint!)))
+                {
+                    throw new ArgumentException("Thumbprint must be 40 hexadecimal characters");
+                }
+                if (hasPath && !CertificateFilePattern.IsMatch(params_.CertificatePath!.Trim()))
+                {
+                    throw new ArgumentException("Certificate file must be a .pfx or .p12 file");
+                }
+                break;
+            case AuthTypes.ManagedIdentity:
+                if (!string.IsNullOrWhiteSpace(params_.ClientId))
+                {
+                    RequireClientId(params_.ClientId);
+                }
+                break;
+            default:
+                throw new ArgumentException($"Unknown auth type: {params_.AuthType}");
+        }
+
+        static void Require(string? value, string label)
+        {
+            if (string.IsNullOrWhiteSpace(value))
+            {
+                throw new ArgumentException($"{label} is required");
+            }
+        }
+
+        static void RequireClientId(string? clientId)
+        {
+            Require(clientId, "Client ID");
+            if (!Guid.TryParse(clientId, out _))
+            {
+                throw new ArgumentException("Client ID must be a GUID");
+            }
+        }
+    }
+
+    /// <summary>
+    /// Removes the spaces and colons certificate viewers put between the bytes of a thumbprint.
+    /// </summary>
+    private static string NormalizeThumbprint(string thumbprint)
+    {
+        return Regex.Replace(thumbprint, @"[\s:]", string.Empty).ToUpperInvariant();
+    }
+
+    private static string? NullIfEmpty(string? value)
+    {
+        return string.IsNullOrWhiteSpace(value) ? null : value.Trim();
+    }
+
+    private static string SecretKey(string connectionId, string name) => $"connection:{connectionId}:{name}";
+
+    private static string? ValidateEnvironment(string? environment)
+    {
+        if (string.IsNullOrEmpty(environment))
+        {
+            return null;
+        }
+
+        return Connection.Environments.Contains(environment)
+            ? environment
+            : throw new ArgumentException($"Unknown environment: {environment}");
+    }
+
     /// <summary>
     /// Data structure for JSON persistence.
     /// </summary>
@@ -208,16 +412,107 @@ public void Dispose()
 
 public record Connection
 {
+    /// <summary>
+    /// Environment tags a connection can have.
+    /// </summary>
+    public static readonly string[] Environments = ["dev", "test", "prod"];
+
     public required string Id { get; init; }
-    public required string Name { get; init; }
+    public required string Name { get; set; }
     public required string Url { get; init; }
     public bool IsActive { get; set; }
     public bool IsAuthenticated { get; set; }
     public string? AuthenticatedUser { get; set; }
+
+    /// <summary>
+    /// How the host signs in; one of <see cref="AuthTypes"/>. Connections saved
+    /// before auth types were introduced use OAuth.
+    /// </summary>
+    public string AuthType { get; init; } = AuthTypes.OAuth;
+
+    /// <summary>
+    /// App registration (ClientSecret, Certificate) or user-assigned managed identity to sign in as.
+    /// </summary>
+    public string? ClientId { get; init; }
+    public string? TenantId { get; init; }
+
+    /// <summary>
+    /// Certificate in the current user's store, for the Certificate auth type.
+    /// </summary>
+    public string? CertificateThumbprint { get; init; }
+
+    /// <summary>
+    /// PFX file with the certificate and its private key; alternative to the thumbprint.
+    /// </summary>
+    public string? CertificatePath { get; init; }
+
+    /// <summary>
+    /// Environment tag (dev, test or prod), or null when untagged.
+    /// </summary>
+    public string? Environment { get; set; }
+
+    /// <summary>
+    /// When the current access token expires; null while signed out.
+    /// </summary>
+    public DateTimeOffset? ExpiresOn { get; set; }
+
+    /// <summary>
+    /// Result of the latest health check, if any.
+    /// </summary>
+    public ConnectionHealth? Health { get; set; }
+}
+
+/// <summary>
+/// Outcome of a round trip to a connection's Dataverse environment.
+/// </summary>
+public record ConnectionHealth
+{
+    public DateTimeOffset CheckedAt { get; init; }
+    public bool IsHealthy { get; init; }
+
+    /// <summary>
+    /// Duration of the request to the environment, in milliseconds.
+    /// </summary>
+    public long? LatencyMs { get; init; }
+
+    public string? OrganizationVersion { get; init; }
+    public string? User { get; init; }
+    public string? Error { get; init; }
+}
+
+/// <summary>
+/// Ways the host can sign in to a connection.
+/// </summary>
+public static class AuthTypes
+{
+    public const string OAuth = "OAuth";
+    public const string DeviceCode = "DeviceCode";
+    public const string ClientSecret = "ClientSecret";
+    public const string Certificate = "Certificate";
+    public const string ManagedIdentity = "ManagedIdentity";
 }
 
 public record AddConnectionParams
 {
     public required string Name { get; init; }
     public required string Url { get; init; }
+    public string? Environment { get; init; }
+    public string? AuthType { get; init; }
+    public string? ClientId { get; init; }
+    public string? ClientSecret { get; init; }
+    public string? TenantId { get; init; }
+    public string? CertificateThumbprint { get; init; }
+    public string? CertificatePath { get; init; }
+    public string? CertificatePassword { get; init; }
+}
+
+public record UpdateConnectionParams
+{
+    public required string Id { get; init; }
+    public string? Name { get; init; }
+
+    /// <summary>
+    /// New environment tag; an empty string removes it, null leaves it unchanged.
+    /// </summary>
+    public string? Environment { get; init; }
 }
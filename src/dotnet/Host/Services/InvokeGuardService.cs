@@ -0,0 +1,229 @@
+using System.Collections.Concurrent;
+using System.Security.Cryptography;
+using System.Text.Json;
+using Microsoft.Extensions.Logging;
+
+namespace DataverseDevKit.Host.Services;
+
+/// <summary>
+/// EventArgs for a plugin.invoke request held until the user confirms it.
+/// </summary>
+public class InvokeConfirmationEventArgs : EventArgs
+{
+    /// <summary>
+    /// JSON-RPC id of the held request, so the bridge stops timing it out.
+    /// </summary>
+    public object? RequestId { get; init; }
+    public required InvokeConfirmationRequest Request { get; init; }
+}
+
+/// <summary>
+/// Holds plugin commands that may change data on a production connection until the
+/// user confirms them in the shell, whoever sent the request, and records every answer
+/// with <see cref="AuditLogService"/>. Commands are held unless they declare no side
+/// effects, so commands that declare nothing, or whose metadata cannot be loaded, are
+/// held too. Commands without a connection, or with "default" or an unknown connection
+/// id, are checked against the active connection.
+/// </summary>
+public class InvokeGuardService
+{
+    /// <summary>
+    /// Event type under which held commands are forwarded to the shell.
+    /// </summary>
+    public const string ConfirmEventType = "invoke:confirm";
+
+    /// <summary>
+    /// Side effects of commands that do not declare them.
+    /// </summary>
+    public const string UndeclaredSideEffects = "undeclared";
+
+    // Declined when nobody answers, e.g. because the shell was closed meanwhile
+    private static readonly TimeSpan ConfirmTimeout = TimeSpan.FromMinutes(10);
+
+    private readonly ILogger<InvokeGuardService> _logger;
+    private readonly ConnectionService _connectionService;
+    private readonly PluginHostManager _pluginHostManager;
+    private readonly AuditLogService _auditLogService;
+    private readonly ConcurrentDictionary<string, TaskCompletionSource<bool>> _pendingConfirmations = new();
+
+    /// <summary>
+    /// Raised for each held command; the shell answers with <see cref="Confirm"/>.
+    /// </summary>
+    public event EventHandler<InvokeConfirmationEventArgs>? ConfirmationRequested;
+
+    public InvokeGuardService(
+        ILogger<InvokeGuardService> logger,
+        ConnectionService connectionService,
+        PluginHostManager pluginHostManager,
+        AuditLogService auditLogService)
+    {
+        _logger = logger;
+        _connectionService = connectionService;
+        _pluginHostManager = pluginHostManager;
+        _auditLogService = auditLogService;
+    }
+
+    /// <summary>
+    /// Waits for the user's answer if the plugin.invoke request has to be held.
+    /// </summary>
+    /// <param name="caller">Plugin instance that sent the request; null for the shell.</param>
+    /// <exception cref="InvokeDeclinedException">The user declined the command or did not answer in time.</exception>
+    public async Task CheckAsync(RequestCaller? caller, object? requestId, JsonElement? paramsElement, CancellationToken cancellationToken)
+    {
+        var pluginId = GetStringParam(paramsElement, "pluginId");
+        var command = GetStringParam(paramsElement, "command");
+        if (pluginId == null || command == null)
+        {
+            // Rejected by the dispatcher
+            return;
+        }
+
+        var connectionId = GetStringParam(paramsElement, "connectionId");
+        var connection = await ResolveConnectionAsync(connectionId);
+        if (connection == null || connection.Environment != "prod")
+        {
+            return;
+        }
+
+        var (pluginName, commandLabel, sideEffects) = await DescribeCommandAsync(pluginId, command, connectionId);
+        if (sideEffects == "none")
+        {
+            return;
+        }
+
+        var request = new InvokeConfirmationRequest
+        {
+            Id = Convert.ToHexString(RandomNumberGenerator.GetBytes(16)),
+            PluginId = pluginId,
+            PluginName = pluginName,
+            Command = command,
+            CommandLabel = commandLabel,
+            SideEffects = sideEffects,
+            Payload = GetStringParam(paramsElement, "payload") ?? string.Empty,
+            ConnectionId = connection.Id,
+            ConnectionName = connection.Name,
+            ConnectionUrl = connection.Url,
+            Caller = caller
+        };
+
+        var confirmation = new TaskCompletionSource<bool>(TaskCreationOptions.RunContinuationsAsynchronously);
+        _pendingConfirmations[request.Id] = confirmation;
+        bool confirmed;
+        try
+        {
+            _logger.LogInformation("Holding {PluginId}.{Command} on {Connection} for confirmation", pluginId, command, connection.Name);
+            ConfirmationRequested?.Invoke(this, new InvokeConfirmationEventArgs { RequestId = requestId, Request = request });
+            confirmed = await confirmation.Task.WaitAsync(ConfirmTimeout, cancellationToken);
+        }
+        catch (TimeoutException)
+        {
+            _logger.LogWarning("No answer for {PluginId}.{Command}, declining it", pluginId, command);
+            confirmed = false;
+        }
+        catch (OperationCanceledException)
+        {
+            // Cancelled by the sender: the command did not run
+            await _auditLogService.RecordAsync(request, false);
+            throw;
+        }
+        finally
+        {
+            _pendingConfirmations.TryRemove(request.Id, out _);
+        }
+
+        await _auditLogService.RecordAsync(request, confirmed);
+        if (!confirmed)
+        {
+            throw new InvokeDeclinedException(pluginId, command);
+        }
+    }
+
+    /// <summary>
+    /// Records the user's answer to a held command. Returns false if the command is no
+    /// longer held, e.g. because it was cancelled.
+    /// </summary>
+    public bool Confirm(string id, bool confirmed)
+    {
+        return _pendingConfirmations.TryGetValue(id, out var confirmation) && confirmation.TrySetResult(confirmed);
+    }
+
+    // An unknown id must not slip past the guard, so it counts as the active connection
+    private async Task<Connection?> ResolveConnectionAsync(string? connectionId)
+    {
+        var connections = await _connectionService.ListConnectionsAsync();
+        return connections.FirstOrDefault(c => c.Id == connectionId && PluginHostManager.GetConnectionInstanceId(connectionId) != "default")
+            ?? connections.FirstOrDefault(c => c.IsActive);
+    }
+
+    private async Task<(string PluginName, string CommandLabel, string SideEffects)> DescribeCommandAsync(
+        string pluginId, string command, string? connectionId)
+    {
+        var plugin = await _pluginHostManager.TryFindPluginAsync(pluginId);
+        PluginCommand? declared = null;
+        try
+        {
+            var commands = await _pluginHostManager.GetPluginCommandsAsync(pluginId, PluginHostManager.GetConnectionInstanceId(connectionId));
+            declared = commands.FirstOrDefault(c => c.Name == command);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Could not load the commands of {PluginId}; {Command} counts as undeclared", pluginId, command);
+        }
+
+        return (
+            plugin?.manifest.Name ?? pluginId,
+            declared?.Label ?? command,
+            declared?.SideEffects ?? UndeclaredSideEffects);
+    }
+
+    private static string? GetStringParam(JsonElement? paramsElement, string name)
+    {
+        return paramsElement is { ValueKind: JsonValueKind.Object } element
+            && element.TryGetProperty(name, out var prop)
+            && prop.ValueKind == JsonValueKind.String
+                ? prop.GetString()
+                : null;
+    }
+}
+
+/// <summary>
+/// A plugin command held until the user confirms it, as shown by the shell.
+/// </summary>
+public record InvokeConfirmationRequest
+{
+    public required string Id { get; init; }
+    public required string PluginId { get; init; }
+    public required string PluginName { get; init; }
+    public required string Command { get; init; }
+    public required string CommandLabel { get; init; }
+
+    /// <summary>
+    /// "write", "destructive" or <see cref="InvokeGuardService.UndeclaredSideEffects"/>.
+    /// </summary>
+    public required string SideEffects { get; init; }
+    public required string Payload { get; init; }
+    public required string ConnectionId { get; init; }
+    public required string ConnectionName { get; init; }
+    public required string ConnectionUrl { get; init; }
+
+    /// <summary>
+    /// Plugin instance that sent the request; null for the shell.
+    /// </summary>
+    public RequestCaller? Caller { get; init; }
+}
+
+/// <summary>
+/// Thrown when the user declines a held plugin command.
+/// </summary>
+public class InvokeDeclinedException : Exception
+{
+    public string PluginId { get; }
+    public string Command { get; }
+
+    public InvokeDeclinedException(string pluginId, string command)
+        : base($"Running {pluginId}.{command} was declined")
+    {
+        PluginId = pluginId;
+        Command = command;
+    }
+}
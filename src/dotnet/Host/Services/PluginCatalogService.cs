@@ -0,0 +1,696 @@
+using System.IO.Compression;
+using System.Security.Cryptography;
+using System.Text.Json;
+using System.Text.RegularExpressions;
+using DataverseDevKit.Core.Models;
+using Microsoft.Extensions.Logging;
+
+namespace DataverseDevKit.Host.Services;
+
+/// <summary>
+/// Reads plugin catalog feeds and installs, updates and uninstalls plugins from them.
+/// A feed is a JSON index (see tools/schema/plugin.catalog.schema.json) served over HTTP
+/// or read from disk; a local directory without an index is scanned for plugin packages.
+/// </summary>
+public sealed partial class PluginCatalogService : IDisposable
+{
+    /// <summary>
+    /// Environment variable with the catalog used when the frontend does not pass one.
+    /// </summary>
+    public const string CatalogSourceVariable = "DDK_PLUGIN_CATALOG";
+
+    /// <summary>
+    /// Index file looked up when the catalog source is a directory.
+    /// </summary>
+    public const string CatalogFileName = "catalog.json";
+
+    /// <summary>
+    /// Marker written into the directory of plugins installed from a catalog.
+    /// Plugins without it are bundled with the app and are never modified.
+    /// </summary>
+    public const string InstallInfoFileName = ".ddk-install.json";
+
+    private const string ManifestFileName = "plugin.manifest.json";
+    private const string StagingDirectoryName = ".staging";
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNameCaseInsensitive = true,
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase
+    };
+
+    private readonly ILogger<PluginCatalogService> _logger;
+    private readonly PluginHostManager _pluginHostManager;
+    private readonly HttpClient _httpClient;
+    private readonly SemaphoreSlim _installLock = new(1, 1);
+
+    /// <summary>
+    /// Raised for progress of installs and updates, forwarded to the frontend as <c>progress</c> events.
+    /// </summary>
+    public event EventHandler<ProgressUpdate>? ProgressReported;
+
+    public PluginCatalogService(ILogger<PluginCatalogService> logger, PluginHostManager pluginHostManager)
+    {
+        _logger = logger;
+        _pluginHostManager = pluginHostManager;
+        _httpClient = new HttpClient { Timeout = TimeSpan.FromMinutes(5) };
+    }
+
+    /// <summary>
+    /// Lists the plugins of a catalog along with the version installed locally, if any.
+    /// </summary>
+    public async Task<List<CatalogPluginInfo>> GetCatalogAsync(string? source, CancellationToken cancellationToken = default)
+    {
+        var feed = await LoadFeedAsync(ResolveSource(source), cancellationToken);
+        // A plugin folder copied in by hand can repeat an id; the first one found wins, as when loading
+        var installed = new Dictionary<string, PluginInfo>();
+        foreach (var plugin in await _pluginHostManager.ListPluginsAsync())
+        {
+            installed.TryAdd(plugin.Id, plugin);
+        }
+
+        return feed.Select(entry =>
+        {
+            installed.TryGetValue(entry.Manifest.Id, out var plugin);
+            return new CatalogPluginInfo
+            {
+                Id = entry.Manifest.Id,
+                Name = entry.Manifest.Name,
+                Version = entry.Manifest.Version,
+                Description = entry.Manifest.Description,
+                Author = entry.Manifest.Author ?? "Unknown",
+                Category = entry.Manifest.Category ?? "other",
+                Company = entry.Manifest.Company,
+                Icon = entry.Manifest.Icon,
+                Homepage = entry.Manifest.Homepage,
+                License = entry.Manifest.License,
+                PackageUrl = entry.PackageLocation,
+                Sha256 = entry.Sha256,
+                Size = entry.Size,
+                PublishedAt = entry.PublishedAt,
+                ReleaseNotes = entry.ReleaseNotes,
+                InstalledVersion = plugin?.Version,
+                IsBundled = plugin != null && plugin.Source == null,
+                UpdateAvailable = plugin != null && CompareVersions(entry.Manifest.Version, plugin.Version) > 0
+            };
+        }).ToList();
+    }
+
+    /// <summary>
+    /// Installs a plugin from a catalog. Progress is reported under <paramref name="progressToken"/>.
+    /// </summary>
+    public Task<PluginInfo> InstallAsync(string? source, string pluginId, string? progressToken, CancellationToken cancellationToken = default)
+    {
+        return InstallPackageAsync(source, pluginId, progressToken, isUpdate: false, cancellationToken);
+    }
+
+    /// <summary>
+    /// Replaces an installed plugin with the newer version from a catalog.
+    /// Running instances of the plugin are stopped first.
+    /// </summary>
+    public Task<PluginInfo> UpdateAsync(string? source, string pluginId, string? progressToken, CancellationToken cancellationToken = default)
+    {
+        return InstallPackageAsync(source, pluginId, progressToken, isUpdate: true, cancellationToken);
+    }
+
+    /// <summary>
+    /// Removes a plugin that was installed from a catalog.
+    /// </summary>
+    public async Task<bool> UninstallAsync(string pluginId)
+    {
+        await _installLock.WaitAsync();
+        try
+        {
+            var installed = await _pluginHostManager.TryFindPluginAsync(pluginId)
+                ?? throw new InvalidOperationException($"Plugin is not installed: {pluginId}");
+            var pluginDir = installed.pluginDir;
+
+            if (await ReadInstallInfoAsync(pluginDir) == null)
+            {
+                throw new InvalidOperationException($"Plugin {pluginId} is bundled with the app and cannot be uninstalled");
+            }
+
+            await _pluginHostManager.StopPluginAsync(pluginId);
+            Directory.Delete(pluginDir, recursive: true);
+
+            _logger.LogInformation("Uninstalled plugin {PluginId} from {Path}", pluginId, pluginDir);
+            return true;
+        }
+        finally
+        {
+            _installLock.Release();
+        }
+    }
+
+    /// <summary>
+    /// Reads the install marker of a plugin directory; null for bundled plugins.
+    /// </summary>
+    internal static async Task<PluginInstallInfo?> ReadInstallInfoAsync(string pluginDir)
+    {
+        var path = Path.Combine(pluginDir, InstallInfoFileName);
+        if (!File.Exists(path))
+        {
+            return null;
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<PluginInstallInfo>(await File.ReadAllTextAsync(path), JsonOptions);
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Compares two semantic versions; a release sorts after its pre-releases.
+    /// </summary>
+    public static int CompareVersions(string left, string right)
+    {
+        static (int[] numbers, string? preRelease) Parse(string version)
+        {
+            var dash = version.IndexOf('-');
+            var core = dash >= 0 ? version[..dash] : version;
+            var numbers = core.Split('.').Select(part => int.TryParse(part, out var n) ? n : 0).ToArray();
+            return (numbers, dash >= 0 ? version[(dash + 1)..] : null);
+        }
+
+        var (leftNumbers, leftPre) = Parse(left);
+        var (rightNumbers, rightPre) = Parse(right);
+
+        for (var i = 0; i < Math.Max(leftNumbers.Length, rightNumbers.Length); i++)
+        {
+            var diff = leftNumbers.ElementAtOrDefault(i).CompareTo(rightNumbers.ElementAtOrDefault(i));
+            if (diff != 0) return diff;
+        }
+
+        if (leftPre == rightPre) return 0;
+        if (leftPre == null) return 1;
+        if (rightPre == null) return -1;
+        return string.CompareOrdinal(leftPre, rightPre);
+    }
+
+    private async Task<PluginInfo> InstallPackageAsync(
+        string? source,
+        string pluginId,
+        string? progressToken,
+        bool isUpdate,
+        CancellationToken cancellationToken)
+    {
+        var token = progressToken ?? $"plugin-install-{Guid.NewGuid():N}";
+        var stagingDir = Path.Combine(_pluginHostManager.PluginsBasePath, StagingDirectoryName, Guid.NewGuid().ToString("N"));
+
+        await _installLock.WaitAsync(cancellationToken);
+        try
+        {
+            // Staging folders earlier installs could not delete, e.g. previous versions still in use
+            TryDeleteDirectory(Path.GetDirectoryName(stagingDir)!);
+
+            var catalogSource = ResolveSource(source);
+            Report(token, pluginId, "resolve", 0, "Reading catalog");
+            var feed = await LoadFeedAsync(catalogSource, cancellationToken);
+            var entry = feed.FirstOrDefault(e => e.Manifest.Id == pluginId)
+                ?? throw new InvalidOperationException($"Plugin {pluginId} is not in the catalog");
+
+            var installed = await _pluginHostManager.TryFindPluginAsync(pluginId);
+            if (isUpdate)
+            {
+                if (installed == null)
+                {
+                    throw new InvalidOperationException($"Plugin is not installed: {pluginId}");
+                }
+                if (await ReadInstallInfoAsync(installed.Value.pluginDir) == null)
+                {
+                    throw new InvalidOperationException($"Plugin {pluginId} is bundled with the app and cannot be updated");
+                }
+                if (CompareVersions(entry.Manifest.Version, installed.Value.manifest.Version) <= 0)
+                {
+                    throw new InvalidOperationException($"Plugin {pluginId} is already up to date ({installed.Value.manifest.Version})");
+                }
+            }
+            else if (installed != null)
+            {
+                throw new InvalidOperationException($"Plugin {pluginId} is already installed ({installed.Value.manifest.Version})");
+            }
+
+            Directory.CreateDirectory(stagingDir);
+            var packagePath = await FetchPackageAsync(entry, stagingDir, token, cancellationToken);
+
+            Report(token, pluginId, "verify", 0, "Verifying package integrity");
+            var checksum = await VerifyIntegrityAsync(entry, packagePath, cancellationToken);
+
+            Report(token, pluginId, "extract", 0, "Extracting package");
+            var contentDir = Path.Combine(stagingDir, "content");
+            if (Directory.Exists(packagePath))
+            {
+                CopyDirectory(packagePath, contentDir);
+            }
+            else
+            {
+                ZipFile.ExtractToDirectory(packagePath, contentDir);
+            }
+            await VerifyManifestAsync(entry, contentDir);
+
+            await File.WriteAllTextAsync(
+                Path.Combine(contentDir, InstallInfoFileName),
+                JsonSerializer.Serialize(new PluginInstallInfo
+                {
+                    Source = catalogSource,
+                    PackageUrl = entry.PackageLocation,
+                    Sha256 = checksum,
+                    Version = entry.Manifest.Version,
+                    InstalledAt = DateTimeOffset.UtcNow
+                }, JsonOptions),
+                cancellationToken);
+
+            Report(token, pluginId, "install", 0, isUpdate ? "Replacing previous version" : "Installing");
+            var targetDir = installed?.pluginDir ?? Path.Combine(_pluginHostManager.PluginsBasePath, pluginId);
+            if (installed != null)
+            {
+                await _pluginHostManager.StopPluginAsync(pluginId);
+            }
+            ReplaceDirectory(contentDir, targetDir, Path.Combine(stagingDir, "previous"));
+
+            _logger.LogInformation("{Action} plugin {PluginId} {Version} from {Source}",
+                isUpdate ? "Updated" : "Installed", pluginId, entry.Manifest.Version, catalogSource);
+            Report(token, pluginId, "complete", 100, $"{entry.Manifest.Name} {entry.Manifest.Version} installed", done: true);
+
+            return (await _pluginHostManager.ListPluginsAsync()).First(p => p.Id == pluginId);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to {Action} plugin {PluginId}", isUpdate ? "update" : "install", pluginId);
+            Report(token, pluginId, "failed", 0, ex.Message, done: true, error: ex.Message);
+            throw;
+        }
+        finally
+        {
+            TryDeleteDirectory(stagingDir);
+            _installLock.Release();
+        }
+    }
+
+    private static string ResolveSource(string? source)
+    {
+        var resolved = string.IsNullOrWhiteSpace(source)
+            ? Environment.GetEnvironmentVariable(CatalogSourceVariable)
+            : source;
+
+        if (string.IsNullOrWhiteSpace(resolved))
+        {
+            throw new InvalidOperationException("No plugin catalog configured");
+        }
+
+        return resolved.Trim();
+    }
+
+    private async Task<List<CatalogEntry>> LoadFeedAsync(string source, CancellationToken cancellationToken)
+    {
+        if (IsHttpUrl(source))
+        {
+            RequireHttps(source, "Plugin catalogs");
+            var json = await _httpClient.GetStringAsync(source, cancellationToken);
+            return ParseFeed(json, source);
+        }
+
+        var path = Path.GetFullPath(source.StartsWith("file:", StringComparison.OrdinalIgnoreCase) ? new Uri(source).LocalPath : source);
+        if (Directory.Exists(path))
+        {
+            var indexPath = Path.Combine(path, CatalogFileName);
+            return File.Exists(indexPath)
+                ? ParseFeed(await File.ReadAllTextAsync(indexPath, cancellationToken), indexPath)
+                : await ScanDirectoryAsync(path);
+        }
+
+        if (File.Exists(path))
+        {
+            return ParseFeed(await File.ReadAllTextAsync(path, cancellationToken), path);
+        }
+
+        throw new FileNotFoundException($"Plugin catalog not found: {source}");
+    }
+
+    private List<CatalogEntry> ParseFeed(string json, string location)
+    {
+        using var document = JsonDocument.Parse(json);
+        if (!document.RootElement.TryGetProperty("plugins", out var plugins) || plugins.ValueKind != JsonValueKind.Array)
+        {
+            throw new InvalidDataException($"Plugin catalog has no plugins array: {location}");
+        }
+
+        var entries = new List<CatalogEntry>();
+        foreach (var element in plugins.EnumerateArray())
+        {
+            try
+            {
+                var item = element.Deserialize<CatalogDocumentEntry>(JsonOptions)
+                    ?? throw new InvalidDataException("Empty catalog entry");
+                ValidateManifest(item.Manifest);
+
+                entries.Add(new CatalogEntry
+                {
+                    Manifest = item.Manifest,
+                    PackageLocation = ResolvePackageLocation(item.Package.Url, location),
+                    Sha256 = item.Package.Sha256?.ToLowerInvariant(),
+                    Size = item.Package.Size,
+                    PublishedAt = item.PublishedAt,
+                    ReleaseNotes = item.ReleaseNotes
+                });
+            }
+            catch (Exception ex) when (ex is JsonException or InvalidDataException)
+            {
+                // One broken entry should not hide the rest of the catalog
+                _logger.LogWarning("Skipping invalid entry in plugin catalog {Location}: {Error}", location, ex.Message);
+            }
+        }
+
+        return entries;
+    }
+
+    // Offline catalogs: every .zip package or unpacked plugin directory in the folder
+    private async Task<List<CatalogEntry>> ScanDirectoryAsync(string directory)
+    {
+        var entries = new List<CatalogEntry>();
+
+        foreach (var zipPath in Directory.GetFiles(directory, "*.zip"))
+        {
+            try
+            {
+                using var archive = ZipFile.OpenRead(zipPath);
+                var manifestEntry = archive.GetEntry(ManifestFileName)
+                    ?? throw new InvalidDataException($"{ManifestFileName} missing from package root");
+                await using var stream = manifestEntry.Open();
+                var manifest = await JsonSerializer.DeserializeAsync<PluginManifest>(stream, JsonOptions)
+                    ?? throw new InvalidDataException("Empty manifest");
+                ValidateManifest(manifest);
+
+                entries.Add(new CatalogEntry
+                {
+                    Manifest = manifest,
+                    PackageLocation = zipPath,
+                    Size = new FileInfo(zipPath).Length
+                });
+            }
+            catch (Exception ex) when (ex is JsonException or InvalidDataException or IOException)
+            {
+                _logger.LogWarning("Skipping plugin package {Path}: {Error}", zipPath, ex.Message);
+            }
+        }
+
+        foreach (var pluginDir in Directory.GetDirectories(directory))
+        {
+            var manifestPath = Path.Combine(pluginDir, ManifestFileName);
+            if (!File.Exists(manifestPath)) continue;
+
+            try
+            {
+                var manifest = await PluginHostManager.LoadManifestAsync(manifestPath)
+                    ?? throw new InvalidDataException("Empty manifest");
+                ValidateManifest(manifest);
+                entries.Add(new CatalogEntry { Manifest = manifest, PackageLocation = pluginDir });
+            }
+            catch (Exception ex) when (ex is JsonException or InvalidDataException)
+            {
+                _logger.LogWarning("Skipping plugin directory {Path}: {Error}", pluginDir, ex.Message);
+            }
+        }
+
+        return entries;
+    }
+
+    private async Task<string> FetchPackageAsync(CatalogEntry entry, string stagingDir, string token, CancellationToken cancellationToken)
+    {
+        var pluginId = entry.Manifest.Id;
+
+        if (!IsHttpUrl(entry.PackageLocation))
+        {
+            Report(token, pluginId, "download", 100, "Using local package");
+            if (!File.Exists(entry.PackageLocation) && !Directory.Exists(entry.PackageLocation))
+            {
+                throw new FileNotFoundException($"Plugin package not found: {entry.PackageLocation}");
+            }
+            return entry.PackageLocation;
+        }
+
+        RequireHttps(entry.PackageLocation, "Plugin packages");
+        var packagePath = Path.Combine(stagingDir, "package.zip");
+        using var response = await _httpClient.GetAsync(entry.PackageLocation, HttpCompletionOption.ResponseHeadersRead, cancellationToken);
+        response.EnsureSuccessStatusCode();
+
+        var totalBytes = response.Content.Headers.ContentLength ?? entry.Size;
+        await using var input = await response.Content.ReadAsStreamAsync(cancellationToken);
+        await using var output = File.Create(packagePath);
+
+        var buffer = new byte[81920];
+        long received = 0;
+        var lastPercent = -1;
+        int read;
+        while ((read = await input.ReadAsync(buffer, cancellationToken)) > 0)
+        {
+            await output.WriteAsync(buffer.AsMemory(0, read), cancellationToken);
+            received += read;
+
+            var percent = totalBytes > 0 ? (int)(received * 100 / totalBytes.Value) : 0;
+            if (percent != lastPercent)
+            {
+                lastPercent = percent;
+                Report(token, pluginId, "download", percent, $"Downloaded {received / 1024} KB");
+            }
+        }
+
+        return packagePath;
+    }
+
+    private async Task<string?> VerifyIntegrityAsync(CatalogEntry entry, string packagePath, CancellationToken cancellationToken)
+    {
+        if (Directory.Exists(packagePath))
+        {
+            // Unpacked directories only come from local catalogs
+            return null;
+        }
+
+        await using var stream = File.OpenRead(packagePath);
+        var actual = Convert.ToHexString(await SHA256.HashDataAsync(stream, cancellationToken)).ToLowerInvariant();
+
+        if (entry.Sha256 == null)
+        {
+            if (IsHttpUrl(entry.PackageLocation))
+            {
+                throw new InvalidDataException($"Catalog entry of {entry.Manifest.Id} has no sha256; remote packages must be verifiable");
+            }
+            _logger.LogWarning("Installing local package {Path} without a checksum", packagePath);
+        }
+        else if (!string.Equals(actual, entry.Sha256, StringComparison.Ordinal))
+        {
+            throw new InvalidDataException($"Integrity check failed for {entry.Manifest.Id}: expected sha256 {entry.Sha256}, got {actual}");
+        }
+
+        return actual;
+    }
+
+    private static async Task VerifyManifestAsync(CatalogEntry entry, string contentDir)
+    {
+        var manifestPath = Path.Combine(contentDir, ManifestFileName);
+        if (!File.Exists(manifestPath))
+        {
+            throw new InvalidDataException($"{ManifestFileName} missing from package root");
+        }
+
+        var manifest = await PluginHostManager.LoadManifestAsync(manifestPath)
+            ?? throw new InvalidDataException("Empty manifest");
+
+        if (manifest.Id != entry.Manifest.Id || manifest.Version != entry.Manifest.Version)
+        {
+            throw new InvalidDataException(
+                $"Package contains {manifest.Id} {manifest.Version}, but the catalog lists {entry.Manifest.Id} {entry.Manifest.Version}");
+        }
+    }
+
+    // Required fields and formats of tools/schema/plugin.manifest.schema.json
+    private static void ValidateManifest(PluginManifest manifest)
+    {
+        if (!PluginIdPattern().IsMatch(manifest.Id))
+        {
+            throw new InvalidDataException($"Invalid plugin id: {manifest.Id}");
+        }
+        if (!VersionPattern().IsMatch(manifest.Version))
+        {
+            throw new InvalidDataException($"Invalid version of {manifest.Id}: {manifest.Version}");
+        }
+        if (string.IsNullOrWhiteSpace(manifest.Name) || manifest.Name.Length > 64)
+        {
+            throw new InvalidDataException($"Invalid name of {manifest.Id}");
+        }
+    }
+
+    private static string ResolvePackageLocation(string url, string catalogLocation)
+    {
+        if (Uri.TryCreate(url, UriKind.Absolute, out var absolute))
+        {
+            return absolute.IsFile ? absolute.LocalPath : absolute.ToString();
+        }
+
+        if (IsHttpUrl(catalogLocation))
+        {
+            return new Uri(new Uri(catalogLocation), url).ToString();
+        }
+
+        var baseDir = Path.GetDirectoryName(Path.GetFullPath(catalogLocation))!;
+        return Path.GetFullPath(Path.Combine(baseDir, url));
+    }
+
+    private static bool IsHttpUrl(string location)
+    {
+        return location.StartsWith("http://", StringComparison.OrdinalIgnoreCase)
+            || location.StartsWith("https://", StringComparison.OrdinalIgnoreCase);
+    }
+
+    private static void RequireHttps(string url, string what)
+    {
+        if (!url.StartsWith("https://", StringComparison.OrdinalIgnoreCase))
+        {
+            throw new InvalidOperationException($"{what} must be downloaded over https: {url}");
+        }
+    }
+
+    // Swaps the new version in, keeping the old one until the move succeeded. The old one is
+    // moved to backupDir under the staging folder, which is never scanned for plugins.
+    private static void ReplaceDirectory(string sourceDir, string targetDir, string backupDir)
+    {
+        var hadPrevious = Directory.Exists(targetDir);
+        if (hadPrevious)
+        {
+            Directory.Move(targetDir, backupDir);
+        }
+
+        try
+        {
+            Directory.Move(sourceDir, targetDir);
+        }
+        catch
+        {
+            if (hadPrevious)
+            {
+                Directory.Move(backupDir, targetDir);
+            }
+            throw;
+        }
+    }
+
+    private static void CopyDirectory(string sourceDir, string targetDir)
+    {
+        Directory.CreateDirectory(targetDir);
+        foreach (var file in Directory.GetFiles(sourceDir))
+        {
+            File.Copy(file, Path.Combine(targetDir, Path.GetFileName(file)));
+        }
+        foreach (var dir in Directory.GetDirectories(sourceDir))
+        {
+            CopyDirectory(dir, Path.Combine(targetDir, Path.GetFileName(dir)));
+        }
+    }
+
+    private static void TryDeleteDirectory(string path)
+    {
+        try
+        {
+            if (Directory.Exists(path))
+            {
+                Directory.Delete(path, recursive: true);
+            }
+        }
+        catch (Exception ex) when (ex is IOException or UnauthorizedAccessException)
+        {
+            // Left for the next install to clean up
+        }
+    }
+
+    private void Report(string token, string pluginId, string phase, int percent, string message, bool done = false, string? error = null)
+    {
+        ProgressReported?.Invoke(this, new ProgressUpdate
+        {
+            Token = token,
+            Phase = phase,
+            Percent = percent,
+            Message = message,
+            Done = done,
+            Error = error
+        });
+        _logger.LogDebug("[{PluginId}] {Phase} {Percent}%: {Message}", pluginId, phase, percent, message);
+    }
+
+    [GeneratedRegex(@"^[a-z0-9]+(\.[a-z0-9]+)+$")]
+    private static partial Regex PluginIdPattern();
+
+    [GeneratedRegex(@"^\d+\.\d+\.\d+(-[a-z0-9.]+)?$")]
+    private static partial Regex VersionPattern();
+
+    public void Dispose()
+    {
+        _httpClient.Dispose();
+        _installLock.Dispose();
+    }
+}
+
+public record CatalogPluginInfo
+{
+    public required string Id { get; init; }
+    public required string Name { get; init; }
+    /// <summary>
+    /// Version offered by the catalog.
+    /// </summary>
+    public required string Version { get; init; }
+    public required string Description { get; init; }
+    public required string Author { get; init; }
+    public required string Category { get; init; }
+    public string? Company { get; init; }
+    public string? Icon { get; init; }
+    public string? Homepage { get; init; }
+    public string? License { get; init; }
+    public required string PackageUrl { get; init; }
+    public string? Sha256 { get; init; }
+    public long? Size { get; init; }
+    public string? PublishedAt { get; init; }
+    public string? ReleaseNotes { get; init; }
+    public string? InstalledVersion { get; init; }
+    /// <summary>
+    /// Installed with the app rather than from a catalog; cannot be updated or uninstalled.
+    /// </summary>
+    public bool IsBundled { get; init; }
+    public bool UpdateAvailable { get; init; }
+}
+
+internal record PluginInstallInfo
+{
+    public required string Source { get; init; }
+    public required string PackageUrl { get; init; }
+    public string? Sha256 { get; init; }
+    public required string Version { get; init; }
+    public DateTimeOffset InstalledAt { get; init; }
+}
+
+internal record CatalogEntry
+{
+    public required PluginManifest Manifest { get; init; }
+    public required string PackageLocation { get; init; }
+    public string? Sha256 { get; init; }
+    public long? Size { get; init; }
+    public string? PublishedAt { get; init; }
+    public string? ReleaseNotes { get; init; }
+}
+
+internal record CatalogDocumentEntry
+{
+    public required PluginManifest Manifest { get; init; }
+    public required CatalogPackage Package { get; init; }
+    public string? PublishedAt { get; init; }
+    public string? ReleaseNotes { get; init; }
+}
+
+internal record CatalogPackage
+{
+    public required string Url { get; init; }
+    public string? Sha256 { get; init; }
+    public long? Size { get; init; }
+}
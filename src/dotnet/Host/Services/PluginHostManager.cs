@@ -1,6 +1,7 @@
 using System.Diagnostics;
 using System.Text.Json;
 using Microsoft.Extensions.Logging;
+using Grpc.Core;
 using Grpc.Net.Client;
 using DataverseDevKit.PluginHost.Contracts;
 
@@ -20,6 +21,11 @@ public class PluginEventArgs : EventArgs
 /// </summary>
 public sealed class PluginHostManager : IDisposable
 {
+    /// <summary>
+    /// Instance ID prefix of plugin workers bound to a specific connection.
+    /// </summary>
+    private const string ConnectionInstancePrefix = "conn-";
+
     private static readonly JsonSerializerOptions JsonOptions = new()
     {
         PropertyNamingPolicy = JsonNamingPolicy.CamelCase
@@ -68,6 +74,11 @@ public sealed class PluginHostManager : IDisposable
         _logger.LogInformation("Plugins base path: {Path}", _pluginsBasePath);
     }
 
+    /// <summary>
+    /// Directory plugins are loaded from and installed into.
+    /// </summary>
+    public string PluginsBasePath => _pluginsBasePath;
+
     /// <summary>
     /// Lists all available plugins from the plugins directory.
     /// </summary>
@@ -92,10 +103,12 @@ public async Task<List<PluginInfo>> ListPluginsAsync()
 
             try
             {
-                var manifest = await LoadManifestAsync(manifestPath);
+                var manifestJson = await File.ReadAllTextAsync(manifestPath);
+                var manifest = ParseManifest(manifestJson);
                 if (manifest == null) continue;
 
                 var uiEntry = await ResolveUiEntryUrlAsync(manifest, pluginDir);
+                var installInfo = await PluginCatalogService.ReadInstallInfoAsync(pluginDir);
 
                 plugins.Add(new PluginInfo
                 {
@@ -111,7 +124,14 @@ public async Task<List<PluginInfo>> ListPluginsAsync()
                     UiEntry = uiEntry,
                     UiModule = manifest.Ui?.Module,
                     UiScope = manifest.Ui?.Scope,
-                    IsRunning = HasRunningInstance(manifest.Id)
+                    UiMode = manifest.Ui?.Mode ?? "federated",
+                    IsRunning = HasRunningInstance(manifest.Id),
+                    Engines = manifest.Engines,
+                    Permissions = manifest.Permissions ?? [],
+                    Manifest = JsonSerializer.Deserialize<JsonElement>(manifestJson),
+                    Source = installInfo?.Source,
+                    Checksum = installInfo?.Sha256,
+                    InstalledAt = installInfo?.InstalledAt
                 });
             }
             catch (Exception ex)
@@ -337,6 +357,27 @@ public async Task StopAllPluginInstancesAsync()
         _logger.LogInformation("All plugin instances stopped");
     }
 
+    /// <summary>
+    /// Stops every running instance of a plugin, e.g. before its files are replaced.
+    /// </summary>
+    public async Task StopPluginAsync(string pluginId)
+    {
+        List<PluginWorkerInfo> workers;
+        lock (_lock)
+        {
+            workers = _workers.Values.Where(w => w.PluginId == pluginId).ToList();
+            foreach (var worker in workers)
+            {
+                _workers.Remove(GetWorkerKey(worker.PluginId, worker.InstanceId));
+            }
+        }
+
+        if (workers.Count == 0) return;
+
+        _logger.LogInformation("Stopping {Count} instance(s) of plugin {PluginId}", workers.Count, pluginId);
+        await Task.WhenAll(workers.Select(TerminateWorkerAsync));
+    }
+
     /// <summary>
     /// Terminates a worker process gracefully, then forcefully if needed.
     /// Waits for file handles to be released.
@@ -427,14 +468,44 @@ public async Task<List<PluginCommand>> GetPluginCommandsAsync(string pluginId, s
         {
             Name = c.Name,
             Label = c.Label,
-            Description = c.Description
+            Description = c.Description,
+            PayloadSchema = ParsePayloadSchema(pluginId, c.Name, c.PayloadSchema),
+            SideEffects = string.IsNullOrEmpty(c.SideEffects) ? null : c.SideEffects
         }).ToList();
     }
 
+    /// <summary>
+    /// Parses the payload schema a plugin declared for a command. A malformed
+    /// schema is logged and dropped so the plugin's other commands stay usable.
+    /// </summary>
+    private JsonElement? ParsePayloadSchema(string pluginId, string command, string? schema)
+    {
+        if (string.IsNullOrEmpty(schema))
+        {
+            return null;
+        }
+
+        try
+        {
+            using var document = JsonDocument.Parse(schema);
+            return document.RootElement.Clone();
+        }
+        catch (JsonException ex)
+        {
+            _logger.LogWarning(ex, "Ignoring invalid payload schema of {PluginId}.{Command}", pluginId, command);
+            return null;
+        }
+    }
+
     /// <summary>
     /// Invokes a command on a plugin instance.
     /// </summary>
-    public async Task<JsonElement> InvokePluginCommandAsync(string pluginId, string instanceId, string command, string payload)
+    public async Task<JsonElement> InvokePluginCommandAsync(
+        string pluginId,
+        string instanceId,
+        string command,
+        string payload,
+        CancellationToken cancellationToken = default)
     {
         var worker = await EnsurePluginWorkerAsync(pluginId, instanceId);
 
@@ -449,7 +520,17 @@ public async Task<JsonElement> InvokePluginCommandAsync(string pluginId, string
         _logger.LogInformation("Invoking plugin command: {PluginId}.{Command} (instance: {InstanceId})", 
             pluginId, command, instanceId);
 
-        var response = await worker.Client.ExecuteAsync(request);
+        // Cancelling the gRPC call propagates to the plugin's ExecuteAsync cancellation token
+        ExecuteResponse response;
+        try
+        {
+            response = await worker.Client.ExecuteAsync(request, cancellationToken: cancellationToken);
+        }
+        catch (RpcException ex) when (ex.StatusCode == StatusCode.Cancelled && cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogInformation("Plugin command cancelled: {PluginId}.{Command}", pluginId, command);
+            throw new OperationCanceledException("Plugin command was cancelled", ex, cancellationToken);
+        }
 
         if (!response.Success)
         {
@@ -469,12 +550,25 @@ public async Task<JsonElement> InvokePluginCommandAsync(string pluginId, string
         return JsonSerializer.Deserialize<JsonElement>(resultJson, JsonOptions);
     }
 
+    /// <summary>
+    /// Gets the instance ID of the worker bound to a connection. Calls without a
+    /// connection share the "default" instance, which follows the active connection.
+    /// </summary>
+    public static string GetConnectionInstanceId(string? connectionId)
+        => string.IsNullOrEmpty(connectionId) || connectionId.Equals("default", StringComparison.OrdinalIgnoreCase)
+            ? "default"
+            : $"{ConnectionInstancePrefix}{connectionId}";
+
     // Legacy methods for backward compatibility (default instance)
     public Task<List<PluginCommand>> GetPluginCommandsAsync(string pluginId) 
         => GetPluginCommandsAsync(pluginId, "default");
 
-    public Task<JsonElement> InvokePluginCommandAsync(string pluginId, string command, string payload) 
-        => InvokePluginCommandAsync(pluginId, "default", command, payload);
+    public Task<JsonElement> InvokePluginCommandAsync(
+        string pluginId,
+        string command,
+        string payload,
+        CancellationToken cancellationToken = default)
+        => InvokePluginCommandAsync(pluginId, "default", command, payload, cancellationToken);
 
     private string GetWorkerKey(string pluginId, string instanceId) => $"{pluginId}::{instanceId}";
 
@@ -552,9 +646,28 @@ private async Task<(PluginManifest manifest, string pluginDir)> FindPluginAsync(
         throw new FileNotFoundException($"Plugin not found: {pluginId}");
     }
 
-    private async Task<PluginManifest?> LoadManifestAsync(string manifestPath)
+    /// <summary>
+    /// Finds an installed plugin, or returns null if it is not installed.
+    /// </summary>
+    internal async Task<(PluginManifest manifest, string pluginDir)?> TryFindPluginAsync(string pluginId)
+    {
+        try
+        {
+            return await FindPluginAsync(pluginId);
+        }
+        catch (Exception ex) when (ex is FileNotFoundException or DirectoryNotFoundException)
+        {
+            return null;
+        }
+    }
+
+    internal static async Task<PluginManifest?> LoadManifestAsync(string manifestPath)
+    {
+        return ParseManifest(await File.ReadAllTextAsync(manifestPath));
+    }
+
+    private static PluginManifest? ParseManifest(string json)
     {
-        var json = await File.ReadAllTextAsync(manifestPath);
         return JsonSerializer.Deserialize<PluginManifest>(json, new JsonSerializerOptions
         {
             PropertyNameCaseInsensitive = true
@@ -685,8 +798,11 @@ private string ResolveAssemblyPath(PluginManifest manifest, string pluginDir)
         // Get the token callback socket path (starts server if needed)
         var tokenCallbackSocket = await _tokenCallbackServer.StartAsync();
         
-        // Get active connection info
-        var activeConnection = await _connectionService.GetActiveConnectionAsync();
+        // Connection-bound instances talk to their own environment, others to the active connection
+        var activeConnection = instanceId.StartsWith(ConnectionInstancePrefix, StringComparison.Ordinal)
+            ? await _connectionService.GetConnectionAsync(instanceId[ConnectionInstancePrefix.Length..])
+                ?? throw new InvalidOperationException($"Connection not found for plugin instance: {instanceId}")
+            : await _connectionService.GetActiveConnectionAsync();
 
         // Initialize the plugin with token callback info
         var initRequest = new InitializeRequest
@@ -870,7 +986,23 @@ public record PluginInfo
     public required string UiEntry { get; init; }
     public string? UiModule { get; init; }
     public string? UiScope { get; init; }
+    /// <summary>
+    /// "federated" to render the remote module in the shell, "isolated" to load the UI page in a sandboxed iframe.
+    /// </summary>
+    public string UiMode { get; init; } = "federated";
     public bool IsRunning { get; init; }
+    public EnginesInfo? Engines { get; init; }
+    public IReadOnlyList<string> Permissions { get; init; } = [];
+    /// <summary>
+    /// Manifest document as authored, validated by the shell against plugin.manifest.schema.json.
+    /// </summary>
+    public JsonElement? Manifest { get; init; }
+    /// <summary>
+    /// Catalog the plugin was installed from; null for plugins bundled with the app.
+    /// </summary>
+    public string? Source { get; init; }
+    public string? Checksum { get; init; }
+    public DateTimeOffset? InstalledAt { get; init; }
 }
 
 public record PluginCommand
@@ -878,6 +1010,12 @@ public record PluginCommand
     public required string Name { get; init; }
     public required string Label { get; init; }
     public string? Description { get; init; }
+    public JsonElement? PayloadSchema { get; init; }
+
+    /// <summary>
+    /// "none", "write" or "destructive"; null when the plugin does not declare it.
+    /// </summary>
+    public string? SideEffects { get; init; }
 }
 
 public record PluginInstanceInfo
@@ -910,6 +1048,11 @@ internal record PluginManifest
     public string? Icon { get; init; }
     public UiInfo? Ui { get; init; }
     public BackendInfo? Backend { get; init; }
+    public EnginesInfo? Engines { get; init; }
+    public List<string>? Permissions { get; init; }
+    public string? Homepage { get; init; }
+    public string? Repository { get; init; }
+    public string? License { get; init; }
 }
 
 internal record UiInfo
@@ -918,6 +1061,7 @@ internal record UiInfo
     public string? DevEntry { get; init; }
     public string? Module { get; init; }
     public string? Scope { get; init; }
+    public string? Mode { get; init; }
 }
 
 internal record BackendInfo
@@ -925,3 +1069,11 @@ internal record BackendInfo
     public string? Assembly { get; init; }
     public string? EntryPoint { get; init; }
 }
+
+public record EnginesInfo
+{
+    /// <summary>
+    /// Semver range of @ddk/host-sdk the plugin UI is built against.
+    /// </summary>
+    public string? HostSdkVersion { get; init; }
+}
@@ -0,0 +1,439 @@
+using System.Collections.Concurrent;
+using System.Security.Cryptography;
+using System.Text.Json;
+using Microsoft.Extensions.Logging;
+
+namespace DataverseDevKit.Host.Services;
+
+/// <summary>
+/// Checks bridge requests made by plugins against the permissions declared in their
+/// manifest and the user's consent decisions, which are persisted per plugin.
+/// Requests are attributed by session: the shell's session is handed to the page
+/// through <see cref="ShellSessionRequested"/>, plugin instances get theirs from the
+/// shell through <see cref="RegisterCaller"/>. Requests without a known session are rejected.
+/// </summary>
+public class PluginPermissionService
+{
+    public const string ConnectionsRead = "connections:read";
+    public const string ConnectionsWrite = "connections:write";
+    public const string Auth = "auth";
+    public const string DataverseRead = "dataverse:read";
+    public const string DataverseWrite = "dataverse:write";
+    public const string Storage = "storage";
+    public const string Events = "events";
+    public const string PluginsInvoke = "plugins:invoke";
+    public const string PluginsManage = "plugins:manage";
+
+    /// <summary>
+    /// Permissions a plugin can declare in its manifest.
+    /// </summary>
+    public static readonly IReadOnlySet<string> KnownPermissions = new HashSet<string>
+    {
+        ConnectionsRead, ConnectionsWrite, Auth, DataverseRead, DataverseWrite,
+        Storage, Events, PluginsInvoke, PluginsManage
+    };
+
+    // A granted permission also covers the ones it implies
+    private static readonly Dictionary<string, string[]> ImpliedPermissions = new()
+    {
+        [ConnectionsWrite] = [ConnectionsRead],
+        [DataverseWrite] = [DataverseRead]
+    };
+
+    private const string GrantsFileName = "permissions.json";
+
+    private readonly ILogger<PluginPermissionService> _logger;
+    private readonly PluginHostManager _pluginHostManager;
+    private readonly string _grantsPath;
+    private readonly Dictionary<string, Dictionary<string, PermissionGrant>> _grants;
+    private readonly string _shellSession = CreateSessionId();
+    private readonly ConcurrentDictionary<string, RequestCaller> _callerSessions = new();
+
+    /// <summary>
+    /// Raised with the shell's session when the page asks for it; the page receives it
+    /// through a hook only the shell can install.
+    /// </summary>
+    public event EventHandler<string>? ShellSessionRequested;
+
+    public PluginPermissionService(ILogger<PluginPermissionService> logger, PluginHostManager pluginHostManager)
+    {
+        _logger = logger;
+        _pluginHostManager = pluginHostManager;
+
+        var basePath = Path.Combine(
+            Environment.GetFolderPath(Environment.SpecialFolder.LocalApplicationData),
+            "DataverseDevKit");
+        Directory.CreateDirectory(basePath);
+        _grantsPath = Path.Combine(basePath, GrantsFileName);
+        _grants = LoadGrants();
+    }
+
+    /// <summary>
+    /// Hands the shell's session to the page again, e.g. after it was reloaded.
+    /// </summary>
+    public void RequestShellSession()
+    {
+        ShellSessionRequested?.Invoke(this, _shellSession);
+    }
+
+    /// <summary>
+    /// Issues the session a plugin instance makes its requests with.
+    /// </summary>
+    public string RegisterCaller(RequestCaller caller)
+    {
+        var session = CreateSessionId();
+        _callerSessions[session] = new RequestCaller { PluginId = caller.PluginId, InstanceId = caller.InstanceId };
+        _logger.LogDebug("Registered instance {InstanceId} of {PluginId}", caller.InstanceId, caller.PluginId);
+        return session;
+    }
+
+    /// <summary>
+    /// Whether a request with the given session comes from the shell.
+    /// </summary>
+    public bool IsShellSession(string? session)
+    {
+        return session != null && CryptographicOperations.FixedTimeEquals(
+            System.Text.Encoding.UTF8.GetBytes(session),
+            System.Text.Encoding.UTF8.GetBytes(_shellSession));
+    }
+
+    /// <summary>
+    /// Whether the session was issued by this host, to the shell or to a plugin instance.
+    /// </summary>
+    public bool IsIssuedSession(string? session)
+    {
+        return IsShellSession(session) || (session != null && _callerSessions.ContainsKey(session));
+    }
+
+    /// <summary>
+    /// The plugin instance a session was issued to.
+    /// </summary>
+    /// <exception cref="PermissionDeniedException">The session was not issued by this host.</exception>
+    public RequestCaller GetCaller(string? session, string method)
+    {
+        if (session != null && _callerSessions.TryGetValue(session, out var caller))
+        {
+            return caller;
+        }
+
+        throw new PermissionDeniedException(string.Empty, null,
+            $"{method} was called without a session; requests must come from the shell or a plugin instance it registered");
+    }
+
+    /// <summary>
+    /// Throws unless the calling plugin may run the method with the given parameters.
+    /// </summary>
+    /// <exception cref="PermissionDeniedException">The method is off limits, the permission is not declared or the user refused it.</exception>
+    /// <exception cref="PermissionConsentRequiredException">The user has not decided on the permission yet.</exception>
+    public async Task AuthorizeAsync(RequestCaller caller, string method, JsonElement? paramsElement)
+    {
+        var sideEffects = method == "plugin.invoke" ? await GetSideEffectsAsync(paramsElement) : null;
+        var required = GetRequiredPermissions(caller, method, paramsElement, sideEffects);
+        if (required.Count == 0)
+        {
+            return;
+        }
+
+        var plugin = await _pluginHostManager.TryFindPluginAsync(caller.PluginId)
+            ?? throw new PermissionDeniedException(caller.PluginId, null, $"Unknown plugin '{caller.PluginId}'");
+        var declared = plugin.manifest.Permissions ?? [];
+
+        foreach (var permission in required)
+        {
+            var covering = FindCoveringPermission(permission, declared)
+                ?? throw new PermissionDeniedException(caller.PluginId, permission,
+                    $"Plugin '{caller.PluginId}' does not declare the '{permission}' permission required by {method}");
+
+            switch (GetGrant(caller.PluginId, covering)?.Granted)
+            {
+                case true:
+                    continue;
+                case false:
+                    throw new PermissionDeniedException(caller.PluginId, covering,
+                        $"The '{covering}' permission of plugin '{caller.PluginId}' was denied");
+                default:
+                    throw new PermissionConsentRequiredException(caller.PluginId, covering);
+            }
+        }
+    }
+
+    public List<PermissionGrant> ListGrants(string? pluginId)
+    {
+        lock (_grants)
+        {
+            return _grants
+                .Where(p => pluginId == null || p.Key == pluginId)
+                .SelectMany(p => p.Value.Values)
+                .OrderBy(g => g.PluginId)
+                .ThenBy(g => g.Permission)
+                .ToList();
+        }
+    }
+
+    /// <summary>
+    /// Records the user's decision on a permission of a plugin.
+    /// </summary>
+    public async Task<PermissionGrant> SetGrantAsync(string pluginId, string permission, bool granted)
+    {
+        if (!KnownPermissions.Contains(permission))
+        {
+            throw new ArgumentException($"Unknown permission: {permission}");
+        }
+
+        var grant = new PermissionGrant
+        {
+            PluginId = pluginId,
+            Permission = permission,
+            Granted = granted,
+            DecidedAt = DateTimeOffset.UtcNow
+        };
+
+        lock (_grants)
+        {
+            if (!_grants.TryGetValue(pluginId, out var pluginGrants))
+            {
+                pluginGrants = new Dictionary<string, PermissionGrant>();
+                _grants[pluginId] = pluginGrants;
+            }
+            pluginGrants[permission] = grant;
+        }
+
+        await SaveGrantsAsync();
+        _logger.LogInformation("Permission {Permission} of {PluginId} {Decision}", permission, pluginId, granted ? "granted" : "denied");
+        return grant;
+    }
+
+    /// <summary>
+    /// Forgets decisions so the user is asked again. Returns the number of decisions removed.
+    /// </summary>
+    public async Task<int> ResetAsync(string pluginId, string? permission)
+    {
+        int removed;
+        lock (_grants)
+        {
+            if (!_grants.TryGetValue(pluginId, out var pluginGrants))
+            {
+                return 0;
+            }
+
+            if (permission == null)
+            {
+                removed = pluginGrants.Count;
+                _grants.Remove(pluginId);
+            }
+            else
+            {
+                removed = pluginGrants.Remove(permission) ? 1 : 0;
+            }
+        }
+
+        await SaveGrantsAsync();
+        return removed;
+    }
+
+    /// <summary>
+    /// Maps a bridge method to the permissions a plugin needs to call it. For
+    /// plugin.invoke, <paramref name="sideEffects"/> is what the invoked command declares.
+    /// </summary>
+    internal static IReadOnlyList<string> GetRequiredPermissions(
+        RequestCaller caller,
+        string method,
+        JsonElement? paramsElement,
+        string? sideEffects = null)
+    {
+        var pluginIdParam = GetStringParam(paramsElement, "pluginId");
+
+        switch (method)
+        {
+            case "connection.list":
+            case "connection.get":
+            case "connection.checkHealth":
+            case "auth.getStatus":
+                return [ConnectionsRead];
+            case "connection.add":
+            case "connection.update":
+            case "connection.remove":
+            case "connection.setActive":
+                return [ConnectionsWrite];
+            case "auth.login":
+            case "auth.logout":
+            case "auth.reauthenticate":
+            case "auth.refresh":
+                return [Auth];
+            case "events.subscribe":
+                if (GetStringParam(paramsElement, "eventType") == "*")
+                {
+                    throw new PermissionDeniedException(caller.PluginId, null, "Plugins must subscribe to events by type");
+                }
+                return [Events];
+            case "events.unsubscribe":
+                return [Events];
+            case "plugin.list":
+            case "plugin.getCommands":
+                return [];
+            case "plugin.invoke":
+            {
+                var required = new List<string>();
+                if (pluginIdParam != caller.PluginId)
+                {
+                    required.Add(PluginsInvoke);
+                }
+                // Commands run without a connection use the active one, so every call reaches Dataverse
+                required.Add(sideEffects is "write" or "destructive" ? DataverseWrite : DataverseRead);
+                return required;
+            }
+            case "plugin.catalog":
+            case "plugin.install":
+            case "plugin.update":
+            case "plugin.uninstall":
+                return [PluginsManage];
+            case "storage.setQuota":
+                throw new PermissionDeniedException(caller.PluginId, null, "Storage quotas can only be changed by the user");
+        }
+
+        if (method.StartsWith("storage.", StringComparison.Ordinal))
+        {
+            if (pluginIdParam != caller.PluginId)
+            {
+                throw new PermissionDeniedException(caller.PluginId, Storage, "Plugins can only access their own storage");
+            }
+            return [Storage];
+        }
+
+        throw new PermissionDeniedException(caller.PluginId, null, $"{method} is not available to plugins");
+    }
+
+    /// <summary>
+    /// Side effects the command a plugin.invoke request runs declares; null when it declares none.
+    /// </summary>
+    private async Task<string?> GetSideEffectsAsync(JsonElement? paramsElement)
+    {
+        var pluginId = GetStringParam(paramsElement, "pluginId");
+        var command = GetStringParam(paramsElement, "command");
+        if (pluginId == null || command == null)
+        {
+            return null;
+        }
+
+        var instanceId = PluginHostManager.GetConnectionInstanceId(GetStringParam(paramsElement, "connectionId"));
+        var commands = await _pluginHostManager.GetPluginCommandsAsync(pluginId, instanceId);
+        return commands.FirstOrDefault(c => c.Name == command)?.SideEffects;
+    }
+
+    private static string CreateSessionId()
+    {
+        return Convert.ToHexString(RandomNumberGenerator.GetBytes(32));
+    }
+
+    private static string? FindCoveringPermission(string permission, IReadOnlyCollection<string> declared)
+    {
+        if (declared.Contains(permission))
+        {
+            return permission;
+        }
+
+        return declared.FirstOrDefault(d => ImpliedPermissions.TryGetValue(d, out var implied) && implied.Contains(permission));
+    }
+
+    private static string? GetStringParam(JsonElement? paramsElement, string name)
+    {
+        return paramsElement is { ValueKind: JsonValueKind.Object } element
+            && element.TryGetProperty(name, out var prop)
+            && prop.ValueKind == JsonValueKind.String
+                ? prop.GetString()
+                : null;
+    }
+
+    private PermissionGrant? GetGrant(string pluginId, string permission)
+    {
+        lock (_grants)
+        {
+            return _grants.TryGetValue(pluginId, out var pluginGrants) && pluginGrants.TryGetValue(permission, out var grant)
+                ? grant
+                : null;
+        }
+    }
+
+    private Dictionary<string, Dictionary<string, PermissionGrant>> LoadGrants()
+    {
+        if (!File.Exists(_grantsPath))
+        {
+            return new Dictionary<string, Dictionary<string, PermissionGrant>>();
+        }
+
+        try
+        {
+            var grants = JsonSerializer.Deserialize<List<PermissionGrant>>(File.ReadAllText(_grantsPath)) ?? [];
+            return grants
+                .GroupBy(g => g.PluginId)
+                .ToDictionary(g => g.Key, g => g.ToDictionary(x => x.Permission));
+        }
+        catch (JsonException ex)
+        {
+            _logger.LogWarning(ex, "Ignoring unreadable permissions file");
+            return new Dictionary<string, Dictionary<string, PermissionGrant>>();
+        }
+    }
+
+    private async Task SaveGrantsAsync()
+    {
+        string json;
+        lock (_grants)
+        {
+            json = JsonSerializer.Serialize(_grants.Values.SelectMany(p => p.Values).ToList());
+        }
+        await File.WriteAllTextAsync(_grantsPath, json);
+    }
+}
+
+/// <summary>
+/// Plugin instance a bridge request was made by.
+/// </summary>
+public record RequestCaller
+{
+    public required string PluginId { get; init; }
+    public string? InstanceId { get; init; }
+}
+
+/// <summary>
+/// The user's decision on one permission of a plugin.
+/// </summary>
+public record PermissionGrant
+{
+    public required string PluginId { get; init; }
+    public required string Permission { get; init; }
+    public bool Granted { get; init; }
+    public DateTimeOffset DecidedAt { get; init; }
+}
+
+/// <summary>
+/// Thrown when a plugin calls a bridge method it is not allowed to use.
+/// </summary>
+public class PermissionDeniedException : Exception
+{
+    public string PluginId { get; }
+    public string? Permission { get; }
+
+    public PermissionDeniedException(string pluginId, string? permission, string message)
+        : base(message)
+    {
+        PluginId = pluginId;
+        Permission = permission;
+    }
+}
+
+/// <summary>
+/// Thrown when a plugin uses a declared permission the user has not decided on yet.
+/// </summary>
+public class PermissionConsentRequiredException : Exception
+{
+    public string PluginId { get; }
+    public string Permission { get; }
+
+    public PermissionConsentRequiredException(string pluginId, string permission)
+        : base($"Plugin '{pluginId}' needs consent for the '{permission}' permission")
+    {
+        PluginId = pluginId;
+        Permission = permission;
+    }
+}
@@ -1,59 +1,442 @@
+using System.Collections.Concurrent;
+using System.Security.Cryptography;
+using System.Text;
+using System.Text.Json;
 using Microsoft.Extensions.Logging;
 
 namespace DataverseDevKit.Host.Services;
 
+/// <summary>
+/// EventArgs for changes to a plugin's storage.
+/// </summary>
+public class StorageChangedEventArgs : EventArgs
+{
+    public required string PluginId { get; init; }
+    public required IReadOnlyList<string> Keys { get; init; }
+    /// <summary>
+    /// Caller-supplied tag of the writer, so a tab can ignore its own changes.
+    /// </summary>
+    public string? Origin { get; init; }
+}
+
 /// <summary>
 /// Provides isolated storage for plugins.
+/// Each key is kept in its own file, named after a hash of the key so that keys differing
+/// only in case stay apart on case-insensitive file systems and long keys or reserved
+/// names like <c>CON</c> remain valid; the file holds the key followed by the value.
+/// Writes are checked against a per-plugin quota, which counts keys and values.
 /// </summary>
 public class StorageService
 {
+    /// <summary>
+    /// Event type under which storage changes are forwarded to the frontend.
+    /// </summary>
+    public const string ChangedEventType = "storage:changed";
+
+    /// <summary>
+    /// Quota of plugins that have not been assigned one.
+    /// </summary>
+    public const long DefaultQuotaBytes = 10 * 1024 * 1024;
+
+    private const string KeyFileExtension = ".entry";
+    // Files of earlier versions, named after the escaped key and holding only the value
+    private const string LegacyKeyFileExtension = ".txt";
+    private const string QuotasFileName = "quotas.json";
+
     private readonly ILogger<StorageService> _logger;
     private readonly string _basePath;
+    private readonly ConcurrentDictionary<string, SemaphoreSlim> _pluginLocks = new();
+    private readonly ConcurrentDictionary<string, bool> _migratedPlugins = new();
+    private readonly Dictionary<string, long> _quotas;
+
+    public event EventHandler<StorageChangedEventArgs>? StorageChanged;
 
     public StorageService(ILogger<StorageService> logger)
-    {
-        _logger = logger;
-        _basePath = Path.Combine(
+        : this(logger, Path.Combine(
             Environment.GetFolderPath(Environment.SpecialFolder.LocalApplicationData),
             "DataverseDevKit",
-            "Storage");
+            "Storage"))
+    {
+    }
+
+    internal StorageService(ILogger<StorageService> logger, string basePath)
+    {
+        _logger = logger;
+        _basePath = basePath;
 
         if (!Directory.Exists(_basePath))
         {
             Directory.CreateDirectory(_basePath);
         }
+
+        _quotas = LoadQuotas();
     }
 
     public string GetPluginStoragePath(string pluginId)
     {
         var pluginPath = Path.Combine(_basePath, pluginId);
-        
+
         if (!Directory.Exists(pluginPath))
         {
             Directory.CreateDirectory(pluginPath);
         }
 
+        if (_migratedPlugins.TryAdd(pluginId, true))
+        {
+            MigrateLegacyFiles(pluginId, pluginPath);
+        }
+
         return pluginPath;
     }
 
     public async Task<string?> GetAsync(string pluginId, string key)
     {
-        var filePath = Path.Combine(GetPluginStoragePath(pluginId), $"{key}.txt");
-        
+        var filePath = GetKeyPath(pluginId, key);
+
         if (!File.Exists(filePath))
         {
             return null;
         }
 
-        return await File.ReadAllTextAsync(filePath);
+        return ParseEntry(await File.ReadAllTextAsync(filePath)).Value;
+    }
+
+    public Task<bool> SetAsync(string pluginId, string key, string value, string? origin = null)
+    {
+        return TransactAsync(pluginId, [new StorageOperation { Type = StorageOperation.Set, Key = key, Value = value }], origin);
+    }
+
+    public async Task<bool> DeleteAsync(string pluginId, string key, string? origin = null)
+    {
+        if (!File.Exists(GetKeyPath(pluginId, key)))
+        {
+            return false;
+        }
+
+        return await TransactAsync(pluginId, [new StorageOperation { Type = StorageOperation.Delete, Key = key }], origin);
     }
 
-    public async Task<bool> SetAsync(string pluginId, string key, string value)
+    /// <summary>
+    /// Lists the keys of a plugin, optionally only those starting with <paramref name="prefix"/>.
+    /// </summary>
+    public IReadOnlyList<string> ListKeys(string pluginId, string? prefix = null)
     {
-        var filePath = Path.Combine(GetPluginStoragePath(pluginId), $"{key}.txt");
-        
-        await File.WriteAllTextAsync(filePath, value);
-        
+        return Directory.EnumerateFiles(GetPluginStoragePath(pluginId), $"*{KeyFileExtension}")
+            .Select(ReadEntryKey)
+            .Where(key => string.IsNullOrEmpty(prefix) || key.StartsWith(prefix, StringComparison.Ordinal))
+            .OrderBy(key => key, StringComparer.Ordinal)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Deletes all keys of a plugin, or only those starting with <paramref name="prefix"/>.
+    /// Returns the number of deleted keys.
+    /// </summary>
+    public async Task<int> ClearAsync(string pluginId, string? prefix = null, string? origin = null)
+    {
+        var operations = ListKeys(pluginId, prefix)
+            .Select(key => new StorageOperation { Type = StorageOperation.Delete, Key = key })
+            .ToList();
+
+        if (operations.Count > 0)
+        {
+            await TransactAsync(pluginId, operations, origin);
+        }
+
+        return operations.Count;
+    }
+
+    /// <summary>
+    /// Applies a set of writes and deletes atomically: either all are applied or, when the
+    /// quota would be exceeded or a write fails, none are.
+    /// </summary>
+    public async Task<bool> TransactAsync(string pluginId, IReadOnlyList<StorageOperation> operations, string? origin = null)
+    {
+        if (operations.Count == 0)
+        {
+            return true;
+        }
+
+        foreach (var operation in operations)
+        {
+            if (string.IsNullOrEmpty(operation.Key))
+            {
+                throw new ArgumentException("Storage keys must not be empty");
+            }
+            if (operation.Type != StorageOperation.Set && operation.Type != StorageOperation.Delete)
+            {
+                throw new ArgumentException($"Unknown storage operation: {operation.Type}");
+            }
+        }
+
+        var pluginLock = _pluginLocks.GetOrAdd(pluginId, _ => new SemaphoreSlim(1, 1));
+        await pluginLock.WaitAsync();
+        try
+        {
+            // Last operation on a key wins, as if applied in order
+            var finalValues = new Dictionary<string, string?>();
+            foreach (var operation in operations)
+            {
+                finalValues[operation.Key] = operation.Type == StorageOperation.Set ? operation.Value ?? string.Empty : null;
+            }
+
+            var usage = GetUsage(pluginId);
+            var projectedBytes = usage.UsedBytes;
+            foreach (var (key, value) in finalValues)
+            {
+                projectedBytes += (value == null ? 0 : Encoding.UTF8.GetByteCount(FormatEntry(key, value))) - GetStoredSize(pluginId, key);
+            }
+
+            if (projectedBytes > usage.QuotaBytes)
+            {
+                throw new StorageQuotaExceededException(pluginId, usage.QuotaBytes, projectedBytes);
+            }
+
+            var previousValues = new Dictionary<string, string?>();
+            try
+            {
+                foreach (var (key, value) in finalValues)
+                {
+                    var filePath = GetKeyPath(pluginId, key);
+                    previousValues[key] = File.Exists(filePath) ? ParseEntry(await File.ReadAllTextAsync(filePath)).Value : null;
+
+                    if (value == null)
+                    {
+                        File.Delete(filePath);
+                    }
+                    else
+                    {
+                        await File.WriteAllTextAsync(filePath, FormatEntry(key, value));
+                    }
+                }
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Storage transaction for plugin {PluginId} failed, rolling back", pluginId);
+                await RestoreAsync(pluginId, previousValues);
+                throw;
+            }
+        }
+        finally
+        {
+            pluginLock.Release();
+        }
+
+        StorageChanged?.Invoke(this, new StorageChangedEventArgs
+        {
+            PluginId = pluginId,
+            Keys = operations.Select(o => o.Key).Distinct().ToList(),
+            Origin = origin
+        });
+
         return true;
     }
+
+    public StorageUsage GetUsage(string pluginId)
+    {
+        var files = new DirectoryInfo(GetPluginStoragePath(pluginId)).GetFiles($"*{KeyFileExtension}");
+
+        return new StorageUsage
+        {
+            PluginId = pluginId,
+            UsedBytes = files.Sum(f => f.Length),
+            QuotaBytes = GetQuota(pluginId),
+            KeyCount = files.Length
+        };
+    }
+
+    /// <summary>
+    /// Reports the usage of every plugin that has stored data or an explicit quota.
+    /// </summary>
+    public IReadOnlyList<StorageUsage> ListUsage()
+    {
+        var pluginIds = Directory.EnumerateDirectories(_basePath)
+            .Select(path => Path.GetFileName(path));
+
+        lock (_quotas)
+        {
+            pluginIds = pluginIds.Union(_quotas.Keys).ToList();
+        }
+
+        return pluginIds
+            .OrderBy(id => id, StringComparer.OrdinalIgnoreCase)
+            .Select(GetUsage)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Sets the quota of a plugin; null restores the default.
+    /// </summary>
+    public async Task<StorageUsage> SetQuotaAsync(string pluginId, long? quotaBytes)
+    {
+        if (quotaBytes <= 0)
+        {
+            throw new ArgumentException("Quota must be positive");
+        }
+
+        string json;
+        lock (_quotas)
+        {
+            if (quotaBytes.HasValue)
+            {
+                _quotas[pluginId] = quotaBytes.Value;
+            }
+            else
+            {
+                _quotas.Remove(pluginId);
+            }
+            json = JsonSerializer.Serialize(_quotas);
+        }
+
+        await File.WriteAllTextAsync(Path.Combine(_basePath, QuotasFileName), json);
+        _logger.LogInformation("Storage quota of {PluginId} set to {Quota}", pluginId, quotaBytes?.ToString() ?? "default");
+
+        return GetUsage(pluginId);
+    }
+
+    private long GetQuota(string pluginId)
+    {
+        lock (_quotas)
+        {
+            return _quotas.TryGetValue(pluginId, out var quota) ? quota : DefaultQuotaBytes;
+        }
+    }
+
+    private Dictionary<string, long> LoadQuotas()
+    {
+        var path = Path.Combine(_basePath, QuotasFileName);
+        if (!File.Exists(path))
+        {
+            return new Dictionary<string, long>();
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<Dictionary<string, long>>(File.ReadAllText(path)) ?? new Dictionary<string, long>();
+        }
+        catch (JsonException ex)
+        {
+            _logger.LogWarning(ex, "Ignoring unreadable storage quotas file");
+            return new Dictionary<string, long>();
+        }
+    }
+
+    private string GetKeyPath(string pluginId, string key)
+    {
+        return Path.Combine(GetPluginStoragePath(pluginId), GetKeyFileName(key));
+    }
+
+    // Lower-case hex: the same for keys that differ only in case would be a hash collision
+    private static string GetKeyFileName(string key)
+    {
+        var hash = SHA256.HashData(Encoding.UTF8.GetBytes(key));
+        return $"{Convert.ToHexString(hash).ToLowerInvariant()}{KeyFileExtension}";
+    }
+
+    // The key is escaped so it cannot contain the line break that ends it
+    private static string FormatEntry(string key, string value)
+    {
+        return $"{Uri.EscapeDataString(key)}\n{value}";
+    }
+
+    private static (string Key, string Value) ParseEntry(string content)
+    {
+        var separator = content.IndexOf('\n');
+        if (separator < 0)
+        {
+            throw new InvalidDataException("Storage entry has no key");
+        }
+
+        return (Uri.UnescapeDataString(content[..separator]), content[(separator + 1)..]);
+    }
+
+    private static string ReadEntryKey(string path)
+    {
+        using var reader = new StreamReader(path, Encoding.UTF8);
+        return Uri.UnescapeDataString(reader.ReadLine() ?? string.Empty);
+    }
+
+    // Rewrites files of earlier versions, named after the escaped key, in the current format
+    private void MigrateLegacyFiles(string pluginId, string pluginPath)
+    {
+        foreach (var legacyPath in Directory.EnumerateFiles(pluginPath, $"*{LegacyKeyFileExtension}").ToList())
+        {
+            try
+            {
+                var key = Uri.UnescapeDataString(Path.GetFileNameWithoutExtension(legacyPath));
+                var value = File.ReadAllText(legacyPath);
+                File.WriteAllText(Path.Combine(pluginPath, GetKeyFileName(key)), FormatEntry(key, value));
+                File.Delete(legacyPath);
+            }
+            catch (Exception ex) when (ex is IOException or UnauthorizedAccessException)
+            {
+                _logger.LogWarning(ex, "Could not migrate storage file {Path} of plugin {PluginId}", legacyPath, pluginId);
+            }
+        }
+    }
+
+    private long GetStoredSize(string pluginId, string key)
+    {
+        var file = new FileInfo(GetKeyPath(pluginId, key));
+        return file.Exists ? file.Length : 0;
+    }
+
+    private async Task RestoreAsync(string pluginId, Dictionary<string, string?> previousValues)
+    {
+        foreach (var (key, value) in previousValues)
+        {
+            try
+            {
+                var filePath = GetKeyPath(pluginId, key);
+                if (value == null)
+                {
+                    File.Delete(filePath);
+                }
+                else
+                {
+                    await File.WriteAllTextAsync(filePath, FormatEntry(key, value));
+                }
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Failed to roll back storage key {Key} of plugin {PluginId}", key, pluginId);
+            }
+        }
+    }
+}
+
+/// <summary>
+/// Thrown when a write would take a plugin's storage over its quota.
+/// </summary>
+public class StorageQuotaExceededException : Exception
+{
+    public string PluginId { get; }
+    public long QuotaBytes { get; }
+    public long RequiredBytes { get; }
+
+    public StorageQuotaExceededException(string pluginId, long quotaBytes, long requiredBytes)
+        : base($"Storage quota of plugin '{pluginId}' exceeded: {requiredBytes} of {quotaBytes} bytes")
+    {
+        PluginId = pluginId;
+        QuotaBytes = quotaBytes;
+        RequiredBytes = requiredBytes;
+    }
+}
+
+public record StorageOperation
+{
+    public const string Set = "set";
+    public const string Delete = "delete";
+
+    public required string Type { get; init; }
+    public required string Key { get; init; }
+    public string? Value { get; init; }
+}
+
+public record StorageUsage
+{
+    public required string PluginId { get; init; }
+    public long UsedBytes { get; init; }
+    public long QuotaBytes { get; init; }
+    public int KeyCount { get; init; }
 }
@@ -1,14 +1,38 @@
+using System.Collections.Concurrent;
+using System.Security.Cryptography;
+using System.Security.Cryptography.X509Certificates;
 using Microsoft.Extensions.Logging;
 using Microsoft.Identity.Client;
+using Microsoft.Identity.Client.AppConfig;
 
 namespace DataverseDevKit.Host.Services;
 
+/// <summary>
+/// Code the user has to enter on another device to complete a DeviceCode sign-in.
+/// </summary>
+public class DeviceCodeEventArgs : EventArgs
+{
+    public required string ConnectionId { get; init; }
+    public required string UserCode { get; init; }
+    public required string VerificationUrl { get; init; }
+    public required string Message { get; init; }
+    public DateTimeOffset ExpiresOn { get; init; }
+}
+
 /// <summary>
 /// Manages access tokens for Dataverse connections using MSAL.
 /// Provides tokens on-demand with automatic refresh.
+/// OAuth and DeviceCode connections sign in a user through a shared public client;
+/// ClientSecret, Certificate and ManagedIdentity connections get app-only tokens
+/// from a client per connection.
 /// </summary>
 public sealed class TokenProviderService : IDisposable
 {
+    /// <summary>
+    /// Event type under which device codes are forwarded to the frontend.
+    /// </summary>
+    public const string DeviceCodeEventType = "auth:deviceCode";
+
     private readonly ILogger<TokenProviderService> _logger;
     private readonly TokenCacheService _tokenCacheService;
     private readonly ConnectionService _connectionService;
@@ -18,6 +42,10 @@ public sealed class TokenProviderService : IDisposable
     private readonly SemaphoreSlim _initLock = new(1, 1);
     private bool _isInitialized;
 
+    // App-only clients, per connection id
+    private readonly ConcurrentDictionary<string, IConfidentialClientApplication> _confidentialApps = new();
+    private readonly ConcurrentDictionary<string, IManagedIdentityApplication> _managedIdentityApps = new();
+
     // Well-known Dataverse scope suffix
     private const string DataverseScopeSuffix = "/.default";
     
@@ -28,6 +56,11 @@ public sealed class TokenProviderService : IDisposable
     // Redirect URI for desktop apps
     private const string RedirectUri = "http://localhost";
 
+    /// <summary>
+    /// Raised while a DeviceCode sign-in waits for the user to enter the code.
+    /// </summary>
+    public event EventHandler<DeviceCodeEventArgs>? DeviceCodeReceived;
+
     public TokenProviderService(
         ILogger<TokenProviderService> logger,
         TokenCacheService tokenCacheService,
@@ -88,6 +121,16 @@ public async Task<AccessTokenResult> GetAccessTokenAsync(string? connectionId, C
         var connection = await GetConnectionAsync(connectionId);
         var scopes = GetScopesForConnection(connection);
 
+        if (IsAppOnly(connection))
+        {
+            var appResult = await AcquireAppTokenAsync(connection, forceRefresh: false, ct);
+            return new AccessTokenResult
+            {
+                AccessToken = appResult.AccessToken,
+                ExpiresOn = appResult.ExpiresOn
+            };
+        }
+
         try
         {
             // Try to get token silently (from cache or refresh)
@@ -121,8 +164,9 @@ public async Task<AccessTokenResult> GetAccessTokenAsync(string? connectionId, C
     }
 
     /// <summary>
-    /// Initiates interactive OAuth login for a connection.
-    /// Opens the system browser for the user to authenticate.
+    /// Signs in to a connection using its auth type. OAuth opens the system browser,
+    /// DeviceCode raises <see cref="DeviceCodeReceived"/> and waits for the code to be
+    /// entered, and app-only auth types acquire a token without user interaction.
     /// </summary>
     public async Task<AuthResult> LoginInteractiveAsync(string? connectionId, CancellationToken ct = default)
     {
@@ -133,22 +177,50 @@ public async Task<AuthResult> LoginInteractiveAsync(string? connectionId, Cancel
 
         try
         {
-            _logger.LogInformation("Starting interactive login for connection: {ConnectionName}", connection.Name);
+            _logger.LogInformation("Starting {AuthType} login for connection: {ConnectionName}", connection.AuthType, connection.Name);
 
-            // Use system browser for OAuth flow
-            var result = await _msalApp!.AcquireTokenInteractive(scopes)
-                .WithUseEmbeddedWebView(false) // Use system browser
-                .WithSystemWebViewOptions(new SystemWebViewOptions
+            if (IsAppOnly(connection))
+            {
+                var appResult = await AcquireAppTokenAsync(connection, forceRefresh: true, ct);
+                var appUser = GetAppOnlyUser(connection);
+                await _connectionService.UpdateAuthStateAsync(connection.Id, true, appUser, appResult.ExpiresOn);
+
+                return new AuthResult
                 {
-                    HtmlMessageSuccess = "<html><body><h1>Authentication Successful</h1><p>You can close this window and return to DataverseDevKit.</p></body></html>",
-                    HtmlMessageError = "<html><body><h1>Authentication Failed</h1><p>Please close this window and try again.</p></body></html>",
-                })
-                .ExecuteAsync(ct);
+                    Success = true,
+                    User = appUser,
+                    ExpiresOn = appResult.ExpiresOn
+                };
+            }
+
+            var result = connection.AuthType == AuthTypes.DeviceCode
+                ? await _msalApp!.AcquireTokenWithDeviceCode(scopes, deviceCode =>
+                    {
+                        DeviceCodeReceived?.Invoke(this, new DeviceCodeEventArgs
+                        {
+                            ConnectionId = connection.Id,
+                            UserCode = deviceCode.UserCode,
+                            VerificationUrl = deviceCode.VerificationUrl,
+                            Message = deviceCode.Message,
+                            ExpiresOn = deviceCode.ExpiresOn
+                        });
+                        return Task.CompletedTask;
+                    })
+                    .ExecuteAsync(ct)
+                // Use system browser for OAuth flow
+                : await _msalApp!.AcquireTokenInteractive(scopes)
+                    .WithUseEmbeddedWebView(false) // Use system browser
+                    .WithSystemWebViewOptions(new SystemWebViewOptions
+                    {
+                        HtmlMessageSuccess = "<html><body><h1>Authentication Successful</h1><p>You can close this window and return to DataverseDevKit.</p></body></html>",
+                        HtmlMessageError = "<html><body><h1>Authentication Failed</h1><p>Please close this window and try again.</p></body></html>",
+                    })
+                    .ExecuteAsync(ct);
 
             _logger.LogInformation("Interactive login successful for {User}", result.Account.Username);
 
             // Update connection auth state
-            await _connectionService.UpdateAuthStateAsync(connection.Id, true, result.Account.Username);
+            await _connectionService.UpdateAuthStateAsync(connection.Id, true, result.Account.Username, result.ExpiresOn);
 
             return new AuthResult
             {
@@ -157,6 +229,16 @@ public async Task<AuthResult> LoginInteractiveAsync(string? connectionId, Cancel
                 ExpiresOn = result.ExpiresOn
             };
         }
+        catch (Exception ex) when (ex is InvalidOperationException or CryptographicException or IOException)
+        {
+            // Missing secret or certificate of an app-only connection
+            _logger.LogError(ex, "Login failed for connection: {ConnectionName}", connection.Name);
+            return new AuthResult
+            {
+                Success = false,
+                Error = ex.Message
+            };
+        }
         catch (MsalException ex)
         {
             _logger.LogError(ex, "Interactive login failed for connection: {ConnectionName}", connection.Name);
@@ -177,6 +259,69 @@ public async Task<AuthResult> LoginInteractiveAsync(string? connectionId, Cancel
         }
     }
 
+    /// <summary>
+    /// Acquires a fresh access token without user interaction, extending the session
+    /// before the current token expires. Fails if the user has to sign in again.
+    /// </summary>
+    public async Task<AuthResult> RefreshAsync(string? connectionId, CancellationToken ct = default)
+    {
+        await EnsureInitializedAsync();
+
+        var connection = await GetConnectionAsync(connectionId);
+        var scopes = GetScopesForConnection(connection);
+
+        try
+        {
+            if (IsAppOnly(connection))
+            {
+                var appResult = await AcquireAppTokenAsync(connection, forceRefresh: true, ct);
+                await _connectionService.UpdateAuthStateAsync(connection.Id, true, GetAppOnlyUser(connection), appResult.ExpiresOn);
+                return new AuthResult
+                {
+                    Success = true,
+                    User = GetAppOnlyUser(connection),
+                    ExpiresOn = appResult.ExpiresOn
+                };
+            }
+
+            var accounts = await _msalApp!.GetAccountsAsync();
+            var account = accounts.FirstOrDefault();
+
+            if (account == null)
+            {
+                return new AuthResult
+                {
+                    Success = false,
+                    Error = $"No authenticated account found for connection '{connection.Name}'. Please login first."
+                };
+            }
+
+            var result = await _msalApp.AcquireTokenSilent(scopes, account)
+                .WithForceRefresh(true)
+                .ExecuteAsync(ct);
+
+            _logger.LogInformation("Token refreshed for {ConnectionName}, expires: {Expiry}",
+                connection.Name, result.ExpiresOn);
+            await _connectionService.UpdateAuthStateAsync(connection.Id, true, result.Account.Username, result.ExpiresOn);
+
+            return new AuthResult
+            {
+                Success = true,
+                User = result.Account.Username,
+                ExpiresOn = result.ExpiresOn
+            };
+        }
+        catch (MsalException ex)
+        {
+            _logger.LogWarning("Silent token refresh failed for {ConnectionName}: {Message}", connection.Name, ex.Message);
+            return new AuthResult
+            {
+                Success = false,
+                Error = ex.Message
+            };
+        }
+    }
+
     /// <summary>
     /// Signs out from a connection, clearing cached tokens.
     /// </summary>
@@ -188,6 +333,16 @@ public async Task<bool> LogoutAsync(string? connectionId, CancellationToken ct =
 
         try
         {
+            if (IsAppOnly(connection))
+            {
+                // Dropping the client discards its in-memory app token cache
+                _confidentialApps.TryRemove(connection.Id, out _);
+                _managedIdentityApps.TryRemove(connection.Id, out _);
+                await _connectionService.UpdateAuthStateAsync(connection.Id, false, null);
+                _logger.LogInformation("Logged out from connection: {ConnectionName}", connection.Name);
+                return true;
+            }
+
             var accounts = await _msalApp!.GetAccountsAsync();
             foreach (var account in accounts)
             {
@@ -219,6 +374,12 @@ public async Task<bool> HasValidTokenAsync(string? connectionId, CancellationTok
             var connection = await GetConnectionAsync(connectionId);
             var scopes = GetScopesForConnection(connection);
 
+            if (IsAppOnly(connection))
+            {
+                var appResult = await AcquireAppTokenAsync(connection, forceRefresh: false, ct);
+                return !string.IsNullOrEmpty(appResult.AccessToken);
+            }
+
             var accounts = await _msalApp!.GetAccountsAsync();
             var account = accounts.FirstOrDefault();
 
@@ -307,6 +468,83 @@ private async Task<Connection> GetConnectionAsync(string? connectionId)
         return connection;
     }
 
+    private static bool IsAppOnly(Connection connection)
+    {
+        return connection.AuthType is AuthTypes.ClientSecret or AuthTypes.Certificate or AuthTypes.ManagedIdentity;
+    }
+
+    /// <summary>
+    /// App-only tokens act as the app registration or managed identity rather than a user.
+    /// </summary>
+    private static string GetAppOnlyUser(Connection connection)
+    {
+        return connection.ClientId ?? "System-assigned managed identity";
+    }
+
+    /// <summary>
+    /// Acquires an app-only token for a ClientSecret, Certificate or ManagedIdentity connection.
+    /// MSAL serves cached tokens until shortly before they expire unless a refresh is forced.
+    /// </summary>
+    private async Task<AuthenticationResult> AcquireAppTokenAsync(Connection connection, bool forceRefresh, CancellationToken ct)
+    {
+        if (connection.AuthType == AuthTypes.ManagedIdentity)
+        {
+            var managedIdentityApp = _managedIdentityApps.GetOrAdd(connection.Id, _ =>
+                ManagedIdentityApplicationBuilder
+                    .Create(connection.ClientId == null
+                        ? ManagedIdentityId.SystemAssigned
+                        : ManagedIdentityId.WithUserAssignedClientId(connection.ClientId))
+                    .Build());
+
+            return await managedIdentityApp.AcquireTokenForManagedIdentity(connection.Url.TrimEnd('/'))
+                .WithForceRefresh(forceRefresh)
+                .ExecuteAsync(ct);
+        }
+
+        if (!_confidentialApps.TryGetValue(connection.Id, out var app))
+        {
+            var builder = ConfidentialClientApplicationBuilder
+                .Create(connection.ClientId)
+                .WithAuthority(AzureCloudInstance.AzurePublic, connection.TenantId);
+
+            if (connection.AuthType == AuthTypes.ClientSecret)
+            {
+                var secret = await _connectionService.GetSecretAsync(connection.Id, ConnectionService.ClientSecretName)
+                    ?? throw new InvalidOperationException(
+                        $"The client secret of connection '{connection.Name}' is missing. Remove the connection and add it again.");
+                builder = builder.WithClientSecret(secret);
+            }
+            else
+            {
+                builder = builder.WithCertificate(await LoadCertificateAsync(connection));
+            }
+
+            app = _confidentialApps.GetOrAdd(connection.Id, builder.Build());
+        }
+
+        return await app.AcquireTokenForClient(GetScopesForConnection(connection))
+            .WithForceRefresh(forceRefresh)
+            .ExecuteAsync(ct);
+    }
+
+    private async Task<X509Certificate2> LoadCertificateAsync(Connection connection)
+    {
+        if (connection.CertificatePath != null)
+        {
+            var password = await _connectionService.GetSecretAsync(connection.Id, ConnectionService.CertificatePasswordName);
+            return X509CertificateLoader.LoadPkcs12FromFile(connection.CertificatePath, password);
+        }
+
+        using var store = new X509Store(StoreName.My, StoreLocation.CurrentUser);
+        store.Open(OpenFlags.ReadOnly);
+        var certificates = store.Certificates.Find(X509FindType.FindByThumbprint, connection.CertificateThumbprint!, validOnly: false);
+
+        return certificates.Count > 0
+            ? certificates[0]
+            : throw new InvalidOperationException(
+                $"Certificate {connection.CertificateThumbprint} of connection '{connection.Name}' was not found in the current user's certificate store.");
+    }
+
     private static string[] GetScopesForConnection(Connection connection)
     {
         // Build the scope from the connection URL
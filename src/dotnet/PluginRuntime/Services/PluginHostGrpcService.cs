@@ -104,7 +104,8 @@ public override async Task<GetCommandsResponse> GetCommands(GetCommandsRequest r
                     Name = cmd.Name,
                     Label = cmd.Label,
                     Description = cmd.Description ?? string.Empty,
-                    PayloadSchema = cmd.PayloadSchema ?? string.Empty
+                    PayloadSchema = cmd.PayloadSchema ?? string.Empty,
+                    SideEffects = cmd.SideEffects?.ToString().ToLowerInvariant() ?? string.Empty
                 });
             }
 
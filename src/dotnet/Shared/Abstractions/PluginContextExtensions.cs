@@ -0,0 +1,33 @@
+using System.Text.Json;
+using DataverseDevKit.Core.Models;
+
+namespace DataverseDevKit.Core.Abstractions;
+
+/// <summary>
+/// Convenience helpers on top of <see cref="IPluginContext"/>.
+/// </summary>
+public static class PluginContextExtensions
+{
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNamingPolicy = JsonNamingPolicy.CamelCase,
+        DefaultIgnoreCondition = System.Text.Json.Serialization.JsonIgnoreCondition.WhenWritingNull
+    };
+
+    /// <summary>
+    /// Emits a progress update for a long-running command.
+    /// </summary>
+    /// <param name="context">The plugin context.</param>
+    /// <param name="pluginId">The ID of the reporting plugin.</param>
+    /// <param name="update">The progress update, correlated by its token.</param>
+    public static void ReportProgress(this IPluginContext context, string pluginId, ProgressUpdate update)
+    {
+        context.EmitEvent(new PluginEvent
+        {
+            PluginId = pluginId,
+            Type = ProgressUpdate.EventType,
+            Payload = JsonSerializer.Serialize(update, JsonOptions),
+            Timestamp = DateTimeOffset.UtcNow
+        });
+    }
+}
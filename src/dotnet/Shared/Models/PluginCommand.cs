@@ -24,4 +24,32 @@ public record PluginCommand
     /// Gets the JSON schema for the command payload (optional).
     /// </summary>
     public string? PayloadSchema { get; init; }
+
+    /// <summary>
+    /// Gets what the command does to the connected environment (optional).
+    /// The shell asks for confirmation before <see cref="PluginCommandSideEffects.Write"/>
+    /// and <see cref="PluginCommandSideEffects.Destructive"/> commands run against production.
+    /// </summary>
+    public PluginCommandSideEffects? SideEffects { get; init; }
+}
+
+/// <summary>
+/// What a plugin command does to the connected environment.
+/// </summary>
+public enum PluginCommandSideEffects
+{
+    /// <summary>
+    /// Only reads data.
+    /// </summary>
+    None,
+
+    /// <summary>
+    /// Creates or changes data.
+    /// </summary>
+    Write,
+
+    /// <summary>
+    /// Deletes data or makes changes that cannot be undone.
+    /// </summary>
+    Destructive
 }
@@ -0,0 +1,53 @@
+namespace DataverseDevKit.Core.Models;
+
+/// <summary>
+/// Progress of a long-running command, sent to the UI as a <c>progress</c> event
+/// correlated by the token the command returned.
+/// </summary>
+public record ProgressUpdate
+{
+    /// <summary>
+    /// Event type used for progress updates.
+    /// </summary>
+    public const string EventType = "progress";
+
+    /// <summary>
+    /// Gets the progress token returned by the command invocation.
+    /// </summary>
+    public required string Token { get; init; }
+
+    /// <summary>
+    /// Gets the current phase of the operation.
+    /// </summary>
+    public string? Phase { get; init; }
+
+    /// <summary>
+    /// Gets the completion of the current phase (0-100).
+    /// </summary>
+    public int? Percent { get; init; }
+
+    /// <summary>
+    /// Gets a human-readable status message.
+    /// </summary>
+    public string? Message { get; init; }
+
+    /// <summary>
+    /// Gets the number of items processed in the current phase.
+    /// </summary>
+    public int? Completed { get; init; }
+
+    /// <summary>
+    /// Gets the total number of items in the current phase, when known.
+    /// </summary>
+    public int? Total { get; init; }
+
+    /// <summary>
+    /// Gets a value indicating whether this is the final update of the operation.
+    /// </summary>
+    public bool Done { get; init; }
+
+    /// <summary>
+    /// Gets the error message when the operation failed.
+    /// </summary>
+    public string? Error { get; init; }
+}
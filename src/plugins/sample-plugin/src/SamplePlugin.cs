@@ -39,19 +39,22 @@ public Task<IReadOnlyList<PluginCommand>> GetCommandsAsync(CancellationToken can
             {
                 Name = "ping",
                 Label = "Ping",
-                Description = "Returns a pong response with timestamp"
+                Description = "Returns a pong response with timestamp",
+                SideEffects = PluginCommandSideEffects.None
             },
             new()
             {
                 Name = "echo",
                 Label = "Echo Message",
-                Description = "Returns the same message that was sent"
+                Description = "Returns the same message that was sent",
+                SideEffects = PluginCommandSideEffects.None
             },
             new()
             {
                 Name = "getInfo",
                 Label = "Get Plugin Info",
-                Description = "Returns information about this plugin"
+                Description = "Returns information about this plugin",
+                SideEffects = PluginCommandSideEffects.None
             }
         };
 
@@ -19,7 +19,7 @@ import {
   DismissCircleRegular,
   ArrowSyncRegular,
 } from '@fluentui/react-icons';
-import { hostBridge } from '@ddk/host-sdk';
+import { hostBridge as defaultHostBridge, type HostBridge } from '@ddk/host-sdk';
 
 const PLUGIN_ID = 'com.ddk.sample';
 
@@ -103,6 +103,10 @@ const useStyles = makeStyles({
 
 interface PluginProps {
   instanceId: string;
+  /** Connection the host tab is bound to; pass it along with every command */
+  connectionId?: string | null;
+  /** Bridge stamped with this tab's identity; falls back to the shared one when run standalone */
+  hostBridge?: HostBridge;
 }
 
 interface CommandResult {
@@ -116,14 +120,15 @@ interface CommandResult {
  * Sample Plugin UI Component
  * 
  * Demonstrates how to:
- * 1. Call backend plugin commands via hostBridge.invokePluginCommand()
+ * 1. Call backend plugin commands via hostBridge.invokePluginCommand(), using the
+ *    bridge passed by the shell so the host can check the plugin's permissions
  * 2. Handle command responses and errors
  * 3. Display results to the user
  * 
  * The hostBridge SDK handles all communication with the MAUI host application,
  * which routes the commands to the appropriate plugin backend via gRPC.
  */
-const Plugin: React.FC<PluginProps> = ({ instanceId }) => {
+const Plugin: React.FC<PluginProps> = ({ instanceId, connectionId, hostBridge = defaultHostBridge }) => {
   const styles = useStyles();
   
   // State for each command demonstration
@@ -144,9 +149,9 @@ const Plugin: React.FC<PluginProps> = ({ instanceId }) => {
   const handlePing = useCallback(async () => {
     setPingLoading(true);
     try {
-      // invokePluginCommand(pluginId, commandName, payload?)
+      // invokePluginCommand(pluginId, commandName, payload?, options?)
       // Result is already an object, no JSON.parse needed
-      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'ping');
+      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'ping', undefined, { connectionId });
       setPingResult({
         success: true,
         data: result,
@@ -161,7 +166,7 @@ const Plugin: React.FC<PluginProps> = ({ instanceId }) => {
     } finally {
       setPingLoading(false);
     }
-  }, []);
+  }, [connectionId, hostBridge]);
 
   /**
    * Execute the 'echo' command with a message payload.
@@ -175,7 +180,7 @@ const Plugin: React.FC<PluginProps> = ({ instanceId }) => {
       // Payload is sent as JSON string
       const payload = JSON.stringify({ message: echoInput });
       // Result is already an object, no JSON.parse needed
-      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'echo', payload);
+      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'echo', payload, { connectionId });
       setEchoResult({
         success: true,
         data: result,
@@ -190,7 +195,7 @@ const Plugin: React.FC<PluginProps> = ({ instanceId }) => {
     } finally {
       setEchoLoading(false);
     }
-  }, [echoInput]);
+  }, [echoInput, connectionId, hostBridge]);
 
   /**
    * Execute the 'getInfo' command.
@@ -200,7 +205,7 @@ const Plugin: React.FC<PluginProps> = ({ instanceId }) => {
     setInfoLoading(true);
     try {
       // Result is already an object, no JSON.parse needed
-      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'getInfo');
+      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'getInfo', undefined, { connectionId });
       setInfoResult({
         success: true,
         data: result,
@@ -215,7 +220,7 @@ const Plugin: React.FC<PluginProps> = ({ instanceId }) => {
     } finally {
       setInfoLoading(false);
     }
-  }, []);
+  }, [connectionId, hostBridge]);
 
   const renderResult = (result: CommandResult | null, isLoading: boolean) => {
     if (isLoading) {
@@ -51,6 +51,11 @@ public sealed record IndexResponse
     /// </summary>
     public bool Started { get; init; }
 
+    /// <summary>
+    /// Gets the token that correlates <c>progress</c> events of this operation.
+    /// </summary>
+    public string? ProgressToken { get; init; }
+
     /// <summary>
     /// Gets an error message if the operation failed to start.
     /// </summary>
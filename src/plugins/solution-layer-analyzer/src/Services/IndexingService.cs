@@ -25,6 +25,8 @@ public class IndexingService
     private readonly ComponentNameResolver _nameResolver;
     private readonly LayerAttributeExtractor _attributeExtractor;
 
+    private const string PluginId = "com.ddk.solutionlayeranalyzer";
+
     private static readonly JsonSerializerOptions JsonOptions = new()
     {
         PropertyNamingPolicy = JsonNamingPolicy.CamelCase
@@ -73,7 +75,8 @@ await using (var dbContext = new AnalyzerDbContext(_dbContextOptions))
             return new IndexResponse
             {
                 OperationId = operationId,
-                Started = true
+                Started = true,
+                ProgressToken = operationId.ToString()
             };
         }
         catch (Exception ex)
@@ -140,7 +143,16 @@ private async Task ExecuteIndexingAsync(Guid operationId, IndexRequest request)
             // Update operation status in database
             await UpdateOperationStatusAsync(operationId, success, stats, warnings, errorMessage);
 
-            // Emit completion event
+            // Close the progress stream, then emit completion event
+            _pluginContext.ReportProgress(PluginId, new ProgressUpdate
+            {
+                Token = operationId.ToString(),
+                Phase = "complete",
+                Percent = 100,
+                Message = success ? "Indexing complete" : "Indexing failed",
+                Done = true,
+                Error = errorMessage
+            });
             await EmitCompletionEventAsync(operationId, success, stats, warnings, errorMessage);
         }
     }
@@ -384,7 +396,7 @@ await using (var dbContext = new AnalyzerDbContext(_dbContextOptions))
                 {
                     var percent = totalToResolve > 0 ? resolved * 100 / totalToResolve : 100;
                     await EmitProgressAsync(operationId, "names", percent, 
-                        $"Resolved {resolved}/{totalToResolve} component names");
+                        $"Resolved {resolved}/{totalToResolve} component names", resolved, totalToResolve);
                 }
             }
 
@@ -431,7 +443,8 @@ await using (var dbContext = new AnalyzerDbContext(_dbContextOptions))
                 // Emit granular progress for each component
                 var percent = totalComponents > 0 ? processedComponents * 100 / totalComponents : 0;
                 await EmitProgressAsync(operationId, "layers", percent, 
-                    $"Processing component {processedComponents + 1}/{totalComponents}: {component.ComponentType} ({component.ObjectId})");
+                    $"Processing component {processedComponents + 1}/{totalComponents}: {component.ComponentType} ({component.ObjectId})",
+                    processedComponents, totalComponents);
                 
                 // Query msdyn_componentlayer for this component
                 var query = new QueryExpression("msdyn_componentlayer")
@@ -557,17 +570,25 @@ await using (var dbContext = new AnalyzerDbContext(_dbContextOptions))
         return layerCount;
     }
 
-    private async Task EmitProgressAsync(Guid operationId, string phase, int percent, string message)
+    private Task EmitProgressAsync(
+        Guid operationId,
+        string phase,
+        int percent,
+        string message,
+        int? completed = null,
+        int? total = null)
     {
-        var progressEvent = new PluginEvent
+        _pluginContext.ReportProgress(PluginId, new ProgressUpdate
         {
-            PluginId = "com.ddk.solutionlayeranalyzer",
-            Type = "plugin:sla:progress",
-            Payload = JsonSerializer.Serialize(new { operationId, phase, percent, message }, JsonOptions),
-            Timestamp = DateTimeOffset.UtcNow
-        };
-
-        _pluginContext.EmitEvent(progressEvent);
+            Token = operationId.ToString(),
+            Phase = phase,
+            Percent = percent,
+            Message = message,
+            Completed = completed,
+            Total = total
+        });
+
+        return Task.CompletedTask;
     }
 
     private static string MapComponentTypeCodeToName(int typeCode)
@@ -276,49 +276,57 @@ public Task<IReadOnlyList<PluginCommand>> GetCommandsAsync(CancellationToken can
             {
                 Name = "index",
                 Label = "Index Solutions",
-                Description = "Build an index of solutions, components, and their layers from Dataverse"
+                Description = "Build an index of solutions, components, and their layers from Dataverse",
+                SideEffects = PluginCommandSideEffects.None
             },
             new()
             {
                 Name = "query",
                 Label = "Query Components",
-                Description = "Query indexed components with advanced filtering and grouping"
+                Description = "Query indexed components with advanced filtering and grouping",
+                SideEffects = PluginCommandSideEffects.None
             },
             new()
             {
                 Name = "details",
                 Label = "Get Component Details",
-                Description = "Get full layer stack for a specific component"
+                Description = "Get full layer stack for a specific component",
+                SideEffects = PluginCommandSideEffects.None
             },
             new()
             {
                 Name = "diff",
                 Label = "Diff Component Layers",
-                Description = "Compare payloads between two layers of a component"
+                Description = "Compare payloads between two layers of a component",
+                SideEffects = PluginCommandSideEffects.None
             },
             new()
             {
                 Name = "clear",
                 Label = "Clear Index",
-                Description = "Clear the index for a specific connection"
+                Description = "Clear the index for a specific connection",
+                SideEffects = PluginCommandSideEffects.None
             },
             new()
             {
                 Name = "fetchSolutions",
                 Label = "Fetch Solutions",
-                Description = "Fetch all available solutions from Dataverse"
+                Description = "Fetch all available solutions from Dataverse",
+                SideEffects = PluginCommandSideEffects.None
             },
             new()
             {
                 Name = "getComponentTypes",
                 Label = "Get Component Types",
-                Description = "Get all supported component types"
+                Description = "Get all supported component types",
+                SideEffects = PluginCommandSideEffects.None
             },
             new()
             {
                 Name = "getAnalytics",
                 Label = "Get Analytics",
-                Description = "Get comprehensive analytics including risk scores, violations, and graph data"
+                Description = "Get comprehensive analytics including risk scores, violations, and graph data",
+                SideEffects = PluginCommandSideEffects.None
             }
         };
 
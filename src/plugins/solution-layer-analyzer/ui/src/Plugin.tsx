@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import {
   makeStyles,
   tokens,
@@ -15,6 +15,7 @@ import {
   CodeRegular,
   ChartPerson24Regular,
 } from '@fluentui/react-icons';
+import type { HostBridge } from '@ddk/host-sdk';
 import { ImprovedIndexTab } from './components/ImprovedIndexTab';
 import { AnalysisTab } from './components/AnalysisTab';
 import { DiffTab } from './components/DiffTab';
@@ -24,9 +25,12 @@ import { ProgressIndicator } from './components/ProgressIndicator';
 import { SaveConfigDialog } from './components/SaveConfigDialog';
 import { LoadConfigDialog } from './components/LoadConfigDialog';
 import { IndexStats } from './types';
-import { useAppStore } from './store/useAppStore';
+import { AppStoreContext, createAppStore, useAppStore } from './store/useAppStore';
 import { usePluginApi } from './hooks/usePluginApi';
-import { hostBridge } from '@ddk/host-sdk';
+import { useCommandProgress } from './hooks/useCommandProgress';
+import { PluginConnectionProvider, usePluginConnectionId } from './hooks/usePluginConnection';
+import { PluginBridgeProvider } from './hooks/usePluginBridge';
+import { useInstanceState } from './hooks/useInstanceState';
 
 const useStyles = makeStyles({
   wrapper: {
@@ -91,9 +95,28 @@ const useGlobalStyles = makeStyles({
 
 interface PluginProps {
   instanceId: string;
+  /** Connection of the host tab; every command of this instance runs against it */
+  connectionId?: string | null;
+  /** Bridge scoped to this instance; requests made through it are checked against the plugin's permissions */
+  hostBridge?: HostBridge;
 }
 
-const Plugin: React.FC<PluginProps> = ({ instanceId }) => {
+const Plugin: React.FC<PluginProps> = ({ instanceId, connectionId, hostBridge }) => {
+  // One store per mounted instance, so tabs shown side by side keep their own analysis
+  const [appStore] = useState(createAppStore);
+
+  return (
+    <PluginBridgeProvider bridge={hostBridge}>
+      <PluginConnectionProvider connectionId={connectionId}>
+        <AppStoreContext.Provider value={appStore}>
+          <PluginContent instanceId={instanceId} />
+        </AppStoreContext.Provider>
+      </PluginConnectionProvider>
+    </PluginBridgeProvider>
+  );
+};
+
+const PluginContent: React.FC<Pick<PluginProps, 'instanceId'>> = ({ instanceId }) => {
   const styles = useStyles();
   const globalStyles = useGlobalStyles();
 
@@ -103,25 +126,27 @@ const Plugin: React.FC<PluginProps> = ({ instanceId }) => {
   // Get state from store
   const { 
     diffState, setDiffState, indexConfig, 
-    addOperation, updateOperation, removeOperation,
-    setAvailableSolutions, setAvailableComponentTypes, setMetadataLoaded, metadataLoaded,
+    setAvailableSolutions, setAvailableComponentTypes, setIndexMetadata, setMetadataLoaded, metadataLoaded,
     selectedTab, setSelectedTab
   } = useAppStore();
   
-  const { fetchSolutions, getComponentTypes } = usePluginApi();
+  const { loadStartupMetadata } = usePluginApi();
+  const connectionId = usePluginConnectionId();
+  useInstanceState(instanceId);
+  const loadedConnectionRef = useRef<string | null>(null);
 
-  // Load global metadata (solutions and component types) once on mount
+  // Load global metadata (solutions, component types and index metadata) on mount
+  // and whenever the tab is switched to another connection
   useEffect(() => {
-    if (metadataLoaded) return;
+    if (metadataLoaded && loadedConnectionRef.current === connectionId) return;
     
     const loadMetadata = async () => {
       try {
-        const [solutionsData, typesData] = await Promise.all([
-          fetchSolutions('default'),
-          getComponentTypes()
-        ]);
-        setAvailableSolutions(solutionsData.solutions || []);
-        setAvailableComponentTypes(typesData.componentTypes || []);
+        const { solutions, componentTypes, indexMetadata } = await loadStartupMetadata(connectionId);
+        loadedConnectionRef.current = connectionId;
+        setAvailableSolutions(solutions);
+        setAvailableComponentTypes(componentTypes);
+        setIndexMetadata(indexMetadata);
         setMetadataLoaded(true);
       } catch (error) {
         console.error('Failed to load metadata:', error);
@@ -129,43 +154,11 @@ const Plugin: React.FC<PluginProps> = ({ instanceId }) => {
     };
     
     loadMetadata();
-  }, [metadataLoaded, fetchSolutions, getComponentTypes, setAvailableSolutions, setAvailableComponentTypes, setMetadataLoaded]);
-
-  // Listen for progress events
-  useEffect(() => {
-    const unsubscribe = hostBridge.addEventListener('plugin:sla:progress', (event) => {
-      try {
-        const payload = typeof event.payload === 'string' ? JSON.parse(event.payload) : event.payload;
-        
-        // Update or create operation
-        const operationId = 'index-operation'; // Could be dynamic based on payload
-        if (payload.phase === 'complete') {
-          removeOperation(operationId);
-        } else {
-          const existing = useAppStore.getState().operations.find(op => op.id === operationId);
-          if (existing) {
-            updateOperation(operationId, {
-              percent: payload.percent || 0,
-              message: payload.message || 'Processing...',
-              phase: payload.phase,
-            });
-          } else {
-            addOperation({
-              id: operationId,
-              type: 'index',
-              message: payload.message || 'Indexing...',
-              percent: payload.percent || 0,
-              phase: payload.phase,
-            });
-          }
-        }
-      } catch (error) {
-        console.error('Failed to parse progress event:', error);
-      }
-    });
+  }, [metadataLoaded, connectionId, loadStartupMetadata, setAvailableSolutions, setAvailableComponentTypes, setIndexMetadata, setMetadataLoaded]);
 
-    return () => unsubscribe();
-  }, [addOperation, updateOperation, removeOperation]);
+  // Indexing progress, shown in the footer and the index tab
+  const [indexProgressToken, setIndexProgressToken] = useState<string | null>(null);
+  const indexProgress = useCommandProgress(indexProgressToken, { operationType: 'index' });
 
   const handleIndexComplete = (stats: IndexStats) => {
     setIndexStats(stats);
@@ -216,11 +209,11 @@ const Plugin: React.FC<PluginProps> = ({ instanceId }) => {
           </div>
           <div className={styles.configButtons}>
             <SaveConfigDialog 
-              currentConnectionId={indexConfig?.connectionId}
+              currentConnectionId={indexConfig?.connectionId ?? connectionId}
               currentIndexHash={indexConfig ? generateIndexHash(indexConfig) : undefined}
             />
             <LoadConfigDialog
-              currentConnectionId={indexConfig?.connectionId}
+              currentConnectionId={indexConfig?.connectionId ?? connectionId}
               currentIndexHash={indexConfig ? generateIndexHash(indexConfig) : undefined}
               onLoadIndex={handleLoadIndexConfig}
               onLoadFilter={handleLoadFilterConfig}
@@ -236,7 +229,11 @@ const Plugin: React.FC<PluginProps> = ({ instanceId }) => {
         </TabList>
 
         {selectedTab === 'index' && (
-          <ImprovedIndexTab onIndexComplete={handleIndexComplete} />
+          <ImprovedIndexTab
+            onIndexComplete={handleIndexComplete}
+            onIndexStarted={setIndexProgressToken}
+            progress={indexProgress}
+          />
         )}
 
         {selectedTab === 'analysis' && (
@@ -244,7 +241,7 @@ const Plugin: React.FC<PluginProps> = ({ instanceId }) => {
         )}
 
         {selectedTab === 'advanced' && (
-          <AnalysisDashboard connectionId="default" />
+          <AnalysisDashboard connectionId={connectionId} />
         )}
 
         {selectedTab === 'diff' && (
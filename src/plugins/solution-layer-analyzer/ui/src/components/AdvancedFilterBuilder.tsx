@@ -1,6 +1,7 @@
 import React, { useState, useCallback, useMemo } from 'react';
 import {
   makeStyles,
+  mergeClasses,
   tokens,
   Button,
   Card,
@@ -17,8 +18,10 @@ import {
   Radio,
   RadioGroup,
 } from '@fluentui/react-components';
-import { DeleteRegular, InfoRegular, AddRegular, DismissRegular, ArrowUpRegular } from '@fluentui/react-icons';
+import { DeleteRegular, InfoRegular, AddRegular, DismissRegular, ArrowUpRegular, ArrowMinimizeRegular, ErrorCircleRegular, WarningRegular } from '@fluentui/react-icons';
 import { FilterNode, AttributeTarget, StringOperator, SolutionQueryNode, AttributeDiffTargetMode, AttributeMatchLogic } from '../types';
+import { FilterIssue } from '../utils/filterValidation';
+import { canNormalizeFilter, normalizeFilter } from '../utils/filterNormalize';
 
 const useStyles = makeStyles({
   container: {
@@ -32,6 +35,30 @@ const useStyles = makeStyles({
     borderRadius: tokens.borderRadiusMedium,
     border: `1px solid ${tokens.colorNeutralStroke1}`,
   },
+  filterNodeError: {
+    border: `1px solid ${tokens.colorPaletteRedBorder2}`,
+  },
+  filterNodeWarning: {
+    border: `1px solid ${tokens.colorPaletteYellowBorder2}`,
+  },
+  issues: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalXXS,
+    marginBottom: tokens.spacingVerticalS,
+  },
+  issue: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacingHorizontalXS,
+    fontSize: tokens.fontSizeBase200,
+  },
+  issueError: {
+    color: tokens.colorPaletteRedForeground1,
+  },
+  issueWarning: {
+    color: tokens.colorPaletteDarkOrangeForeground1,
+  },
   filterHeader: {
     display: 'flex',
     alignItems: 'center',
@@ -104,15 +131,24 @@ const useStyles = makeStyles({
 interface AdvancedFilterBuilderProps {
   solutions: string[];
   initialFilter?: FilterNode | null;
+  /** Validation issues, shown on the nodes they refer to */
+  issues?: FilterIssue[];
   onFilterChange: (filter: FilterNode | null) => void;
 }
 
 export const AdvancedFilterBuilder: React.FC<AdvancedFilterBuilderProps> = ({
   solutions,
   initialFilter,
+  issues,
   onFilterChange,
 }) => {
   const styles = useStyles();
+
+  const issuesByNode = useMemo(() => {
+    const byNode = new Map<string, FilterIssue[]>();
+    issues?.forEach(issue => byNode.set(issue.nodeId, [...(byNode.get(issue.nodeId) ?? []), issue]));
+    return byNode;
+  }, [issues]);
   
   // The filter is now controlled by the parent (useFilter hook)
   // We use the initialFilter directly and call onFilterChange to update it
@@ -636,9 +672,18 @@ export const AdvancedFilterBuilder: React.FC<AdvancedFilterBuilderProps> = ({
     const canDelete = node.id !== 'root';
     const selectedType = selectedFilterTypes[node.id] || '';
     const availableTypes = getAvailableFilterTypes(node, isInLayerFilter, isInLayerAttributeFilter);
+    const nodeIssues = issuesByNode.get(node.id) ?? [];
+    const hasError = nodeIssues.some(issue => issue.severity === 'error');
 
     return (
-      <div key={node.id} className={styles.filterNode} style={{ marginLeft: depth * 20 }}>
+      <div
+        key={node.id}
+        className={mergeClasses(
+          styles.filterNode,
+          hasError ? styles.filterNodeError : nodeIssues.length > 0 && styles.filterNodeWarning
+        )}
+        style={{ marginLeft: depth * 20 }}
+      >
         <div className={styles.filterHeader}>
           <span className={styles.badge}>{node.type}</span>
           
@@ -660,6 +705,20 @@ export const AdvancedFilterBuilder: React.FC<AdvancedFilterBuilderProps> = ({
           )}
         </div>
 
+        {nodeIssues.length > 0 && (
+          <div className={styles.issues}>
+            {nodeIssues.map((issue, index) => (
+              <div
+                key={index}
+                className={mergeClasses(styles.issue, issue.severity === 'error' ? styles.issueError : styles.issueWarning)}
+              >
+                {issue.severity === 'error' ? <ErrorCircleRegular /> : <WarningRegular />}
+                {issue.message}
+              </div>
+            ))}
+          </div>
+        )}
+
         <div className={styles.filterContent}>
           {/* Logical operators with children */}
           {['AND', 'OR', 'NOT'].includes(node.type) && (
@@ -1185,6 +1244,19 @@ export const AdvancedFilterBuilder: React.FC<AdvancedFilterBuilderProps> = ({
         <CardHeader
           header={<Text weight="semibold">Advanced Layer Filters</Text>}
           description="Build complex filter conditions using logical operators and sequence constraints"
+          action={
+            <Tooltip content="Merge nested groups and remove repeated conditions" relationship="description">
+              <Button
+                appearance="subtle"
+                icon={<ArrowMinimizeRegular />}
+                size="small"
+                disabled={!canNormalizeFilter(initialFilter ?? null)}
+                onClick={() => onFilterChange(normalizeFilter(initialFilter ?? null))}
+              >
+                Simplify
+              </Button>
+            </Tooltip>
+          }
         />
         {renderNode(rootFilter)}
       </Card>
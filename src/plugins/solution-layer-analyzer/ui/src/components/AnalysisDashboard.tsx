@@ -1,4 +1,5 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { isAbortError } from '@ddk/host-sdk';
 import {
   Spinner,
   Text,
@@ -49,21 +50,33 @@ export const AnalysisDashboard: React.FC<AnalysisDashboardProps> = ({
   const [showModal, setShowModal] = useState(false);
   const [viewMode, setViewMode] = useState<'grid' | 'single'>('single');
 
+  // Aborts the in-flight analytics request when it is superseded or the tab unmounts
+  const abortRef = useRef<AbortController | null>(null);
+
   useEffect(() => {
     loadAnalytics();
+    return () => abortRef.current?.abort();
   }, [connectionId]);
 
   const loadAnalytics = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setLoading(true);
     setError(null);
     try {
-      const data = await api.getAnalytics(connectionId);
+      const data = await api.getAnalytics(connectionId, { signal: controller.signal });
       setAnalytics(data);
     } catch (err) {
+      if (isAbortError(err)) return;
       setError(err instanceof Error ? err.message : 'Failed to load analytics');
       console.error('Failed to load analytics:', err);
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
     }
   };
 
@@ -11,14 +11,19 @@ import {
   TabList,
   Tab,
   Divider,
+  MessageBar,
+  MessageBarBody,
+  MessageBarActions,
 } from '@fluentui/react-components';
 import {
   FilterRegular,
   ChartMultipleRegular,
   TableRegular,
   ArrowMaximize20Regular,
+  DismissRegular,
 } from '@fluentui/react-icons';
 import { ComponentResult, GroupByOption, FilterNode } from '../types';
+import { isAbortError } from '@ddk/host-sdk';
 import { usePluginApi } from '../hooks/usePluginApi';
 import { useAppStore } from '../store/useAppStore';
 import { ComponentFilterBar } from './ComponentFilterBar';
@@ -32,6 +37,12 @@ import { LayerNetworkGraph } from '../visualizations/LayerNetworkGraph';
 import { LayerCirclePacking } from '../visualizations/LayerCirclePacking';
 import { LayerTreemap } from '../visualizations/LayerTreemap';
 import { useDebouncedValue } from '../hooks/useDebounce';
+import { useFilterValidation } from '../hooks/useFilter';
+import { hasFilterErrors, validateFilter } from '../utils/filterValidation';
+import { hashFilter } from '../utils/filterNormalize';
+import { SharedView } from '../utils/viewToken';
+import { ShareViewDialog } from './ShareViewDialog';
+import { OpenSharedViewDialog } from './OpenSharedViewDialog';
 
 const QUERY_DEBOUNCE_MS = 300;
 
@@ -66,10 +77,11 @@ interface AnalysisTabProps {
 export const AnalysisTab: React.FC<AnalysisTabProps> = ({ onNavigateToDiff }) => {
   const styles = useStyles();
   const { queryComponents, loading } = usePluginApi();
-  const { analysisState, setAnalysisState } = useAppStore();
+  const { analysisState, setAnalysisState, applyFilterChange } = useAppStore();
   // Use stable selectors - Zustand only re-renders if this specific value changes
   const advancedFilter = useAppStore((state) => state.filterBarState.advancedFilter);
   const availableSolutions = useAppStore((state) => state.availableSolutions);
+  const filterInvalid = hasFilterErrors(useFilterValidation(advancedFilter));
 
   // Memoize the solution names array to prevent unnecessary re-renders
   const availableSolutionNames = useMemo(
@@ -105,20 +117,29 @@ export const AnalysisTab: React.FC<AnalysisTabProps> = ({ onNavigateToDiff }) =>
 
   const loadComponents = useCallback(async (filter?: FilterNode | null) => {
     console.log('[AnalysisTab] loadComponents called with filter:', JSON.stringify(filter, null, 2));
-    const components = await queryComponents(filter);
-    setAllComponents(components);
-    setFilteredComponents(components);
+    // Invalid filters fail or misbehave in the backend; the filter bar shows what to fix
+    if (hasFilterErrors(validateFilter(filter ?? null))) {
+      return;
+    }
+    try {
+      const components = await queryComponents(filter);
+      setAllComponents(components);
+      setFilteredComponents(components);
+    } catch (error) {
+      // Superseded queries are expected; other errors are surfaced via queryState
+      if (!isAbortError(error)) {
+        console.error('[AnalysisTab] Failed to load components:', error);
+      }
+    }
   }, [queryComponents, setAllComponents, setFilteredComponents]);
 
-  // Load components on mount and when advancedFilter changes
+  // Load components on mount and when what advancedFilter matches changes
   // Debounce the filter to prevent rapid re-queries during typing/editing
-  const advancedFilterJson = useMemo(() => 
-    advancedFilter ? JSON.stringify(advancedFilter) : null,
-    [advancedFilter]
-  );
+  // Reordering, regrouping or duplicating conditions keeps the hash and the loaded results
+  const advancedFilterHash = useMemo(() => hashFilter(advancedFilter), [advancedFilter]);
   
-  // Debounce the JSON representation to batch rapid filter changes
-  const debouncedFilterJson = useDebouncedValue(advancedFilterJson, QUERY_DEBOUNCE_MS);
+  // Debounce the hash to batch rapid filter changes
+  const debouncedFilterHash = useDebouncedValue(advancedFilterHash, QUERY_DEBOUNCE_MS);
   
   // Keep a ref to the current filter so we query with the latest when debounce fires
   const advancedFilterRef = useRef(advancedFilter);
@@ -127,10 +148,48 @@ export const AnalysisTab: React.FC<AnalysisTabProps> = ({ onNavigateToDiff }) =>
   }, [advancedFilter]);
   
   useEffect(() => {
-    // Parse the debounced JSON to get the filter, or use the ref for latest
     // The ref ensures we always query with the most recent filter value
     loadComponents(advancedFilterRef.current);
-  }, [debouncedFilterJson]); // eslint-disable-line react-hooks/exhaustive-deps
+  }, [debouncedFilterHash]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  // Component of an opened shared view, selected once the view's results are loaded
+  const sharedComponentIdRef = useRef<string | null>(null);
+  const [sharedViewNotice, setSharedViewNotice] = useState<string | null>(null);
+
+  const selectSharedComponent = useCallback((componentId: string, components: ComponentResult[]) => {
+    const component = components.find(c => c.componentId === componentId);
+    setSelectedComponent(component ?? null);
+    setSharedViewNotice(component
+      ? null
+      : 'The component selected in the shared view is not among the results; its solutions may be missing from your index.');
+  }, [setSelectedComponent]);
+
+  useEffect(() => {
+    const componentId = sharedComponentIdRef.current;
+    if (componentId) {
+      sharedComponentIdRef.current = null;
+      selectSharedComponent(componentId, allComponents);
+    }
+  }, [allComponents]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleOpenSharedView = useCallback((view: SharedView) => {
+    setSharedViewNotice(null);
+    setAnalysisState({
+      groupBy: view.groupBy,
+      viewMode: view.viewMode,
+      visualizationType: view.visualizationType,
+      selectedComponent: null,
+    });
+    if (view.componentId) {
+      // The same filter is not queried again, so its results are already loaded
+      if (hashFilter(view.filter) === advancedFilterHash) {
+        selectSharedComponent(view.componentId, allComponents);
+      } else {
+        sharedComponentIdRef.current = view.componentId;
+      }
+    }
+    applyFilterChange(view.filter, 'Shared view');
+  }, [setAnalysisState, applyFilterChange, selectSharedComponent, advancedFilterHash, allComponents]);
 
   const handleFilterChange = useCallback((filtered: ComponentResult[]) => {
     setFilteredComponents(filtered);
@@ -172,14 +231,18 @@ export const AnalysisTab: React.FC<AnalysisTabProps> = ({ onNavigateToDiff }) =>
           header={<Text weight="semibold">Component Analysis</Text>} 
           description="Explore and analyze solution component layers" 
           action={
-            <Button 
-              appearance="primary" 
-              icon={<FilterRegular />}
-              onClick={() => loadComponents(advancedFilter)}
-              disabled={loading.querying}
-            >
-              {loading.querying ? 'Loading...' : 'Refresh'}
-            </Button>
+            <div style={{ display: 'flex', gap: tokens.spacingHorizontalS }}>
+              <ShareViewDialog />
+              <OpenSharedViewDialog onOpenView={handleOpenSharedView} />
+              <Button 
+                appearance="primary" 
+                icon={<FilterRegular />}
+                onClick={() => loadComponents(advancedFilter)}
+                disabled={loading.querying || filterInvalid}
+              >
+                {loading.querying ? 'Loading...' : 'Refresh'}
+              </Button>
+            </div>
           }
         />
 
@@ -207,6 +270,17 @@ export const AnalysisTab: React.FC<AnalysisTabProps> = ({ onNavigateToDiff }) =>
             </Card>
           </div>
 
+          {sharedViewNotice && (
+            <MessageBar intent="warning" style={{ marginBottom: tokens.spacingVerticalM }}>
+              <MessageBarBody>{sharedViewNotice}</MessageBarBody>
+              <MessageBarActions
+                containerAction={
+                  <Button appearance="transparent" icon={<DismissRegular />} onClick={() => setSharedViewNotice(null)} />
+                }
+              />
+            </MessageBar>
+          )}
+
           <ComponentFilterBar
             components={allComponents}
             availableSolutions={availableSolutionNames}
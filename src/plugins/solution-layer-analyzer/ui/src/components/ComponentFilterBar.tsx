@@ -1,4 +1,4 @@
-import React, { useMemo, useEffect } from 'react';
+import React, { useMemo, useEffect, useRef } from 'react';
 import {
   makeStyles,
   tokens,
@@ -16,10 +16,15 @@ import {
   DismissRegular,
   FilterRegular,
   InfoRegular,
+  ErrorCircleRegular,
 } from '@fluentui/react-icons';
 import { ComponentResult, FilterNode } from '../types';
 import { AdvancedFilterBuilder } from './AdvancedFilterBuilder';
+import { FilterQueryEditor } from './FilterQueryEditor';
+import { FilterHistoryMenu } from './FilterHistoryMenu';
 import { useFilter } from '../hooks/useFilter';
+import { useKeybinding } from '../hooks/useKeybinding';
+import { hasFilterErrors } from '../utils/filterValidation';
 
 const useStyles = makeStyles({
   filterBar: {
@@ -41,6 +46,12 @@ const useStyles = makeStyles({
     flexWrap: 'wrap',
     alignItems: 'center',
   },
+  advanced: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalM,
+    marginTop: tokens.spacingVerticalM,
+  },
   hiddenFiltersIndicator: {
     display: 'flex',
     alignItems: 'center',
@@ -70,6 +81,7 @@ export const ComponentFilterBar: React.FC<ComponentFilterBarProps> = ({
     filter,
     simpleValues,
     complexityInfo,
+    issues,
     advancedMode,
     setSearchText,
     setSelectedTypes,
@@ -84,6 +96,15 @@ export const ComponentFilterBar: React.FC<ComponentFilterBarProps> = ({
   // Destructure simple values for easy access
   const { searchText, selectedTypes, selectedSolutions, managedFilter } = simpleValues;
 
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  useKeybinding(
+    { id: 'sla.focusFilterBar', title: 'Focus Filter Bar', category: 'Solution Layer Analyzer', defaultKeys: '/' },
+    () => {
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
+    }
+  );
+
   // All available component types (static list - not filtered by current results)
   // This ensures users can always filter by any component type, regardless of current results
   const allComponentTypes = useMemo(() => [
@@ -169,11 +190,14 @@ export const ComponentFilterBar: React.FC<ComponentFilterBarProps> = ({
     (managedFilter !== 'all' ? 1 : 0) +
     complexityInfo.hiddenConditions.length;
 
+  const errors = issues.filter(issue => issue.severity === 'error');
+
   return (
     <div>
       <div className={styles.filterBar}>
         <Field label="Search" className={styles.filterField}>
           <Input
+            ref={searchInputRef}
             contentBefore={<SearchRegular />}
             value={searchText}
             onChange={(_, d) => setSearchText(d.value)}
@@ -228,6 +252,8 @@ export const ComponentFilterBar: React.FC<ComponentFilterBarProps> = ({
           </>
         )}
 
+        <FilterHistoryMenu />
+
         <Button
           icon={<FilterRegular />}
           appearance={advancedMode ? 'primary' : 'secondary'}
@@ -247,11 +273,18 @@ export const ComponentFilterBar: React.FC<ComponentFilterBarProps> = ({
       </div>
 
       {advancedMode && (
-        <div style={{ marginTop: tokens.spacingVerticalM }}>
+        <div className={styles.advanced}>
+          <FilterQueryEditor
+            filter={filter}
+            solutions={availableSolutions || uniqueSolutions}
+            componentTypes={allComponentTypes}
+            onFilterChange={(newFilter) => setFilter(newFilter, 'Query', true)}
+          />
           <AdvancedFilterBuilder
             solutions={availableSolutions || uniqueSolutions}
             initialFilter={filter}
-            onFilterChange={setFilter}
+            issues={issues}
+            onFilterChange={(newFilter) => setFilter(newFilter, 'Filter builder')}
           />
         </div>
       )}
@@ -260,6 +293,15 @@ export const ComponentFilterBar: React.FC<ComponentFilterBarProps> = ({
         <Badge appearance="outline" color="informative">
           {loading ? <Spinner size="tiny" /> : `${filteredComponents.length} / ${components.length} components`}
         </Badge>
+        {hasFilterErrors(issues) && (
+          <Tooltip content={errors.map(issue => issue.message).join('; ')} relationship="description">
+            <div className={styles.hiddenFiltersIndicator}>
+              <Badge appearance="filled" color="danger" icon={<ErrorCircleRegular />}>
+                Query paused: {errors.length} filter {errors.length === 1 ? 'error' : 'errors'}
+              </Badge>
+            </div>
+          </Tooltip>
+        )}
         {activeFilterCount > 0 && (
           <div className={styles.activeBadges}>
             {searchText && <Badge appearance="filled" color="brand">Search: {searchText}</Badge>}
@@ -0,0 +1,124 @@
+import React from 'react';
+import {
+  makeStyles,
+  mergeClasses,
+  tokens,
+  Button,
+  Menu,
+  MenuTrigger,
+  MenuPopover,
+  MenuList,
+  MenuItem,
+  Text,
+  Tooltip,
+} from '@fluentui/react-components';
+import { ArrowUndoRegular, ArrowRedoRegular, HistoryRegular, CheckmarkRegular } from '@fluentui/react-icons';
+import { FilterNode } from '../types';
+import { useAppStore } from '../store/useAppStore';
+import { useKeybinding } from '../hooks/useKeybinding';
+import { formatFilterQuery } from '../utils/filterQuery';
+
+const useStyles = makeStyles({
+  container: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacingHorizontalXS,
+  },
+  list: {
+    maxHeight: '360px',
+    maxWidth: '480px',
+    overflowY: 'auto',
+  },
+  entry: {
+    display: 'flex',
+    flexDirection: 'column',
+    minWidth: 0,
+  },
+  query: {
+    fontFamily: tokens.fontFamilyMonospace,
+    color: tokens.colorNeutralForeground3,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    whiteSpace: 'nowrap',
+  },
+  undone: {
+    opacity: 0.6,
+  },
+  placeholderIcon: {
+    display: 'inline-block',
+    width: '1em',
+  },
+});
+
+const describeFilter = (filter: FilterNode | null): string => {
+  if (!filter) return 'No filter';
+  try {
+    return formatFilterQuery(filter);
+  } catch {
+    return 'Filter built in the builder';
+  }
+};
+
+/**
+ * Undo, redo and the list of earlier filter states of the filter bar, with
+ * Ctrl+Z and Ctrl+Y while the analysis tab is shown. The shortcuts leave text
+ * fields alone, so they keep undoing typing there.
+ */
+export const FilterHistoryMenu: React.FC = () => {
+  const styles = useStyles();
+  const { entries, index } = useAppStore((state) => state.filterHistory);
+  const undo = useAppStore((state) => state.undoFilterChange);
+  const redo = useAppStore((state) => state.redoFilterChange);
+  const jumpTo = useAppStore((state) => state.jumpToFilterHistory);
+
+  useKeybinding(
+    { id: 'sla.undoFilterChange', title: 'Undo Filter Change', category: 'Solution Layer Analyzer', defaultKeys: 'Mod+Z' },
+    undo
+  );
+  useKeybinding(
+    { id: 'sla.redoFilterChange', title: 'Redo Filter Change', category: 'Solution Layer Analyzer', defaultKeys: 'Mod+Y' },
+    redo
+  );
+
+  // Newest first
+  const positions = entries.map((_, position) => position).reverse();
+
+  return (
+    <div className={styles.container}>
+      <Tooltip content="Undo filter change" relationship="label">
+        <Button icon={<ArrowUndoRegular />} disabled={index <= 0} onClick={undo} />
+      </Tooltip>
+      <Tooltip content="Redo filter change" relationship="label">
+        <Button icon={<ArrowRedoRegular />} disabled={index >= entries.length - 1} onClick={redo} />
+      </Tooltip>
+      <Menu>
+        <MenuTrigger disableButtonEnhancement>
+          <Button icon={<HistoryRegular />} disabled={entries.length === 0}>
+            History
+          </Button>
+        </MenuTrigger>
+        <MenuPopover>
+          <MenuList className={styles.list}>
+            {positions.map((position) => {
+              const entry = entries[position];
+              return (
+                <MenuItem
+                  key={position}
+                  className={mergeClasses(position > index && styles.undone)}
+                  icon={position === index ? <CheckmarkRegular /> : <span className={styles.placeholderIcon} />}
+                  secondaryContent={new Date(entry.timestamp).toLocaleTimeString()}
+                  onClick={() => jumpTo(position)}
+                >
+                  <div className={styles.entry}>
+                    <Text>{entry.label}</Text>
+                    <Text size={200} className={styles.query}>{describeFilter(entry.filter)}</Text>
+                  </div>
+                </MenuItem>
+              );
+            })}
+          </MenuList>
+        </MenuPopover>
+      </Menu>
+    </div>
+  );
+};
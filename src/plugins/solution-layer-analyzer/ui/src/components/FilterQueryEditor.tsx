@@ -0,0 +1,295 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { makeStyles, tokens, Button, Field } from '@fluentui/react-components';
+import { CheckmarkRegular } from '@fluentui/react-icons';
+import { Editor, type EditorProps, type Monaco, type OnMount } from '@monaco-editor/react';
+import { FilterNode } from '../types';
+import {
+  FilterQueryCompletionKind,
+  FilterQueryCompletionSource,
+  FilterQuerySyntaxError,
+  formatFilterQuery,
+  getFilterQueryCompletions,
+  parseFilterQuery,
+  tokenizeFilterQuery,
+} from '../utils/filterQuery';
+import { keepSourceIds, toDisplayFilter } from '../utils/filterNormalize';
+
+const useStyles = makeStyles({
+  row: {
+    display: 'flex',
+    alignItems: 'flex-start',
+    gap: tokens.spacingHorizontalS,
+  },
+  editor: {
+    flex: 1,
+    minWidth: 0,
+    paddingTop: tokens.spacingVerticalXS,
+    paddingBottom: tokens.spacingVerticalXS,
+    borderRadius: tokens.borderRadiusMedium,
+    border: `1px solid ${tokens.colorNeutralStroke1}`,
+    backgroundColor: '#1e1e1e',
+    overflow: 'hidden',
+  },
+});
+
+const LANGUAGE_ID = 'ddk-filter-query';
+
+type CodeEditor = Parameters<OnMount>[0];
+type TextModel = NonNullable<ReturnType<CodeEditor['getModel']>>;
+
+/** Solutions and component types offered by each editor, keyed by its model */
+const completionSources = new Map<string, FilterQueryCompletionSource>();
+
+const COMPLETION_KINDS: Record<FilterQueryCompletionKind, keyof Monaco['languages']['CompletionItemKind']> = {
+  keyword: 'Keyword',
+  function: 'Function',
+  field: 'Field',
+  option: 'Property',
+  solution: 'Module',
+  componentType: 'Class',
+  value: 'Value',
+};
+
+const KEYWORDS = /^(AND|OR|NOT|managed|unmanaged|changed)$/i;
+
+interface LineState {
+  clone(): LineState;
+  equals(other: LineState): boolean;
+}
+
+/** The language has no state across lines */
+const LINE_STATE: LineState = { clone: () => LINE_STATE, equals: () => true };
+
+const highlightLine = (line: string): { startIndex: number; scopes: string }[] => {
+  const lineTokens = tokenizeFilterQuery(line);
+  const result = [{ startIndex: 0, scopes: '' }];
+  lineTokens.forEach((token, index) => {
+    const next = lineTokens[index + 1];
+    const previous = lineTokens[index - 1];
+    let scopes: string;
+    switch (token.kind) {
+      case 'word':
+        scopes = next?.kind === 'lparen' ? 'type'
+          : next?.kind === 'operator' ? 'variable'
+          : KEYWORDS.test(token.text) && previous?.kind !== 'operator' ? 'keyword'
+          : 'string';
+        break;
+      case 'string': scopes = 'string'; break;
+      case 'operator':
+      case 'gt': scopes = 'operator'; break;
+      case 'error': scopes = 'invalid'; break;
+      default: scopes = 'delimiter';
+    }
+    result.push({ startIndex: token.start, scopes });
+  });
+  return result;
+};
+
+let languageRegistered = false;
+
+const registerFilterQueryLanguage = (monaco: Monaco) => {
+  if (languageRegistered) return;
+  languageRegistered = true;
+
+  monaco.languages.register({ id: LANGUAGE_ID });
+  monaco.languages.setTokensProvider(LANGUAGE_ID, {
+    getInitialState: () => LINE_STATE,
+    tokenize: (line: string) => ({ tokens: highlightLine(line), endState: LINE_STATE }),
+  });
+  monaco.languages.setLanguageConfiguration(LANGUAGE_ID, {
+    brackets: [['(', ')'], ['[', ']']],
+    autoClosingPairs: [
+      { open: '(', close: ')' },
+      { open: '[', close: ']' },
+      { open: '"', close: '"' },
+    ],
+    wordPattern: /[\p{L}\p{N}_.\-]+/u,
+  });
+  monaco.languages.registerCompletionItemProvider(LANGUAGE_ID, {
+    triggerCharacters: ['(', '[', ',', '>', ':', '~', '^', '$'],
+    provideCompletionItems: (model: TextModel, position: Parameters<TextModel['getOffsetAt']>[0]) => {
+      const source = completionSources.get(model.uri.toString());
+      if (!source) return { suggestions: [] };
+
+      const { start, end, items } = getFilterQueryCompletions(model.getValue(), model.getOffsetAt(position), source);
+      const from = model.getPositionAt(start);
+      const to = model.getPositionAt(end);
+      const range = new monaco.Range(from.lineNumber, from.column, to.lineNumber, to.column);
+      return {
+        suggestions: items.map((item) => ({
+          label: item.label,
+          insertText: item.insertText,
+          filterText: item.insertText,
+          kind: monaco.languages.CompletionItemKind[COMPLETION_KINDS[item.kind]],
+          detail: item.detail,
+          range,
+        })),
+      };
+    },
+  });
+};
+
+const tryFormat = (filter: FilterNode | null): string | null => {
+  try {
+    return formatFilterQuery(filter);
+  } catch {
+    return null;
+  }
+};
+
+/** Canonical form of a query, or null if it does not parse */
+const tryNormalize = (text: string): string | null => {
+  try {
+    return formatFilterQuery(parseFilterQuery(text));
+  } catch {
+    return null;
+  }
+};
+
+const EDITOR_OPTIONS: EditorProps['options'] = {
+  minimap: { enabled: false },
+  lineNumbers: 'off',
+  glyphMargin: false,
+  folding: false,
+  lineDecorationsWidth: 8,
+  scrollBeyondLastLine: false,
+  renderLineHighlight: 'none',
+  overviewRulerLanes: 0,
+  wordWrap: 'on',
+  fontSize: 12,
+  fixedOverflowWidgets: true,
+  scrollbar: { vertical: 'auto', horizontal: 'hidden' },
+};
+
+interface FilterQueryEditorProps {
+  filter: FilterNode | null;
+  solutions: string[];
+  componentTypes: string[];
+  onFilterChange: (filter: FilterNode | null) => void;
+}
+
+/**
+ * Edits the filter as a text query (see `utils/filterQuery`). Changes are
+ * applied with Enter; the text follows edits made in the builder or the
+ * simple filters.
+ */
+export const FilterQueryEditor: React.FC<FilterQueryEditorProps> = ({
+  filter,
+  solutions,
+  componentTypes,
+  onFilterChange,
+}) => {
+  const styles = useStyles();
+  const currentQuery = useMemo(() => tryFormat(filter), [filter]);
+  const displayQuery = useMemo(() => tryFormat(toDisplayFilter(filter)), [filter]);
+  const [text, setText] = useState(currentQuery ?? '');
+  const [mounted, setMounted] = useState<{ editor: CodeEditor; monaco: Monaco } | null>(null);
+
+  const parsed = useMemo(() => {
+    try {
+      const node = parseFilterQuery(text);
+      return { filter: node, query: formatFilterQuery(node), error: null };
+    } catch (error) {
+      return { filter: null, query: null, error: error as FilterQuerySyntaxError };
+    }
+  }, [text]);
+
+  // Replace the text when the filter changes elsewhere, unless it already says the same
+  useEffect(() => {
+    if (currentQuery !== null) {
+      setText((current) => (tryNormalize(current) === currentQuery ? current : currentQuery));
+    }
+  }, [currentQuery]);
+
+  const pending = !parsed.error && currentQuery !== null && parsed.query !== currentQuery;
+
+  const apply = () => {
+    if (!pending) return;
+    // Conditions the query left as they were stay with the simple filters that made them
+    onFilterChange(keepSourceIds(filter, parsed.filter));
+    setText(parsed.query ?? '');
+  };
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+
+  const handleMount: OnMount = (editorInstance, monaco) => {
+    editorInstance.addAction({
+      id: `${LANGUAGE_ID}.apply`,
+      label: 'Apply Filter Query',
+      keybindings: [monaco.KeyCode.Enter, monaco.KeyMod.CtrlCmd | monaco.KeyCode.Enter],
+      precondition: '!suggestWidgetVisible',
+      run: () => applyRef.current(),
+    });
+    setMounted({ editor: editorInstance, monaco });
+  };
+
+  const modelUri = mounted?.editor.getModel()?.uri.toString();
+  useEffect(() => {
+    if (!modelUri) return;
+    completionSources.set(modelUri, { solutions, componentTypes });
+    return () => {
+      completionSources.delete(modelUri);
+    };
+  }, [modelUri, solutions, componentTypes]);
+
+  // Inline parse errors
+  useEffect(() => {
+    const model = mounted?.editor.getModel();
+    if (!mounted || !model) return;
+    const { error } = parsed;
+    if (!error) {
+      mounted.monaco.editor.setModelMarkers(model, LANGUAGE_ID, []);
+      return;
+    }
+    const from = model.getPositionAt(error.start);
+    const to = model.getPositionAt(error.end);
+    mounted.monaco.editor.setModelMarkers(model, LANGUAGE_ID, [{
+      severity: mounted.monaco.MarkerSeverity.Error,
+      message: error.message,
+      startLineNumber: from.lineNumber,
+      startColumn: from.column,
+      endLineNumber: to.lineNumber,
+      // Errors at the end of the query still need a visible range
+      endColumn: to.lineNumber === from.lineNumber ? Math.max(to.column, from.column + 1) : to.column,
+    }]);
+  }, [mounted, parsed]);
+
+  const validationMessage = currentQuery === null
+    ? 'This filter uses conditions the query language cannot express; edit it in the builder'
+    : parsed.error
+      ? `${parsed.error.message} (at ${parsed.error.start + 1})`
+      : undefined;
+
+  return (
+    <Field
+      label="Query"
+      validationState={validationMessage ? 'error' : 'none'}
+      validationMessage={validationMessage}
+      hint={
+        pending
+          ? 'Press Enter to apply'
+          : displayQuery && displayQuery !== currentQuery
+            ? `Reads as: ${displayQuery}`
+            : 'e.g. type:SystemForm AND has(ContosoCore) AND order(Base > [Sales, Service]) AND NOT managed'
+      }
+    >
+      <div className={styles.row}>
+        <div className={styles.editor}>
+          <Editor
+            height="48px"
+            language={LANGUAGE_ID}
+            value={text}
+            theme="vs-dark"
+            beforeMount={registerFilterQueryLanguage}
+            onMount={handleMount}
+            onChange={(value) => setText(value ?? '')}
+            options={{ ...EDITOR_OPTIONS, readOnly: currentQuery === null }}
+          />
+        </div>
+        <Button icon={<CheckmarkRegular />} disabled={!pending} onClick={apply}>
+          Apply
+        </Button>
+      </div>
+    </Field>
+  );
+};
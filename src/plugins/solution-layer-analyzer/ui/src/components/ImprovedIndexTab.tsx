@@ -18,9 +18,13 @@ import {
   InteractionTag,
   InteractionTagPrimary,
   InteractionTagSecondary,
+  Badge,
+  ProgressBar,
 } from '@fluentui/react-components';
 import { PlayRegular, ArrowSyncRegular, CheckmarkCircleRegular, DismissCircleRegular, DismissRegular } from '@fluentui/react-icons';
 import { usePluginApi } from '../hooks/usePluginApi';
+import type { CommandProgressState } from '../hooks/useCommandProgress';
+import { formatPhase } from './ProgressIndicator';
 import { useAppStore } from '../store/useAppStore';
 import { IndexStats } from '../types';
 
@@ -38,6 +42,18 @@ const useStyles = makeStyles({
     padding: tokens.spacingVerticalM,
     backgroundColor: tokens.colorNeutralBackground2,
   },
+  progressCard: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalS,
+    padding: tokens.spacingVerticalM,
+    backgroundColor: tokens.colorNeutralBackground2,
+  },
+  phaseList: {
+    display: 'flex',
+    flexWrap: 'wrap',
+    gap: tokens.spacingHorizontalS,
+  },
   tagGroup: {
     display: 'flex',
     flexWrap: 'wrap',
@@ -48,14 +64,18 @@ const useStyles = makeStyles({
 
 interface IndexTabProps {
   onIndexComplete: (stats: IndexStats) => void;
+  /** Called with the progress token of a started indexing operation */
+  onIndexStarted?: (progressToken: string | null) => void;
+  /** Progress of the running indexing operation */
+  progress?: CommandProgressState;
 }
 
-export const ImprovedIndexTab: React.FC<IndexTabProps> = ({ onIndexComplete }) => {
+export const ImprovedIndexTab: React.FC<IndexTabProps> = ({ onIndexComplete, onIndexStarted, progress }) => {
   const styles = useStyles();
-  const { indexSolutions, clearIndex, loading, indexCompletion, getIndexMetadata } = usePluginApi();
+  const { indexSolutions, clearIndex, loading, indexCompletion } = usePluginApi();
   
   // Get solutions and component types from global store
-  const { availableSolutions, availableComponentTypes, metadataLoaded, setIndexMetadata } = useAppStore();
+  const { availableSolutions, availableComponentTypes, metadataLoaded, indexMetadata } = useAppStore();
   
   const [selectedSourceSolutions, setSelectedSourceSolutions] = useState<string[]>([]);
   const [selectedTargetSolutions, setSelectedTargetSolutions] = useState<string[]>([]);
@@ -65,21 +85,16 @@ export const ImprovedIndexTab: React.FC<IndexTabProps> = ({ onIndexComplete }) =
   const [operationId, setOperationId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
 
-  // Load index metadata on mount to populate selections from existing index
+  // Populate selections from the existing index once startup metadata is loaded
   useEffect(() => {
     if (metadataLoaded && !metadataLoadAttempted) {
       setMetadataLoadAttempted(true);
-      getIndexMetadata().then((metadata) => {
-        setIndexMetadata(metadata);
-        if (metadata.hasIndex) {
-          setSelectedSourceSolutions(metadata.sourceSolutions);
-          setSelectedTargetSolutions(metadata.targetSolutions);
-        }
-      }).catch((err) => {
-        console.error('Failed to load index metadata:', err);
-      });
+      if (indexMetadata?.hasIndex) {
+        setSelectedSourceSolutions(indexMetadata.sourceSolutions);
+        setSelectedTargetSolutions(indexMetadata.targetSolutions);
+      }
     }
-  }, [metadataLoaded, metadataLoadAttempted, getIndexMetadata, setIndexMetadata]);
+  }, [metadataLoaded, metadataLoadAttempted, indexMetadata]);
 
   // Set all component types as selected by default once loaded
   useEffect(() => {
@@ -129,6 +144,7 @@ export const ImprovedIndexTab: React.FC<IndexTabProps> = ({ onIndexComplete }) =
       
       if (response.started) {
         setOperationId(response.operationId);
+        onIndexStarted?.(response.progressToken ?? null);
       } else {
         setError(response.errorMessage || 'Failed to start indexing operation');
       }
@@ -140,6 +156,7 @@ export const ImprovedIndexTab: React.FC<IndexTabProps> = ({ onIndexComplete }) =
   const handleClear = async () => {
     await clearIndex();
     setOperationId(null);
+    onIndexStarted?.(null);
     setError(null);
   };
 
@@ -344,10 +361,32 @@ export const ImprovedIndexTab: React.FC<IndexTabProps> = ({ onIndexComplete }) =
           </Button>
         </div>
 
-        {operationId && (
+        {operationId && progress?.isActive && progress.progress && (
+          <div className={styles.progressCard}>
+            <div className={styles.phaseList}>
+              {progress.phases.map((phase) => {
+                const isCurrent = phase === progress.progress?.phase;
+                return (
+                  <Badge
+                    key={phase}
+                    appearance={isCurrent ? 'filled' : 'tint'}
+                    color={isCurrent ? 'brand' : 'success'}
+                    icon={isCurrent ? undefined : <CheckmarkCircleRegular />}
+                  >
+                    {formatPhase(phase)}
+                  </Badge>
+                );
+              })}
+            </div>
+            <ProgressBar value={(progress.progress.percent ?? 0) / 100} thickness="large" />
+            <Text size={200}>{progress.progress.message}</Text>
+          </div>
+        )}
+
+        {operationId && !progress?.progress && !indexCompletion && (
           <MessageBar intent="info">
             <MessageBarBody>
-              Indexing operation started. Check the footer for progress updates.
+              Indexing operation started. Waiting for progress updates...
             </MessageBarBody>
           </MessageBar>
         )}
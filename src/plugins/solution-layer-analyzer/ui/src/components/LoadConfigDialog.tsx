@@ -101,7 +101,7 @@ export const LoadConfigDialog: React.FC<LoadConfigDialogProps> = ({
   const [filterConfigs, setFilterConfigs] = useState<any[]>([]);
   const [loading, setLoading] = useState(false);
 
-  const { loadIndexConfigs, loadFilterConfigs } = usePluginApi();
+  const { loadSavedConfigs } = usePluginApi();
 
   useEffect(() => {
     if (open) {
@@ -112,12 +112,9 @@ export const LoadConfigDialog: React.FC<LoadConfigDialogProps> = ({
   const loadConfigs = async () => {
     setLoading(true);
     try {
-      const [indexRes, filterRes] = await Promise.all([
-        loadIndexConfigs({ connectionId: currentConnectionId }),
-        loadFilterConfigs({ connectionId: currentConnectionId, currentIndexHash }),
-      ]);
-      setIndexConfigs(indexRes.configs || []);
-      setFilterConfigs(filterRes.configs || []);
+      const configs = await loadSavedConfigs({ connectionId: currentConnectionId, currentIndexHash });
+      setIndexConfigs(configs.indexConfigs);
+      setFilterConfigs(configs.filterConfigs);
     } catch (error) {
       console.error('Error loading configs:', error);
     } finally {
@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  Dialog,
+  DialogTrigger,
+  DialogSurface,
+  DialogTitle,
+  DialogBody,
+  DialogActions,
+  DialogContent,
+  Button,
+  Field,
+  Textarea,
+  Text,
+  MessageBar,
+  MessageBarBody,
+  MessageBarTitle,
+  makeStyles,
+  tokens,
+} from '@fluentui/react-components';
+import { LinkMultiple24Regular } from '@fluentui/react-icons';
+import { useAppStore } from '../store/useAppStore';
+import { SharedView, decodeViewToken } from '../utils/viewToken';
+import { collectFilterSolutions } from '../utils/filterValidation';
+import { formatFilterQuery } from '../utils/filterQuery';
+
+const useStyles = makeStyles({
+  content: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalM,
+  },
+  token: {
+    fontFamily: tokens.fontFamilyMonospace,
+    wordBreak: 'break-all',
+  },
+  summary: {
+    display: 'grid',
+    gridTemplateColumns: 'max-content 1fr',
+    columnGap: tokens.spacingHorizontalM,
+    rowGap: tokens.spacingVerticalXXS,
+  },
+  query: {
+    fontFamily: tokens.fontFamilyMonospace,
+    wordBreak: 'break-all',
+  },
+});
+
+const GROUP_BY_LABELS: Record<SharedView['groupBy'], string> = {
+  componentType: 'Component Type',
+  table: 'Table',
+  publisher: 'Publisher',
+  solution: 'Solution',
+  managed: 'Managed Status',
+};
+
+const VISUALIZATION_LABELS: Record<SharedView['visualizationType'], string> = {
+  network: 'Network Graph',
+  circle: 'Circle Packing',
+  treemap: 'Treemap',
+  sankey: 'Layer Flow',
+  heatmap: 'Heatmap',
+  stacked: 'Layer Depth',
+};
+
+const describeFilter = (view: SharedView): string => {
+  if (!view.filter) return 'None';
+  try {
+    return formatFilterQuery(view.filter);
+  } catch {
+    return 'Built in the filter builder';
+  }
+};
+
+interface OpenSharedViewDialogProps {
+  onOpenView: (view: SharedView) => void;
+}
+
+/**
+ * Reads a token made with `ShareViewDialog` and reports the solutions its
+ * filter uses that are not in this index before the view is opened.
+ */
+export const OpenSharedViewDialog: React.FC<OpenSharedViewDialogProps> = ({ onOpenView }) => {
+  const styles = useStyles();
+  const [open, setOpen] = useState(false);
+  const [token, setToken] = useState('');
+  const [view, setView] = useState<SharedView | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const indexMetadata = useAppStore((state) => state.indexMetadata);
+
+  useEffect(() => {
+    setView(null);
+    setError(null);
+    if (!token.trim()) return;
+
+    let cancelled = false;
+    decodeViewToken(token)
+      .then((decoded) => !cancelled && setView(decoded))
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : String(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [token]);
+
+  const solutions = useMemo(() => collectFilterSolutions(view?.filter ?? null), [view]);
+  const missingSolutions = useMemo(() => {
+    const indexed = new Set(
+      [...(indexMetadata?.sourceSolutions ?? []), ...(indexMetadata?.targetSolutions ?? [])].map((s) => s.toLowerCase())
+    );
+    return solutions.filter((s) => !indexed.has(s.toLowerCase()));
+  }, [solutions, indexMetadata]);
+
+  const handleOpenChange = (isOpen: boolean) => {
+    setOpen(isOpen);
+    if (!isOpen) setToken('');
+  };
+
+  const handleOpenView = () => {
+    if (!view) return;
+    onOpenView(view);
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(_, data) => handleOpenChange(data.open)}>
+      <DialogTrigger disableButtonEnhancement>
+        <Button icon={<LinkMultiple24Regular />} appearance="subtle">
+          Open Shared View
+        </Button>
+      </DialogTrigger>
+      <DialogSurface>
+        <DialogBody>
+          <DialogTitle>Open Shared View</DialogTitle>
+          <DialogContent className={styles.content}>
+            <Field
+              label="View token"
+              validationState={error ? 'error' : 'none'}
+              validationMessage={error ?? undefined}
+            >
+              <Textarea
+                className={styles.token}
+                value={token}
+                onChange={(_, data) => setToken(data.value)}
+                placeholder="Paste the token shared with you, e.g. v1.q1YqSi0uyS8..."
+                resize="vertical"
+              />
+            </Field>
+
+            {view && (
+              <>
+                <div className={styles.summary}>
+                  <Text weight="semibold">Filter</Text>
+                  <Text className={styles.query}>{describeFilter(view)}</Text>
+                  <Text weight="semibold">Group by</Text>
+                  <Text>{GROUP_BY_LABELS[view.groupBy]}</Text>
+                  <Text weight="semibold">View</Text>
+                  <Text>{view.viewMode === 'list' ? 'List' : `Visualizations (${VISUALIZATION_LABELS[view.visualizationType]})`}</Text>
+                  {view.componentId && (
+                    <>
+                      <Text weight="semibold">Selected component</Text>
+                      <Text className={styles.query}>{view.componentId}</Text>
+                    </>
+                  )}
+                </div>
+
+                {!indexMetadata?.hasIndex ? (
+                  <MessageBar intent="warning">
+                    <MessageBarBody>
+                      <MessageBarTitle>No index yet</MessageBarTitle>
+                      Index the solutions the view uses first to see its components
+                      {solutions.length > 0 && `: ${solutions.join(', ')}`}.
+                    </MessageBarBody>
+                  </MessageBar>
+                ) : missingSolutions.length > 0 ? (
+                  <MessageBar intent="warning">
+                    <MessageBarBody>
+                      <MessageBarTitle>
+                        {missingSolutions.length} of {solutions.length} solutions are not in your index
+                      </MessageBarTitle>
+                      {missingSolutions.join(', ')}. Conditions on them never match, so the results can differ
+                      from your colleague's; add them to the index to reproduce the view.
+                    </MessageBarBody>
+                  </MessageBar>
+                ) : (
+                  solutions.length > 0 && (
+                    <MessageBar intent="success">
+                      <MessageBarBody>All {solutions.length} solutions the filter uses are in your index.</MessageBarBody>
+                    </MessageBar>
+                  )
+                )}
+              </>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <DialogTrigger disableButtonEnhancement>
+              <Button appearance="secondary">Cancel</Button>
+            </DialogTrigger>
+            <Button appearance="primary" onClick={handleOpenView} disabled={!view}>
+              Open View
+            </Button>
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  );
+};
@@ -18,12 +18,20 @@ const useStyles = makeStyles({
     flex: 1,
     minWidth: '150px',
   },
+  phase: {
+    whiteSpace: 'nowrap',
+  },
   message: {
     minWidth: '120px',
+    maxWidth: '320px',
+    ...shorthands.overflow('hidden'),
     fontSize: tokens.fontSizeBase200,
   },
 });
 
+/** Capitalizes a phase id such as 'layers' for display */
+export const formatPhase = (phase: string) => phase.charAt(0).toUpperCase() + phase.slice(1);
+
 export const ProgressIndicator: React.FC = () => {
   const styles = useStyles();
   const { operations } = useAppStore();
@@ -37,7 +45,12 @@ export const ProgressIndicator: React.FC = () => {
     <div className={styles.container}>
       {operations.map((op) => (
         <div key={op.id} className={styles.operation}>
-          <Text className={styles.message} size={200}>
+          {op.phase && (
+            <Text className={styles.phase} size={200} weight="semibold">
+              {formatPhase(op.phase)}
+            </Text>
+          )}
+          <Text className={styles.message} size={200} truncate wrap={false} title={op.message}>
             {op.message}
           </Text>
           <ProgressBar
@@ -45,7 +58,9 @@ export const ProgressIndicator: React.FC = () => {
             value={op.percent / 100}
             thickness="medium"
           />
-          <Text size={200}>{op.percent}%</Text>
+          <Text size={200}>
+            {op.total ? `${op.completed ?? 0}/${op.total}` : `${op.percent}%`}
+          </Text>
         </div>
       ))}
     </div>
@@ -18,6 +18,7 @@ import {
 import { Save24Regular } from '@fluentui/react-icons';
 import { useAppStore } from '../store/useAppStore';
 import { usePluginApi } from '../hooks/usePluginApi';
+import { usePluginConnectionId } from '../hooks/usePluginConnection';
 
 const useStyles = makeStyles({
   content: {
@@ -54,6 +55,7 @@ export const SaveConfigDialog: React.FC<SaveConfigDialogProps> = ({
 
   const { indexConfig, filterConfig } = useAppStore();
   const { saveIndexConfig, saveFilterConfig } = usePluginApi();
+  const connectionId = usePluginConnectionId();
 
   const handleSave = async () => {
     setSaving(true);
@@ -61,7 +63,7 @@ export const SaveConfigDialog: React.FC<SaveConfigDialogProps> = ({
       if (saveIndex && indexConfig) {
         await saveIndexConfig({
           name: indexName,
-          connectionId: indexConfig.connectionId || 'default',
+          connectionId: indexConfig.connectionId || connectionId,
           sourceSolutions: indexConfig.sourceSolutions || [],
           targetSolutions: indexConfig.targetSolutions || [],
           componentTypes: indexConfig.componentTypes || [],
@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import {
+  Dialog,
+  DialogTrigger,
+  DialogSurface,
+  DialogTitle,
+  DialogBody,
+  DialogActions,
+  DialogContent,
+  Button,
+  Field,
+  Textarea,
+  makeStyles,
+  tokens,
+} from '@fluentui/react-components';
+import { Share24Regular, CopyRegular, CheckmarkRegular } from '@fluentui/react-icons';
+import { useAppStore } from '../store/useAppStore';
+import { encodeViewToken } from '../utils/viewToken';
+
+const useStyles = makeStyles({
+  content: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalM,
+  },
+  token: {
+    fontFamily: tokens.fontFamilyMonospace,
+    wordBreak: 'break-all',
+  },
+});
+
+/**
+ * Shows the current filter, grouping, visualization and selected component as
+ * a token to send to a colleague, who opens it with `OpenSharedViewDialog`.
+ */
+export const ShareViewDialog: React.FC = () => {
+  const styles = useStyles();
+  const [open, setOpen] = useState(false);
+  const [token, setToken] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const advancedFilter = useAppStore((state) => state.filterBarState.advancedFilter);
+  const { groupBy, viewMode, visualizationType, selectedComponent } = useAppStore((state) => state.analysisState);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setCopied(false);
+    encodeViewToken({
+      filter: advancedFilter,
+      groupBy,
+      viewMode,
+      visualizationType,
+      componentId: selectedComponent?.componentId ?? null,
+    })
+      .then((encoded) => !cancelled && setToken(encoded))
+      .catch((err) => !cancelled && setError(err instanceof Error ? err.message : String(err)));
+    return () => {
+      cancelled = true;
+    };
+  }, [open, advancedFilter, groupBy, viewMode, visualizationType, selectedComponent]);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(token)
+      .then(() => setCopied(true))
+      .catch(console.error);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(_, data) => setOpen(data.open)}>
+      <DialogTrigger disableButtonEnhancement>
+        <Button icon={<Share24Regular />} appearance="subtle">
+          Share View
+        </Button>
+      </DialogTrigger>
+      <DialogSurface>
+        <DialogBody>
+          <DialogTitle>Share View</DialogTitle>
+          <DialogContent className={styles.content}>
+            <Field
+              label="View token"
+              hint="Contains the filter, grouping, visualization and selected component, but no data"
+              validationMessage={error ?? undefined}
+            >
+              <Textarea
+                className={styles.token}
+                value={token}
+                readOnly
+                resize="vertical"
+                onFocus={(e) => e.currentTarget.select()}
+              />
+            </Field>
+          </DialogContent>
+          <DialogActions>
+            <DialogTrigger disableButtonEnhancement>
+              <Button appearance="secondary">Close</Button>
+            </DialogTrigger>
+            <Button
+              appearance="primary"
+              icon={copied ? <CheckmarkRegular /> : <CopyRegular />}
+              onClick={handleCopy}
+              disabled={!token}
+            >
+              {copied ? 'Copied' : 'Copy'}
+            </Button>
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  );
+};
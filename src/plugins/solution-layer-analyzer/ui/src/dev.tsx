@@ -1,20 +1,41 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
-import { FluentProvider, webLightTheme } from '@fluentui/react-components';
+import { FluentProvider, webLightTheme, type Theme } from '@fluentui/react-components';
+import { hostBridge, isIsolatedPlugin, keybindings, onIsolatedPluginContext, WebViewTransport } from '@ddk/host-sdk';
 import Plugin from './Plugin';
+import { createMockHost } from './mocks/mockHost';
 
+const root = ReactDOM.createRoot(document.getElementById('root')!);
 
+if (isIsolatedPlugin()) {
+  // Loaded by the shell with ui.mode "isolated": requests already go through the shell.
+  // Key presses inside the frame don't reach the shell, so the frame handles its own shortcuts.
+  keybindings.attach();
+  onIsolatedPluginContext(({ instanceId, connectionId, theme }) => {
+    keybindings.setActiveTab(instanceId);
+    root.render(
+      <React.StrictMode>
+        <FluentProvider theme={theme as Partial<Theme>}>
+          <Plugin instanceId={instanceId} connectionId={connectionId} />
+        </FluentProvider>
+      </React.StrictMode>
+    );
+  });
+} else {
+  // Outside the native host, answer commands from fixture data
+  if (!WebViewTransport.isAvailable()) {
+    hostBridge.setTransport(createMockHost());
+  }
 
-const App: React.FC = () => {
-  return (
-      <Plugin instanceId="dev-instance" />
+  // Bind the dev instance to a connection with ?connection=<id>, e.g. mock-prod
+  const connectionId = new URLSearchParams(window.location.search).get('connection');
+  keybindings.attach();
+  keybindings.setActiveTab('dev-instance');
+  root.render(
+    <React.StrictMode>
+      <FluentProvider theme={webLightTheme}>
+        <Plugin instanceId="dev-instance" connectionId={connectionId} />
+      </FluentProvider>
+    </React.StrictMode>
   );
-};
-
-ReactDOM.createRoot(document.getElementById('root')!).render(
-  <React.StrictMode>
-    <FluentProvider theme={webLightTheme}>
-      <App />
-    </FluentProvider>
-  </React.StrictMode>
-);
+}
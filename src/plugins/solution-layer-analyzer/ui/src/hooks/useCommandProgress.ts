@@ -0,0 +1,80 @@
+import { useState, useEffect } from 'react';
+import type { ProgressUpdate } from '@ddk/host-sdk';
+import { useAppStoreApi, type ProgressOperation } from '../store/useAppStore';
+import { usePluginBridge } from './usePluginBridge';
+
+export interface CommandProgressState {
+  /** Latest update received for the token */
+  progress: ProgressUpdate | null;
+  /** Phases reported so far, in order of appearance */
+  phases: string[];
+  isActive: boolean;
+  isDone: boolean;
+  error?: string;
+}
+
+interface CommandProgressOptions {
+  /** Also publish the progress as an operation in the store, shown by ProgressIndicator */
+  operationType?: ProgressOperation['type'];
+}
+
+const IDLE_STATE: CommandProgressState = { progress: null, phases: [], isActive: false, isDone: false };
+
+/**
+ * Tracks the progress of a long-running command by the progress token it returned.
+ * Pass null while no operation is running.
+ */
+export function useCommandProgress(
+  token: string | null | undefined,
+  options: CommandProgressOptions = {}
+): CommandProgressState {
+  const { operationType } = options;
+  const hostBridge = usePluginBridge();
+  const appStore = useAppStoreApi();
+  const [state, setState] = useState<CommandProgressState>(IDLE_STATE);
+
+  useEffect(() => {
+    setState(IDLE_STATE);
+    if (!token) return;
+
+    const { addOperation, updateOperation, removeOperation } = appStore.getState();
+
+    const unsubscribe = hostBridge.onProgress(token, (update) => {
+      setState(prev => ({
+        progress: update,
+        phases: update.phase && !prev.phases.includes(update.phase) && update.phase !== 'complete'
+          ? [...prev.phases, update.phase]
+          : prev.phases,
+        isActive: !update.done,
+        isDone: !!update.done,
+        error: update.error,
+      }));
+
+      if (!operationType) return;
+      if (update.done) {
+        removeOperation(token);
+        return;
+      }
+
+      const operation: Partial<ProgressOperation> = {
+        message: update.message || 'Processing...',
+        percent: update.percent ?? 0,
+        phase: update.phase,
+        completed: update.completed,
+        total: update.total,
+      };
+      if (appStore.getState().operations.some(op => op.id === token)) {
+        updateOperation(token, operation);
+      } else {
+        addOperation({ id: token, type: operationType, ...operation } as ProgressOperation);
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      if (operationType) removeOperation(token);
+    };
+  }, [hostBridge, appStore, token, operationType]);
+
+  return state;
+}
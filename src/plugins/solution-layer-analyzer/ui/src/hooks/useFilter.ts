@@ -8,6 +8,8 @@ import {
   StringOperator 
 } from '../types';
 import { useDebouncedValue } from './useDebounce';
+import { FilterIssue, validateFilter } from '../utils/filterValidation';
+import { normalizeFilter } from '../utils/filterNormalize';
 
 const FILTER_DEBOUNCE_MS = 300;
 
@@ -302,8 +304,8 @@ function updateFilterWithSimpleValues(
       return;
     }
     
-    if (node.type === 'AND' || node.type === 'OR') {
-      // For container nodes at root, recurse to find non-simple children
+    if (node.type === 'AND') {
+      // For the root container, recurse to find non-simple children
       if (node.id === 'root' || !node.sourceId) {
         node.children?.forEach(child => {
           if (child.sourceId && Object.values(SOURCE_ID).includes(child.sourceId as any)) {
@@ -339,15 +341,26 @@ function updateFilterWithSimpleValues(
 
   if (allConditions.length === 0) {
     return null;
-  } else if (allConditions.length === 1) {
-    return allConditions[0];
-  } else {
-    return {
-      type: 'AND',
-      id: 'root',
-      children: allConditions,
-    };
   }
+  // Merging leaves nested groups and repeated conditions behind
+  return normalizeFilter({
+    type: 'AND',
+    id: 'root',
+    children: allConditions,
+  });
+}
+
+/**
+ * Validates a filter against the current index. Solutions are only checked
+ * once an index exists.
+ */
+export function useFilterValidation(filter: FilterNode | null): FilterIssue[] {
+  const indexMetadata = useAppStore((state) => state.indexMetadata);
+  return useMemo(() => validateFilter(filter, {
+    indexedSolutions: indexMetadata?.hasIndex
+      ? [...indexMetadata.sourceSolutions, ...indexMetadata.targetSolutions]
+      : undefined,
+  }), [filter, indexMetadata]);
 }
 
 export interface UseFilterResult {
@@ -360,6 +373,9 @@ export interface UseFilterResult {
   /** Information about filter complexity */
   complexityInfo: FilterComplexityInfo;
   
+  /** Problems with the filter; queries are blocked while any is an error */
+  issues: FilterIssue[];
+  
   /** Whether advanced mode is enabled */
   advancedMode: boolean;
   
@@ -369,8 +385,8 @@ export interface UseFilterResult {
   setSelectedSolutions: (value: string[]) => void;
   setManagedFilter: (value: 'all' | 'managed' | 'unmanaged') => void;
   
-  // Advanced filter setter (wholesale AST update)
-  setFilter: (filter: FilterNode | null) => void;
+  // Advanced filter setter (wholesale AST update), labelled in the filter history
+  setFilter: (filter: FilterNode | null, label?: string, typing?: boolean) => void;
   
   // Mode toggle
   setAdvancedMode: (enabled: boolean) => void;
@@ -387,7 +403,7 @@ export interface UseFilterResult {
  * Simple filter UI is a projection of the AST; changes update specific nodes.
  */
 export function useFilter(): UseFilterResult {
-  const { filterBarState, setFilterBarState } = useAppStore();
+  const { filterBarState, setFilterBarState, applyFilterChange } = useAppStore();
   const { advancedMode, advancedFilter } = filterBarState;
   
   // The filter AST is the single source of truth
@@ -399,39 +415,41 @@ export function useFilter(): UseFilterResult {
   // Analyze complexity for UI display
   const complexityInfo = useMemo(() => analyzeFilterComplexity(filter), [filter]);
   
+  const issues = useFilterValidation(filter);
+  
   // Debounced filter for backend queries
   const debouncedFilter = useDebouncedValue(filter, FILTER_DEBOUNCE_MS);
 
-  // Internal setter that updates the store
-  const setFilter = useCallback((newFilter: FilterNode | null) => {
-    setFilterBarState({ advancedFilter: newFilter });
-  }, [setFilterBarState]);
+  // Internal setter that updates the store and the filter history
+  const setFilter = useCallback((newFilter: FilterNode | null, label = 'Advanced filter', typing = false) => {
+    applyFilterChange(newFilter, label, typing);
+  }, [applyFilterChange]);
 
   // Simple filter setters - these update specific parts of the AST
-  const updateSimpleFilter = useCallback((updates: Partial<SimpleFilterValues>) => {
+  const updateSimpleFilter = useCallback((updates: Partial<SimpleFilterValues>, label: string, typing = false) => {
     const currentSimple = extractSimpleFilters(filter);
     const newValues: SimpleFilterValues = {
       ...currentSimple,
       ...updates,
     };
     const newFilter = updateFilterWithSimpleValues(filter, newValues);
-    setFilter(newFilter);
+    setFilter(newFilter, label, typing);
   }, [filter, setFilter]);
 
   const setSearchText = useCallback((value: string) => {
-    updateSimpleFilter({ searchText: value });
+    updateSimpleFilter({ searchText: value }, 'Search', true);
   }, [updateSimpleFilter]);
 
   const setSelectedTypes = useCallback((value: string[]) => {
-    updateSimpleFilter({ selectedTypes: value });
+    updateSimpleFilter({ selectedTypes: value }, 'Component types');
   }, [updateSimpleFilter]);
 
   const setSelectedSolutions = useCallback((value: string[]) => {
-    updateSimpleFilter({ selectedSolutions: value });
+    updateSimpleFilter({ selectedSolutions: value }, 'Solutions');
   }, [updateSimpleFilter]);
 
   const setManagedFilter = useCallback((value: 'all' | 'managed' | 'unmanaged') => {
-    updateSimpleFilter({ managedFilter: value });
+    updateSimpleFilter({ managedFilter: value }, 'Managed');
   }, [updateSimpleFilter]);
 
   // Mode toggle
@@ -441,13 +459,14 @@ export function useFilter(): UseFilterResult {
 
   // Clear all filters
   const clearFilter = useCallback(() => {
-    setFilter(null);
+    setFilter(null, 'Clear filters');
   }, [setFilter]);
 
   return {
     filter,
     simpleValues,
     complexityInfo,
+    issues,
     advancedMode,
     setSearchText,
     setSelectedTypes,
@@ -0,0 +1,58 @@
+import { useEffect } from 'react';
+import { useAppStoreApi, selectSessionState, type SessionState } from '../store/useAppStore';
+import { PLUGIN_ID } from '../types/commands';
+import { usePluginBridge } from './usePluginBridge';
+
+const SAVE_DELAY_MS = 500;
+
+const SESSION_KEYS = ['indexConfig', 'filterConfig', 'selectedTab', 'analysisState', 'filterBarState', 'diffState'] as const;
+
+/**
+ * Restores the analysis session saved for this tab instance and keeps saving it
+ * through the host, so a restored workspace reopens the tab where it was left.
+ */
+export function useInstanceState(instanceId: string): void {
+  const hostBridge = usePluginBridge();
+  const appStore = useAppStoreApi();
+
+  useEffect(() => {
+    let cancelled = false;
+    let saveTimer: ReturnType<typeof setTimeout> | null = null;
+    let unsubscribe: (() => void) | null = null;
+
+    const save = () => {
+      saveTimer = null;
+      hostBridge
+        .setInstanceState(PLUGIN_ID, instanceId, selectSessionState(appStore.getState()))
+        .catch((error) => console.error('Failed to save instance state:', error));
+    };
+
+    const restore = async () => {
+      try {
+        const saved = await hostBridge.getInstanceState<SessionState>(PLUGIN_ID, instanceId);
+        if (saved && !cancelled) appStore.setState(saved);
+      } catch (error) {
+        console.error('Failed to restore instance state:', error);
+      }
+      if (cancelled) return;
+
+      unsubscribe = appStore.subscribe((state, prev) => {
+        if (!SESSION_KEYS.some((key) => state[key] !== prev[key])) return;
+        if (saveTimer) clearTimeout(saveTimer);
+        saveTimer = setTimeout(save, SAVE_DELAY_MS);
+      });
+    };
+
+    restore();
+
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+      // Flush pending changes, e.g. when switching to another tab
+      if (saveTimer) {
+        clearTimeout(saveTimer);
+        save();
+      }
+    };
+  }, [hostBridge, appStore, instanceId]);
+}
@@ -0,0 +1,32 @@
+import { useEffect, useRef } from 'react';
+import { keybindings, type KeybindingDefinition } from '@ddk/host-sdk';
+import { usePluginBridge } from './usePluginBridge';
+
+/**
+ * Registers a keyboard shortcut for this plugin tab while the component is
+ * mounted. Tab shortcuts only fire while this tab is the active one.
+ */
+export function useKeybinding(
+  definition: Omit<KeybindingDefinition, 'instanceId'>,
+  handler: (event: KeyboardEvent) => void
+): void {
+  const instanceId = usePluginBridge().getCaller()?.instanceId;
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+  const { id, title, category, context, defaultKeys, allowInEditable } = definition;
+
+  useEffect(
+    () =>
+      keybindings.register({
+        id,
+        title,
+        category,
+        context: context ?? 'tab',
+        defaultKeys,
+        instanceId,
+        allowInEditable,
+        handler: (event) => handlerRef.current(event),
+      }),
+    [id, title, category, context, defaultKeys, instanceId, allowInEditable]
+  );
+}
@@ -1,11 +1,18 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
-import { hostBridge } from '@ddk/host-sdk';
-import { ComponentResult, IndexResponse, IndexCompletionEvent, FilterNode, AttributeDiff, IndexMetadata, QueryResultEvent, QueryAcknowledgment } from '../types';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { createPluginClient, isAbortError, type RequestOptions } from '@ddk/host-sdk';
+import { ComponentResult, IndexResponse, IndexCompletionEvent, FilterNode, AttributeDiff, IndexMetadata } from '../types';
 import { AnalyticsData } from '../types/analytics';
+import { PLUGIN_ID, type SlaCommands } from '../types/commands';
 import { transformFilterForBackend } from '../utils/filterTransform';
 import { useAppStore } from '../store/useAppStore';
+import { usePluginConnectionId } from './usePluginConnection';
+import { usePluginBridge } from './usePluginBridge';
 
-const PLUGIN_ID = 'com.ddk.solutionlayeranalyzer';
+/** Queries run synchronously so they can be cancelled; allow them more than the default timeout */
+const QUERY_TIMEOUT_MS = 5 * 60 * 1000;
+
+/** Indexing and analytics can take several minutes on large environments */
+const LONG_RUNNING_TIMEOUT_MS = 15 * 60 * 1000;
 
 /** Generates a unique query ID */
 const generateQueryId = () => `q_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
@@ -15,11 +22,19 @@ export const usePluginApi = () => {
   const [diffing, setDiffing] = useState(false);
   const [indexCompletion, setIndexCompletion] = useState<IndexCompletionEvent | null>(null);
   
+  // Commands run against the connection of the plugin tab, through the tab's bridge
+  const hostBridge = usePluginBridge();
+  const activeConnectionId = usePluginConnectionId();
+  const client = useMemo(
+    () => createPluginClient<SlaCommands>(PLUGIN_ID, { bridge: hostBridge, connectionId: activeConnectionId }),
+    [hostBridge, activeConnectionId]
+  );
+  
   // Get store actions for query state management
   const { setQueryState, setAnalysisState, queryState } = useAppStore();
   
-  // Ref to track the latest query ID for event handler
-  const latestQueryIdRef = useRef<string | null>(null);
+  // Controller of the in-flight query, aborted when a newer query supersedes it
+  const queryAbortRef = useRef<AbortController | null>(null);
 
   // Listen for index completion events
   useEffect(() => {
@@ -40,92 +55,59 @@ export const usePluginApi = () => {
     return () => {
       unsubscribe();
     };
-  }, []);
+  }, [hostBridge]);
 
-  // Listen for query result events
+  // Cancel any in-flight query when the consumer unmounts
   useEffect(() => {
-    const unsubscribe = hostBridge.addEventListener('plugin:sla:query-result', (event) => {
-      console.log('Query result event received:', event);
-      try {
-        const payload = typeof event.payload === 'string'
-          ? JSON.parse(event.payload)
-          : event.payload;
-        const result = payload as QueryResultEvent;
-        
-        // Only process if this is the latest query
-        if (result.queryId !== latestQueryIdRef.current) {
-          console.log(`Ignoring stale query result: ${result.queryId} (latest: ${latestQueryIdRef.current})`);
-          return;
-        }
-        
-        if (result.success) {
-          // Update analysis state with the results
-          setAnalysisState({
-            allComponents: result.rows || [],
-            filteredComponents: result.rows || [],
-          });
-          
-          setQueryState({
-            isQuerying: false,
-            lastQueryStats: result.stats || null,
-            lastError: null,
-          });
-        } else {
-          console.error('Query failed:', result.errorMessage);
-          setQueryState({
-            isQuerying: false,
-            lastError: result.errorMessage || 'Query failed',
-          });
-        }
-      } catch (error) {
-        console.error('Failed to parse query result event:', error);
-        setQueryState({
-          isQuerying: false,
-          lastError: 'Failed to parse query result',
-        });
-      }
-    });
-
     return () => {
-      unsubscribe();
+      queryAbortRef.current?.abort();
     };
-  }, [setAnalysisState, setQueryState]);
+  }, []);
 
   const indexSolutions = useCallback(async (
     sourceSolutions: string[],
     targetSolutions: string[],
     componentTypes?: string[],
-    connectionId: string = 'default'
+    connectionId: string = activeConnectionId,
+    options?: RequestOptions
   ): Promise<IndexResponse> => {
     setIndexing(true);
     setIndexCompletion(null);
     try {
-      const payload = JSON.stringify({
+      return await client.invoke('index', {
         connectionId,
         sourceSolutions,
         targetSolutions,
         includeComponentTypes: componentTypes || ['SystemForm', 'SavedQuery', 'RibbonCustomization', 'Entity', 'Attribute'],
         payloadMode: 'lazy',
+      }, {
+        timeoutMs: LONG_RUNNING_TIMEOUT_MS,
+        ...options,
       });
-      
-      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'index', payload);
-      return result as IndexResponse;
     } catch (error) {
       console.error('Index error:', error);
       setIndexing(false);
       throw error;
     }
-  }, []);
+  }, [client, activeConnectionId]);
 
+  /**
+   * Queries components and writes the results to the store.
+   * Starting a new query aborts the previous one, which also cancels the
+   * backend work on the host. A superseded query rejects with an AbortError.
+   */
   const queryComponents = useCallback(async (
     filters?: FilterNode | null,
     skip = 0,
     take = 1000,
-    connectionId: string = 'default'
+    connectionId: string = activeConnectionId
   ): Promise<ComponentResult[]> => {
+    queryAbortRef.current?.abort();
+    const controller = new AbortController();
+    queryAbortRef.current = controller;
+
     // Generate a new query ID
     const queryId = generateQueryId();
-    latestQueryIdRef.current = queryId;
     
     setQueryState({
       latestQueryId: queryId,
@@ -134,112 +116,121 @@ export const usePluginApi = () => {
     });
     
     try {
-      const payload = JSON.stringify({
+      const result = await client.invoke('query', {
         queryId,
         connectionId,
         filters: transformFilterForBackend(filters ?? null),
         paging: { skip, take },
         sort: [{ field: 'componentType', dir: 'asc' }],
-        useEventResponse: true, // Use event-based response
+        useEventResponse: false,
+      }, {
+        signal: controller.signal,
+        timeoutMs: QUERY_TIMEOUT_MS,
       });
-      
-      const result: any = await hostBridge.invokePluginCommand(PLUGIN_ID, 'query', payload);
-      const ack = result as QueryAcknowledgment;
-      
-      if (!ack.started) {
-        throw new Error(ack.errorMessage || 'Query failed to start');
-      }
-      
-      // Return empty array immediately - actual results will come via event
-      // The caller should rely on the store state for results
-      return [];
+      const rows = result.rows || [];
+
+      setAnalysisState({
+        allComponents: rows,
+        filteredComponents: rows,
+      });
+      setQueryState({
+        isQuerying: false,
+        lastQueryStats: result.stats || null,
+        lastError: null,
+      });
+      return rows;
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log(`Query superseded: ${queryId}`);
+        throw error;
+      }
       console.error('Query error:', error);
       setQueryState({
         isQuerying: false,
         lastError: error instanceof Error ? error.message : 'Query failed',
       });
       throw error;
+    } finally {
+      // A superseded query leaves the state to the one that replaced it; any other ends the query
+      if (queryAbortRef.current === controller) {
+        queryAbortRef.current = null;
+        setQueryState({ isQuerying: false });
+      }
     }
-  }, [setQueryState]);
+  }, [client, activeConnectionId, setAnalysisState, setQueryState]);
 
   /**
-   * Synchronous query that waits for results (for backward compatibility).
-   * Use queryComponents for event-based queries.
+   * Standalone query that returns rows without updating the analysis state
+   * (for backward compatibility). Prefer queryComponents, which cancels superseded queries.
    */
   const queryComponentsSync = useCallback(async (
     filters?: FilterNode | null,
     skip = 0,
     take = 1000,
-    connectionId: string = 'default'
+    connectionId: string = activeConnectionId
   ): Promise<ComponentResult[]> => {
     setQueryState({ isQuerying: true, lastError: null });
     try {
-      const payload = JSON.stringify({
+      const result = await client.invoke('query', {
         connectionId,
         filters: transformFilterForBackend(filters ?? null),
         paging: { skip, take },
         sort: [{ field: 'componentType', dir: 'asc' }],
         useEventResponse: false, // Synchronous response
+      }, {
+        timeoutMs: QUERY_TIMEOUT_MS,
       });
-      
-      const result: any = await hostBridge.invokePluginCommand(PLUGIN_ID, 'query', payload);
-      return (result.rows || []) as ComponentResult[];
+      return result.rows || [];
     } catch (error) {
       console.error('Query error:', error);
       throw error;
     } finally {
       setQueryState({ isQuerying: false });
     }
-  }, [setQueryState]);
+  }, [client, activeConnectionId, setQueryState]);
 
   const getComponentDetails = useCallback(async (
     componentId: string,
-    connectionId: string = 'default'
+    connectionId: string = activeConnectionId
   ): Promise<any> => {
     try {
-      const payload = JSON.stringify({ componentId, connectionId });
-      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'details', payload);
-      return result;
+      return await client.invoke('details', { componentId, connectionId });
     } catch (error) {
       console.error('Details error:', error);
       throw error;
     }
-  }, []);
+  }, [client, activeConnectionId]);
 
   const diffComponentLayers = useCallback(async (
     componentId: string,
     leftSolution: string,
     rightSolution: string,
-    connectionId: string = 'default'
+    connectionId: string = activeConnectionId
   ): Promise<{ attributes: AttributeDiff[]; warnings?: string[] }> => {
     setDiffing(true);
     try {
-      const payload = JSON.stringify({
+      return await client.invoke('diff', {
         componentId,
         connectionId,
         left: { solutionName: leftSolution },
         right: { solutionName: rightSolution },
       });
-      
-      const result: any = await hostBridge.invokePluginCommand(PLUGIN_ID, 'diff', payload);
-      return result;
     } catch (error) {
       console.error('Diff error:', error);
       throw error;
     } finally {
       setDiffing(false);
     }
-  }, []);
+  }, [client, activeConnectionId]);
 
-  const clearIndex = useCallback(async (connectionId: string = 'default'): Promise<void> => {
+  const clearIndex = useCallback(async (connectionId: string = activeConnectionId): Promise<void> => {
     try {
-      await hostBridge.invokePluginCommand(PLUGIN_ID, 'clear', JSON.stringify({ connectionId }));
+      await client.invoke('clear', { connectionId });
     } catch (error) {
       console.error('Clear error:', error);
       throw error;
     }
-  }, []);
+  }, [client, activeConnectionId]);
 
   const saveIndexConfig = useCallback(async (config: {
     name: string;
@@ -250,27 +241,23 @@ export const usePluginApi = () => {
     payloadMode: string;
   }): Promise<{ configId: number; configHash: string }> => {
     try {
-      const payload = JSON.stringify(config);
-      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'saveIndexConfig', payload);
-      return result;
+      return await client.invoke('saveIndexConfig', config);
     } catch (error) {
       console.error('Save index config error:', error);
       throw error;
     }
-  }, []);
+  }, [client]);
 
   const loadIndexConfigs = useCallback(async (request: {
     connectionId?: string;
   }): Promise<{ configs: any[] }> => {
     try {
-      const payload = JSON.stringify(request);
-      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'loadIndexConfigs', payload);
-      return result;
+      return await client.invoke('loadIndexConfigs', request);
     } catch (error) {
       console.error('Load index configs error:', error);
       throw error;
     }
-  }, []);
+  }, [client]);
 
   const saveFilterConfig = useCallback(async (config: {
     name: string;
@@ -279,64 +266,95 @@ export const usePluginApi = () => {
     filter: FilterNode | null;
   }): Promise<{ configId: number }> => {
     try {
-      const payload = JSON.stringify({
+      return await client.invoke('saveFilterConfig', {
         ...config,
         filter: transformFilterForBackend(config.filter),
       });
-      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'saveFilterConfig', payload);
-      return result;
     } catch (error) {
       console.error('Save filter config error:', error);
       throw error;
     }
-  }, []);
+  }, [client]);
 
   const loadFilterConfigs = useCallback(async (request: {
     connectionId?: string;
     currentIndexHash?: string;
   }): Promise<{ configs: any[] }> => {
     try {
-      const payload = JSON.stringify(request);
-      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'loadFilterConfigs', payload);
-      return result;
+      return await client.invoke('loadFilterConfigs', request);
     } catch (error) {
       console.error('Load filter configs error:', error);
       throw error;
     }
-  }, []);
+  }, [client]);
 
-  const fetchSolutions = useCallback(async (connectionId: string = 'default'): Promise<{ solutions: any[] }> => {
+  const fetchSolutions = useCallback(async (connectionId: string = activeConnectionId): Promise<{ solutions: any[] }> => {
     try {
-      const payload = JSON.stringify({ connectionId });
-      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'fetchSolutions', payload);
-      return result;
+      return await client.invoke('fetchSolutions', { connectionId });
     } catch (error) {
       console.error('Fetch solutions error:', error);
       throw error;
     }
-  }, []);
+  }, [client, activeConnectionId]);
 
   const getComponentTypes = useCallback(async (): Promise<{ componentTypes: any[] }> => {
     try {
-      const payload = JSON.stringify({});
-      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'getComponentTypes', payload);
-      return result;
+      return await client.invoke('getComponentTypes', {});
     } catch (error) {
       console.error('Get component types error:', error);
       throw error;
     }
-  }, []);
+  }, [client]);
 
-  const getIndexMetadata = useCallback(async (connectionId: string = 'default'): Promise<IndexMetadata> => {
+  const getIndexMetadata = useCallback(async (connectionId: string = activeConnectionId): Promise<IndexMetadata> => {
     try {
-      const payload = JSON.stringify({ connectionId });
-      const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'getIndexMetadata', payload);
-      return result as IndexMetadata;
+      return await client.invoke('getIndexMetadata', { connectionId });
     } catch (error) {
       console.error('Get index metadata error:', error);
       throw error;
     }
-  }, []);
+  }, [client, activeConnectionId]);
+
+  /**
+   * Loads the solutions, component types and existing index metadata needed
+   * on startup in a single round trip to the host.
+   */
+  const loadStartupMetadata = useCallback(async (connectionId: string = activeConnectionId) => {
+    try {
+      const [solutionsData, typesData, indexMetadata] = await client.invokeBatch([
+        { command: 'fetchSolutions', payload: { connectionId } },
+        { command: 'getComponentTypes', payload: {} },
+        { command: 'getIndexMetadata', payload: { connectionId } },
+      ]);
+      return {
+        solutions: solutionsData.solutions || [],
+        componentTypes: typesData.componentTypes || [],
+        indexMetadata,
+      };
+    } catch (error) {
+      console.error('Load startup metadata error:', error);
+      throw error;
+    }
+  }, [client, activeConnectionId]);
+
+  /**
+   * Loads the saved index and filter configs in a single round trip.
+   */
+  const loadSavedConfigs = useCallback(async (request: {
+    connectionId?: string;
+    currentIndexHash?: string;
+  }): Promise<{ indexConfigs: any[]; filterConfigs: any[] }> => {
+    try {
+      const [indexRes, filterRes] = await client.invokeBatch([
+        { command: 'loadIndexConfigs', payload: { connectionId: request.connectionId } },
+        { command: 'loadFilterConfigs', payload: request },
+      ]);
+      return { indexConfigs: indexRes.configs || [], filterConfigs: filterRes.configs || [] };
+    } catch (error) {
+      console.error('Load saved configs error:', error);
+      throw error;
+    }
+  }, [client]);
 
   return {
     indexSolutions,
@@ -352,6 +370,8 @@ export const usePluginApi = () => {
     fetchSolutions,
     getComponentTypes,
     getIndexMetadata,
+    loadStartupMetadata,
+    loadSavedConfigs,
     indexCompletion,
     queryState,
     loading: {
@@ -359,14 +379,18 @@ export const usePluginApi = () => {
       querying: queryState.isQuerying,
       diffing,
     },
-    getAnalytics: async (connectionId: string = 'default'): Promise<AnalyticsData> => {
+    getAnalytics: async (connectionId: string = activeConnectionId, options?: RequestOptions): Promise<AnalyticsData> => {
       try {
-        const payload = JSON.stringify({ connectionId });
-        const result = await hostBridge.invokePluginCommand(PLUGIN_ID, 'getAnalytics', payload);
+        const result = await client.invoke('getAnalytics', { connectionId }, {
+          timeoutMs: LONG_RUNNING_TIMEOUT_MS,
+          ...options,
+        });
         console.log('Analytics data received:', result);
         return result;
       } catch (error) {
-        console.error('Failed to get analytics:', error);
+        if (!isAbortError(error)) {
+          console.error('Failed to get analytics:', error);
+        }
         throw error;
       }
     },
@@ -0,0 +1,28 @@
+import React, { createContext, useContext } from 'react';
+import { hostBridge, type HostBridge } from '@ddk/host-sdk';
+
+const PluginBridgeContext = createContext<HostBridge>(hostBridge);
+
+interface PluginBridgeProviderProps {
+  /** Bridge scoped to this plugin instance, as passed by the host */
+  bridge?: HostBridge;
+  children: React.ReactNode;
+}
+
+/**
+ * Makes the bridge the host passed to the tab available below it, so every
+ * request is made on behalf of this plugin instance and checked against its
+ * permissions. Falls back to the shared bridge in an isolated frame, where
+ * the shell relays requests as this instance, and when running standalone
+ * against the mock host; the native host rejects its requests elsewhere.
+ */
+export const PluginBridgeProvider: React.FC<PluginBridgeProviderProps> = ({ bridge, children }) => (
+  <PluginBridgeContext.Provider value={bridge ?? hostBridge}>
+    {children}
+  </PluginBridgeContext.Provider>
+);
+
+/**
+ * Returns the bridge of the current plugin tab.
+ */
+export const usePluginBridge = (): HostBridge => useContext(PluginBridgeContext);
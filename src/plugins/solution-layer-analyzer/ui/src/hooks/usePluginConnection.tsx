@@ -0,0 +1,26 @@
+import React, { createContext, useContext } from 'react';
+
+/** Connection used when the host did not bind the tab to one */
+export const DEFAULT_CONNECTION_ID = 'default';
+
+const PluginConnectionContext = createContext<string>(DEFAULT_CONNECTION_ID);
+
+interface PluginConnectionProviderProps {
+  /** Connection of the plugin tab, as passed by the host */
+  connectionId?: string | null;
+  children: React.ReactNode;
+}
+
+/**
+ * Makes the tab's connection available to every command issued below it.
+ */
+export const PluginConnectionProvider: React.FC<PluginConnectionProviderProps> = ({ connectionId, children }) => (
+  <PluginConnectionContext.Provider value={connectionId || DEFAULT_CONNECTION_ID}>
+    {children}
+  </PluginConnectionContext.Provider>
+);
+
+/**
+ * Returns the connection the current plugin tab is bound to.
+ */
+export const usePluginConnectionId = (): string => useContext(PluginConnectionContext);
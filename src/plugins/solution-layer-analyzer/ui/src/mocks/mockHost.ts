@@ -0,0 +1,110 @@
+import { MockHostTransport } from '@ddk/host-sdk';
+import { ComponentResult } from '../types';
+import { PLUGIN_ID } from '../types/commands';
+
+const SOLUTIONS = [
+  { uniqueName: 'Active', displayName: 'Active Solution', version: '1.0.0.0', isManaged: false, publisher: 'Default Publisher' },
+  { uniqueName: 'ContosoCore', displayName: 'Contoso Core', version: '2.3.0.0', isManaged: true, publisher: 'Contoso' },
+  { uniqueName: 'ContosoSales', displayName: 'Contoso Sales', version: '1.4.2.0', isManaged: true, publisher: 'Contoso' },
+  { uniqueName: 'ContosoService', displayName: 'Contoso Service', version: '1.1.0.0', isManaged: true, publisher: 'Contoso' },
+];
+
+const COMPONENT_TYPES = [
+  { name: 'Entity', displayName: 'Table', typeCode: 1 },
+  { name: 'Attribute', displayName: 'Column', typeCode: 2 },
+  { name: 'SystemForm', displayName: 'Form', typeCode: 60 },
+  { name: 'SavedQuery', displayName: 'View', typeCode: 26 },
+  { name: 'RibbonCustomization', displayName: 'Ribbon', typeCode: 50 },
+];
+
+const ROWS: ComponentResult[] = [
+  {
+    componentId: '00000000-0000-0000-0000-000000000001',
+    componentType: 'SystemForm',
+    logicalName: 'account_main',
+    displayName: 'Account Main Form',
+    layerSequence: ['System', 'ContosoCore', 'ContosoSales', 'Active'],
+    isManaged: true,
+    publisher: 'Contoso',
+    tableLogicalName: 'account',
+  },
+  {
+    componentId: '00000000-0000-0000-0000-000000000002',
+    componentType: 'SavedQuery',
+    logicalName: 'active_accounts',
+    displayName: 'Active Accounts',
+    layerSequence: ['System', 'ContosoCore'],
+    isManaged: true,
+    publisher: 'Contoso',
+    tableLogicalName: 'account',
+  },
+  {
+    componentId: '00000000-0000-0000-0000-000000000003',
+    componentType: 'Attribute',
+    logicalName: 'contoso_tier',
+    displayName: 'Tier',
+    layerSequence: ['ContosoCore', 'ContosoService', 'Active'],
+    isManaged: false,
+    publisher: 'Contoso',
+    tableLogicalName: 'account',
+  },
+];
+
+/**
+ * Creates an in-memory host that answers the analyzer commands with fixture
+ * data, so the UI can be developed in a plain browser via `pnpm dev`.
+ */
+export function createMockHost(): MockHostTransport {
+  const host = new MockHostTransport({ latencyMs: 150 });
+  const stats = { solutions: SOLUTIONS.length, components: ROWS.length, layers: 11 };
+
+  host
+    .handleCommand(PLUGIN_ID, 'fetchSolutions', () => ({ solutions: SOLUTIONS }))
+    .handleCommand(PLUGIN_ID, 'getComponentTypes', () => ({ componentTypes: COMPONENT_TYPES }))
+    .handleCommand(PLUGIN_ID, 'getIndexMetadata', () => ({
+      hasIndex: true,
+      sourceSolutions: ['ContosoCore'],
+      targetSolutions: ['ContosoSales', 'ContosoService'],
+      stats,
+    }))
+    .handleCommand(PLUGIN_ID, 'loadIndexConfigs', () => ({ configs: [] }))
+    .handleCommand(PLUGIN_ID, 'loadFilterConfigs', () => ({ configs: [] }))
+    .handleCommand(PLUGIN_ID, 'index', (_payload, { host }) => {
+      const operationId = `op_${Date.now()}`;
+      const steps = [
+        { phase: 'solutions', percent: 50, message: `Found ${SOLUTIONS.length} solutions` },
+        { phase: 'components', percent: 50, message: `Found ${ROWS.length} components` },
+        ...ROWS.map((row, i) => ({
+          phase: 'layers',
+          percent: Math.round((i * 100) / ROWS.length),
+          message: `Processing component ${i + 1}/${ROWS.length}: ${row.componentType}`,
+          completed: i,
+          total: ROWS.length,
+        })),
+      ];
+      steps.forEach((step, i) => {
+        setTimeout(() => host.reportProgress(PLUGIN_ID, { token: operationId, ...step }), 300 * (i + 1));
+      });
+      setTimeout(() => {
+        host.reportProgress(PLUGIN_ID, { token: operationId, phase: 'complete', percent: 100, done: true });
+        host.emit('plugin:sla:index-complete', { operationId, success: true, stats }, PLUGIN_ID);
+      }, 300 * (steps.length + 1));
+      return { operationId, started: true, progressToken: operationId };
+    })
+    .handleCommand(PLUGIN_ID, 'query', (payload, { host }) => {
+      if (!payload.useEventResponse) {
+        return { rows: ROWS, total: ROWS.length };
+      }
+      setTimeout(() => {
+        host.emit('plugin:sla:query-result', {
+          queryId: payload.queryId,
+          success: true,
+          rows: ROWS,
+          total: ROWS.length,
+        }, PLUGIN_ID);
+      }, 300);
+      return { queryId: payload.queryId, started: true };
+    });
+
+  return host;
+}
@@ -1,4 +1,5 @@
-import { create } from 'zustand';
+import { createContext, useContext } from 'react';
+import { createStore, useStore, type StoreApi } from 'zustand';
 import { persist } from 'zustand/middleware';
 import { IndexStats, FilterNode, ComponentResult, AttributeDiff, QueryPlanStats } from '../types';
 
@@ -46,6 +47,10 @@ export interface ProgressOperation {
   message: string;
   percent: number;
   phase?: string;
+  /** Items processed in the current phase */
+  completed?: number;
+  /** Total items in the current phase, when known */
+  total?: number;
 }
 
 export interface DiffState {
@@ -76,6 +81,29 @@ export interface FilterBarState {
   managedFilter?: string;
 }
 
+export interface FilterHistoryEntry {
+  filter: FilterNode | null;
+  /** What was changed, e.g. `Search` or `Query` */
+  label: string;
+  timestamp: number;
+  /** Whether the change was made by typing, e.g. in the search box */
+  typing?: boolean;
+}
+
+/**
+ * Filter states in the order they were set, for undo and redo. Changes after
+ * `index` are the ones that can be redone.
+ */
+export interface FilterHistory {
+  entries: FilterHistoryEntry[];
+  index: number;
+}
+
+/** Older filter states are dropped beyond this */
+const FILTER_HISTORY_LIMIT = 50;
+/** Typing changes to the same control within this window become one entry */
+const FILTER_HISTORY_MERGE_MS = 1000;
+
 export interface AnalysisState {
   allComponents: ComponentResult[];
   filteredComponents: ComponentResult[];
@@ -99,7 +127,7 @@ export interface QueryState {
   lastError: string | null;
 }
 
-interface AppState {
+export interface AppState {
   // Global metadata (loaded once)
   availableSolutions: Solution[];
   availableComponentTypes: ComponentType[];
@@ -118,6 +146,7 @@ interface AppState {
   
   // Filter bar state
   filterBarState: FilterBarState;
+  filterHistory: FilterHistory;
   
   // Query state (for event-based queries)
   queryState: QueryState;
@@ -149,6 +178,15 @@ interface AppState {
   
   // Filter bar actions
   setFilterBarState: (state: Partial<FilterBarState>) => void;
+  /**
+   * Sets the filter and records the change in the filter history. Changes made
+   * by typing pass `typing` so that quick ones to the same control share an entry.
+   */
+  applyFilterChange: (filter: FilterNode | null, label: string, typing?: boolean) => void;
+  undoFilterChange: () => void;
+  redoFilterChange: () => void;
+  /** Restores the filter of a history entry; later entries stay available for redo */
+  jumpToFilterHistory: (index: number) => void;
   
   // Query state actions
   setQueryState: (state: Partial<QueryState>) => void;
@@ -195,6 +233,10 @@ const initialState = {
     advancedMode: false,
     advancedFilter: null,
   },
+  filterHistory: {
+    entries: [],
+    index: -1,
+  } as FilterHistory,
   queryState: {
     latestQueryId: null,
     isQuerying: false,
@@ -208,7 +250,42 @@ const initialState = {
   operations: [],
 };
 
-export const useAppStore = create<AppState>()(
+/**
+ * The part of the state that makes up an analysis session.
+ * Persisted locally and saved per tab instance through the host.
+ */
+export const selectSessionState = (state: AppState) => ({
+  indexConfig: state.indexConfig,
+  filterConfig: state.filterConfig,
+  selectedTab: state.selectedTab,
+  analysisState: {
+    ...state.analysisState,
+    // Don't persist selected component to avoid stale references
+    selectedComponent: null,
+  },
+  filterBarState: state.filterBarState,
+  diffState: state.diffState,
+  // Don't persist operations or runtime state
+});
+
+export type SessionState = ReturnType<typeof selectSessionState>;
+
+const restoreFilterHistory = (state: AppState, index: number): Partial<AppState> => {
+  const entry = state.filterHistory.entries[index];
+  if (!entry) return {};
+  return {
+    filterBarState: { ...state.filterBarState, advancedFilter: entry.filter },
+    filterHistory: { ...state.filterHistory, index },
+  };
+};
+
+export type AppStore = StoreApi<AppState>;
+
+/**
+ * Creates the state of one plugin instance. Every tab gets its own store, so
+ * two instances shown side by side don't share their analysis.
+ */
+export const createAppStore = (): AppStore => createStore<AppState>()(
   persist(
     (set) => ({
       ...initialState,
@@ -240,6 +317,40 @@ export const useAppStore = create<AppState>()(
           filterBarState: { ...state.filterBarState, ...filterBarState },
         })),
       
+      applyFilterChange: (filter, label, typing = false) =>
+        set((state) => {
+          const current = state.filterBarState.advancedFilter;
+          if (filter === current) return {};
+
+          const now = Date.now();
+          const { entries, index } = state.filterHistory;
+          let kept = entries.slice(0, index + 1);
+          // The filter can change without the history, e.g. when a session is restored
+          if (kept[kept.length - 1]?.filter !== current) {
+            kept = [...kept, { filter: current, label: 'Starting filter', timestamp: now }];
+          }
+
+          const last = kept[kept.length - 1];
+          const merge = typing && kept.length > 1 && index === entries.length - 1 && last.typing
+            && last.label === label && now - last.timestamp < FILTER_HISTORY_MERGE_MS;
+          const updated = [...(merge ? kept.slice(0, -1) : kept), { filter, label, timestamp: now, typing }]
+            .slice(-FILTER_HISTORY_LIMIT);
+
+          return {
+            filterBarState: { ...state.filterBarState, advancedFilter: filter },
+            filterHistory: { entries: updated, index: updated.length - 1 },
+          };
+        }),
+      
+      undoFilterChange: () =>
+        set((state) => restoreFilterHistory(state, state.filterHistory.index - 1)),
+      
+      redoFilterChange: () =>
+        set((state) => restoreFilterHistory(state, state.filterHistory.index + 1)),
+      
+      jumpToFilterHistory: (index) =>
+        set((state) => restoreFilterHistory(state, index)),
+      
       setQueryState: (queryState) =>
         set((state) => ({
           queryState: { ...state.queryState, ...queryState },
@@ -274,19 +385,29 @@ export const useAppStore = create<AppState>()(
     }),
     {
       name: 'sla-app-storage',
-      partialize: (state) => ({
-        indexConfig: state.indexConfig,
-        filterConfig: state.filterConfig,
-        selectedTab: state.selectedTab,
-        analysisState: {
-          ...state.analysisState,
-          // Don't persist selected component to avoid stale references
-          selectedComponent: null,
-        },
-        filterBarState: state.filterBarState,
-        diffState: state.diffState,
-        // Don't persist operations or runtime state
-      }),
+      partialize: selectSessionState,
     }
   )
 );
+
+export const AppStoreContext = createContext<AppStore | null>(null);
+
+/**
+ * Returns the store of the current plugin instance, for reading state outside of render.
+ */
+export function useAppStoreApi(): AppStore {
+  const store = useContext(AppStoreContext);
+  if (!store) {
+    throw new Error('useAppStore must be used within an AppStoreContext provider');
+  }
+  return store;
+}
+
+/**
+ * Selects from the state of the current plugin instance.
+ */
+export function useAppStore(): AppState;
+export function useAppStore<T>(selector: (state: AppState) => T): T;
+export function useAppStore<T>(selector?: (state: AppState) => T) {
+  return useStore(useAppStoreApi(), selector ?? ((state: AppState) => state as unknown as T));
+}
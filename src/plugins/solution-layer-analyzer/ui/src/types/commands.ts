@@ -0,0 +1,66 @@
+import type { PluginCommandSpec } from '@ddk/host-sdk';
+import type { BackendFilterNode } from '../utils/filterTransform';
+import type { AnalyticsData } from './analytics';
+import type { AttributeDiff, IndexMetadata, IndexResponse, QueryResponse } from './index';
+
+export const PLUGIN_ID = 'com.ddk.solutionlayeranalyzer';
+
+interface ConnectionPayload {
+  connectionId: string;
+}
+
+export interface IndexCommandPayload extends ConnectionPayload {
+  sourceSolutions: string[];
+  targetSolutions: string[];
+  includeComponentTypes: string[];
+  payloadMode: 'lazy' | 'eager';
+}
+
+export interface QueryCommandPayload extends ConnectionPayload {
+  queryId?: string;
+  filters: BackendFilterNode | null;
+  paging: { skip: number; take: number };
+  sort: { field: string; dir: 'asc' | 'desc' }[];
+  useEventResponse: boolean;
+}
+
+export interface DiffCommandPayload extends ConnectionPayload {
+  componentId: string;
+  left: { solutionName: string };
+  right: { solutionName: string };
+}
+
+export interface SaveIndexConfigPayload extends ConnectionPayload {
+  name: string;
+  sourceSolutions: string[];
+  targetSolutions: string[];
+  componentTypes: string[];
+  payloadMode: string;
+}
+
+export interface SaveFilterConfigPayload {
+  name: string;
+  connectionId?: string;
+  originatingIndexHash?: string;
+  filter: BackendFilterNode | null;
+}
+
+/**
+ * Payload and result types of the analyzer backend commands,
+ * used with `createPluginClient`.
+ */
+export type SlaCommands = {
+  index: PluginCommandSpec<IndexCommandPayload, IndexResponse>;
+  query: PluginCommandSpec<QueryCommandPayload, QueryResponse>;
+  details: PluginCommandSpec<ConnectionPayload & { componentId: string }, any>;
+  diff: PluginCommandSpec<DiffCommandPayload, { attributes: AttributeDiff[]; warnings?: string[] }>;
+  clear: PluginCommandSpec<ConnectionPayload, void>;
+  fetchSolutions: PluginCommandSpec<ConnectionPayload, { solutions: any[] }>;
+  getComponentTypes: PluginCommandSpec<Record<string, never>, { componentTypes: any[] }>;
+  getAnalytics: PluginCommandSpec<ConnectionPayload, AnalyticsData>;
+  getIndexMetadata: PluginCommandSpec<ConnectionPayload, IndexMetadata>;
+  saveIndexConfig: PluginCommandSpec<SaveIndexConfigPayload, { configId: number; configHash: string }>;
+  loadIndexConfigs: PluginCommandSpec<{ connectionId?: string }, { configs: any[] }>;
+  saveFilterConfig: PluginCommandSpec<SaveFilterConfigPayload, { configId: number }>;
+  loadFilterConfigs: PluginCommandSpec<{ connectionId?: string; currentIndexHash?: string }, { configs: any[] }>;
+};
@@ -125,6 +125,8 @@ export interface FilterComplexityInfo {
 export interface IndexResponse {
   operationId: string;
   started: boolean;
+  /** Token correlating the `progress` events of this operation */
+  progressToken?: string;
   errorMessage?: string;
 }
 
@@ -166,6 +168,16 @@ export interface QueryPlanStats {
   planDescription?: string;
 }
 
+/**
+ * Response of a synchronous query (`useEventResponse: false`).
+ */
+export interface QueryResponse {
+  queryId?: string;
+  rows?: ComponentResult[];
+  total?: number;
+  stats?: QueryPlanStats;
+}
+
 /**
  * Acknowledgment returned when using event-based queries.
  */
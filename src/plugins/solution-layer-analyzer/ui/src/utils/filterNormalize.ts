@@ -0,0 +1,202 @@
+import { FilterNode, StringOperator } from '../types';
+
+const SET_VALUED_PROPS = ['solutions', 'targetSolutions', 'attributeNames'] as const;
+
+const NEGATED_OPERATORS: Record<StringOperator, StringOperator> = {
+  [StringOperator.Equals]: StringOperator.NotEquals,
+  [StringOperator.NotEquals]: StringOperator.Equals,
+  [StringOperator.Contains]: StringOperator.NotContains,
+  [StringOperator.NotContains]: StringOperator.Contains,
+  [StringOperator.BeginsWith]: StringOperator.NotBeginsWith,
+  [StringOperator.NotBeginsWith]: StringOperator.BeginsWith,
+  [StringOperator.EndsWith]: StringOperator.NotEndsWith,
+  [StringOperator.NotEndsWith]: StringOperator.EndsWith,
+};
+
+const isBoolean = (node: FilterNode) => node.type === 'AND' || node.type === 'OR';
+
+/** JSON with object keys in sorted order, so equal values always serialize alike */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const sortedUnique = (values: string[]) => [...new Set(values)].sort();
+
+/**
+ * Canonical form of what a node matches: ids and simple-mode source ids are
+ * left out, and the order of AND/OR children and of solution sets is ignored.
+ * Layer sequences keep their order.
+ */
+export function filterKey(node: FilterNode): string {
+  const { id: _id, sourceId: _sourceId, children, layerFilter, attributeFilter, sequence, ...props } = node;
+  const canonical: Record<string, unknown> = { ...props };
+
+  SET_VALUED_PROPS.forEach((prop) => {
+    if (node[prop]) canonical[prop] = sortedUnique(node[prop]!);
+  });
+  if (sequence) {
+    canonical.sequence = sequence.map((step) => (Array.isArray(step) ? sortedUnique(step) : step));
+  }
+  if (children) {
+    const keys = children.map(filterKey);
+    canonical.children = isBoolean(node) ? sortedUnique(keys) : keys;
+  }
+  if (layerFilter) canonical.layerFilter = filterKey(layerFilter);
+  if (attributeFilter) canonical.attributeFilter = filterKey(attributeFilter);
+
+  return stableStringify(canonical);
+}
+
+const simplify = (node: FilterNode): FilterNode => {
+  let result: FilterNode = { ...node };
+  if (node.layerFilter) result.layerFilter = simplify(node.layerFilter);
+  if (node.attributeFilter) result.attributeFilter = simplify(node.attributeFilter);
+  if (node.solutions) result.solutions = [...new Set(node.solutions)];
+  if (!node.children) return result;
+
+  const children = node.children.map(simplify);
+
+  if (node.type === 'NOT') {
+    // NOT(NOT(x)) is x
+    const inner = children.length === 1 ? children[0] : null;
+    if (!node.sourceId && inner?.type === 'NOT' && !inner.sourceId && inner.children?.length === 1) {
+      return inner.children[0];
+    }
+    return { ...result, children };
+  }
+
+  if (!isBoolean(node)) {
+    return { ...result, children };
+  }
+
+  // Nested groups of the same type merge into this one; simple-mode groups stay whole
+  const flattened = children.flatMap((child) =>
+    child.type === node.type && !child.sourceId ? child.children ?? [] : [child]
+  );
+  // Conditions owned by different simple-mode filters are kept apart, even when they match alike
+  const seen = new Set<string>();
+  const unique = flattened.filter((child) => {
+    const key = `${child.sourceId ?? ''}|${filterKey(child)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  result = { ...result, children: unique };
+  return unique.length === 1 && !node.sourceId ? unique[0] : result;
+};
+
+/**
+ * Simplifies a filter without changing what it matches: nested AND/OR nodes
+ * of the same type are flattened, duplicate conditions and solutions removed,
+ * single-condition groups unwrapped and `NOT(NOT(x))` folded to `x`. Nodes
+ * carrying a simple-mode `sourceId` keep their shape and are only merged
+ * with duplicates from the same simple filter, so the simple filters can
+ * still find them.
+ */
+export function normalizeFilter(filter: FilterNode | null): FilterNode | null {
+  return filter && simplify(filter);
+}
+
+/** Whether normalizing the filter would change it */
+export function canNormalizeFilter(filter: FilterNode | null): boolean {
+  return stableStringify(normalizeFilter(filter)) !== stableStringify(filter);
+}
+
+/**
+ * Copies the simple-mode `sourceId` of each condition in `previous` onto an
+ * unchanged copy of it in `next`, e.g. a filter parsed from a query, so the
+ * simple filters keep showing their conditions. Each source id is used once,
+ * on the first matching node in tree order.
+ */
+export function keepSourceIds(previous: FilterNode | null, next: FilterNode | null): FilterNode | null {
+  const sources = new Map<string, string[]>();
+  const collect = (node: FilterNode) => {
+    if (node.sourceId) {
+      const key = filterKey(node);
+      sources.set(key, [...(sources.get(key) ?? []), node.sourceId]);
+      return;
+    }
+    node.children?.forEach(collect);
+  };
+  if (previous) collect(previous);
+  if (sources.size === 0) return next;
+
+  const visit = (node: FilterNode): FilterNode => {
+    const sourceId = node.sourceId ? undefined : sources.get(filterKey(node))?.shift();
+    if (sourceId) return { ...node, sourceId };
+    return node.children ? { ...node, children: node.children.map(visit) } : node;
+  };
+  return next && visit(next);
+}
+
+const negate = (node: FilterNode): FilterNode => {
+  switch (node.type) {
+    case 'NOT':
+      return node.children?.length === 1 ? toDisplay(node.children[0]) : notOf(node);
+    case 'AND':
+    case 'OR':
+      // De Morgan: NOT(a AND b) is NOT a OR NOT b, and the other way around
+      return { ...node, type: node.type === 'AND' ? 'OR' : 'AND', children: node.children?.map(negate) };
+    case 'HAS':
+      return node.solution ? { ...node, type: 'HAS_NONE', solution: undefined, solutions: [node.solution] } : notOf(node);
+    case 'HAS_ANY':
+    case 'HAS_NONE':
+      return node.solutions?.length ? { ...node, type: node.type === 'HAS_ANY' ? 'HAS_NONE' : 'HAS_ANY' } : notOf(node);
+    case 'MANAGED':
+      return { ...node, value: node.value === 'true' ? 'false' : 'true' };
+    case 'ATTRIBUTE':
+      // Component attributes have a single value, so the operator can be inverted
+      return node.operator ? { ...node, operator: NEGATED_OPERATORS[node.operator] } : notOf(node);
+    default:
+      return notOf(node);
+  }
+};
+
+const notOf = (node: FilterNode): FilterNode => ({ type: 'NOT', id: `${node.id}-not`, children: [toDisplay(node)] });
+
+const toDisplay = (node: FilterNode): FilterNode => {
+  if (node.type === 'NOT' && node.children?.length === 1) {
+    return negate(node.children[0]);
+  }
+  const result: FilterNode = { ...node };
+  if (node.children) result.children = node.children.map(toDisplay);
+  if (node.layerFilter) result.layerFilter = toDisplay(node.layerFilter);
+  if (node.attributeFilter) result.attributeFilter = toDisplay(node.attributeFilter);
+  return result;
+};
+
+/**
+ * Form of a filter meant for reading: NOTs are pushed down to single
+ * conditions with De Morgan's laws and replaced by the opposite condition
+ * where there is one (`NOT hasAny(A)` reads `hasNone(A)`), then the result is
+ * normalized.
+ */
+export function toDisplayFilter(filter: FilterNode | null): FilterNode | null {
+  return filter && normalizeFilter(toDisplay(filter));
+}
+
+/**
+ * Hash of the normalized filter (64-bit FNV-1a, 16 hex characters). Filters
+ * that match the same components the same way hash alike, however their
+ * conditions are ordered, nested or identified.
+ */
+export function hashFilter(filter: FilterNode | null): string {
+  const normalized = normalizeFilter(filter);
+  const input = normalized ? filterKey(normalized) : 'null';
+
+  let hash = 0xcbf29ce484222325n;
+  for (const byte of new TextEncoder().encode(input)) {
+    hash = BigInt.asUintN(64, (hash ^ BigInt(byte)) * 0x100000001b3n);
+  }
+  return hash.toString(16).padStart(16, '0');
+}
@@ -0,0 +1,755 @@
+import {
+  FilterNode,
+  SolutionQueryNode,
+  AttributeTarget,
+  StringOperator,
+  AttributeDiffTargetMode,
+  AttributeMatchLogic,
+} from '../types';
+
+/**
+ * Text query language for the filter AST. Every `FilterNode` tree has a
+ * query form and parsing the printed form yields the same tree (with new ids):
+ *
+ *   type:SystemForm AND has(ContosoCore) AND order(Base > [Sales, Service]) AND NOT managed
+ *
+ * - `AND`, `OR` and `NOT` (case-insensitive); `NOT` binds tightest, then `AND`, then `OR`.
+ *   `AND(...)`/`OR(...)`/`NOT(...)` write groups with any number of children.
+ * - Component attributes: `name`, `displayName`, `type`, `publisher`, `table`, compared with
+ *   `:` (equals), `~` (contains), `^` (begins with), `$` (ends with), each negated with `!`.
+ * - `managed`, `unmanaged`, `changed` (HAS_RELEVANT_CHANGES).
+ * - `has(A)`, `hasAny(A, B)`, `hasAll(...)`, `hasNone(...)`.
+ * - `order(A > [B, C] > solution(schemaName^Contoso))` (ORDER_FLEX) and `strictOrder(...)`
+ *   (ORDER_STRICT), listing layers from the bottom up.
+ * - `solution(schemaName^Contoso)` with `schemaName`, `friendlyName`, `publisherName`, `version`.
+ * - `layers(<filter>)` (LAYER_QUERY) and `attributes(Solution, <filter>)` (LAYER_ATTRIBUTE_QUERY).
+ * - `diff(Source, targets: [A, B], attributes: [name, label], match: all, changedOnly: false)`;
+ *   every option after the source solution may be left out.
+ *
+ * Values are bare words (letters, digits, `_`, `.`, `-`) or double-quoted strings.
+ */
+
+export type FilterQueryTokenKind =
+  | 'word'
+  | 'string'
+  | 'operator'
+  | 'lparen'
+  | 'rparen'
+  | 'lbracket'
+  | 'rbracket'
+  | 'comma'
+  | 'gt'
+  | 'error';
+
+export interface FilterQueryToken {
+  kind: FilterQueryTokenKind;
+  /** Source text of the token */
+  text: string;
+  /** Unescaped value of strings; the source text otherwise */
+  value: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A query that cannot be parsed. `start` and `end` are offsets into the
+ * query text of the part the error refers to.
+ */
+export class FilterQuerySyntaxError extends Error {
+  constructor(message: string, readonly start: number, readonly end: number) {
+    super(message);
+    this.name = 'FilterQuerySyntaxError';
+  }
+}
+
+const WORD_CHAR = /[\p{L}\p{N}_.\-]/u;
+const BARE_VALUE = /^[\p{L}\p{N}_.\-]+$/u;
+
+const OPERATORS: Record<string, StringOperator> = {
+  ':': StringOperator.Equals,
+  '!:': StringOperator.NotEquals,
+  '~': StringOperator.Contains,
+  '!~': StringOperator.NotContains,
+  '^': StringOperator.BeginsWith,
+  '!^': StringOperator.NotBeginsWith,
+  '$': StringOperator.EndsWith,
+  '!$': StringOperator.NotEndsWith,
+};
+
+const OPERATOR_SYMBOLS = Object.fromEntries(
+  Object.entries(OPERATORS).map(([symbol, operator]) => [operator, symbol])
+) as Record<StringOperator, string>;
+
+const COMPONENT_FIELDS: Record<string, AttributeTarget> = {
+  name: AttributeTarget.LogicalName,
+  displayName: AttributeTarget.DisplayName,
+  type: AttributeTarget.ComponentType,
+  publisher: AttributeTarget.Publisher,
+  table: AttributeTarget.TableLogicalName,
+};
+
+const SOLUTION_FIELDS: Record<string, string> = {
+  schemaName: 'SchemaName',
+  friendlyName: 'FriendlyName',
+  publisherName: 'PublisherName',
+  version: 'Version',
+};
+
+const SOLUTION_SET_FUNCTIONS: Record<string, string> = {
+  hasAny: 'HAS_ANY',
+  hasAll: 'HAS_ALL',
+  hasNone: 'HAS_NONE',
+};
+
+const ORDER_FUNCTIONS: Record<string, string> = {
+  order: 'ORDER_FLEX',
+  strictOrder: 'ORDER_STRICT',
+};
+
+/** Looks up a query name case-insensitively and returns its canonical spelling */
+const findName = (names: Record<string, unknown>, name: string): string | undefined =>
+  Object.keys(names).find((key) => key.toLowerCase() === name.toLowerCase());
+
+const keyOf = <T extends string>(names: Record<string, T>, value: T | string | undefined): string | undefined =>
+  Object.keys(names).find((key) => names[key] === value);
+
+const isKeyword = (token: FilterQueryToken | undefined, keyword: 'AND' | 'OR' | 'NOT'): boolean =>
+  token?.kind === 'word' && token.text.toUpperCase() === keyword;
+
+/**
+ * Splits a query into tokens. Never throws: characters that do not belong
+ * to the language and unterminated strings become `error` tokens, so the
+ * result can be used for highlighting text that is still being typed.
+ */
+export function tokenizeFilterQuery(text: string): FilterQueryToken[] {
+  const tokens: FilterQueryToken[] = [];
+  const push = (kind: FilterQueryTokenKind, start: number, end: number, value = text.slice(start, end)) =>
+    tokens.push({ kind, text: text.slice(start, end), value, start, end });
+
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    if (char === '"') {
+      let value = '';
+      i++;
+      while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) i++;
+        value += text[i++];
+      }
+      if (i < text.length) {
+        push('string', start, ++i, value);
+      } else {
+        push('error', start, i, value);
+      }
+      continue;
+    }
+
+    if (WORD_CHAR.test(char)) {
+      while (i < text.length && WORD_CHAR.test(text[i])) i++;
+      push('word', start, i);
+      continue;
+    }
+
+    const pair = text.slice(i, i + 2);
+    if (pair in OPERATORS) {
+      i += 2;
+      push('operator', start, i);
+      continue;
+    }
+
+    i++;
+    switch (char) {
+      case '(': push('lparen', start, i); break;
+      case ')': push('rparen', start, i); break;
+      case '[': push('lbracket', start, i); break;
+      case ']': push('rbracket', start, i); break;
+      case ',': push('comma', start, i); break;
+      case '>': push('gt', start, i); break;
+      default:
+        push(char in OPERATORS ? 'operator' : 'error', start, i);
+    }
+  }
+  return tokens;
+}
+
+let nextNodeId = 0;
+const createNodeId = () => `query-${Date.now()}-${nextNodeId++}`;
+
+class FilterQueryParser {
+  private position = 0;
+
+  constructor(private readonly text: string, private readonly tokens: FilterQueryToken[]) {}
+
+  parse(): FilterNode | null {
+    if (this.tokens.length === 0) return null;
+    const node = this.parseOr();
+    const extra = this.peek();
+    if (extra) {
+      throw this.error(
+        extra.kind === 'rparen' ? "Unexpected ')'" : `Expected AND or OR before ${this.describe(extra)}`,
+        extra
+      );
+    }
+    return node;
+  }
+
+  private peek(offset = 0): FilterQueryToken | undefined {
+    return this.tokens[this.position + offset];
+  }
+
+  private next(): FilterQueryToken | undefined {
+    return this.tokens[this.position++];
+  }
+
+  private error(message: string, token = this.peek()): FilterQuerySyntaxError {
+    if (!token) return new FilterQuerySyntaxError(message, this.text.length, this.text.length);
+    return new FilterQuerySyntaxError(message, token.start, token.end);
+  }
+
+  private describe(token: FilterQueryToken | undefined): string {
+    if (!token) return 'the end of the query';
+    return token.kind === 'error' && token.text.startsWith('"') ? 'an unterminated string' : `'${token.text}'`;
+  }
+
+  private expect(kind: FilterQueryTokenKind, label: string): FilterQueryToken {
+    const token = this.peek();
+    if (token?.kind !== kind) {
+      throw this.error(`Expected ${label} but found ${this.describe(token)}`);
+    }
+    this.position++;
+    return token;
+  }
+
+  private accept(kind: FilterQueryTokenKind): boolean {
+    if (this.peek()?.kind !== kind) return false;
+    this.position++;
+    return true;
+  }
+
+  private parseOr(): FilterNode {
+    const children = [this.parseAnd()];
+    while (isKeyword(this.peek(), 'OR')) {
+      this.position++;
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'OR', id: createNodeId(), children };
+  }
+
+  private parseAnd(): FilterNode {
+    const children = [this.parseUnary()];
+    while (isKeyword(this.peek(), 'AND')) {
+      this.position++;
+      children.push(this.parseUnary());
+    }
+    return children.length === 1 ? children[0] : { type: 'AND', id: createNodeId(), children };
+  }
+
+  private parseUnary(): FilterNode {
+    if (!isKeyword(this.peek(), 'NOT')) return this.parsePrimary();
+    this.position++;
+    // NOT(a, b) lists children; NOT (a) is the negation of a group
+    const children = this.peek()?.kind === 'lparen' ? this.parseExpressionList() : [this.parseUnary()];
+    return { type: 'NOT', id: createNodeId(), children };
+  }
+
+  /** Parses `( [expr {, expr}] )` */
+  private parseExpressionList(): FilterNode[] {
+    this.expect('lparen', "'('");
+    const children: FilterNode[] = [];
+    if (!this.accept('rparen')) {
+      do {
+        children.push(this.parseOr());
+      } while (this.accept('comma'));
+      this.expect('rparen', "')'");
+    }
+    return children;
+  }
+
+  private parsePrimary(): FilterNode {
+    const token = this.peek();
+    if (token?.kind === 'lparen') {
+      this.position++;
+      const node = this.parseOr();
+      this.expect('rparen', "')'");
+      return node;
+    }
+    if (token?.kind !== 'word') {
+      throw this.error(`Expected a condition but found ${this.describe(token)}`);
+    }
+
+    if (isKeyword(token, 'AND') || isKeyword(token, 'OR')) {
+      if (this.peek(1)?.kind !== 'lparen') throw this.error(`Expected a condition but found '${token.text}'`);
+      this.position++;
+      return { type: token.text.toUpperCase(), id: createNodeId(), children: this.parseExpressionList() };
+    }
+
+    const following = this.peek(1);
+    if (following?.kind === 'lparen') return this.parseFunction();
+    if (following?.kind === 'operator') return this.parseComparison();
+
+    this.position++;
+    switch (token.text.toLowerCase()) {
+      case 'managed':
+        return { type: 'MANAGED', id: createNodeId(), value: 'true' };
+      case 'unmanaged':
+        return { type: 'MANAGED', id: createNodeId(), value: 'false' };
+      case 'changed':
+        return { type: 'HAS_RELEVANT_CHANGES', id: createNodeId() };
+      default:
+        throw this.error(`Unknown condition '${token.text}'`, token);
+    }
+  }
+
+  private parseComparison(): FilterNode {
+    const field = this.next()!;
+    const name = findName(COMPONENT_FIELDS, field.text);
+    if (!name) {
+      throw this.error(
+        `Unknown attribute '${field.text}', expected one of ${Object.keys(COMPONENT_FIELDS).join(', ')}`,
+        field
+      );
+    }
+    const operator = OPERATORS[this.next()!.text];
+    return {
+      type: 'ATTRIBUTE',
+      id: createNodeId(),
+      attribute: COMPONENT_FIELDS[name],
+      operator,
+      value: this.parseValue(),
+    };
+  }
+
+  private parseValue(): string {
+    const token = this.peek();
+    if (token?.kind !== 'word' && token?.kind !== 'string') {
+      throw this.error(`Expected a value but found ${this.describe(token)}`);
+    }
+    this.position++;
+    return token.value;
+  }
+
+  /** Parses `[ [value {, value}] ]` */
+  private parseValueList(): string[] {
+    this.expect('lbracket', "'['");
+    const values: string[] = [];
+    if (!this.accept('rbracket')) {
+      do {
+        values.push(this.parseValue());
+      } while (this.accept('comma'));
+      this.expect('rbracket', "']'");
+    }
+    return values;
+  }
+
+  private parseFunction(): FilterNode {
+    const token = this.next()!;
+    const name = token.text.toLowerCase();
+    this.expect('lparen', "'('");
+    const id = createNodeId();
+    let node: FilterNode;
+
+    const setType = findName(SOLUTION_SET_FUNCTIONS, name);
+    const orderType = findName(ORDER_FUNCTIONS, name);
+    if (name === 'has') {
+      node = { type: 'HAS', id, solution: this.parseValue() };
+    } else if (setType) {
+      const solutions: string[] = [];
+      if (this.peek()?.kind !== 'rparen') {
+        do {
+          solutions.push(this.parseValue());
+        } while (this.accept('comma'));
+      }
+      node = { type: SOLUTION_SET_FUNCTIONS[setType], id, solutions };
+    } else if (orderType) {
+      const sequence: FilterNode['sequence'] = [];
+      if (this.peek()?.kind !== 'rparen') {
+        do {
+          sequence.push(this.parseSequenceStep());
+        } while (this.accept('gt'));
+      }
+      node = { type: ORDER_FUNCTIONS[orderType], id, sequence };
+    } else if (name === 'solution') {
+      node = { type: 'SOLUTION_QUERY', id, ...this.parseSolutionQuery() };
+    } else if (name === 'layers') {
+      node = { type: 'LAYER_QUERY', id, layerFilter: this.peek()?.kind === 'rparen' ? undefined : this.parseOr() };
+    } else if (name === 'attributes') {
+      const solution = this.parseValue();
+      node = { type: 'LAYER_ATTRIBUTE_QUERY', id, solution, attributeFilter: this.accept('comma') ? this.parseOr() : undefined };
+    } else if (name === 'diff') {
+      node = { type: 'HAS_ATTRIBUTE_DIFF', id, ...this.parseDiffOptions() };
+    } else {
+      throw this.error(`Unknown function '${token.text}'`, token);
+    }
+
+    this.expect('rparen', "')'");
+    return node;
+  }
+
+  private parseSequenceStep(): string | string[] | SolutionQueryNode {
+    const token = this.peek();
+    if (token?.kind === 'lbracket') return this.parseValueList();
+    if (token?.kind === 'word' && token.text.toLowerCase() === 'solution' && this.peek(1)?.kind === 'lparen') {
+      this.position += 2;
+      const query = this.parseSolutionQuery();
+      this.expect('rparen', "')'");
+      return query;
+    }
+    return this.parseValue();
+  }
+
+  private parseSolutionQuery(): SolutionQueryNode {
+    const field = this.expect('word', 'a solution attribute');
+    const name = findName(SOLUTION_FIELDS, field.text);
+    if (!name) {
+      throw this.error(
+        `Unknown solution attribute '${field.text}', expected one of ${Object.keys(SOLUTION_FIELDS).join(', ')}`,
+        field
+      );
+    }
+    const operator = OPERATORS[this.expect('operator', 'a comparison such as : or ~').text];
+    return { attribute: SOLUTION_FIELDS[name], operator, value: this.parseValue() };
+  }
+
+  private parseDiffOptions(): Partial<FilterNode> {
+    const options: Partial<FilterNode> = {
+      sourceSolution: this.parseValue(),
+      targetMode: AttributeDiffTargetMode.AllBelow,
+      targetSolutions: [],
+      onlyChangedAttributes: true,
+      attributeNames: [],
+      attributeMatchLogic: AttributeMatchLogic.Any,
+    };
+
+    while (this.accept('comma')) {
+      const option = this.expect('word', 'a diff option');
+      const separator = this.peek();
+      if (separator?.kind !== 'operator' || separator.text !== ':') {
+        throw this.error(`Expected ':' after '${option.text}' but found ${this.describe(separator)}`);
+      }
+      this.position++;
+
+      switch (option.text.toLowerCase()) {
+        case 'targets':
+          options.targetMode = AttributeDiffTargetMode.Specific;
+          options.targetSolutions = this.parseValueList();
+          break;
+        case 'attributes':
+          options.attributeNames = this.parseValueList();
+          break;
+        case 'match': {
+          const value = this.expect('word', 'any or all');
+          if (!/^(any|all)$/i.test(value.text)) throw this.error(`Expected any or all but found '${value.text}'`, value);
+          options.attributeMatchLogic = /^all$/i.test(value.text) ? AttributeMatchLogic.All : AttributeMatchLogic.Any;
+          break;
+        }
+        case 'changedonly': {
+          const value = this.expect('word', 'true or false');
+          if (!/^(true|false)$/i.test(value.text)) throw this.error(`Expected true or false but found '${value.text}'`, value);
+          options.onlyChangedAttributes = /^true$/i.test(value.text);
+          break;
+        }
+        default:
+          throw this.error(
+            `Unknown diff option '${option.text}', expected targets, attributes, match or changedOnly`,
+            option
+          );
+      }
+    }
+    return options;
+  }
+}
+
+/**
+ * Parses a filter query into a `FilterNode` tree with fresh ids; an empty
+ * query is no filter. Throws a `FilterQuerySyntaxError` for invalid queries.
+ */
+export function parseFilterQuery(text: string): FilterNode | null {
+  const tokens = tokenizeFilterQuery(text);
+  const invalid = tokens.find((t) => t.kind === 'error');
+  if (invalid) {
+    throw new FilterQuerySyntaxError(
+      invalid.text.startsWith('"') ? 'Unterminated string' : `Unexpected character '${invalid.text}'`,
+      invalid.start,
+      invalid.end
+    );
+  }
+
+  const root = new FilterQueryParser(text, tokens).parse();
+  // The builder and the simple filters expect the top-level group to be the root
+  if (root?.type === 'AND') root.id = 'root';
+  return root;
+}
+
+/** Quotes values that are not a bare word */
+export function formatFilterQueryValue(value: string): string {
+  return BARE_VALUE.test(value) ? value : `"${value.replace(/[\\"]/g, '\\$&')}"`;
+}
+
+const formatValueList = (values: string[] | undefined) =>
+  `[${(values ?? []).map(formatFilterQueryValue).join(', ')}]`;
+
+const formatComparison = (field: string, operator: StringOperator | undefined, value: string | undefined) =>
+  `${field}${OPERATOR_SYMBOLS[operator ?? StringOperator.Contains]}${formatFilterQueryValue(value ?? '')}`;
+
+const formatSolutionQuery = (query: SolutionQueryNode | FilterNode): string => {
+  const field = keyOf(SOLUTION_FIELDS, query.attribute ?? 'SchemaName');
+  if (!field) throw new Error(`Solution attribute '${query.attribute}' has no query syntax`);
+  return `solution(${formatComparison(field, query.operator, query.value)})`;
+};
+
+const isGroup = (node: FilterNode) =>
+  (node.type === 'AND' || node.type === 'OR') && (node.children?.length ?? 0) >= 2;
+
+/** Formats a child of an AND, OR or NOT, parenthesizing groups that would otherwise merge with it */
+const formatOperand = (node: FilterNode, parentType: string): string => {
+  const text = formatFilterQuery(node);
+  const needsParens = isGroup(node) && (parentType !== 'OR' || node.type === 'OR');
+  return needsParens ? `(${text})` : text;
+};
+
+/**
+ * Formats a `FilterNode` tree as a query; `null` formats as an empty query.
+ * The output is canonical, so two trees with the same query differ at most
+ * in their ids. Throws for node types the language has no syntax for.
+ */
+export function formatFilterQuery(node: FilterNode | null): string {
+  if (!node) return '';
+  const children = node.children ?? [];
+
+  switch (node.type) {
+    case 'AND':
+    case 'OR':
+      return children.length >= 2
+        ? children.map((child) => formatOperand(child, node.type)).join(` ${node.type} `)
+        : `${node.type}(${children.map(formatFilterQuery).join(', ')})`;
+    case 'NOT':
+      return children.length === 1
+        ? `NOT ${formatOperand(children[0], 'NOT')}`
+        : `NOT(${children.map(formatFilterQuery).join(', ')})`;
+    case 'ATTRIBUTE': {
+      const field = keyOf(COMPONENT_FIELDS, node.attribute ?? AttributeTarget.LogicalName);
+      if (!field) throw new Error(`Attribute '${node.attribute}' has no query syntax`);
+      return formatComparison(field, node.operator, node.value);
+    }
+    case 'MANAGED':
+      return node.value === 'true' ? 'managed' : 'unmanaged';
+    case 'HAS_RELEVANT_CHANGES':
+      return 'changed';
+    case 'HAS':
+      return `has(${formatFilterQueryValue(node.solution ?? '')})`;
+    case 'HAS_ANY':
+    case 'HAS_ALL':
+    case 'HAS_NONE':
+      return `${keyOf(SOLUTION_SET_FUNCTIONS, node.type)}(${(node.solutions ?? []).map(formatFilterQueryValue).join(', ')})`;
+    case 'ORDER_FLEX':
+    case 'ORDER_STRICT': {
+      const steps = (node.sequence ?? []).map((step) =>
+        typeof step === 'string' ? formatFilterQueryValue(step)
+          : Array.isArray(step) ? formatValueList(step)
+          : formatSolutionQuery(step)
+      );
+      return `${keyOf(ORDER_FUNCTIONS, node.type)}(${steps.join(' > ')})`;
+    }
+    case 'SOLUTION_QUERY':
+      return formatSolutionQuery(node);
+    case 'LAYER_QUERY':
+      return `layers(${formatFilterQuery(node.layerFilter ?? null)})`;
+    case 'LAYER_ATTRIBUTE_QUERY': {
+      const solution = formatFilterQueryValue(node.solution ?? '');
+      return node.attributeFilter
+        ? `attributes(${solution}, ${formatFilterQuery(node.attributeFilter)})`
+        : `attributes(${solution})`;
+    }
+    case 'HAS_ATTRIBUTE_DIFF': {
+      const options = [formatFilterQueryValue(node.sourceSolution ?? '')];
+      if (node.targetMode === AttributeDiffTargetMode.Specific) options.push(`targets: ${formatValueList(node.targetSolutions)}`);
+      if (node.attributeNames?.length) options.push(`attributes: ${formatValueList(node.attributeNames)}`);
+      if (node.attributeMatchLogic === AttributeMatchLogic.All) options.push('match: all');
+      if (node.onlyChangedAttributes === false) options.push('changedOnly: false');
+      return `diff(${options.join(', ')})`;
+    }
+    default:
+      throw new Error(`Filter type ${node.type} has no query syntax`);
+  }
+}
+
+export type FilterQueryCompletionKind = 'keyword' | 'function' | 'field' | 'option' | 'solution' | 'componentType' | 'value';
+
+export interface FilterQueryCompletion {
+  label: string;
+  insertText: string;
+  kind: FilterQueryCompletionKind;
+  detail?: string;
+}
+
+export interface FilterQueryCompletions {
+  /** Offsets of the text the completions replace, usually the word being typed */
+  start: number;
+  end: number;
+  items: FilterQueryCompletion[];
+}
+
+export interface FilterQueryCompletionSource {
+  solutions: string[];
+  componentTypes: string[];
+}
+
+const completion = (
+  kind: FilterQueryCompletionKind,
+  insertText: string,
+  detail?: string,
+  label = insertText
+): FilterQueryCompletion => ({ label, insertText, kind, detail });
+
+const LOGICAL_COMPLETIONS = [
+  completion('keyword', 'NOT', 'Negates the condition that follows'),
+  completion('function', 'AND(', 'All conditions match'),
+  completion('function', 'OR(', 'Any condition matches'),
+];
+
+const LAYER_COMPLETIONS = [
+  completion('function', 'has(', 'Has a layer of the solution'),
+  completion('function', 'hasAny(', 'Has a layer of any of the solutions'),
+  completion('function', 'hasAll(', 'Has layers of all the solutions'),
+  completion('function', 'hasNone(', 'Has no layer of the solutions'),
+  completion('function', 'order(', 'Layers in this order from the bottom up, others may be in between'),
+  completion('function', 'strictOrder(', 'Exactly these layers in this order from the bottom up'),
+  completion('function', 'solution(', 'Matches solutions by an attribute'),
+];
+
+const ROOT_COMPLETIONS = [
+  completion('field', 'type:', 'Component type'),
+  completion('field', 'name~', 'Logical name'),
+  completion('field', 'displayName~', 'Display name'),
+  completion('field', 'publisher:', 'Publisher'),
+  completion('field', 'table:', 'Table logical name'),
+  completion('keyword', 'managed', 'Managed components'),
+  completion('keyword', 'unmanaged', 'Unmanaged components'),
+  completion('function', 'layers(', 'Filter on the layers of each component'),
+  ...LAYER_COMPLETIONS,
+  ...LOGICAL_COMPLETIONS,
+];
+
+const LAYER_QUERY_COMPLETIONS = [
+  ...LAYER_COMPLETIONS,
+  completion('function', 'attributes(', 'Filter on the attributes of a solution\'s layer'),
+  ...LOGICAL_COMPLETIONS,
+];
+
+const ATTRIBUTE_QUERY_COMPLETIONS = [
+  completion('keyword', 'changed', 'Layer has meaningful changes'),
+  completion('function', 'diff(', 'Attributes differ from the layers below or the targets'),
+  ...LOGICAL_COMPLETIONS,
+];
+
+const DIFF_OPTION_COMPLETIONS = [
+  completion('option', 'targets:', 'Compare against these solutions instead of all layers below'),
+  completion('option', 'attributes:', 'Only compare these attributes'),
+  completion('option', 'match:', 'any or all of the attributes must differ'),
+  completion('option', 'changedOnly:', 'Only attributes marked as changed in the source (default true)'),
+];
+
+const SOLUTION_FIELD_COMPLETIONS = Object.keys(SOLUTION_FIELDS).map((field) => completion('field', field));
+
+const VALUE_COMPLETIONS: Record<string, FilterQueryCompletion[]> = {
+  match: ['any', 'all'].map((value) => completion('value', value)),
+  changedonly: ['true', 'false'].map((value) => completion('value', value)),
+};
+
+interface OpenBracket {
+  kind: 'lparen' | 'lbracket';
+  /** Lower-cased word before the bracket: the function of a `(`, the option of a `[` */
+  name: string;
+  argument: number;
+}
+
+/**
+ * Completions at `offset`: solution names inside `has(...)`, `order(...)` and
+ * the like, component types after `type:`, and otherwise the conditions or
+ * keywords that may follow. Items are not narrowed to the word being typed.
+ */
+export function getFilterQueryCompletions(
+  text: string,
+  offset: number,
+  source: FilterQueryCompletionSource
+): FilterQueryCompletions {
+  const tokens = tokenizeFilterQuery(text.slice(0, offset));
+  const last = tokens[tokens.length - 1];
+  const typing = last && last.end === offset &&
+    (last.kind === 'word' || last.kind === 'string' || (last.kind === 'error' && last.text.startsWith('"')));
+  const preceding = typing ? tokens.slice(0, -1) : tokens;
+  const start = typing ? last.start : offset;
+  const result = (items: FilterQueryCompletion[]): FilterQueryCompletions => ({ start, end: offset, items });
+
+  const solutions = source.solutions.map((s) => completion('solution', formatFilterQueryValue(s), undefined, s));
+  const componentTypes = source.componentTypes.map((t) => completion('componentType', formatFilterQueryValue(t), undefined, t));
+
+  const stack: OpenBracket[] = [];
+  preceding.forEach((token, index) => {
+    const before = preceding[index - 1];
+    if (token.kind === 'lparen' || token.kind === 'lbracket') {
+      // The option of a list is the word before its ':'
+      const nameToken = token.kind === 'lbracket' && before?.text === ':' ? preceding[index - 2] : before;
+      stack.push({ kind: token.kind, name: nameToken?.kind === 'word' ? nameToken.text.toLowerCase() : '', argument: 0 });
+    } else if (token.kind === 'comma' && stack.length > 0) {
+      stack[stack.length - 1].argument++;
+    } else if ((token.kind === 'rparen' || token.kind === 'rbracket') && stack.length > 0) {
+      stack.pop();
+    }
+  });
+
+  const previous = preceding[preceding.length - 1];
+  const beforePrevious = preceding[preceding.length - 2];
+  if (previous?.kind === 'operator') {
+    const field = beforePrevious?.text.toLowerCase();
+    if (field === 'type') return result(componentTypes);
+    return result(VALUE_COMPLETIONS[field ?? ''] ?? []);
+  }
+
+  const open = stack[stack.length - 1];
+  if (open?.kind === 'lbracket') {
+    return result(open.name === 'attributes' ? [] : solutions);
+  }
+  switch (open?.name) {
+    case 'has':
+    case 'hasany':
+    case 'hasall':
+    case 'hasnone':
+      return result(solutions);
+    case 'order':
+    case 'strictorder':
+      return result(previous?.kind === 'lparen' || previous?.kind === 'gt'
+        ? [...solutions, completion('function', 'solution(', 'Matches solutions by an attribute')]
+        : []);
+    case 'solution':
+      return result(previous?.kind === 'lparen' ? SOLUTION_FIELD_COMPLETIONS : []);
+    case 'diff':
+      return result(open.argument === 0 ? solutions : previous?.kind === 'comma' ? DIFF_OPTION_COMPLETIONS : []);
+    case 'attributes':
+      if (open.argument === 0) return result(solutions);
+      break;
+  }
+
+  // After a complete condition only AND and OR may follow
+  const afterCondition = previous && (
+    (previous.kind === 'word' && !isKeyword(previous, 'NOT') && !isKeyword(previous, 'AND') && !isKeyword(previous, 'OR')) ||
+    previous.kind === 'string' || previous.kind === 'rparen' || previous.kind === 'rbracket'
+  );
+  if (afterCondition) {
+    return result([completion('keyword', 'AND'), completion('keyword', 'OR')]);
+  }
+
+  // Conditions allowed where the cursor is, like the builder's filter type dropdown
+  const context = [...stack].reverse().find((b) => b.name === 'layers' || b.name === 'attributes');
+  return result(
+    context?.name === 'attributes' ? ATTRIBUTE_QUERY_COMPLETIONS
+      : context?.name === 'layers' ? LAYER_QUERY_COMPLETIONS
+      : ROOT_COMPLETIONS
+  );
+}
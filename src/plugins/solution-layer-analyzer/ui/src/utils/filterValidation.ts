@@ -0,0 +1,219 @@
+import { FilterNode, SolutionQueryNode, AttributeDiffTargetMode, StringOperator } from '../types';
+import { formatFilterQuery } from './filterQuery';
+
+export type FilterIssueSeverity = 'error' | 'warning';
+
+/**
+ * A problem with a single filter node. Errors make the query fail or behave
+ * differently than the filter reads and block it; warnings do not.
+ */
+export interface FilterIssue {
+  nodeId: string;
+  severity: FilterIssueSeverity;
+  message: string;
+}
+
+export interface FilterValidationOptions {
+  /** Solutions in the index; references to others are reported when given */
+  indexedSolutions?: string[];
+}
+
+/** Where a node sits, which decides the node types the backend accepts there */
+type FilterContext = 'component' | 'layer' | 'layerAttribute';
+
+const LOGICAL_TYPES = ['AND', 'OR', 'NOT'];
+
+const ALLOWED_TYPES: Record<FilterContext, string[]> = {
+  // Simple mode puts HAS_ANY at the top level, so the legacy layer filters are allowed there
+  component: [
+    'ATTRIBUTE', 'MANAGED', 'LAYER_QUERY', 'SOLUTION_QUERY',
+    'HAS', 'HAS_ANY', 'HAS_ALL', 'HAS_NONE', 'ORDER_STRICT', 'ORDER_FLEX',
+    ...LOGICAL_TYPES,
+  ],
+  layer: [
+    'HAS', 'HAS_ANY', 'HAS_ALL', 'HAS_NONE', 'ORDER_STRICT', 'ORDER_FLEX',
+    'LAYER_ATTRIBUTE_QUERY', 'SOLUTION_QUERY',
+    ...LOGICAL_TYPES,
+  ],
+  layerAttribute: ['HAS_RELEVANT_CHANGES', 'HAS_ATTRIBUTE_DIFF', ...LOGICAL_TYPES],
+};
+
+const CONTEXT_LABELS: Record<FilterContext, string> = {
+  component: 'at the component level',
+  layer: 'inside a LAYER_QUERY',
+  layerAttribute: 'inside a LAYER_ATTRIBUTE_QUERY',
+};
+
+const describe = (node: FilterNode): string => {
+  try {
+    return formatFilterQuery(node);
+  } catch {
+    return node.type;
+  }
+};
+
+const isSolutionQuery = (step: unknown): step is SolutionQueryNode =>
+  typeof step === 'object' && step !== null && !Array.isArray(step);
+
+/** Solutions a node names directly, without descending into its children */
+const referencedSolutions = (node: FilterNode): string[] => {
+  const steps = (node.sequence ?? []).flatMap((step) => (isSolutionQuery(step) ? [] : step));
+  return [
+    node.type === 'HAS' || node.type === 'LAYER_ATTRIBUTE_QUERY' ? node.solution : undefined,
+    ...(node.solutions ?? []),
+    ...steps,
+    node.sourceSolution,
+    ...(node.targetMode === AttributeDiffTargetMode.Specific ? node.targetSolutions ?? [] : []),
+  ].filter((s): s is string => !!s);
+};
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Reports conditions of an AND group that no component can satisfy together,
+ * e.g. `has(X)` next to `hasNone(X)`, on the later of the two conditions.
+ */
+const checkContradictions = (children: FilterNode[], report: (node: FilterNode, message: string) => void) => {
+  const required = new Map<string, FilterNode>();
+  const excluded = new Map<string, FilterNode>();
+  const managed = new Map<string, FilterNode>();
+  const equals = new Map<string, FilterNode>();
+  const key = (solution: string) => solution.toLowerCase();
+
+  const contradicts = (node: FilterNode, other: FilterNode) =>
+    report(node, `Contradicts ${describe(other)}: no component can match both`);
+
+  for (const child of children) {
+    const negated = child.type === 'NOT' && child.children?.length === 1 ? child.children[0] : null;
+
+    if (child.type === 'HAS' || child.type === 'HAS_ALL' || (child.type === 'HAS_ANY' && child.solutions?.length === 1)) {
+      const solutions = child.type === 'HAS' ? [child.solution ?? ''] : child.solutions ?? [];
+      const conflict = solutions.map((s) => excluded.get(key(s))).find(Boolean);
+      if (conflict) contradicts(child, conflict);
+      solutions.forEach((s) => s && required.set(key(s), child));
+    } else if (child.type === 'HAS_ANY' && child.solutions?.length) {
+      const conflicts = child.solutions.map((s) => excluded.get(key(s)));
+      if (conflicts.every(Boolean)) contradicts(child, conflicts[0]!);
+    } else if (child.type === 'HAS_NONE' || (negated && (negated.type === 'HAS' || negated.type === 'HAS_ANY'))) {
+      const source = negated ?? child;
+      const solutions = source.type === 'HAS' ? [source.solution ?? ''] : source.solutions ?? [];
+      const conflict = solutions.map((s) => required.get(key(s))).find(Boolean);
+      if (conflict) contradicts(child, conflict);
+      solutions.forEach((s) => s && excluded.set(key(s), child));
+    } else if (child.type === 'MANAGED') {
+      const conflict = managed.get(child.value === 'true' ? 'false' : 'true');
+      if (conflict) contradicts(child, conflict);
+      managed.set(child.value ?? '', child);
+    } else if (child.type === 'ATTRIBUTE' && child.operator === StringOperator.Equals && child.attribute) {
+      const conflict = equals.get(child.attribute);
+      if (conflict && !sameName(conflict.value ?? '', child.value ?? '')) contradicts(child, conflict);
+      equals.set(child.attribute, child);
+    }
+  }
+};
+
+/**
+ * Checks a filter before it is sent to the backend: empty or incomplete
+ * nodes, nodes the backend does not accept where they are, contradictory
+ * conditions and solutions missing from the index. Issues refer to nodes
+ * by `id`, in tree order.
+ */
+export function validateFilter(filter: FilterNode | null, options: FilterValidationOptions = {}): FilterIssue[] {
+  const issues: FilterIssue[] = [];
+  const error = (node: FilterNode, message: string) => issues.push({ nodeId: node.id, severity: 'error', message });
+  const warning = (node: FilterNode, message: string) => issues.push({ nodeId: node.id, severity: 'warning', message });
+  const indexed = options.indexedSolutions && new Set(options.indexedSolutions.map((s) => s.toLowerCase()));
+
+  const walk = (node: FilterNode, context: FilterContext) => {
+    if (!ALLOWED_TYPES[context].includes(node.type)) {
+      const known = Object.values(ALLOWED_TYPES).some((types) => types.includes(node.type));
+      error(node, known ? `${node.type} cannot be used ${CONTEXT_LABELS[context]}` : `Unknown filter type ${node.type}`);
+      return;
+    }
+
+    const children = node.children ?? [];
+    switch (node.type) {
+      case 'AND':
+        if (children.length === 0) warning(node, 'Empty AND matches every component');
+        checkContradictions(children, warning);
+        break;
+      case 'OR':
+        if (children.length === 0) error(node, 'OR needs at least one condition');
+        break;
+      case 'NOT':
+        if (children.length === 0) error(node, 'NOT needs a condition to negate');
+        if (children.length > 1) error(node, 'NOT negates a single condition; group the others with AND or OR');
+        break;
+      case 'ATTRIBUTE':
+        if (!node.value) warning(node, 'No value entered');
+        break;
+      case 'SOLUTION_QUERY':
+        if (!node.value) error(node, 'Enter a value to match solutions against');
+        break;
+      case 'HAS':
+        if (!node.solution) error(node, 'Select a solution');
+        break;
+      case 'HAS_ANY':
+      case 'HAS_ALL':
+      case 'HAS_NONE':
+        if (!node.solutions?.length) error(node, 'Select at least one solution');
+        break;
+      case 'ORDER_STRICT':
+      case 'ORDER_FLEX': {
+        const sequence = node.sequence ?? [];
+        if (sequence.length === 0) error(node, 'Add at least one layer to the sequence');
+        sequence.forEach((step, index) => {
+          const empty = isSolutionQuery(step) ? !step.value : step.length === 0;
+          if (empty) error(node, `Layer ${index + 1} of the sequence has no solution`);
+        });
+        break;
+      }
+      case 'LAYER_QUERY':
+        if (!node.layerFilter) error(node, 'Add a layer filter');
+        break;
+      case 'LAYER_ATTRIBUTE_QUERY':
+        if (!node.solution) error(node, 'Select the solution whose layer is queried');
+        if (!node.attributeFilter) error(node, 'Add an attribute filter');
+        break;
+      case 'HAS_ATTRIBUTE_DIFF':
+        if (!node.sourceSolution) error(node, 'Select a source solution');
+        if (node.targetMode === AttributeDiffTargetMode.Specific) {
+          if (!node.targetSolutions?.length) error(node, 'Select at least one target solution');
+          if (node.sourceSolution && node.targetSolutions?.some((s) => sameName(s, node.sourceSolution!))) {
+            warning(node, 'The source solution is also a target; its layer never differs from itself');
+          }
+        }
+        break;
+    }
+
+    if (indexed) {
+      const missing = [...new Set(referencedSolutions(node).filter((s) => !indexed.has(s.toLowerCase())))];
+      if (missing.length > 0) {
+        warning(node, `Not in the index: ${missing.join(', ')}. ${missing.length === 1 ? 'It never matches' : 'They never match'}`);
+      }
+    }
+
+    children.forEach((child) => walk(child, context));
+    if (node.layerFilter) walk(node.layerFilter, 'layer');
+    if (node.attributeFilter) walk(node.attributeFilter, 'layerAttribute');
+  };
+
+  if (filter) walk(filter, 'component');
+  return issues;
+}
+
+/** Every solution the filter names, in tree order and without duplicates */
+export function collectFilterSolutions(filter: FilterNode | null): string[] {
+  const solutions = new Set<string>();
+  const walk = (node: FilterNode) => {
+    referencedSolutions(node).forEach((solution) => solutions.add(solution));
+    node.children?.forEach(walk);
+    if (node.layerFilter) walk(node.layerFilter);
+    if (node.attributeFilter) walk(node.attributeFilter);
+  };
+  if (filter) walk(filter);
+  return [...solutions];
+}
+
+export const hasFilterErrors = (issues: FilterIssue[]): boolean =>
+  issues.some((issue) => issue.severity === 'error');
@@ -0,0 +1,156 @@
+import { FilterNode } from '../types';
+import { AnalysisState } from '../store/useAppStore';
+
+/**
+ * What a view token reproduces: the filter and how its results are shown.
+ */
+export interface SharedView {
+  filter: FilterNode | null;
+  groupBy: AnalysisState['groupBy'];
+  viewMode: AnalysisState['viewMode'];
+  visualizationType: AnalysisState['visualizationType'];
+  /** `componentId` of the selected component */
+  componentId: string | null;
+}
+
+/** Raised for text that is not a view token this version can read */
+export class ViewTokenError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ViewTokenError';
+  }
+}
+
+const GROUP_BY_OPTIONS: AnalysisState['groupBy'][] = ['componentType', 'table', 'publisher', 'solution', 'managed'];
+const VIEW_MODES: AnalysisState['viewMode'][] = ['list', 'visualizations'];
+const VISUALIZATION_TYPES: AnalysisState['visualizationType'][] = [
+  'sankey', 'heatmap', 'stacked', 'network', 'circle', 'treemap',
+];
+
+/**
+ * Token layout: `<version>.<payload>`, the payload being the view as JSON with
+ * short keys, deflated and base64url encoded. Bump the version when the
+ * payload changes incompatibly.
+ */
+const TOKEN_VERSION = 'v1';
+
+/** Version 1 payload */
+interface ViewPayloadV1 {
+  /** Filter without node ids */
+  f: unknown;
+  g: string;
+  m: string;
+  z: string;
+  c?: string;
+}
+
+/** Node ids only matter to the editor; they are left out and made up again when reading */
+const stripIds = (node: FilterNode): unknown => {
+  const { id, children, layerFilter, attributeFilter, ...rest } = node;
+  return {
+    ...rest,
+    ...(children && { children: children.map(stripIds) }),
+    ...(layerFilter && { layerFilter: stripIds(layerFilter) }),
+    ...(attributeFilter && { attributeFilter: stripIds(attributeFilter) }),
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Node fields the analyzer iterates over, so a token must not turn them into anything else */
+const ARRAY_FIELDS = ['children', 'solutions', 'sequence', 'targetSolutions', 'attributeNames'] as const;
+
+const assignIds = (value: unknown): FilterNode => {
+  let counter = 0;
+  const stamp = Date.now();
+  const visit = (raw: unknown, isRoot: boolean): FilterNode => {
+    if (!isObject(raw) || typeof raw.type !== 'string') {
+      throw new ViewTokenError('The token contains an invalid filter');
+    }
+    const { layerFilter, attributeFilter } = raw;
+    if (
+      ARRAY_FIELDS.some((field) => raw[field] != null && !Array.isArray(raw[field]))
+      || (layerFilter != null && !isObject(layerFilter))
+      || (attributeFilter != null && !isObject(attributeFilter))
+    ) {
+      throw new ViewTokenError('The token contains an invalid filter');
+    }
+    const node = raw as unknown as FilterNode;
+    return {
+      ...node,
+      id: isRoot && node.type === 'AND' ? 'root' : `shared-${stamp}-${counter++}`,
+      ...(node.children && { children: node.children.map((child) => visit(child, false)) }),
+      ...(node.layerFilter && { layerFilter: visit(node.layerFilter, false) }),
+      ...(node.attributeFilter && { attributeFilter: visit(node.attributeFilter, false) }),
+    };
+  };
+  return visit(value, true);
+};
+
+const oneOf = <T extends string>(value: unknown, options: T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+const transform = async (bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(stream)).arrayBuffer());
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked, as spreading large arrays into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+};
+
+/** Encodes a view as a compact token that is safe to put in URLs */
+export async function encodeViewToken(view: SharedView): Promise<string> {
+  const payload: ViewPayloadV1 = {
+    f: view.filter && stripIds(view.filter),
+    g: view.groupBy,
+    m: view.viewMode,
+    z: view.visualizationType,
+    ...(view.componentId && { c: view.componentId }),
+  };
+  const json = new TextEncoder().encode(JSON.stringify(payload));
+  const compressed = await transform(json, new CompressionStream('deflate-raw'));
+  return `${TOKEN_VERSION}.${toBase64Url(compressed)}`;
+}
+
+/**
+ * Reads a token made by `encodeViewToken`. Surrounding whitespace is ignored;
+ * unknown display settings fall back to the defaults.
+ */
+export async function decodeViewToken(token: string): Promise<SharedView> {
+  const [version, data, ...rest] = token.trim().split('.');
+  if (!data || rest.length > 0) {
+    throw new ViewTokenError('This is not a view token');
+  }
+  if (version !== TOKEN_VERSION) {
+    throw new ViewTokenError(`View tokens of version ${version} are not supported by this version of the analyzer`);
+  }
+
+  let payload: ViewPayloadV1;
+  try {
+    const json = await transform(fromBase64Url(data), new DecompressionStream('deflate-raw'));
+    payload = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    throw new ViewTokenError('The token is damaged; make sure it was copied completely');
+  }
+  if (!payload || typeof payload !== 'object') {
+    throw new ViewTokenError('The token is damaged; make sure it was copied completely');
+  }
+
+  return {
+    filter: payload.f ? assignIds(payload.f) : null,
+    groupBy: oneOf(payload.g, GROUP_BY_OPTIONS, 'componentType'),
+    viewMode: oneOf(payload.m, VIEW_MODES, 'list'),
+    visualizationType: oneOf(payload.z, VISUALIZATION_TYPES, 'network'),
+    componentId: typeof payload.c === 'string' ? payload.c : null,
+  };
+}
@@ -16,6 +16,7 @@ export default defineConfig({
         "react-dom",
         "@fluentui/react-components",
         "@fluentui/react-icons",
+        "@ddk/host-sdk",
       ],
     }),
   ],
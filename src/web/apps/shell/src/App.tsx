@@ -1,8 +1,6 @@
 import React, { useEffect, useState } from 'react';
 import {
   FluentProvider,
-  webDarkTheme,
-  webLightTheme,
   makeStyles,
   tokens,
   shorthands,
@@ -12,12 +10,22 @@ import {
 import {
   AppsRegular,
   PlugConnectedRegular,
+  SearchRegular,
   SettingsRegular,
 } from '@fluentui/react-icons';
-import { useSettingsStore } from './stores/settings';
 import { usePluginStore } from './stores/plugins';
+import { useConnectionStore } from './stores/connections';
+import { restoreWorkspace, startWorkspaceSync } from './stores/workspaces';
 import { TabPanel } from './components/TabPanel';
 import { SessionExpiredDialog } from './components/SessionExpiredDialog';
+import { DeviceCodeDialog } from './components/DeviceCodeDialog';
+import { PermissionConsentDialog } from './components/PermissionConsentDialog';
+import { ProductionGuardDialog } from './components/ProductionGuardDialog';
+import { CommandPalette } from './components/CommandPalette';
+import { TokenExpiryWarning } from './components/TokenExpiryWarning';
+import { useShellTheme } from './hooks/useShellTheme';
+import { useShellKeybindings } from './hooks/useShellKeybindings';
+import { useConnectionHealthMonitor } from './hooks/useConnectionHealthMonitor';
 
 const useStyles = makeStyles({
   root: {
@@ -60,40 +68,25 @@ const useStyles = makeStyles({
 
 const App: React.FC = () => {
   const styles = useStyles();
-  const { settings } = useSettingsStore();
-  const { openSystemView, tabs } = usePluginStore();
-  const [theme, setTheme] = useState(webDarkTheme);
+  const { openSystemView } = usePluginStore();
+  const theme = useShellTheme();
+  const [paletteOpen, setPaletteOpen] = useState(false);
 
-  // Open marketplace tab on initial load
-  useEffect(() => {
-    if (tabs.length === 0) {
-      openSystemView('marketplace', 'Marketplace', <AppsRegular />);
-    }
-  }, []);  // Run only once on mount
+  useShellKeybindings(() => setPaletteOpen((open) => !open));
+  useConnectionHealthMonitor();
 
+  const loadConnections = useConnectionStore((state) => state.loadConnections);
+
+  // Load connections up front so new plugin tabs can bind to the active one
   useEffect(() => {
-    // Determine theme based on settings
-    let selectedTheme = webDarkTheme;
-    if (settings.theme === 'light') {
-      selectedTheme = webLightTheme;
-    } else if (settings.theme === 'system') {
-      const prefersDark = window.matchMedia('(prefers-color-scheme: dark)').matches;
-      selectedTheme = prefersDark ? webDarkTheme : webLightTheme;
-    }
-    setTheme(selectedTheme);
-  }, [settings.theme]);
+    loadConnections();
+  }, [loadConnections]);
 
+  // Bring back the tabs of the last workspace, then keep it up to date
   useEffect(() => {
-    // Listen for system theme changes
-    if (settings.theme === 'system') {
-      const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
-      const handler = (e: MediaQueryListEvent) => {
-        setTheme(e.matches ? webDarkTheme : webLightTheme);
-      };
-      mediaQuery.addEventListener('change', handler);
-      return () => mediaQuery.removeEventListener('change', handler);
-    }
-  }, [settings.theme]);
+    restoreWorkspace();
+    return startWorkspaceSync();
+  }, []);  // Run only once on mount
 
   return (
     <FluentProvider theme={theme}>
@@ -117,6 +110,15 @@ const App: React.FC = () => {
                 onClick={() => openSystemView('marketplace', 'Marketplace', <AppsRegular />)}
               />
             </Tooltip>
+
+            <Tooltip content="Command Palette (Ctrl+K)" relationship="label" positioning="after">
+              <Button
+                appearance="subtle"
+                icon={<SearchRegular />}
+                className={styles.navButton}
+                onClick={() => setPaletteOpen(true)}
+              />
+            </Tooltip>
           </div>
 
           <div className={styles.sidebarFooter}>
@@ -132,12 +134,24 @@ const App: React.FC = () => {
         </div>
 
         <div className={styles.mainContent}>
+          <TokenExpiryWarning />
           <TabPanel />
         </div>
       </div>
       
       {/* Global session expired dialog */}
       <SessionExpiredDialog />
+
+      {/* Code of a pending device code sign-in */}
+      <DeviceCodeDialog />
+
+      {/* Asks before a plugin first uses a permission */}
+      <PermissionConsentDialog />
+
+      {/* Confirms plugin commands that change production data */}
+      <ProductionGuardDialog />
+
+      <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} />
     </FluentProvider>
   );
 };
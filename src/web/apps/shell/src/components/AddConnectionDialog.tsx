@@ -11,11 +11,25 @@ import {
   Field,
   Dropdown,
   Option,
+  Radio,
+  RadioGroup,
+  Textarea,
+  MessageBar,
+  MessageBarBody,
   makeStyles,
   tokens,
 } from '@fluentui/react-components';
-import { hostBridge } from '@ddk/host-sdk';
+import {
+  CONNECTION_ENVIRONMENTS,
+  parseConnectionString,
+  validateConnectionParams,
+  type AddConnectionParams,
+  type ConnectionAuthType,
+  type ConnectionEnvironment,
+} from '@ddk/host-sdk';
 import { useConnectionStore } from '../stores/connections';
+import { ENVIRONMENT_BADGES } from '../utils/connectionEnvironments';
+import { shellBridge } from '../utils/shellBridge';
 
 const useStyles = makeStyles({
   field: {
@@ -23,8 +37,40 @@ const useStyles = makeStyles({
     flexDirection: 'column',
     gap: tokens.spacingVerticalS,
   },
+  connectionString: {
+    display: 'flex',
+    flexDirection: 'column',
+    alignItems: 'flex-start',
+    gap: tokens.spacingVerticalXS,
+  },
+  connectionStringInput: {
+    width: '100%',
+  },
 });
 
+/** Connection strings are an input mode that fills in the form, not an auth type of their own */
+type AuthMode = ConnectionAuthType | 'ConnectionString';
+
+const AUTH_MODE_LABELS: Record<AuthMode, string> = {
+  OAuth: 'OAuth (browser sign-in)',
+  DeviceCode: 'Device code',
+  ClientSecret: 'Client secret',
+  Certificate: 'Certificate',
+  ManagedIdentity: 'Managed identity',
+  ConnectionString: 'Connection string',
+};
+
+const EMPTY_SETTINGS = {
+  clientId: '',
+  clientSecret: '',
+  tenantId: '',
+  certificateThumbprint: '',
+  certificatePath: '',
+  certificatePassword: '',
+};
+
+type AuthSettings = typeof EMPTY_SETTINGS;
+
 interface AddConnectionDialogProps {
   open: boolean;
   onClose: () => void;
@@ -35,28 +81,80 @@ export const AddConnectionDialog: React.FC<AddConnectionDialogProps> = ({ open,
   const addConnection = useConnectionStore((state) => state.addConnection);
   const [name, setName] = useState('');
   const [url, setUrl] = useState('');
-  const [authType, setAuthType] = useState<'OAuth' | 'ClientSecret'>('OAuth');
-  const [clientId, setClientId] = useState('');
-  const [clientSecret, setClientSecret] = useState('');
-  const [tenantId, setTenantId] = useState('');
+  const [authMode, setAuthMode] = useState<AuthMode>('OAuth');
+  const [settings, setSettings] = useState<AuthSettings>(EMPTY_SETTINGS);
+  const [certificateSource, setCertificateSource] = useState<'thumbprint' | 'file'>('thumbprint');
+  const [connectionString, setConnectionString] = useState('');
+  const [connectionStringError, setConnectionStringError] = useState<string | null>(null);
+  const [environment, setEnvironment] = useState<ConnectionEnvironment | ''>('');
+  const [showErrors, setShowErrors] = useState(false);
+  const [submitError, setSubmitError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
 
+  const setSetting = (field: keyof AuthSettings) => (_: unknown, data: { value: string }) =>
+    setSettings((prev) => ({ ...prev, [field]: data.value }));
+
+  const buildParams = (authType: ConnectionAuthType): AddConnectionParams => {
+    const appOnly = authType === 'ClientSecret' || authType === 'Certificate' || authType === 'ManagedIdentity';
+    const certificate = authType === 'Certificate';
+    return {
+      name: name.trim(),
+      url: url.trim(),
+      authType,
+      clientId: (appOnly && settings.clientId.trim()) || undefined,
+      tenantId: (appOnly && authType !== 'ManagedIdentity' && settings.tenantId.trim()) || undefined,
+      clientSecret: (authType === 'ClientSecret' && settings.clientSecret) || undefined,
+      certificateThumbprint:
+        (certificate && certificateSource === 'thumbprint' && settings.certificateThumbprint.trim()) || undefined,
+      certificatePath: (certificate && certificateSource === 'file' && settings.certificatePath.trim()) || undefined,
+      certificatePassword:
+        (certificate && certificateSource === 'file' && settings.certificatePassword) || undefined,
+      environment: environment || undefined,
+    };
+  };
+
+  const params = authMode === 'ConnectionString' ? null : buildParams(authMode);
+  const issues = params ? validateConnectionParams(params) : [];
+  const fieldError = (field: keyof AddConnectionParams) =>
+    showErrors ? issues.find((issue) => issue.field === field)?.message : undefined;
+
+  /** Fills in the form from the connection string and switches to its auth type */
+  const applyConnectionString = () => {
+    try {
+      const parsed = parseConnectionString(connectionString);
+      setUrl(parsed.url);
+      setSettings({
+        clientId: parsed.clientId ?? '',
+        clientSecret: parsed.clientSecret ?? '',
+        tenantId: parsed.tenantId ?? '',
+        certificateThumbprint: parsed.certificateThumbprint ?? '',
+        certificatePath: parsed.certificatePath ?? '',
+        certificatePassword: parsed.certificatePassword ?? '',
+      });
+      setCertificateSource(parsed.certificatePath ? 'file' : 'thumbprint');
+      setAuthMode(parsed.authType);
+      setConnectionString('');
+      setConnectionStringError(null);
+    } catch (error) {
+      setConnectionStringError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
   const handleSubmit = async () => {
+    if (!params) return;
+    setShowErrors(true);
+    if (issues.length > 0) return;
+
     setLoading(true);
+    setSubmitError(null);
     try {
-      const connection = await hostBridge.addConnection({
-        name,
-        url,
-        authType,
-        clientId: clientId || undefined,
-        clientSecret: clientSecret || undefined,
-        tenantId: tenantId || undefined,
-      });
+      const connection = await shellBridge.addConnection(params);
       addConnection(connection);
       onClose();
       resetForm();
     } catch (error) {
       console.error('Failed to add connection:', error);
+      setSubmitError(error instanceof Error ? error.message : String(error));
     } finally {
       setLoading(false);
     }
@@ -65,10 +163,14 @@ export const AddConnectionDialog: React.FC<AddConnectionDialogProps> = ({ open,
   const resetForm = () => {
     setName('');
     setUrl('');
-    setAuthType('OAuth');
-    setClientId('');
-    setClientSecret('');
-    setTenantId('');
+    setAuthMode('OAuth');
+    setSettings(EMPTY_SETTINGS);
+    setCertificateSource('thumbprint');
+    setConnectionString('');
+    setConnectionStringError(null);
+    setEnvironment('');
+    setShowErrors(false);
+    setSubmitError(null);
   };
 
   return (
@@ -78,56 +180,164 @@ export const AddConnectionDialog: React.FC<AddConnectionDialogProps> = ({ open,
           <DialogTitle>Add Connection</DialogTitle>
           <DialogContent>
             <div className={styles.field}>
-              <Field label="Connection Name" required>
-                <Input value={name} onChange={(_, data) => setName(data.value)} />
-              </Field>
+              {submitError && (
+                <MessageBar intent="error">
+                  <MessageBarBody>{submitError}</MessageBarBody>
+                </MessageBar>
+              )}
 
-              <Field label="Environment URL" required>
-                <Input
-                  value={url}
-                  onChange={(_, data) => setUrl(data.value)}
-                  placeholder="https://yourorg.crm.dynamics.com"
-                />
+              <Field label="Connection Name" required validationMessage={fieldError('name')}>
+                <Input value={name} onChange={(_, data) => setName(data.value)} />
               </Field>
 
               <Field label="Authentication Type">
                 <Dropdown
-                  value={authType}
-                  onOptionSelect={(_, data) =>
-                    setAuthType(data.optionValue as 'OAuth' | 'ClientSecret')
-                  }
+                  value={AUTH_MODE_LABELS[authMode]}
+                  selectedOptions={[authMode]}
+                  onOptionSelect={(_, data) => setAuthMode(data.optionValue as AuthMode)}
                 >
-                  <Option value="OAuth">OAuth</Option>
-                  <Option value="ClientSecret">Client Secret</Option>
+                  {(Object.keys(AUTH_MODE_LABELS) as AuthMode[]).map((mode) => (
+                    <Option key={mode} value={mode}>
+                      {AUTH_MODE_LABELS[mode]}
+                    </Option>
+                  ))}
                 </Dropdown>
               </Field>
 
-              {authType === 'ClientSecret' && (
+              {authMode === 'ConnectionString' ? (
+                <Field
+                  label="Connection String"
+                  hint="e.g. AuthType=ClientSecret;Url=https://yourorg.crm.dynamics.com;ClientId=...;ClientSecret=...;TenantId=..."
+                  validationMessage={connectionStringError ?? undefined}
+                >
+                  <div className={styles.connectionString}>
+                    <Textarea
+                      resize="vertical"
+                      className={styles.connectionStringInput}
+                      value={connectionString}
+                      onChange={(_, data) => setConnectionString(data.value)}
+                    />
+                    <Button size="small" disabled={!connectionString.trim()} onClick={applyConnectionString}>
+                      Fill in form
+                    </Button>
+                  </div>
+                </Field>
+              ) : (
+                <Field label="Environment URL" required validationMessage={fieldError('url')}>
+                  <Input
+                    value={url}
+                    onChange={(_, data) => setUrl(data.value)}
+                    placeholder="https://yourorg.crm.dynamics.com"
+                  />
+                </Field>
+              )}
+
+              {authMode === 'DeviceCode' && (
+                <MessageBar intent="info">
+                  <MessageBarBody>
+                    Signing in shows a code to enter at microsoft.com/devicelogin on any device with a browser.
+                  </MessageBarBody>
+                </MessageBar>
+              )}
+
+              {(authMode === 'ClientSecret' || authMode === 'Certificate') && (
                 <>
-                  <Field label="Client ID">
-                    <Input value={clientId} onChange={(_, data) => setClientId(data.value)} />
+                  <Field label="Client ID" required validationMessage={fieldError('clientId')}>
+                    <Input value={settings.clientId} onChange={setSetting('clientId')} />
                   </Field>
 
-                  <Field label="Client Secret">
+                  <Field label="Tenant ID" required validationMessage={fieldError('tenantId')}>
                     <Input
-                      type="password"
-                      value={clientSecret}
-                      onChange={(_, data) => setClientSecret(data.value)}
+                      value={settings.tenantId}
+                      onChange={setSetting('tenantId')}
+                      placeholder="GUID or contoso.onmicrosoft.com"
                     />
                   </Field>
+                </>
+              )}
 
-                  <Field label="Tenant ID">
-                    <Input value={tenantId} onChange={(_, data) => setTenantId(data.value)} />
-                  </Field>
+              {authMode === 'ClientSecret' && (
+                <Field label="Client Secret" required validationMessage={fieldError('clientSecret')}>
+                  <Input type="password" value={settings.clientSecret} onChange={setSetting('clientSecret')} />
+                </Field>
+              )}
+
+              {authMode === 'Certificate' && (
+                <>
+                  <RadioGroup
+                    layout="horizontal"
+                    value={certificateSource}
+                    onChange={(_, data) => setCertificateSource(data.value as 'thumbprint' | 'file')}
+                  >
+                    <Radio value="thumbprint" label="Certificate store" />
+                    <Radio value="file" label="PFX file" />
+                  </RadioGroup>
+
+                  {certificateSource === 'thumbprint' ? (
+                    <Field
+                      label="Thumbprint"
+                      required
+                      hint="Certificate in the current user's personal store"
+                      validationMessage={fieldError('certificateThumbprint')}
+                    >
+                      <Input value={settings.certificateThumbprint} onChange={setSetting('certificateThumbprint')} />
+                    </Field>
+                  ) : (
+                    <>
+                      <Field label="Certificate File" required validationMessage={fieldError('certificatePath')}>
+                        <Input
+                          value={settings.certificatePath}
+                          onChange={setSetting('certificatePath')}
+                          placeholder="C:\certs\ci-principal.pfx"
+                        />
+                      </Field>
+                      <Field label="Certificate Password">
+                        <Input
+                          type="password"
+                          value={settings.certificatePassword}
+                          onChange={setSetting('certificatePassword')}
+                        />
+                      </Field>
+                    </>
+                  )}
                 </>
               )}
+
+              {authMode === 'ManagedIdentity' && (
+                <Field
+                  label="Client ID"
+                  hint="Of a user-assigned identity; leave empty for the system-assigned identity"
+                  validationMessage={fieldError('clientId')}
+                >
+                  <Input value={settings.clientId} onChange={setSetting('clientId')} />
+                </Field>
+              )}
+
+              <Field label="Environment" hint="Production connections are highlighted throughout the shell">
+                <Dropdown
+                  value={environment ? ENVIRONMENT_BADGES[environment].label : 'None'}
+                  selectedOptions={[environment]}
+                  onOptionSelect={(_, data) => setEnvironment(data.optionValue as ConnectionEnvironment | '')}
+                >
+                  <Option value="">None</Option>
+                  {CONNECTION_ENVIRONMENTS.map((env) => (
+                    <Option key={env} value={env}>
+                      {ENVIRONMENT_BADGES[env].label}
+                    </Option>
+                  ))}
+                </Dropdown>
+              </Field>
             </div>
           </DialogContent>
           <DialogActions>
             <Button appearance="secondary" onClick={onClose} disabled={loading}>
               Cancel
             </Button>
-            <Button appearance="primary" onClick={handleSubmit} disabled={loading || !name || !url}>
+            <Button
+              appearance="primary"
+              onClick={handleSubmit}
+              disabled={loading || authMode === 'ConnectionString' || (showErrors && issues.length > 0)}
+            >
               Add Connection
             </Button>
           </DialogActions>
@@ -0,0 +1,189 @@
+import React from 'react';
+import {
+  Card,
+  CardHeader,
+  CardPreview,
+  Button,
+  Text,
+  Badge,
+  ProgressBar,
+  Tooltip,
+  makeStyles,
+  tokens,
+  shorthands,
+} from '@fluentui/react-components';
+import {
+  AppsRegular,
+  ArrowDownloadRegular,
+  ArrowSyncRegular,
+  BuildingRegular,
+  DeleteRegular,
+  LockClosedRegular,
+  ShieldCheckmarkRegular,
+} from '@fluentui/react-icons';
+import type { CatalogPlugin } from '@ddk/host-sdk';
+import type { CatalogOperation } from '../hooks/usePluginCatalog';
+
+const useStyles = makeStyles({
+  card: {
+    width: '100%',
+    height: 'auto',
+    minHeight: '200px',
+  },
+  header: {
+    ...shorthands.padding(tokens.spacingVerticalM, tokens.spacingHorizontalM),
+  },
+  preview: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    height: '80px',
+    backgroundColor: tokens.colorNeutralBackground3,
+  },
+  icon: {
+    fontSize: '48px',
+    color: tokens.colorBrandForeground1,
+  },
+  content: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap(tokens.spacingVerticalS),
+    ...shorthands.padding(tokens.spacingVerticalM, tokens.spacingHorizontalM),
+  },
+  badges: {
+    display: 'flex',
+    ...shorthands.gap(tokens.spacingHorizontalXS),
+    flexWrap: 'wrap',
+  },
+  description: {
+    fontSize: tokens.fontSizeBase300,
+    color: tokens.colorNeutralForeground3,
+    overflow: 'hidden',
+    textOverflow: 'ellipsis',
+    display: '-webkit-box',
+    WebkitLineClamp: '2',
+    WebkitBoxOrient: 'vertical',
+    minHeight: '40px',
+  },
+  versions: {
+    fontSize: tokens.fontSizeBase200,
+    color: tokens.colorNeutralForeground3,
+  },
+  actions: {
+    display: 'flex',
+    ...shorthands.gap(tokens.spacingHorizontalS),
+  },
+  progress: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap(tokens.spacingVerticalXXS),
+  },
+});
+
+interface CatalogPluginCardProps {
+  plugin: CatalogPlugin;
+  operation?: CatalogOperation;
+  onInstall: (pluginId: string) => void;
+  onUpdate: (pluginId: string) => void;
+  onUninstall: (pluginId: string) => void;
+}
+
+/**
+ * Marketplace card of a plugin offered by the catalog feed,
+ * showing the available version against the installed one.
+ */
+export const CatalogPluginCard: React.FC<CatalogPluginCardProps> = React.memo(({
+  plugin,
+  operation,
+  onInstall,
+  onUpdate,
+  onUninstall,
+}) => {
+  const styles = useStyles();
+  const isInstalled = !!plugin.installedVersion;
+
+  return (
+    <Card className={styles.card}>
+      <CardPreview className={styles.preview}>
+        <div className={styles.icon}>
+          {plugin.icon || <AppsRegular />}
+        </div>
+      </CardPreview>
+
+      <CardHeader
+        header={<Text weight="semibold">{plugin.name}</Text>}
+        description={
+          <Text className={styles.versions}>
+            {isInstalled
+              ? `Installed ${plugin.installedVersion} · Available ${plugin.version}`
+              : `Version ${plugin.version}`}
+          </Text>
+        }
+        className={styles.header}
+      />
+
+      <div className={styles.content}>
+        <div className={styles.badges}>
+          <Badge size="medium" appearance="outline" icon={<AppsRegular />}>
+            {plugin.category}
+          </Badge>
+          {plugin.company && (
+            <Badge size="medium" appearance="outline" icon={<BuildingRegular />}>
+              {plugin.company}
+            </Badge>
+          )}
+          {plugin.updateAvailable && (
+            <Badge size="medium" appearance="filled" color="informative">
+              Update available
+            </Badge>
+          )}
+          {plugin.isBundled && (
+            <Badge size="medium" appearance="tint" icon={<LockClosedRegular />}>
+              Bundled
+            </Badge>
+          )}
+          {plugin.sha256 && (
+            <Tooltip content={`sha256 ${plugin.sha256}`} relationship="description">
+              <Badge size="medium" appearance="tint" color="success" icon={<ShieldCheckmarkRegular />}>
+                Verified
+              </Badge>
+            </Tooltip>
+          )}
+        </div>
+
+        <Text className={styles.description}>{plugin.description}</Text>
+
+        {operation ? (
+          <div className={styles.progress}>
+            <ProgressBar
+              value={operation.progress?.percent !== undefined ? operation.progress.percent / 100 : undefined}
+            />
+            <Text size={200} className={styles.versions}>
+              {operation.progress?.message ?? `${operation.action}...`}
+            </Text>
+          </div>
+        ) : (
+          <div className={styles.actions}>
+            {!isInstalled && (
+              <Button appearance="primary" icon={<ArrowDownloadRegular />} onClick={() => onInstall(plugin.id)}>
+                Install
+              </Button>
+            )}
+            {plugin.updateAvailable && !plugin.isBundled && (
+              <Button appearance="primary" icon={<ArrowSyncRegular />} onClick={() => onUpdate(plugin.id)}>
+                Update to {plugin.version}
+              </Button>
+            )}
+            {isInstalled && !plugin.isBundled && (
+              <Button icon={<DeleteRegular />} onClick={() => onUninstall(plugin.id)}>
+                Uninstall
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+});
+
+CatalogPluginCard.displayName = 'CatalogPluginCard';
@@ -0,0 +1,449 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogSurface,
+  DialogBody,
+  DialogContent,
+  DialogActions,
+  Input,
+  Button,
+  Text,
+  Spinner,
+  MessageBar,
+  MessageBarBody,
+  makeStyles,
+  mergeClasses,
+  tokens,
+  shorthands,
+} from '@fluentui/react-components';
+import {
+  ArrowLeftRegular,
+  DismissRegular,
+  PlayRegular,
+  PlugConnectedRegular,
+  PuzzlePieceRegular,
+  SearchRegular,
+} from '@fluentui/react-icons';
+import { keybindings, validateSchema, type SchemaValidationIssue } from '@ddk/host-sdk';
+import { usePluginStore, type SystemView } from '../stores/plugins';
+import { useConnectionStore } from '../stores/connections';
+import { usePluginCommands, type PluginCommandEntry } from '../hooks/usePluginCommands';
+import { SYSTEM_VIEWS } from '../utils/systemViews';
+import { fuzzyMatch } from '../utils/fuzzyMatch';
+import { SchemaForm, createSchemaDefault } from './SchemaForm';
+import { shellBridge } from '../utils/shellBridge';
+
+const MAX_RESULTS = 50;
+
+const useStyles = makeStyles({
+  surface: {
+    maxWidth: '640px',
+    width: '100%',
+    alignSelf: 'flex-start',
+    marginTop: '10vh',
+  },
+  results: {
+    display: 'flex',
+    flexDirection: 'column',
+    maxHeight: '50vh',
+    overflowY: 'auto',
+    marginTop: tokens.spacingVerticalS,
+  },
+  item: {
+    display: 'flex',
+    alignItems: 'center',
+    ...shorthands.gap(tokens.spacingHorizontalS),
+    ...shorthands.padding(tokens.spacingVerticalS, tokens.spacingHorizontalM),
+    ...shorthands.borderRadius(tokens.borderRadiusMedium),
+    cursor: 'pointer',
+  },
+  itemSelected: {
+    backgroundColor: tokens.colorNeutralBackground1Selected,
+  },
+  itemText: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.flex(1),
+    minWidth: 0,
+  },
+  match: {
+    fontWeight: tokens.fontWeightBold,
+    color: tokens.colorBrandForeground1,
+  },
+  secondary: {
+    color: tokens.colorNeutralForeground3,
+  },
+  formHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    ...shorthands.gap(tokens.spacingHorizontalS),
+    marginBottom: tokens.spacingVerticalM,
+  },
+  form: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap(tokens.spacingVerticalM),
+  },
+  result: {
+    fontFamily: tokens.fontFamilyMonospace,
+    fontSize: tokens.fontSizeBase200,
+    whiteSpace: 'pre-wrap',
+    maxHeight: '240px',
+    overflowY: 'auto',
+    ...shorthands.margin(0),
+    ...shorthands.padding(tokens.spacingVerticalS),
+    backgroundColor: tokens.colorNeutralBackground3,
+  },
+});
+
+interface PaletteItem {
+  id: string;
+  title: string;
+  /** Shown next to the title and searched along with it, e.g. the plugin name */
+  group: string;
+  description?: string;
+  icon?: React.ReactNode;
+  /** Shell actions run right away */
+  run?: () => void | Promise<void>;
+  /** Plugin commands open a form for their payload first */
+  pluginCommand?: PluginCommandEntry;
+}
+
+const Highlighted: React.FC<{ text: string; indices: number[] }> = ({ text, indices }) => {
+  const styles = useStyles();
+  const matched = new Set(indices);
+  return (
+    <>
+      {[...text].map((char, i) =>
+        matched.has(i) ? <span key={i} className={styles.match}>{char}</span> : char
+      )}
+    </>
+  );
+};
+
+const formatResult = (result: unknown): string => {
+  if (typeof result === 'string') {
+    try {
+      return JSON.stringify(JSON.parse(result), null, 2);
+    } catch {
+      return result;
+    }
+  }
+  return result === undefined ? 'Done' : JSON.stringify(result, null, 2);
+};
+
+interface PluginCommandFormProps {
+  entry: PluginCommandEntry;
+  connectionId: string | null;
+  onBack: () => void;
+}
+
+/** Payload form and result of a plugin command picked in the palette */
+const PluginCommandForm: React.FC<PluginCommandFormProps> = ({ entry, connectionId, onBack }) => {
+  const styles = useStyles();
+  const { plugin, command } = entry;
+  const connections = useConnectionStore((state) => state.connections);
+  const [payload, setPayload] = useState<unknown>(() =>
+    command.payloadSchema ? createSchemaDefault(command.payloadSchema) : undefined
+  );
+  const [issues, setIssues] = useState<SchemaValidationIssue[]>([]);
+  const [running, setRunning] = useState(false);
+  const [result, setResult] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const connectionName = connections.find((c) => c.id === connectionId)?.name;
+  const fieldPaths = Object.keys(command.payloadSchema?.properties ?? {}).map((key) => `/${key}`);
+  const otherIssues = issues.filter((i) => !fieldPaths.some((p) => i.path === p || i.path.startsWith(`${p}/`)));
+
+  const handleRun = async () => {
+    const value = payload ?? {};
+    if (command.payloadSchema) {
+      const found = validateSchema(command.payloadSchema, value);
+      setIssues(found);
+      if (found.length > 0) return;
+    }
+
+    setRunning(true);
+    setResult(null);
+    setError(null);
+    try {
+      const response = await shellBridge.invokePluginCommand(plugin.id, command.name, JSON.stringify(value), { connectionId });
+      setResult(formatResult(response));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Command failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div
+      className={styles.form}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey) && !running) handleRun();
+      }}
+    >
+      <div className={styles.formHeader}>
+        <Button appearance="subtle" icon={<ArrowLeftRegular />} onClick={onBack} aria-label="Back" />
+        <div className={styles.itemText}>
+          <Text weight="semibold">{command.label || command.name}</Text>
+          <Text size={200} className={styles.secondary}>
+            {plugin.name} · {connectionName ? `runs against ${connectionName}` : 'runs against the active connection'}
+          </Text>
+        </div>
+      </div>
+      {command.description && <Text>{command.description}</Text>}
+
+      {command.payloadSchema && (
+        <SchemaForm schema={command.payloadSchema} value={payload} onChange={setPayload} issues={issues} />
+      )}
+      {otherIssues.length > 0 && (
+        <MessageBar intent="error">
+          <MessageBarBody>{otherIssues.map((i) => `${i.path || 'Payload'} ${i.message}`).join('; ')}</MessageBarBody>
+        </MessageBar>
+      )}
+
+      {error && (
+        <MessageBar intent="error">
+          <MessageBarBody>{error}</MessageBarBody>
+        </MessageBar>
+      )}
+      {result !== null && <pre className={styles.result}>{result}</pre>}
+
+      <DialogActions>
+        <Button
+          appearance="primary"
+          icon={running ? <Spinner size="tiny" /> : <PlayRegular />}
+          disabled={running}
+          onClick={handleRun}
+        >
+          Run
+        </Button>
+      </DialogActions>
+    </div>
+  );
+};
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Ctrl+K palette listing shell actions and the commands plugins contribute,
+ * with fuzzy search. Plugin commands get a form generated from their payload schema.
+ */
+export const CommandPalette: React.FC<CommandPaletteProps> = ({ open, onOpenChange }) => {
+  const styles = useStyles();
+  const { tabs, activeTabId, availablePlugins, openSystemView, removeTab, updateTab } = usePluginStore();
+  const { connections, activeConnectionId, setActiveConnection } = useConnectionStore();
+  const pluginCommands = usePluginCommands(availablePlugins, open);
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [commandEntry, setCommandEntry] = useState<PluginCommandEntry | null>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const activeTab = tabs.find((t) => t.instanceId === activeTabId);
+  const activePluginTab = activeTab?.type === 'plugin' ? activeTab : undefined;
+
+  useEffect(() => {
+    if (!open) return;
+    // Shell shortcuts stay quiet while the palette is open, except the one closing it
+    const exitDialog = keybindings.enterDialog();
+    const unregister = keybindings.register({
+      id: 'shell.commandPalette',
+      title: 'Command Palette',
+      category: 'Shell',
+      context: 'dialog',
+      defaultKeys: 'Ctrl+K',
+      allowInEditable: true,
+      handler: () => onOpenChange(false),
+    });
+    return () => {
+      unregister();
+      exitDialog();
+    };
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    if (!open) {
+      setQuery('');
+      setCommandEntry(null);
+    }
+  }, [open]);
+
+  const items = useMemo<PaletteItem[]>(() => {
+    const shellItems: PaletteItem[] = (Object.keys(SYSTEM_VIEWS) as SystemView[]).map((view) => ({
+      id: `view:${view}`,
+      title: `Open ${SYSTEM_VIEWS[view].title}`,
+      group: 'Shell',
+      icon: SYSTEM_VIEWS[view].icon,
+      run: () => openSystemView(view, SYSTEM_VIEWS[view].title, SYSTEM_VIEWS[view].icon),
+    }));
+
+    if (activeTab) {
+      shellItems.push({
+        id: 'tab:close',
+        title: 'Close Tab',
+        group: 'Shell',
+        description: activeTab.title,
+        icon: <DismissRegular />,
+        run: () => removeTab(activeTab.instanceId),
+      });
+    }
+
+    const connectionItems: PaletteItem[] = connections.flatMap((connection) => {
+      const connectionActions: PaletteItem[] = [];
+      if (connection.id !== activeConnectionId) {
+        connectionActions.push({
+          id: `connection:activate:${connection.id}`,
+          title: `Switch Connection: ${connection.name}`,
+          group: 'Connections',
+          description: connection.url,
+          icon: <PlugConnectedRegular />,
+          run: async () => {
+            await shellBridge.activateConnection(connection.id);
+            setActiveConnection(connection.id);
+          },
+        });
+      }
+      if (activePluginTab && connection.id !== activePluginTab.connectionId) {
+        connectionActions.push({
+          id: `connection:tab:${connection.id}`,
+          title: `Use Connection in Tab: ${connection.name}`,
+          group: 'Connections',
+          description: `${activePluginTab.title} · ${connection.url}`,
+          icon: <PlugConnectedRegular />,
+          run: () => updateTab(activePluginTab.instanceId, { connectionId: connection.id }),
+        });
+      }
+      return connectionActions;
+    });
+
+    const commandItems: PaletteItem[] = pluginCommands.map((entry) => ({
+      id: `plugin:${entry.plugin.id}:${entry.command.name}`,
+      title: entry.command.label || entry.command.name,
+      group: entry.plugin.name,
+      description: entry.command.description,
+      icon: entry.plugin.icon ? <span>{entry.plugin.icon}</span> : <PuzzlePieceRegular />,
+      pluginCommand: entry,
+    }));
+
+    return [...shellItems, ...connectionItems, ...commandItems];
+  }, [
+    activeTab, activePluginTab, connections, activeConnectionId, pluginCommands,
+    openSystemView, removeTab, updateTab, setActiveConnection,
+  ]);
+
+  const results = useMemo(() => {
+    if (!query.trim()) {
+      return items.slice(0, MAX_RESULTS).map((item) => ({ item, indices: [] as number[] }));
+    }
+    return items
+      .map((item) => {
+        const match = fuzzyMatch(query, `${item.title} ${item.group}`);
+        return match && { item, score: match.score, indices: match.indices };
+      })
+      .filter((r): r is NonNullable<typeof r> => r !== null)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_RESULTS);
+  }, [items, query]);
+
+  useEffect(() => {
+    setSelectedIndex(0);
+  }, [query]);
+
+  useEffect(() => {
+    listRef.current?.children[selectedIndex]?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const execute = useCallback(async (item: PaletteItem) => {
+    if (item.pluginCommand) {
+      setCommandEntry(item.pluginCommand);
+      return;
+    }
+    onOpenChange(false);
+    try {
+      await item.run?.();
+    } catch (error) {
+      console.error(`[CommandPalette] ${item.title} failed:`, error);
+    }
+  }, [onOpenChange]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setSelectedIndex((i) => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setSelectedIndex((i) => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter' && results[selectedIndex]) {
+      e.preventDefault();
+      execute(results[selectedIndex].item);
+    }
+  };
+
+  // Plugin commands run against the tab's connection when the tab belongs to the plugin
+  const commandConnectionId = commandEntry && activePluginTab?.pluginId === commandEntry.plugin.id
+    ? activePluginTab.connectionId ?? null
+    : activeConnectionId;
+
+  return (
+    <Dialog open={open} onOpenChange={(_, data) => onOpenChange(data.open)}>
+      <DialogSurface className={styles.surface} aria-label="Command palette">
+        <DialogBody>
+          <DialogContent>
+            {commandEntry ? (
+              <PluginCommandForm
+                key={`${commandEntry.plugin.id}:${commandEntry.command.name}`}
+                entry={commandEntry}
+                connectionId={commandConnectionId}
+                onBack={() => setCommandEntry(null)}
+              />
+            ) : (
+              <>
+                <Input
+                  autoFocus
+                  contentBefore={<SearchRegular />}
+                  placeholder="Type a command or search plugin commands"
+                  value={query}
+                  onChange={(_, data) => setQuery(data.value)}
+                  onKeyDown={handleKeyDown}
+                  style={{ width: '100%' }}
+                />
+                <div className={styles.results} ref={listRef} role="listbox">
+                  {results.length === 0 && (
+                    <Text className={styles.secondary}>No matching commands</Text>
+                  )}
+                  {results.map(({ item, indices }, index) => (
+                    <div
+                      key={item.id}
+                      role="option"
+                      aria-selected={index === selectedIndex}
+                      className={mergeClasses(styles.item, index === selectedIndex && styles.itemSelected)}
+                      onMouseEnter={() => setSelectedIndex(index)}
+                      onClick={() => execute(item)}
+                    >
+                      {item.icon}
+                      <div className={styles.itemText}>
+                        <Text truncate wrap={false}>
+                          <Highlighted text={item.title} indices={indices.filter((i) => i < item.title.length)} />
+                        </Text>
+                        {item.description && (
+                          <Text size={200} truncate wrap={false} className={styles.secondary}>
+                            {item.description}
+                          </Text>
+                        )}
+                      </div>
+                      <Text size={200} className={styles.secondary}>{item.group}</Text>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </DialogContent>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  );
+};
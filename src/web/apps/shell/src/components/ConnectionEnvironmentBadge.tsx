@@ -0,0 +1,20 @@
+import React from 'react';
+import { Badge, type BadgeProps } from '@fluentui/react-components';
+import type { ConnectionInfo } from '@ddk/host-sdk';
+import { ENVIRONMENT_BADGES } from '../utils/connectionEnvironments';
+
+interface ConnectionEnvironmentBadgeProps {
+  connection: ConnectionInfo;
+  size?: BadgeProps['size'];
+}
+
+/** Color-coded environment tag; renders nothing for untagged connections */
+export const ConnectionEnvironmentBadge: React.FC<ConnectionEnvironmentBadgeProps> = ({ connection, size = 'small' }) => {
+  if (!connection.environment) return null;
+  const { label, color } = ENVIRONMENT_BADGES[connection.environment];
+  return (
+    <Badge appearance="filled" color={color} size={size}>
+      {label}
+    </Badge>
+  );
+};
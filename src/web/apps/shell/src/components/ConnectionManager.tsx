@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import {
   makeStyles,
   tokens,
@@ -14,6 +14,13 @@ import {
   Text,
   Badge,
   Spinner,
+  Dropdown,
+  Option,
+  Switch,
+  MessageBar,
+  MessageBarBody,
+  MessageBarActions,
+  MenuItemRadio,
 } from '@fluentui/react-components';
 import {
   PlugConnectedRegular,
@@ -23,10 +30,48 @@ import {
   CheckmarkRegular,
   PersonRegular,
   SignOutRegular,
+  HeartPulseRegular,
+  ArrowClockwiseRegular,
+  ArrowDownloadRegular,
+  ArrowUploadRegular,
+  DismissRegular,
+  TagRegular,
 } from '@fluentui/react-icons';
-import { hostBridge } from '@ddk/host-sdk';
+import {
+  CONNECTION_ENVIRONMENTS,
+  createConnectionExport,
+  parseConnectionExport,
+  type ConnectionEnvironment,
+  type ConnectionInfo,
+} from '@ddk/host-sdk';
 import { useConnectionStore } from '../stores/connections';
+import { ENVIRONMENT_BADGES } from '../utils/connectionEnvironments';
 import { AddConnectionDialog } from './AddConnectionDialog';
+import { ConnectionStatusBadge } from './ConnectionStatusBadge';
+import { ConnectionEnvironmentBadge } from './ConnectionEnvironmentBadge';
+import { shellBridge } from '../utils/shellBridge';
+
+type EnvironmentFilter = 'all' | ConnectionEnvironment | 'untagged';
+
+const FILTER_LABELS: Record<EnvironmentFilter, string> = {
+  all: 'All environments',
+  dev: ENVIRONMENT_BADGES.dev.label,
+  test: ENVIRONMENT_BADGES.test.label,
+  prod: ENVIRONMENT_BADGES.prod.label,
+  untagged: 'Untagged',
+};
+
+const GROUP_ORDER: Exclude<EnvironmentFilter, 'all'>[] = ['prod', 'test', 'dev', 'untagged'];
+
+const downloadJson = (fileName: string, data: unknown) => {
+  const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
 
 const useStyles = makeStyles({
   container: {
@@ -87,6 +132,32 @@ const useStyles = makeStyles({
     alignItems: 'center',
     ...shorthands.gap(tokens.spacingHorizontalXS),
   },
+  headerActions: {
+    display: 'flex',
+    alignItems: 'center',
+    ...shorthands.gap(tokens.spacingHorizontalS),
+  },
+  toolbar: {
+    display: 'flex',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    ...shorthands.gap(tokens.spacingHorizontalM),
+  },
+  filter: {
+    minWidth: '180px',
+  },
+  groupHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    ...shorthands.gap(tokens.spacingHorizontalS),
+    marginTop: tokens.spacingVerticalS,
+    color: tokens.colorNeutralForeground3,
+  },
+  emptyState: {
+    color: tokens.colorNeutralForeground3,
+    ...shorthands.padding(tokens.spacingVerticalL, 0),
+    textAlign: 'center',
+  },
   actionButtons: {
     display: 'flex',
     alignItems: 'center',
@@ -96,31 +167,48 @@ const useStyles = makeStyles({
 
 export const ConnectionManager: React.FC = () => {
   const styles = useStyles();
-  const { connections, activeConnectionId, setConnections, setActiveConnection, removeConnection } =
-    useConnectionStore();
+  const {
+    connections,
+    activeConnectionId,
+    setActiveConnection,
+    removeConnection,
+    loadConnections,
+    checkHealth,
+    refreshToken,
+    setEnvironment,
+    importConnections,
+  } = useConnectionStore();
   const [dialogOpen, setDialogOpen] = useState(false);
   const [loggingIn, setLoggingIn] = useState<string | null>(null);
+  const [filter, setFilter] = useState<EnvironmentFilter>('all');
+  const [groupByEnvironment, setGroupByEnvironment] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [notice, setNotice] = useState<{ intent: 'success' | 'warning' | 'error'; text: string } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const visibleConnections = useMemo(
+    () =>
+      connections.filter((c) =>
+        filter === 'all' ? true : filter === 'untagged' ? !c.environment : c.environment === filter
+      ),
+    [connections, filter]
+  );
+
+  const groups = useMemo(() => {
+    if (!groupByEnvironment) return [{ key: 'all' as const, connections: visibleConnections }];
+    return GROUP_ORDER.map((key) => ({
+      key,
+      connections: visibleConnections.filter((c) => (c.environment ?? 'untagged') === key),
+    })).filter((group) => group.connections.length > 0);
+  }, [visibleConnections, groupByEnvironment]);
 
   useEffect(() => {
     loadConnections();
   }, []);
 
-  const loadConnections = async () => {
-    try {
-      const conns = await hostBridge.listConnections();
-      setConnections(conns);
-      const active = conns.find((c) => c.isActive);
-      if (active) {
-        setActiveConnection(active.id);
-      }
-    } catch (error) {
-      console.error('Failed to load connections:', error);
-    }
-  };
-
   const handleActivate = async (id: string) => {
     try {
-      await hostBridge.activateConnection(id);
+      await shellBridge.activateConnection(id);
       setActiveConnection(id);
     } catch (error) {
       console.error('Failed to activate connection:', error);
@@ -129,7 +217,7 @@ export const ConnectionManager: React.FC = () => {
 
   const handleRemove = async (id: string) => {
     try {
-      await hostBridge.removeConnection(id);
+      await shellBridge.removeConnection(id);
       removeConnection(id);
     } catch (error) {
       console.error('Failed to remove connection:', error);
@@ -140,7 +228,7 @@ export const ConnectionManager: React.FC = () => {
     e.stopPropagation();
     setLoggingIn(id);
     try {
-      const result = await hostBridge.login(id);
+      const result = await shellBridge.login(id);
       if (result.success) {
         // Refresh connections to get updated auth state
         await loadConnections();
@@ -154,10 +242,56 @@ export const ConnectionManager: React.FC = () => {
     }
   };
 
+  const handleRefresh = async (id: string) => {
+    try {
+      const result = await refreshToken(id);
+      if (!result.success) {
+        console.error('Session refresh failed:', result.error);
+      }
+    } catch (error) {
+      console.error('Failed to refresh session:', error);
+    }
+  };
+
+  const handleSetEnvironment = async (id: string, environment: ConnectionEnvironment | null) => {
+    try {
+      await setEnvironment(id, environment);
+    } catch (error) {
+      console.error('Failed to update connection environment:', error);
+    }
+  };
+
+  const handleExport = () => {
+    downloadJson('ddk-connections.json', createConnectionExport(connections));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so choosing the same file again still triggers a change
+    e.target.value = '';
+    if (!file) return;
+
+    setImporting(true);
+    try {
+      const result = await importConnections(parseConnectionExport(await file.text()));
+      const parts = [`Imported ${result.added} connection${result.added === 1 ? '' : 's'}`];
+      if (result.skipped > 0) parts.push(`skipped ${result.skipped} already configured`);
+      if (result.errors.length > 0) parts.push(`failed: ${result.errors.join('; ')}`);
+      setNotice({
+        intent: result.errors.length > 0 ? 'warning' : 'success',
+        text: `${parts.join(', ')}.`,
+      });
+    } catch (error) {
+      setNotice({ intent: 'error', text: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setImporting(false);
+    }
+  };
+
   const handleLogout = async (e: React.MouseEvent) => {
     e.stopPropagation();
     try {
-      await hostBridge.logout();
+      await shellBridge.logout();
       // Refresh connections to get updated auth state
       await loadConnections();
     } catch (error) {
@@ -165,97 +299,217 @@ export const ConnectionManager: React.FC = () => {
     }
   };
 
+  const renderCard = (connection: ConnectionInfo) => (
+      <Card
+        key={connection.id}
+        className={`${styles.connectionCard} ${activeConnectionId === connection.id ? styles.activeCard : ''}`}
+        onClick={() => handleActivate(connection.id)}
+      >
+        <CardHeader
+          image={
+            connection.isAuthenticated ? <PlugConnectedRegular /> : <PlugDisconnectedRegular />
+          }
+          header={
+            <div className={styles.connectionHeader}>
+              <div className={styles.connectionInfo}>
+                <div className={styles.authInfo}>
+                  <Text weight="semibold">{connection.name}</Text>
+                  <ConnectionEnvironmentBadge connection={connection} />
+                </div>
+                <Text className={styles.connectionUrl}>{connection.url}</Text>
+                <div className={styles.authInfo}>
+                  {connection.isAuthenticated ? (
+                    <div className={styles.userBadge}>
+                      <Badge appearance="filled" color="success" size="small">
+                        <PersonRegular style={{ marginRight: 4 }} />
+                        {connection.authenticatedUser || 'Authenticated'}
+                      </Badge>
+                    </div>
+                  ) : (
+                    <Badge appearance="ghost" color="warning" size="small">
+                      Not authenticated
+                    </Badge>
+                  )}
+                  {connection.isAuthenticated && <ConnectionStatusBadge connection={connection} />}
+                </div>
+              </div>
+              <div className={styles.actionButtons}>
+                {activeConnectionId === connection.id && <CheckmarkRegular />}
+              </div>
+            </div>
+          }
+          action={
+            <Menu>
+              <MenuTrigger disableButtonEnhancement>
+                <Button
+                  appearance="subtle"
+                  icon={<MoreVerticalRegular />}
+                  size="small"
+                  onClick={(e) => e.stopPropagation()}
+                />
+              </MenuTrigger>
+
+              <MenuPopover>
+                <MenuList>
+                  {!connection.isAuthenticated ? (
+                    <MenuItem
+                      icon={loggingIn === connection.id ? <Spinner size="tiny" /> : <PersonRegular />}
+                      onClick={(e) => handleLogin(connection.id, e)}
+                      disabled={loggingIn === connection.id}
+                    >
+                      {loggingIn === connection.id ? 'Signing in...' : 'Sign in'}
+                    </MenuItem>
+                  ) : (
+                    <>
+                      <MenuItem
+                        icon={<HeartPulseRegular />}
+                        onClick={(e) => { e.stopPropagation(); checkHealth(connection.id); }}
+                      >
+                        Check health
+                      </MenuItem>
+                      <MenuItem
+                        icon={<ArrowClockwiseRegular />}
+                        onClick={(e) => { e.stopPropagation(); handleRefresh(connection.id); }}
+                      >
+                        Refresh session
+                      </MenuItem>
+                      <MenuItem
+                        icon={<SignOutRegular />}
+                        onClick={handleLogout}
+                      >
+                        Sign out
+                      </MenuItem>
+                    </>
+                  )}
+                  <Menu>
+                    <MenuTrigger disableButtonEnhancement>
+                      <MenuItem icon={<TagRegular />} onClick={(e) => e.stopPropagation()}>
+                        Environment
+                      </MenuItem>
+                    </MenuTrigger>
+                    <MenuPopover>
+                      <MenuList
+                        checkedValues={{ environment: [connection.environment ?? ''] }}
+                        onCheckedValueChange={(_, data) =>
+                          handleSetEnvironment(connection.id, (data.checkedItems[0] || null) as ConnectionEnvironment | null)
+                        }
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        {CONNECTION_ENVIRONMENTS.map((env) => (
+                          <MenuItemRadio key={env} name="environment" value={env}>
+                            {ENVIRONMENT_BADGES[env].label}
+                          </MenuItemRadio>
+                        ))}
+                        <MenuItemRadio name="environment" value="">
+                          None
+                        </MenuItemRadio>
+                      </MenuList>
+                    </MenuPopover>
+                  </Menu>
+                  <MenuItem onClick={(e) => { e.stopPropagation(); handleRemove(connection.id); }}>
+                    Remove
+                  </MenuItem>
+                </MenuList>
+              </MenuPopover>
+            </Menu>
+          }
+        />
+      </Card>
+  );
+
   return (
     <div className={styles.container}>
       <div className={styles.header}>
         <Text size={500} weight="semibold">
           Connections
         </Text>
-        <Button
-          appearance="primary"
-          icon={<AddRegular />}
+        <div className={styles.headerActions}>
+          <Button
+            appearance="subtle"
+            icon={importing ? <Spinner size="extra-tiny" /> : <ArrowUploadRegular />}
+            size="small"
+            disabled={importing}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Import
+          </Button>
+          <Button
+            appearance="subtle"
+            icon={<ArrowDownloadRegular />}
+            size="small"
+            disabled={connections.length === 0}
+            onClick={handleExport}
+          >
+            Export
+          </Button>
+          <Button
+            appearance="primary"
+            icon={<AddRegular />}
+            size="small"
+            onClick={() => setDialogOpen(true)}
+          >
+            Add
+          </Button>
+        </div>
+        <input ref={fileInputRef} type="file" accept=".json,application/json" hidden onChange={handleImport} />
+      </div>
+
+      {notice && (
+        <MessageBar intent={notice.intent}>
+          <MessageBarBody>{notice.text}</MessageBarBody>
+          <MessageBarActions
+            containerAction={
+              <Button
+                appearance="transparent"
+                size="small"
+                icon={<DismissRegular />}
+                aria-label="Dismiss"
+                onClick={() => setNotice(null)}
+              />
+            }
+          />
+        </MessageBar>
+      )}
+
+      <div className={styles.toolbar}>
+        <Dropdown
+          className={styles.filter}
           size="small"
-          onClick={() => setDialogOpen(true)}
+          aria-label="Filter by environment"
+          value={FILTER_LABELS[filter]}
+          selectedOptions={[filter]}
+          onOptionSelect={(_, data) => setFilter(data.optionValue as EnvironmentFilter)}
         >
-          Add
-        </Button>
+          {(Object.keys(FILTER_LABELS) as EnvironmentFilter[]).map((key) => (
+            <Option key={key} value={key}>
+              {FILTER_LABELS[key]}
+            </Option>
+          ))}
+        </Dropdown>
+        <Switch
+          label="Group by environment"
+          checked={groupByEnvironment}
+          onChange={(_, data) => setGroupByEnvironment(data.checked)}
+        />
       </div>
 
       <div className={styles.connectionList}>
-        {connections.map((connection) => (
-          <Card
-            key={connection.id}
-            className={`${styles.connectionCard} ${activeConnectionId === connection.id ? styles.activeCard : ''}`}
-            onClick={() => handleActivate(connection.id)}
-          >
-            <CardHeader
-              image={
-                connection.isAuthenticated ? <PlugConnectedRegular /> : <PlugDisconnectedRegular />
-              }
-              header={
-                <div className={styles.connectionHeader}>
-                  <div className={styles.connectionInfo}>
-                    <Text weight="semibold">{connection.name}</Text>
-                    <Text className={styles.connectionUrl}>{connection.url}</Text>
-                    <div className={styles.authInfo}>
-                      {connection.isAuthenticated ? (
-                        <div className={styles.userBadge}>
-                          <Badge appearance="filled" color="success" size="small">
-                            <PersonRegular style={{ marginRight: 4 }} />
-                            {connection.authenticatedUser || 'Authenticated'}
-                          </Badge>
-                        </div>
-                      ) : (
-                        <Badge appearance="ghost" color="warning" size="small">
-                          Not authenticated
-                        </Badge>
-                      )}
-                    </div>
-                  </div>
-                  <div className={styles.actionButtons}>
-                    {activeConnectionId === connection.id && <CheckmarkRegular />}
-                  </div>
-                </div>
-              }
-              action={
-                <Menu>
-                  <MenuTrigger disableButtonEnhancement>
-                    <Button
-                      appearance="subtle"
-                      icon={<MoreVerticalRegular />}
-                      size="small"
-                      onClick={(e) => e.stopPropagation()}
-                    />
-                  </MenuTrigger>
-
-                  <MenuPopover>
-                    <MenuList>
-                      {!connection.isAuthenticated ? (
-                        <MenuItem
-                          icon={loggingIn === connection.id ? <Spinner size="tiny" /> : <PersonRegular />}
-                          onClick={(e) => handleLogin(connection.id, e)}
-                          disabled={loggingIn === connection.id}
-                        >
-                          {loggingIn === connection.id ? 'Signing in...' : 'Sign in'}
-                        </MenuItem>
-                      ) : (
-                        <MenuItem
-                          icon={<SignOutRegular />}
-                          onClick={handleLogout}
-                        >
-                          Sign out
-                        </MenuItem>
-                      )}
-                      <MenuItem onClick={(e) => { e.stopPropagation(); handleRemove(connection.id); }}>
-                        Remove
-                      </MenuItem>
-                    </MenuList>
-                  </MenuPopover>
-                </Menu>
-              }
-            />
-          </Card>
+        {groups.map((group) => (
+          <React.Fragment key={group.key}>
+            {group.key !== 'all' && (
+              <div className={styles.groupHeader}>
+                <Text weight="semibold">{FILTER_LABELS[group.key]}</Text>
+                <Badge appearance="tint" color="informative" size="small">
+                  {group.connections.length}
+                </Badge>
+              </div>
+            )}
+            {group.connections.map(renderCard)}
+          </React.Fragment>
         ))}
+        {connections.length > 0 && visibleConnections.length === 0 && (
+          <Text className={styles.emptyState}>No connections match this filter.</Text>
+        )}
       </div>
 
       <AddConnectionDialog open={dialogOpen} onClose={() => setDialogOpen(false)} />
@@ -0,0 +1,87 @@
+import React from 'react';
+import {
+  Badge,
+  Tooltip,
+  Text,
+  makeStyles,
+  tokens,
+  shorthands,
+  type BadgeProps,
+} from '@fluentui/react-components';
+import type { ConnectionInfo } from '@ddk/host-sdk';
+import { useNow } from '../hooks/useNow';
+import { formatTimeUntil, getConnectionStatus, type ConnectionStatus } from '../utils/connectionStatus';
+
+const useStyles = makeStyles({
+  details: {
+    display: 'grid',
+    gridTemplateColumns: 'auto 1fr',
+    columnGap: tokens.spacingHorizontalM,
+    rowGap: tokens.spacingVerticalXXS,
+    ...shorthands.padding(tokens.spacingVerticalXS, 0),
+  },
+  label: {
+    color: tokens.colorNeutralForeground3,
+  },
+});
+
+const STATUS_BADGES: Record<ConnectionStatus, { label: string; color: BadgeProps['color'] }> = {
+  signedOut: { label: 'Signed out', color: 'informative' },
+  expired: { label: 'Session expired', color: 'danger' },
+  expiring: { label: 'Expiring', color: 'warning' },
+  unhealthy: { label: 'Unreachable', color: 'danger' },
+  healthy: { label: 'Healthy', color: 'success' },
+  unknown: { label: 'Not checked', color: 'informative' },
+};
+
+interface ConnectionStatusBadgeProps {
+  connection: ConnectionInfo;
+  size?: BadgeProps['size'];
+}
+
+/**
+ * Health of a connection at a glance, with latency, organization version,
+ * user and token expiry in the tooltip.
+ */
+export const ConnectionStatusBadge: React.FC<ConnectionStatusBadgeProps> = ({ connection, size = 'small' }) => {
+  const styles = useStyles();
+  const now = useNow();
+  const status = getConnectionStatus(connection, now);
+  const { label, color } = STATUS_BADGES[status];
+  const { health } = connection;
+
+  const rows: [string, string][] = [];
+  if (health?.latencyMs !== undefined) rows.push(['Latency', `${health.latencyMs} ms`]);
+  if (health?.organizationVersion) rows.push(['Version', health.organizationVersion]);
+  const user = health?.user ?? connection.authenticatedUser;
+  if (user) rows.push(['User', user]);
+  if (connection.expiresOn) rows.push(['Token expires', formatTimeUntil(connection.expiresOn, now)]);
+  if (health) rows.push(['Last checked', new Date(health.checkedAt).toLocaleTimeString()]);
+  if (health?.error) rows.push(['Error', health.error]);
+
+  const badge = (
+    <Badge appearance="tint" color={color} size={size}>
+      {status === 'healthy' && health?.latencyMs !== undefined ? `${health.latencyMs} ms` : label}
+    </Badge>
+  );
+
+  if (rows.length === 0) return badge;
+
+  return (
+    <Tooltip
+      relationship="description"
+      content={
+        <div className={styles.details}>
+          {rows.map(([name, value]) => (
+            <React.Fragment key={name}>
+              <Text size={200} className={styles.label}>{name}</Text>
+              <Text size={200}>{value}</Text>
+            </React.Fragment>
+          ))}
+        </div>
+      }
+    >
+      {badge}
+    </Tooltip>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Dialog,
+  DialogSurface,
+  DialogTitle,
+  DialogBody,
+  DialogActions,
+  DialogContent,
+  Button,
+  Link,
+  Spinner,
+  Text,
+  makeStyles,
+  tokens,
+  shorthands,
+} from '@fluentui/react-components';
+import { CopyRegular } from '@fluentui/react-icons';
+import { type DeviceCodePayload } from '@ddk/host-sdk';
+import { useConnectionStore } from '../stores/connections';
+import { useNow } from '../hooks/useNow';
+import { formatTimeUntil } from '../utils/connectionStatus';
+import { shellBridge } from '../utils/shellBridge';
+
+const useStyles = makeStyles({
+  content: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap(tokens.spacingVerticalM),
+  },
+  code: {
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center',
+    ...shorthands.gap(tokens.spacingHorizontalM),
+    ...shorthands.padding(tokens.spacingVerticalL),
+    backgroundColor: tokens.colorNeutralBackground3,
+    ...shorthands.borderRadius(tokens.borderRadiusMedium),
+  },
+  codeText: {
+    fontFamily: tokens.fontFamilyMonospace,
+    fontSize: tokens.fontSizeHero700,
+    letterSpacing: '0.1em',
+  },
+  waiting: {
+    display: 'flex',
+    alignItems: 'center',
+    ...shorthands.gap(tokens.spacingHorizontalS),
+    color: tokens.colorNeutralForeground3,
+  },
+});
+
+/**
+ * Shows the code of a pending DeviceCode sign-in, which the user enters on
+ * another device. Closes by itself once the connection is signed in.
+ */
+export const DeviceCodeDialog: React.FC = () => {
+  const styles = useStyles();
+  const [deviceCode, setDeviceCode] = useState<DeviceCodePayload | null>(null);
+  // Token expiry when the code arrived; a new one means the sign-in completed
+  const [previousExpiry, setPreviousExpiry] = useState<string | undefined>();
+  const connection = useConnectionStore((state) =>
+    deviceCode ? state.connections.find((c) => c.id === deviceCode.connectionId) : undefined
+  );
+  const now = useNow(15_000);
+
+  useEffect(
+    () =>
+      shellBridge.onDeviceCode((payload) => {
+        const current = useConnectionStore.getState().connections.find((c) => c.id === payload.connectionId);
+        setPreviousExpiry(current?.isAuthenticated ? current.expiresOn : undefined);
+        setDeviceCode(payload);
+      }),
+    []
+  );
+
+  const signedIn = !!connection?.isAuthenticated && connection.expiresOn !== previousExpiry;
+  useEffect(() => {
+    if (signedIn) setDeviceCode(null);
+  }, [signedIn]);
+
+  if (!deviceCode) return null;
+
+  const expired = Date.parse(deviceCode.expiresOn) <= now;
+
+  return (
+    <Dialog open onOpenChange={(_, data) => !data.open && setDeviceCode(null)}>
+      <DialogSurface>
+        <DialogBody>
+          <DialogTitle>Sign in to {connection?.name ?? 'the connection'}</DialogTitle>
+          <DialogContent className={styles.content}>
+            <Text>
+              Open{' '}
+              <Link href={deviceCode.verificationUrl} target="_blank" rel="noreferrer">
+                {deviceCode.verificationUrl}
+              </Link>{' '}
+              on any device and enter this code:
+            </Text>
+            <div className={styles.code}>
+              <Text className={styles.codeText}>{deviceCode.userCode}</Text>
+              <Button
+                appearance="subtle"
+                icon={<CopyRegular />}
+                aria-label="Copy code"
+                onClick={() => navigator.clipboard.writeText(deviceCode.userCode).catch(console.error)}
+              />
+            </div>
+            <div className={styles.waiting}>
+              {expired ? (
+                <Text>The code has expired. Sign in again to get a new one.</Text>
+              ) : (
+                <>
+                  <Spinner size="tiny" />
+                  <Text>Waiting for sign-in; the code expires {formatTimeUntil(deviceCode.expiresOn, now)}.</Text>
+                </>
+              )}
+            </div>
+          </DialogContent>
+          <DialogActions>
+            <Button appearance="secondary" onClick={() => setDeviceCode(null)}>
+              Close
+            </Button>
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  );
+};
@@ -8,13 +8,21 @@ import {
   Dropdown,
   Option,
   Spinner,
+  TabList,
+  Tab,
+  Button,
+  MessageBar,
+  MessageBarBody,
 } from '@fluentui/react-components';
-import { SearchRegular } from '@fluentui/react-icons';
+import { ArrowClockwiseRegular, SearchRegular } from '@fluentui/react-icons';
 import type { PluginMetadata } from '@ddk/host-sdk';
 import { usePluginStore } from '../stores/plugins';
 import { useConnectionStore } from '../stores/connections';
+import { useSettingsStore } from '../stores/settings';
 import { usePlugins } from '../hooks/usePlugins';
+import { usePluginCatalog } from '../hooks/usePluginCatalog';
 import { PluginCard } from './PluginCard';
+import { CatalogPluginCard } from './CatalogPluginCard';
 
 const useStyles = makeStyles({
   container: {
@@ -65,11 +73,16 @@ const useStyles = makeStyles({
   },
 });
 
+type MarketplaceView = 'installed' | 'catalog';
+
 export const Marketplace: React.FC = () => {
   const styles = useStyles();
   const { addTab } = usePluginStore();
   const activeConnectionId = useConnectionStore((state) => state.activeConnectionId);
+  const catalogSource = useSettingsStore((state) => state.settings.catalogSource);
   const { availablePlugins, loading, error } = usePlugins();
+  const [view, setView] = useState<MarketplaceView>('installed');
+  const catalog = usePluginCatalog(catalogSource, view === 'catalog');
   const [searchTerm, setSearchTerm] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
   const [companyFilter, setCompanyFilter] = useState<string>('all');
@@ -85,30 +98,34 @@ export const Marketplace: React.FC = () => {
       remoteEntry: plugin.uiEntry,
       scope: plugin.uiScope || 'unknownPlugin',
       module: plugin.uiModule || './Plugin',
+      uiMode: plugin.uiMode ?? 'federated',
     });
   };
 
+  const listedPlugins = view === 'catalog' ? catalog.catalog : availablePlugins;
+
   const categories = useMemo(
-    () => ['all', ...new Set(availablePlugins.map((p) => p.category))],
-    [availablePlugins]
+    () => ['all', ...new Set(listedPlugins.map((p) => p.category))],
+    [listedPlugins]
   );
 
   const companies = useMemo(
-    () => ['all', ...new Set(availablePlugins.map((p) => p.company).filter(Boolean) as string[])],
-    [availablePlugins]
+    () => ['all', ...new Set(listedPlugins.map((p) => p.company).filter(Boolean) as string[])],
+    [listedPlugins]
   );
 
-  const filteredPlugins = useMemo(() => {
-    return availablePlugins.filter((plugin) => {
-      const matchesSearch =
-        searchTerm === '' ||
-        plugin.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        plugin.description.toLowerCase().includes(searchTerm.toLowerCase());
-      const matchesCategory = categoryFilter === 'all' || plugin.category === categoryFilter;
-      const matchesCompany = companyFilter === 'all' || plugin.company === companyFilter;
-      return matchesSearch && matchesCategory && matchesCompany;
-    });
-  }, [availablePlugins, searchTerm, categoryFilter, companyFilter]);
+  const matchesFilters = (plugin: { name: string; description: string; category: string; company?: string }) => {
+    const matchesSearch =
+      searchTerm === '' ||
+      plugin.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      plugin.description.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesCategory = categoryFilter === 'all' || plugin.category === categoryFilter;
+    const matchesCompany = companyFilter === 'all' || plugin.company === companyFilter;
+    return matchesSearch && matchesCategory && matchesCompany;
+  };
+
+  const filteredPlugins = availablePlugins.filter(matchesFilters);
+  const filteredCatalog = catalog.catalog.filter(matchesFilters);
 
   if (loading) {
     return (
@@ -137,6 +154,18 @@ export const Marketplace: React.FC = () => {
           Plugin Marketplace
         </Text>
 
+        <TabList
+          selectedValue={view}
+          onTabSelect={(_, data) => {
+            setView(data.value as MarketplaceView);
+            setCategoryFilter('all');
+            setCompanyFilter('all');
+          }}
+        >
+          <Tab value="installed">Installed</Tab>
+          <Tab value="catalog">Catalog</Tab>
+        </TabList>
+
         <div className={styles.searchRow}>
           <Input
             className={styles.searchInput}
@@ -145,6 +174,15 @@ export const Marketplace: React.FC = () => {
             value={searchTerm}
             onChange={(_, data) => setSearchTerm(data.value)}
           />
+          {view === 'catalog' && (
+            <Button
+              icon={<ArrowClockwiseRegular />}
+              onClick={catalog.reload}
+              disabled={catalog.loading}
+            >
+              Refresh
+            </Button>
+          )}
         </div>
 
         <div className={styles.filters}>
@@ -174,7 +212,41 @@ export const Marketplace: React.FC = () => {
         </div>
       </div>
 
-      {filteredPlugins.length === 0 ? (
+      {view === 'catalog' ? (
+        <>
+          {catalog.error && (
+            <MessageBar intent="error">
+              <MessageBarBody>{catalog.error}</MessageBarBody>
+            </MessageBar>
+          )}
+          {catalog.loading && catalog.catalog.length === 0 ? (
+            <div className={styles.loading}>
+              <Spinner label="Loading catalog..." />
+            </div>
+          ) : filteredCatalog.length === 0 ? (
+            <div className={styles.empty}>
+              <Text size={400}>
+                {catalog.catalog.length === 0
+                  ? 'The catalog has no plugins. Configure a catalog feed in Settings.'
+                  : 'No plugins found matching your filters.'}
+              </Text>
+            </div>
+          ) : (
+            <div className={styles.pluginGrid}>
+              {filteredCatalog.map((plugin) => (
+                <CatalogPluginCard
+                  key={plugin.id}
+                  plugin={plugin}
+                  operation={catalog.operations[plugin.id]}
+                  onInstall={catalog.install}
+                  onUpdate={catalog.update}
+                  onUninstall={catalog.uninstall}
+                />
+              ))}
+            </div>
+          )}
+        </>
+      ) : filteredPlugins.length === 0 ? (
         <div className={styles.empty}>
           <Text size={400}>No plugins found matching your filters.</Text>
         </div>
@@ -0,0 +1,150 @@
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import {
+  Dialog,
+  DialogSurface,
+  DialogTitle,
+  DialogBody,
+  DialogActions,
+  DialogContent,
+  Button,
+  Text,
+  makeStyles,
+  tokens,
+} from '@fluentui/react-components';
+import { ShieldKeyholeRegular } from '@fluentui/react-icons';
+import {
+  keybindings,
+  PLUGIN_PERMISSION_DESCRIPTIONS,
+  type PermissionConsentRequest,
+} from '@ddk/host-sdk';
+import { usePluginStore } from '../stores/plugins';
+import { shellBridge } from '../utils/shellBridge';
+
+const useStyles = makeStyles({
+  shieldIcon: {
+    color: tokens.colorBrandForeground1,
+    marginRight: tokens.spacingHorizontalS,
+  },
+  titleContainer: {
+    display: 'flex',
+    alignItems: 'center',
+  },
+  content: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalS,
+    marginTop: tokens.spacingVerticalM,
+    marginBottom: tokens.spacingVerticalM,
+  },
+  permission: {
+    fontFamily: tokens.fontFamilyMonospace,
+    color: tokens.colorNeutralForeground3,
+  },
+});
+
+interface ConsentPrompt {
+  key: string;
+  request: PermissionConsentRequest;
+  resolvers: ((granted: boolean) => void)[];
+}
+
+/**
+ * Global dialog asking the user whether a plugin may use a permission it
+ * declared, the first time the plugin needs it. The decision is stored by
+ * the host, so every tab of the plugin shares it.
+ */
+export const PermissionConsentDialog: React.FC = () => {
+  const styles = useStyles();
+  const availablePlugins = usePluginStore((state) => state.availablePlugins);
+  const [prompts, setPrompts] = useState<ConsentPrompt[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const promptsRef = useRef(prompts);
+  promptsRef.current = prompts;
+
+  useEffect(() => {
+    shellBridge.setConsentHandler((request) =>
+      new Promise<boolean>((resolve) => {
+        // Concurrent requests needing the same permission share one prompt
+        const key = `${request.pluginId}::${request.permission}`;
+        setPrompts((prev) => {
+          const existing = prev.find((p) => p.key === key);
+          if (existing) {
+            return prev.map((p) => (p === existing ? { ...p, resolvers: [...p.resolvers, resolve] } : p));
+          }
+          return [...prev, { key, request, resolvers: [resolve] }];
+        });
+      })
+    );
+
+    return () => {
+      shellBridge.setConsentHandler(null);
+      // Requests waiting for an answer fail with the consent error
+      promptsRef.current.forEach((p) => p.resolvers.forEach((resolve) => resolve(false)));
+    };
+  }, []);
+
+  const current = prompts[0];
+
+  const hasPrompt = current !== undefined;
+
+  // Shell shortcuts must not act behind the prompt
+  useEffect(() => {
+    if (!hasPrompt) return;
+    return keybindings.enterDialog();
+  }, [hasPrompt]);
+
+  const handleDecision = useCallback(async (granted: boolean) => {
+    if (!current) return;
+
+    setIsSaving(true);
+    let recorded = false;
+    try {
+      await shellBridge.setPermissionGrant(current.request.pluginId, current.request.permission, granted);
+      recorded = true;
+    } catch (err) {
+      console.error('[PermissionConsentDialog] Failed to record decision:', err);
+    } finally {
+      setIsSaving(false);
+    }
+
+    current.resolvers.forEach((resolve) => resolve(granted && recorded));
+    setPrompts((prev) => prev.filter((p) => p.key !== current.key));
+  }, [current]);
+
+  if (!current) {
+    return null;
+  }
+
+  const { pluginId, permission } = current.request;
+  const pluginName = availablePlugins.find((p) => p.id === pluginId)?.name ?? pluginId;
+
+  return (
+    <Dialog open={true} modalType="alert">
+      <DialogSurface>
+        <DialogBody>
+          <DialogTitle>
+            <div className={styles.titleContainer}>
+              <ShieldKeyholeRegular className={styles.shieldIcon} />
+              Permission Request
+            </div>
+          </DialogTitle>
+          <DialogContent className={styles.content}>
+            <Text>
+              <strong>{pluginName}</strong> wants to: {PLUGIN_PERMISSION_DESCRIPTIONS[permission] ?? permission}
+            </Text>
+            <Text size={200} className={styles.permission}>{permission}</Text>
+            <Text size={200}>You can change your decision later in Settings.</Text>
+          </DialogContent>
+          <DialogActions>
+            <Button appearance="secondary" onClick={() => handleDecision(false)} disabled={isSaving}>
+              Deny
+            </Button>
+            <Button appearance="primary" onClick={() => handleDecision(true)} disabled={isSaving}>
+              Allow
+            </Button>
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  );
+};
@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import {
   Card,
   CardHeader,
@@ -6,6 +6,7 @@ import {
   Button,
   Text,
   Badge,
+  Tooltip,
   makeStyles,
   tokens,
   shorthands,
@@ -15,8 +16,12 @@ import {
   PlayRegular,
   PersonRegular,
   BuildingRegular,
+  WarningRegular,
+  ShieldKeyholeRegular,
 } from '@fluentui/react-icons';
-import type { PluginMetadata } from '@ddk/host-sdk';
+import { PLUGIN_PERMISSION_DESCRIPTIONS, type PluginMetadata } from '@ddk/host-sdk';
+import { getPluginDiagnostics, hasBlockingDiagnostics } from '../utils/pluginDiagnostics';
+import { PluginDiagnosticsList } from './PluginDiagnosticsList';
 
 const useStyles = makeStyles({
   card: {
@@ -59,6 +64,10 @@ const useStyles = makeStyles({
     WebkitBoxOrient: 'vertical',
     minHeight: '40px',
   },
+  warningList: {
+    margin: 0,
+    paddingLeft: tokens.spacingHorizontalL,
+  },
 });
 
 interface PluginCardProps {
@@ -68,6 +77,9 @@ interface PluginCardProps {
 
 export const PluginCard: React.FC<PluginCardProps> = React.memo(({ plugin, onLaunch }) => {
   const styles = useStyles();
+  const diagnostics = useMemo(() => getPluginDiagnostics(plugin), [plugin]);
+  const errors = diagnostics.filter((d) => d.severity === 'error');
+  const warnings = diagnostics.filter((d) => d.severity === 'warning');
 
   return (
     <Card className={styles.card}>
@@ -79,6 +91,7 @@ export const PluginCard: React.FC<PluginCardProps> = React.memo(({ plugin, onLau
 
       <CardHeader
         header={<Text weight="semibold">{plugin.name}</Text>}
+        description={<Text size={200}>v{plugin.version}</Text>}
         className={styles.header}
       />
 
@@ -95,13 +108,44 @@ export const PluginCard: React.FC<PluginCardProps> = React.memo(({ plugin, onLau
           <Badge size="medium" appearance="outline" icon={<PersonRegular />}>
             {plugin.author}
           </Badge>
+          {warnings.length > 0 && (
+            <Tooltip
+              relationship="description"
+              content={
+                <ul className={styles.warningList}>
+                  {warnings.map((w, i) => <li key={i}>{w.message}</li>)}
+                </ul>
+              }
+            >
+              <Badge size="medium" appearance="tint" color="warning" icon={<WarningRegular />}>
+                {warnings.length} {warnings.length === 1 ? 'warning' : 'warnings'}
+              </Badge>
+            </Tooltip>
+          )}
+          {plugin.permissions && plugin.permissions.length > 0 && (
+            <Tooltip
+              relationship="description"
+              content={
+                <ul className={styles.warningList}>
+                  {plugin.permissions.map((p) => <li key={p}>{PLUGIN_PERMISSION_DESCRIPTIONS[p] ?? p}</li>)}
+                </ul>
+              }
+            >
+              <Badge size="medium" appearance="outline" icon={<ShieldKeyholeRegular />}>
+                {plugin.permissions.length} {plugin.permissions.length === 1 ? 'permission' : 'permissions'}
+              </Badge>
+            </Tooltip>
+          )}
         </div>
 
         <Text className={styles.description}>{plugin.description}</Text>
 
+        {errors.length > 0 && <PluginDiagnosticsList diagnostics={errors} title="Incompatible plugin" />}
+
         <Button
           appearance="primary"
           icon={<PlayRegular />}
+          disabled={hasBlockingDiagnostics(diagnostics)}
           onClick={() => onLaunch(plugin)}
         >
           Launch
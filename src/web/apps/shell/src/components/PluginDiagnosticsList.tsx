@@ -0,0 +1,49 @@
+import React from 'react';
+import {
+  MessageBar,
+  MessageBarBody,
+  MessageBarTitle,
+  makeStyles,
+  tokens,
+  shorthands,
+} from '@fluentui/react-components';
+import type { PluginDiagnostic } from '../utils/pluginDiagnostics';
+
+const useStyles = makeStyles({
+  list: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap(tokens.spacingVerticalXS),
+  },
+});
+
+interface PluginDiagnosticsListProps {
+  diagnostics: PluginDiagnostic[];
+  /** Shown above the first error, e.g. "Incompatible plugin" */
+  title?: string;
+}
+
+/**
+ * Lists manifest and compatibility diagnostics of a plugin, errors first.
+ */
+export const PluginDiagnosticsList: React.FC<PluginDiagnosticsListProps> = ({ diagnostics, title }) => {
+  const styles = useStyles();
+  const sorted = [...diagnostics].sort((a, b) =>
+    a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1
+  );
+
+  return (
+    <div className={styles.list}>
+      {sorted.map((diagnostic, index) => (
+        <MessageBar key={index} intent={diagnostic.severity}>
+          <MessageBarBody>
+            {title && index === 0 && diagnostic.severity === 'error' && (
+              <MessageBarTitle>{title}</MessageBarTitle>
+            )}
+            {diagnostic.message}
+          </MessageBarBody>
+        </MessageBar>
+      ))}
+    </div>
+  );
+};
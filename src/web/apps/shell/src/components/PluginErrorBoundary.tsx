@@ -0,0 +1,129 @@
+import React from 'react';
+import {
+  MessageBar,
+  MessageBarBody,
+  MessageBarTitle,
+  MessageBarActions,
+  Button,
+  Text,
+  makeStyles,
+  tokens,
+  shorthands,
+} from '@fluentui/react-components';
+import { ArrowClockwiseRegular, ArrowResetRegular } from '@fluentui/react-icons';
+import { useCrashLogStore, type CrashReport } from '../stores/crashes';
+
+const useStyles = makeStyles({
+  container: {
+    ...shorthands.padding('20px'),
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap(tokens.spacingVerticalS),
+  },
+  stack: {
+    fontFamily: tokens.fontFamilyMonospace,
+    fontSize: tokens.fontSizeBase200,
+    whiteSpace: 'pre-wrap',
+    maxHeight: '300px',
+    overflowY: 'auto',
+    ...shorthands.margin(0),
+    ...shorthands.padding(tokens.spacingVerticalS),
+    backgroundColor: tokens.colorNeutralBackground3,
+  },
+});
+
+interface PluginCrashFallbackProps {
+  crash: CrashReport | null;
+  error: Error;
+  onRetry: () => void;
+  onReload: () => void;
+}
+
+const PluginCrashFallback: React.FC<PluginCrashFallbackProps> = ({ crash, error, onRetry, onReload }) => {
+  const styles = useStyles();
+  const stack = [crash?.stack ?? error.stack, crash?.componentStack && `Component stack:${crash.componentStack}`]
+    .filter(Boolean)
+    .join('\n\n');
+
+  return (
+    <div className={styles.container}>
+      <MessageBar intent="error" layout="multiline">
+        <MessageBarBody>
+          <MessageBarTitle>The plugin crashed</MessageBarTitle>
+          {error.message}
+        </MessageBarBody>
+        <MessageBarActions>
+          <Button size="small" icon={<ArrowResetRegular />} onClick={onRetry}>
+            Retry
+          </Button>
+          <Button size="small" icon={<ArrowClockwiseRegular />} onClick={onReload}>
+            Reload plugin
+          </Button>
+        </MessageBarActions>
+      </MessageBar>
+      {stack && (
+        <details>
+          <summary>
+            <Text size={200}>Stack trace</Text>
+          </summary>
+          <pre className={styles.stack}>{stack}</pre>
+        </details>
+      )}
+      <Text size={200}>The crash was recorded in the crash log in Settings.</Text>
+    </div>
+  );
+};
+
+interface PluginErrorBoundaryProps {
+  pluginId: string;
+  pluginVersion?: string | null;
+  instanceId: string;
+  /** Loads the plugin's UI again, e.g. after a fix was deployed to its dev server */
+  onReload: () => void;
+  children: React.ReactNode;
+}
+
+interface PluginErrorBoundaryState {
+  error: Error | null;
+  crash: CrashReport | null;
+}
+
+/**
+ * Keeps a render-time exception in a plugin from taking down the shell.
+ * Records the crash and offers to re-render or reload the plugin.
+ */
+export class PluginErrorBoundary extends React.Component<PluginErrorBoundaryProps, PluginErrorBoundaryState> {
+  state: PluginErrorBoundaryState = { error: null, crash: null };
+
+  static getDerivedStateFromError(error: Error): Partial<PluginErrorBoundaryState> {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo): void {
+    const { pluginId, pluginVersion, instanceId } = this.props;
+    console.error(`[PluginErrorBoundary] Plugin ${pluginId} crashed:`, error, info.componentStack);
+
+    const crash = useCrashLogStore.getState().recordCrash({
+      pluginId,
+      pluginVersion: pluginVersion ?? null,
+      instanceId,
+      phase: 'render',
+      message: error.message,
+      stack: error.stack,
+      componentStack: info.componentStack ?? undefined,
+    });
+    this.setState({ crash });
+  }
+
+  private retry = () => {
+    this.setState({ error: null, crash: null });
+  };
+
+  render(): React.ReactNode {
+    const { error, crash } = this.state;
+    if (error) {
+      return <PluginCrashFallback crash={crash} error={error} onRetry={this.retry} onReload={this.props.onReload} />;
+    }
+    return this.props.children;
+  }
+}
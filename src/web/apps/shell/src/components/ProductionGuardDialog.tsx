@@ -0,0 +1,180 @@
+import React, { useEffect, useState, useRef } from 'react';
+import {
+  Dialog,
+  DialogSurface,
+  DialogTitle,
+  DialogBody,
+  DialogActions,
+  DialogContent,
+  Button,
+  Field,
+  Input,
+  Text,
+  makeStyles,
+  tokens,
+} from '@fluentui/react-components';
+import { ShieldErrorRegular } from '@fluentui/react-icons';
+import {
+  keybindings,
+  type HeldCommandSideEffects,
+  type PluginInvokeRequest,
+} from '@ddk/host-sdk';
+import { useConnectionStore } from '../stores/connections';
+import { ConnectionEnvironmentBadge } from './ConnectionEnvironmentBadge';
+import { shellBridge } from '../utils/shellBridge';
+
+const useStyles = makeStyles({
+  icon: {
+    color: tokens.colorPaletteRedForeground1,
+    marginRight: tokens.spacingHorizontalS,
+  },
+  titleContainer: {
+    display: 'flex',
+    alignItems: 'center',
+  },
+  content: {
+    display: 'flex',
+    flexDirection: 'column',
+    gap: tokens.spacingVerticalS,
+    marginTop: tokens.spacingVerticalM,
+    marginBottom: tokens.spacingVerticalM,
+  },
+  connection: {
+    display: 'flex',
+    alignItems: 'center',
+    gap: tokens.spacingHorizontalS,
+  },
+  payload: {
+    fontFamily: tokens.fontFamilyMonospace,
+    fontSize: tokens.fontSizeBase200,
+    color: tokens.colorNeutralForeground3,
+    maxHeight: '120px',
+    overflowY: 'auto',
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-all',
+    margin: 0,
+  },
+});
+
+interface GuardPrompt {
+  request: PluginInvokeRequest;
+  resolve: (confirmed: boolean) => void;
+}
+
+const SIDE_EFFECT_DESCRIPTIONS: Record<HeldCommandSideEffects, string> = {
+  write: ', which changes data,',
+  destructive: ', which deletes data or cannot be undone,',
+  undeclared: ', which does not declare whether it changes data,',
+};
+
+const formatPayload = (payload: string): string => {
+  try {
+    return JSON.stringify(JSON.parse(payload), null, 2);
+  } catch {
+    return payload;
+  }
+};
+
+/**
+ * Global dialog asking the user about the plugin commands the host holds on
+ * production connections: commands with side effects, or that don't declare
+ * them. The command runs once the user types the connection's name. The host
+ * decides what to hold and records every answer in its audit trail.
+ */
+export const ProductionGuardDialog: React.FC = () => {
+  const styles = useStyles();
+  const [prompts, setPrompts] = useState<GuardPrompt[]>([]);
+  const [typedName, setTypedName] = useState('');
+  const connections = useConnectionStore((state) => state.connections);
+  const promptsRef = useRef(prompts);
+  promptsRef.current = prompts;
+
+  useEffect(() => {
+    shellBridge.setInvokeGuard((request) =>
+      new Promise<boolean>((resolve) => {
+        setPrompts((prev) => [...prev, { request, resolve }]);
+      })
+    );
+
+    return () => {
+      shellBridge.setInvokeGuard(null);
+      // Commands waiting for an answer are declined
+      promptsRef.current.forEach((p) => p.resolve(false));
+    };
+  }, []);
+
+  const current = prompts[0];
+  const hasPrompt = current !== undefined;
+
+  // Shell shortcuts must not act behind the prompt
+  useEffect(() => {
+    if (!hasPrompt) return;
+    return keybindings.enterDialog();
+  }, [hasPrompt]);
+
+  useEffect(() => {
+    setTypedName('');
+  }, [current?.request.id]);
+
+  if (!current) {
+    return null;
+  }
+
+  const { request } = current;
+  const { pluginName, commandLabel, sideEffects, connectionName, connectionUrl } = request;
+  const connection = connections.find((c) => c.id === request.connectionId);
+  const destructive = sideEffects === 'destructive';
+  const matches = typedName.trim() === connectionName.trim();
+
+  const handleDecision = (confirmed: boolean) => {
+    current.resolve(confirmed);
+    setPrompts((prev) => prev.filter((p) => p !== current));
+  };
+
+  return (
+    <Dialog open={true} modalType="alert">
+      <DialogSurface>
+        <DialogBody>
+          <DialogTitle>
+            <div className={styles.titleContainer}>
+              <ShieldErrorRegular className={styles.icon} />
+              {destructive
+                ? 'Destructive command on production'
+                : sideEffects === 'undeclared' ? 'Command may change production data' : 'Command changes production data'}
+            </div>
+          </DialogTitle>
+          <DialogContent className={styles.content}>
+            <Text>
+              <strong>{pluginName}</strong> is about to run <strong>{commandLabel}</strong>
+              {SIDE_EFFECT_DESCRIPTIONS[sideEffects]} against:
+            </Text>
+            <div className={styles.connection}>
+              <Text weight="semibold">{connectionName}</Text>
+              {connection && <ConnectionEnvironmentBadge connection={connection} />}
+              <Text size={200}>{connectionUrl}</Text>
+            </div>
+            {request.payload && request.payload !== '{}' && (
+              <pre className={styles.payload}>{formatPayload(request.payload)}</pre>
+            )}
+            <Field label={<>Type <strong>{connectionName}</strong> to confirm</>}>
+              <Input
+                value={typedName}
+                onChange={(_, data) => setTypedName(data.value)}
+                onKeyDown={(e) => e.key === 'Enter' && matches && handleDecision(true)}
+                autoFocus
+              />
+            </Field>
+          </DialogContent>
+          <DialogActions>
+            <Button appearance="secondary" onClick={() => handleDecision(false)}>
+              Cancel
+            </Button>
+            <Button appearance="primary" onClick={() => handleDecision(true)} disabled={!matches}>
+              {destructive ? 'Run destructive command' : 'Run command'}
+            </Button>
+          </DialogActions>
+        </DialogBody>
+      </DialogSurface>
+    </Dialog>
+  );
+};
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import {
+  Field,
+  Input,
+  Textarea,
+  Switch,
+  Dropdown,
+  Option,
+  Text,
+  makeStyles,
+  tokens,
+  shorthands,
+} from '@fluentui/react-components';
+import type { JsonSchema, JsonSchemaType, SchemaValidationIssue } from '@ddk/host-sdk';
+
+const useStyles = makeStyles({
+  form: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap(tokens.spacingVerticalM),
+  },
+  group: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap(tokens.spacingVerticalS),
+    ...shorthands.padding(tokens.spacingVerticalS, 0, 0, tokens.spacingHorizontalL),
+    ...shorthands.borderLeft('2px', 'solid', tokens.colorNeutralStroke2),
+  },
+  json: {
+    fontFamily: tokens.fontFamilyMonospace,
+  },
+});
+
+/** The schema's type, ignoring `null` in nullable types like ["string", "null"] */
+const getType = (schema: JsonSchema): JsonSchemaType | undefined => {
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  return types.find((t) => t !== 'null') ?? (schema.properties ? 'object' : undefined);
+};
+
+/**
+ * Initial form value for a schema: its defaults, recursively for object properties.
+ */
+export const createSchemaDefault = (schema: JsonSchema): unknown => {
+  if (schema.default !== undefined) return schema.default;
+  if (getType(schema) !== 'object') return undefined;
+
+  const value: Record<string, unknown> = {};
+  for (const [key, property] of Object.entries(schema.properties ?? {})) {
+    const propertyDefault = createSchemaDefault(property);
+    if (propertyDefault !== undefined) value[key] = propertyDefault;
+  }
+  return value;
+};
+
+const issuesAt = (issues: SchemaValidationIssue[], path: string) =>
+  issues.filter((i) => i.path === path).map((i) => i.message).join('; ') || undefined;
+
+interface SchemaFieldProps {
+  schema: JsonSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  path: string;
+  issues: SchemaValidationIssue[];
+  label?: string;
+  required?: boolean;
+}
+
+/** Free-form JSON input for schemas the form cannot render field by field */
+const JsonField: React.FC<SchemaFieldProps> = ({ value, onChange, path, issues, label, required, schema }) => {
+  const styles = useStyles();
+  const [text, setText] = useState(() => (value === undefined ? '' : JSON.stringify(value, null, 2)));
+  const [parseError, setParseError] = useState<string | undefined>();
+
+  return (
+    <Field
+      label={label}
+      required={required}
+      hint={schema.description}
+      validationMessage={parseError ?? issuesAt(issues, path)}
+    >
+      <Textarea
+        className={styles.json}
+        value={text}
+        resize="vertical"
+        placeholder="JSON"
+        onChange={(_, data) => {
+          setText(data.value);
+          if (!data.value.trim()) {
+            setParseError(undefined);
+            onChange(undefined);
+            return;
+          }
+          try {
+            onChange(JSON.parse(data.value));
+            setParseError(undefined);
+          } catch {
+            setParseError('Not valid JSON');
+          }
+        }}
+      />
+    </Field>
+  );
+};
+
+const SchemaField: React.FC<SchemaFieldProps> = (props) => {
+  const styles = useStyles();
+  const { schema, value, onChange, path, issues, label, required } = props;
+  const type = getType(schema);
+  const fieldProps = {
+    label: label ?? schema.title,
+    required,
+    hint: schema.description,
+    validationMessage: issuesAt(issues, path),
+  };
+
+  if (schema.enum && schema.enum.every((option) => typeof option === 'string' || typeof option === 'number')) {
+    const options = schema.enum as (string | number)[];
+    return (
+      <Field {...fieldProps}>
+        <Dropdown
+          value={value === undefined ? '' : String(value)}
+          selectedOptions={value === undefined ? [] : [String(value)]}
+          onOptionSelect={(_, data) => onChange(options.find((o) => String(o) === data.optionValue))}
+        >
+          {options.map((option) => (
+            <Option key={String(option)} value={String(option)}>
+              {String(option)}
+            </Option>
+          ))}
+        </Dropdown>
+      </Field>
+    );
+  }
+
+  switch (type) {
+    case 'string':
+      return (
+        <Field {...fieldProps}>
+          <Input
+            type={schema.format === 'uri' ? 'url' : 'text'}
+            value={typeof value === 'string' ? value : ''}
+            onChange={(_, data) => onChange(data.value === '' ? undefined : data.value)}
+          />
+        </Field>
+      );
+    case 'number':
+    case 'integer':
+      return (
+        <Field {...fieldProps}>
+          <Input
+            type="number"
+            step={type === 'integer' ? 1 : 'any'}
+            value={typeof value === 'number' ? String(value) : ''}
+            onChange={(_, data) => onChange(data.value === '' ? undefined : Number(data.value))}
+          />
+        </Field>
+      );
+    case 'boolean':
+      return (
+        <Field {...fieldProps}>
+          <Switch checked={value === true} onChange={(_, data) => onChange(data.checked)} />
+        </Field>
+      );
+    case 'object':
+      if (!schema.properties) break;
+      return (
+        <div className={path ? styles.group : styles.form}>
+          {path && label && (
+            <Text weight="semibold">
+              {label}
+              {required && ' *'}
+            </Text>
+          )}
+          {Object.entries(schema.properties).map(([key, property]) => {
+            const objectValue = (value ?? {}) as Record<string, unknown>;
+            return (
+              <SchemaField
+                key={key}
+                schema={property}
+                value={objectValue[key]}
+                onChange={(propertyValue) => {
+                  const next = { ...objectValue };
+                  if (propertyValue === undefined) delete next[key];
+                  else next[key] = propertyValue;
+                  onChange(next);
+                }}
+                path={`${path}/${key}`}
+                issues={issues}
+                label={property.title ?? key}
+                required={schema.required?.includes(key)}
+              />
+            );
+          })}
+        </div>
+      );
+  }
+
+  return <JsonField {...props} label={fieldProps.label} />;
+};
+
+interface SchemaFormProps {
+  schema: JsonSchema;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  /** Validation issues to show next to their fields, e.g. from `validateSchema` */
+  issues?: SchemaValidationIssue[];
+}
+
+/**
+ * Input form generated from a JSON schema, as used for plugin command payloads.
+ * Strings, numbers, booleans, enums and nested objects get their own fields;
+ * anything else is edited as JSON. Start from `createSchemaDefault(schema)`.
+ */
+export const SchemaForm: React.FC<SchemaFormProps> = ({ schema, value, onChange, issues = [] }) => {
+  const styles = useStyles();
+
+  return (
+    <div className={styles.form}>
+      <SchemaField schema={schema} value={value} onChange={onChange} path="" issues={issues} />
+    </div>
+  );
+};
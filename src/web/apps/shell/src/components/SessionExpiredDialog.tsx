@@ -12,7 +12,9 @@ import {
   tokens,
 } from '@fluentui/react-components';
 import { Warning24Regular } from '@fluentui/react-icons';
-import hostBridge, { type SessionExpiredPayload } from '@ddk/host-sdk';
+import type { SessionExpiredPayload } from '@ddk/host-sdk';
+import { useConnectionStore } from '../stores/connections';
+import { shellBridge } from '../utils/shellBridge';
 
 const useStyles = makeStyles({
   warningIcon: {
@@ -45,7 +47,7 @@ export const SessionExpiredDialog: React.FC = () => {
 
   useEffect(() => {
     // Subscribe to session expired events
-    const unsubscribe = hostBridge.onSessionExpired((payload) => {
+    const unsubscribe = shellBridge.onSessionExpired((payload) => {
       console.log('[SessionExpiredDialog] Received session:expired event', payload);
       setSessionExpired({
         ...payload,
@@ -66,11 +68,13 @@ export const SessionExpiredDialog: React.FC = () => {
     setError(null);
 
     try {
-      const result = await hostBridge.reauthenticate(sessionExpired.connectionId);
+      const result = await shellBridge.reauthenticate(sessionExpired.connectionId);
       
       if (result.success) {
         console.log('[SessionExpiredDialog] Reauthentication successful');
         setSessionExpired(null);
+        // Picks up the new token expiry
+        await useConnectionStore.getState().loadConnections();
       } else {
         setError(result.error || 'Authentication failed');
       }
@@ -1,14 +1,38 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   makeStyles,
   tokens,
   shorthands,
   Text,
   Switch,
+  Input,
   Dropdown,
   Option,
+  Button,
+  ProgressBar,
+  Spinner,
+  Badge,
 } from '@fluentui/react-components';
+import {
+  ArrowClockwiseRegular,
+  ArrowResetRegular,
+  CopyRegular,
+  DeleteRegular,
+  DismissCircleRegular,
+} from '@fluentui/react-icons';
+import {
+  keybindings,
+  formatKeyEvent,
+  PLUGIN_PERMISSION_DESCRIPTIONS,
+  type InvokeAuditEntry,
+  type KeybindingInfo,
+  type PermissionGrant,
+  type StorageUsage,
+} from '@ddk/host-sdk';
 import { useSettingsStore, type Theme } from '../stores/settings';
+import { usePluginStore } from '../stores/plugins';
+import { useCrashLogStore, type CrashReport } from '../stores/crashes';
+import { shellBridge } from '../utils/shellBridge';
 
 const useStyles = makeStyles({
   container: {
@@ -45,11 +69,542 @@ const useStyles = makeStyles({
     fontSize: tokens.fontSizeBase200,
     color: tokens.colorNeutralForeground3,
   },
+  sectionHeader: {
+    display: 'flex',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  usageRow: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap(tokens.spacingVerticalXS),
+    ...shorthands.padding(tokens.spacingVerticalS, 0),
+  },
+  usageHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    ...shorthands.gap(tokens.spacingHorizontalS),
+  },
+  usageName: {
+    ...shorthands.flex(1),
+    minWidth: 0,
+  },
+  quotaPicker: {
+    minWidth: '110px',
+  },
+  catalogInput: {
+    minWidth: '320px',
+  },
+  shortcutInput: {
+    width: '160px',
+    fontFamily: tokens.fontFamilyMonospace,
+  },
+  crashStack: {
+    fontFamily: tokens.fontFamilyMonospace,
+    fontSize: tokens.fontSizeBase200,
+    whiteSpace: 'pre-wrap',
+    maxHeight: '240px',
+    overflowY: 'auto',
+    ...shorthands.margin(0),
+    ...shorthands.padding(tokens.spacingVerticalS),
+    backgroundColor: tokens.colorNeutralBackground3,
+  },
 });
 
+const MB = 1024 * 1024;
+const QUOTA_OPTIONS_MB = [1, 5, 10, 50, 100];
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / MB).toFixed(1)} MB`;
+};
+
+/**
+ * Storage usage of each plugin against its quota, with quota and clear actions.
+ */
+const StorageSettings: React.FC = () => {
+  const styles = useStyles();
+  const availablePlugins = usePluginStore((state) => state.availablePlugins);
+  const [usage, setUsage] = useState<StorageUsage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setUsage(await shellBridge.getStorageUsage());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load storage usage');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await loadUsage();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Storage action failed');
+    }
+  };
+
+  const pluginName = (pluginId: string) =>
+    availablePlugins.find((p) => p.id === pluginId)?.name ?? pluginId;
+
+  return (
+    <div className={styles.section}>
+      <div className={styles.sectionHeader}>
+        <div className={styles.sectionTitle}>Plugin Storage</div>
+        <Button
+          appearance="subtle"
+          size="small"
+          icon={loading ? <Spinner size="extra-tiny" /> : <ArrowClockwiseRegular />}
+          disabled={loading}
+          onClick={loadUsage}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      {error && <Text className={styles.settingDescription}>{error}</Text>}
+      {!error && usage.length === 0 && !loading && (
+        <Text className={styles.settingDescription}>No plugin has stored data yet</Text>
+      )}
+
+      {usage.map((u) => {
+        const ratio = u.quotaBytes > 0 ? Math.min(u.usedBytes / u.quotaBytes, 1) : 0;
+        return (
+          <div key={u.pluginId} className={styles.usageRow}>
+            <div className={styles.usageHeader}>
+              <div className={styles.usageName}>
+                <Text weight="semibold" truncate wrap={false}>{pluginName(u.pluginId)}</Text>
+                <Text className={styles.settingDescription} block>
+                  {formatBytes(u.usedBytes)} of {formatBytes(u.quotaBytes)} · {u.keyCount} keys
+                </Text>
+              </div>
+              <Dropdown
+                size="small"
+                className={styles.quotaPicker}
+                value={formatBytes(u.quotaBytes)}
+                selectedOptions={[String(u.quotaBytes)]}
+                onOptionSelect={(_, data) =>
+                  runAction(() => shellBridge.setStorageQuota(u.pluginId, Number(data.optionValue)))
+                }
+              >
+                {QUOTA_OPTIONS_MB.map((mb) => (
+                  <Option key={mb} value={String(mb * MB)}>{`${mb} MB`}</Option>
+                ))}
+              </Dropdown>
+              <Button
+                appearance="subtle"
+                size="small"
+                icon={<DeleteRegular />}
+                disabled={u.keyCount === 0}
+                onClick={() => runAction(() => shellBridge.clearStorage(u.pluginId))}
+              >
+                Clear
+              </Button>
+            </div>
+            <ProgressBar
+              value={ratio}
+              color={ratio >= 0.9 ? 'error' : ratio >= 0.75 ? 'warning' : 'brand'}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+/**
+ * Keyboard shortcuts of the shell and loaded plugins. A shortcut is changed by
+ * focusing its field and pressing the new key combination.
+ */
+const KeyboardShortcutSettings: React.FC = () => {
+  const styles = useStyles();
+  const { settings, updateSettings } = useSettingsStore();
+  const [bindings, setBindings] = useState<KeybindingInfo[]>(() => keybindings.list());
+  const [conflict, setConflict] = useState<{ id: string; message: string } | null>(null);
+
+  useEffect(() => keybindings.subscribe(() => setBindings(keybindings.list())), []);
+
+  const setOverride = (id: string, keys: string | null | undefined) => {
+    const overrides = { ...settings.keybindings };
+    if (keys === undefined) delete overrides[id];
+    else overrides[id] = keys;
+    updateSettings({ keybindings: overrides });
+  };
+
+  const recordKeys = (binding: KeybindingInfo, event: React.KeyboardEvent) => {
+    if (event.key === 'Tab' && !event.ctrlKey) return;
+    // Keep the key from reaching the registry or the dialog it belongs to
+    event.preventDefault();
+    event.stopPropagation();
+    if (event.key === 'Escape') {
+      (event.target as HTMLElement).blur();
+      return;
+    }
+
+    const keys = formatKeyEvent(event.nativeEvent);
+    if (!keys) return;
+    const conflicts = keybindings
+      .findConflicts(binding.id, keys)
+      .map((id) => bindings.find((b) => b.id === id)?.title ?? id);
+    setConflict(
+      conflicts.length > 0 ? { id: binding.id, message: `${keys} is also used by ${conflicts.join(', ')}` } : null
+    );
+    setOverride(binding.id, keys === binding.defaultKeys ? undefined : keys);
+  };
+
+  const categories = [...new Set(bindings.map((b) => b.category ?? 'General'))];
+
+  return (
+    <div className={styles.section}>
+      <div className={styles.sectionHeader}>
+        <div className={styles.sectionTitle}>Keyboard Shortcuts</div>
+        <Button
+          appearance="subtle"
+          size="small"
+          icon={<ArrowResetRegular />}
+          disabled={Object.keys(settings.keybindings ?? {}).length === 0}
+          onClick={() => {
+            setConflict(null);
+            updateSettings({ keybindings: {} });
+          }}
+        >
+          Reset All
+        </Button>
+      </div>
+
+      {categories.map((category) => (
+        <div key={category} className={styles.usageRow}>
+          <Text weight="semibold">{category}</Text>
+          {bindings
+            .filter((b) => (b.category ?? 'General') === category)
+            .map((binding) => (
+              <div key={binding.id} className={styles.usageHeader}>
+                <div className={styles.usageName}>
+                  <Text>{binding.title}</Text>
+                  {conflict?.id === binding.id && (
+                    <Text className={styles.settingDescription} block>
+                      {conflict.message}
+                    </Text>
+                  )}
+                </div>
+                <Input
+                  className={styles.shortcutInput}
+                  size="small"
+                  readOnly
+                  value={binding.keys ?? ''}
+                  placeholder="Disabled"
+                  aria-label={`Shortcut for ${binding.title}`}
+                  onKeyDown={(e) => recordKeys(binding, e)}
+                />
+                <Button
+                  appearance="subtle"
+                  size="small"
+                  icon={<ArrowResetRegular />}
+                  title={`Reset to ${binding.defaultKeys ?? 'disabled'}`}
+                  disabled={!(binding.id in (settings.keybindings ?? {}))}
+                  onClick={() => setOverride(binding.id, undefined)}
+                />
+                <Button
+                  appearance="subtle"
+                  size="small"
+                  icon={<DismissCircleRegular />}
+                  title="Disable"
+                  disabled={binding.keys === null}
+                  onClick={() => setOverride(binding.id, null)}
+                />
+              </div>
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Permissions the user allowed or denied per plugin, which can be flipped
+ * or reset so the plugin asks again.
+ */
+const PermissionSettings: React.FC = () => {
+  const styles = useStyles();
+  const availablePlugins = usePluginStore((state) => state.availablePlugins);
+  const [grants, setGrants] = useState<PermissionGrant[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadGrants = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setGrants(await shellBridge.listPermissionGrants());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load plugin permissions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadGrants();
+  }, [loadGrants]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await loadGrants();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Permission action failed');
+    }
+  };
+
+  const pluginIds = [...new Set(grants.map((g) => g.pluginId))];
+  const pluginName = (pluginId: string) =>
+    availablePlugins.find((p) => p.id === pluginId)?.name ?? pluginId;
+
+  return (
+    <div className={styles.section}>
+      <div className={styles.sectionHeader}>
+        <div className={styles.sectionTitle}>Plugin Permissions</div>
+        <Button
+          appearance="subtle"
+          size="small"
+          icon={loading ? <Spinner size="extra-tiny" /> : <ArrowClockwiseRegular />}
+          disabled={loading}
+          onClick={loadGrants}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      {error && <Text className={styles.settingDescription}>{error}</Text>}
+      {!error && grants.length === 0 && !loading && (
+        <Text className={styles.settingDescription}>No plugin has asked for a permission yet</Text>
+      )}
+
+      {pluginIds.map((pluginId) => (
+        <div key={pluginId} className={styles.usageRow}>
+          <div className={styles.usageHeader}>
+            <Text weight="semibold" truncate wrap={false} className={styles.usageName}>
+              {pluginName(pluginId)}
+            </Text>
+            <Button
+              appearance="subtle"
+              size="small"
+              icon={<DeleteRegular />}
+              onClick={() => runAction(() => shellBridge.resetPermissionGrants(pluginId))}
+            >
+              Reset
+            </Button>
+          </div>
+          {grants
+            .filter((g) => g.pluginId === pluginId)
+            .map((g) => (
+              <div key={g.permission} className={styles.usageHeader}>
+                <div className={styles.usageName}>
+                  <Text>{g.permission}</Text>
+                  <Text className={styles.settingDescription} block>
+                    {PLUGIN_PERMISSION_DESCRIPTIONS[g.permission] ?? g.permission}
+                  </Text>
+                </div>
+                <Switch
+                  checked={g.granted}
+                  label={g.granted ? 'Allowed' : 'Denied'}
+                  onChange={(_, data) =>
+                    runAction(() => shellBridge.setPermissionGrant(pluginId, g.permission, data.checked))
+                  }
+                />
+              </div>
+            ))}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const formatCrash = (crash: CrashReport): string =>
+  [
+    `${crash.pluginId} ${crash.pluginVersion ?? ''} (${crash.phase}) at ${crash.occurredAt}`,
+    crash.message,
+    crash.stack,
+    crash.componentStack && `Component stack:${crash.componentStack}`,
+  ].filter(Boolean).join('\n\n');
+
+/**
+ * Plugin tabs that failed to load or crashed while rendering, newest first.
+ */
+const CrashLogSettings: React.FC = () => {
+  const styles = useStyles();
+  const availablePlugins = usePluginStore((state) => state.availablePlugins);
+  const { crashes, removeCrash, clearCrashes } = useCrashLogStore();
+
+  const pluginName = (pluginId: string) =>
+    availablePlugins.find((p) => p.id === pluginId)?.name ?? pluginId;
+
+  return (
+    <div className={styles.section}>
+      <div className={styles.sectionHeader}>
+        <div className={styles.sectionTitle}>Crash Log</div>
+        <Button
+          appearance="subtle"
+          size="small"
+          icon={<DeleteRegular />}
+          disabled={crashes.length === 0}
+          onClick={clearCrashes}
+        >
+          Clear
+        </Button>
+      </div>
+
+      {crashes.length === 0 && (
+        <Text className={styles.settingDescription}>No plugin has crashed</Text>
+      )}
+
+      {crashes.map((crash) => (
+        <div key={crash.id} className={styles.usageRow}>
+          <div className={styles.usageHeader}>
+            <Text weight="semibold" truncate wrap={false} className={styles.usageName}>
+              {pluginName(crash.pluginId)}
+              {crash.pluginVersion && ` v${crash.pluginVersion}`}
+            </Text>
+            <Text className={styles.settingDescription}>
+              {crash.phase === 'load' ? 'Load failure' : 'Render crash'} · {new Date(crash.occurredAt).toLocaleString()}
+            </Text>
+            <Button
+              appearance="subtle"
+              size="small"
+              icon={<CopyRegular />}
+              title="Copy report"
+              onClick={() => navigator.clipboard.writeText(formatCrash(crash)).catch(console.error)}
+            />
+            <Button
+              appearance="subtle"
+              size="small"
+              icon={<DeleteRegular />}
+              title="Remove"
+              onClick={() => removeCrash(crash.id)}
+            />
+          </div>
+          <Text>{crash.message}</Text>
+          {(crash.stack || crash.componentStack) && (
+            <details>
+              <summary>
+                <Text size={200}>Stack trace</Text>
+              </summary>
+              <pre className={styles.crashStack}>
+                {[crash.stack, crash.componentStack && `Component stack:${crash.componentStack}`]
+                  .filter(Boolean)
+                  .join('\n\n')}
+              </pre>
+            </details>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Plugin commands with side effects that were about to run against a
+ * production connection, newest first, with the user's decision. The host
+ * keeps the trail, so plugins sharing the page can't rewrite it.
+ */
+const AuditTrailSettings: React.FC = () => {
+  const styles = useStyles();
+  const [entries, setEntries] = useState<InvokeAuditEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    setError(null);
+    try {
+      setEntries(await shellBridge.listInvokeAudit());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the audit trail');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const clearEntries = async () => {
+    try {
+      await shellBridge.clearInvokeAudit();
+      await loadEntries();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to clear the audit trail');
+    }
+  };
+
+  return (
+    <div className={styles.section}>
+      <div className={styles.sectionHeader}>
+        <div className={styles.sectionTitle}>Audit Trail</div>
+        <Button
+          appearance="subtle"
+          size="small"
+          icon={<DeleteRegular />}
+          disabled={entries.length === 0}
+          onClick={clearEntries}
+        >
+          Clear
+        </Button>
+      </div>
+      <Text className={styles.settingDescription}>
+        Plugin commands that write or delete data, or don't declare whether they do, on production connections
+      </Text>
+      {error && <Text className={styles.settingDescription}>{error}</Text>}
+
+      {entries.map((entry) => (
+        <div key={entry.id} className={styles.usageRow}>
+          <div className={styles.usageHeader}>
+            <Text weight="semibold" truncate wrap={false} className={styles.usageName}>
+              {entry.pluginName}: {entry.commandLabel}
+            </Text>
+            <Badge appearance="tint" color={entry.sideEffects === 'destructive' ? 'danger' : 'warning'} size="small">
+              {entry.sideEffects}
+            </Badge>
+            <Badge appearance="outline" color={entry.confirmed ? 'success' : 'subtle'} size="small">
+              {entry.confirmed ? 'Confirmed' : 'Declined'}
+            </Badge>
+          </div>
+          <Text className={styles.settingDescription}>
+            {entry.connectionName} ({entry.connectionUrl}) · {new Date(entry.occurredAt).toLocaleString()}
+          </Text>
+          {entry.payload && entry.payload !== '{}' && (
+            <details>
+              <summary>
+                <Text size={200}>Payload</Text>
+              </summary>
+              <pre className={styles.crashStack}>{entry.payload}</pre>
+            </details>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
 export const Settings: React.FC = () => {
   const styles = useStyles();
   const { settings, updateSettings } = useSettingsStore();
+  const [catalogSource, setCatalogSource] = useState(settings.catalogSource ?? '');
+
+  const saveCatalogSource = () => {
+    const source = catalogSource.trim() || null;
+    if (source !== settings.catalogSource) {
+      updateSettings({ catalogSource: source });
+    }
+  };
 
   return (
     <div className={styles.container}>
@@ -88,6 +643,38 @@ export const Settings: React.FC = () => {
           />
         </div>
       </div>
+
+      <div className={styles.section}>
+        <div className={styles.sectionTitle}>Plugin Catalog</div>
+
+        <div className={styles.settingRow}>
+          <div className={styles.settingInfo}>
+            <Text weight="semibold">Catalog Feed</Text>
+            <Text className={styles.settingDescription}>
+              URL, catalog file or local directory the marketplace installs plugins from.
+              Leave empty to use the host's default feed.
+            </Text>
+          </div>
+          <Input
+            className={styles.catalogInput}
+            placeholder="https://... or C:\plugins\catalog.json"
+            value={catalogSource}
+            onChange={(_, data) => setCatalogSource(data.value)}
+            onBlur={saveCatalogSource}
+            onKeyDown={(e) => e.key === 'Enter' && saveCatalogSource()}
+          />
+        </div>
+      </div>
+
+      <KeyboardShortcutSettings />
+
+      <PermissionSettings />
+
+      <StorageSettings />
+
+      <CrashLogSettings />
+
+      <AuditTrailSettings />
     </div>
   );
 };
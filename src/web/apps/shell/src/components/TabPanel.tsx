@@ -1,30 +1,51 @@
 import React from 'react';
 import {
   makeStyles,
+  mergeClasses,
   tokens,
   shorthands,
   Button,
   Tab,
   TabList,
-  Menu,
-  MenuItem,
-  MenuList,
-  MenuPopover,
-  MenuTrigger,
+  Text,
+  Badge,
   Dropdown,
   Option,
+  Menu,
+  MenuTrigger,
+  MenuPopover,
+  MenuList,
+  MenuItem,
+  MenuDivider,
+  Tooltip,
 } from '@fluentui/react-components';
 import {
+  CopyRegular,
   DismissRegular,
-  MoreHorizontalRegular,
+  DismissSquareRegular,
+  PinOffRegular,
+  PinRegular,
   PlugConnectedRegular,
+  SplitVerticalRegular,
+  WarningRegular,
 } from '@fluentui/react-icons';
+import { DragDropProvider, type DragDropEvents } from '@dnd-kit/react';
+import { isSortable, useSortable } from '@dnd-kit/react/sortable';
 import { usePluginStore, type TabInstance } from '../stores/plugins';
 import { useConnectionStore } from '../stores/connections';
 import { PluginLoader } from '../utils/pluginLoader';
+import { IsolatedPluginLoader } from '../utils/isolatedPluginLoader';
+import { useDevEntryRevision } from '../hooks/useDevEntryRevision';
+import { useCrashLogStore } from '../stores/crashes';
+import { PluginErrorBoundary } from './PluginErrorBoundary';
+import { getPluginDiagnostics } from '../utils/pluginDiagnostics';
+import { PluginDiagnosticsList } from './PluginDiagnosticsList';
 import { ConnectionManager } from './ConnectionManager';
 import { Marketplace } from './Marketplace';
 import { Settings } from './Settings';
+import { WorkspaceSwitcher } from './WorkspaceSwitcher';
+import { ConnectionStatusBadge } from './ConnectionStatusBadge';
+import { ConnectionEnvironmentBadge } from './ConnectionEnvironmentBadge';
 
 const useStyles = makeStyles({
   container: {
@@ -52,6 +73,35 @@ const useStyles = makeStyles({
     position: 'relative',
     backgroundColor: tokens.colorNeutralBackground1,
   },
+  splitView: {
+    display: 'flex',
+    height: '100%',
+  },
+  splitPane: {
+    ...shorthands.flex(1),
+    minWidth: 0,
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.overflow('hidden'),
+  },
+  secondaryPane: {
+    ...shorthands.borderLeft('1px', 'solid', tokens.colorNeutralStroke1),
+  },
+  splitPaneHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    ...shorthands.gap(tokens.spacingHorizontalS),
+    ...shorthands.padding(tokens.spacingVerticalXXS, tokens.spacingHorizontalM),
+    backgroundColor: tokens.colorNeutralBackground3,
+    flexShrink: 0,
+  },
+  splitPaneContent: {
+    ...shorthands.flex(1),
+    minHeight: 0,
+  },
+  draggingTab: {
+    opacity: 0.5,
+  },
   tabIcon: {
     fontSize: tokens.fontSizeBase400,
     flexShrink: 0,
@@ -72,147 +122,371 @@ const useStyles = makeStyles({
     minWidth: 'auto',
     flexShrink: 0,
   },
+  pluginTab: {
+    display: 'flex',
+    flexDirection: 'column',
+    height: '100%',
+  },
+  pluginContent: {
+    ...shorthands.flex(1),
+    ...shorthands.overflow('auto'),
+    position: 'relative',
+  },
+  diagnostics: {
+    maxWidth: '800px',
+    ...shorthands.padding(tokens.spacingVerticalXL),
+  },
+  tabHeader: {
+    display: 'flex',
+    alignItems: 'center',
+    ...shorthands.gap(tokens.spacingHorizontalS),
+    ...shorthands.padding(tokens.spacingVerticalXS, tokens.spacingHorizontalM),
+    ...shorthands.borderBottom('1px', 'solid', tokens.colorNeutralStroke2),
+    backgroundColor: tokens.colorNeutralBackground2,
+    flexShrink: 0,
+  },
+  connectionPicker: {
+    minWidth: '220px',
+  },
+  connectionHint: {
+    color: tokens.colorNeutralForeground3,
+    minWidth: 0,
+  },
 });
 
 interface TabItemProps {
   tab: TabInstance;
-  isActive: boolean;
-  onActivate: () => void;
+  index: number;
+  isSplit: boolean;
   onClose: () => void;
-  onConnectionChange: (connectionId: string) => void;
 }
 
-const TabItem: React.FC<TabItemProps> = React.memo(({
-  tab,
-  isActive: _isActive,
-  onActivate: _onActivate,
-  onClose,
-  onConnectionChange,
-}) => {
+const TabItem: React.FC<TabItemProps> = React.memo(({ tab, index, isSplit, onClose }) => {
   const styles = useStyles();
   const connections = useConnectionStore((state) => state.connections);
+  const {
+    togglePinTab,
+    duplicateTab,
+    closeOtherTabs,
+    closeTabsToRight,
+    openInSplit,
+    closeSplit,
+  } = usePluginStore();
   const currentConnection = tab.connectionId ? connections.find((c) => c.id === tab.connectionId) : null;
+  const { ref, isDragging } = useSortable({ id: tab.instanceId, index });
+  const isPlugin = tab.type === 'plugin';
 
   return (
-    <Tab value={tab.instanceId}>
-      {tab.icon && <span className={styles.tabIcon}>{tab.icon}</span>}
-      <span className={styles.tabTitle}>{tab.title}</span>
-      {currentConnection && (
-        <span className={styles.connectionBadge}>({currentConnection.name})</span>
-      )}
-      {tab.type === 'plugin' && connections.length > 0 && (
-        <Menu>
-          <MenuTrigger disableButtonEnhancement>
+    <Menu openOnContext>
+      <MenuTrigger disableButtonEnhancement>
+        <Tab
+          ref={ref}
+          value={tab.instanceId}
+          className={isDragging ? styles.draggingTab : undefined}
+        >
+          {tab.pinned && <PinRegular className={styles.tabIcon} />}
+          {isSplit && <SplitVerticalRegular className={styles.tabIcon} />}
+          {tab.icon && <span className={styles.tabIcon}>{tab.icon}</span>}
+          <span className={styles.tabTitle}>{tab.title}</span>
+          {currentConnection && (
+            <span className={styles.connectionBadge}>({currentConnection.name})</span>
+          )}
+          {!tab.pinned && (
             <Button
               appearance="subtle"
-              icon={<MoreHorizontalRegular />}
+              icon={<DismissRegular />}
               size="small"
               className={styles.closeButton}
-              onClick={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                onClose();
+              }}
             />
-          </MenuTrigger>
-          <MenuPopover>
-            <MenuList>
-              <MenuItem icon={<PlugConnectedRegular />}>
-                <Dropdown
-                  placeholder="Change Connection"
-                  value={tab.connectionId || ''}
-                  onOptionSelect={(_, data) => {
-                    onConnectionChange(data.optionValue as string);
-                  }}
-                  onClick={(e) => e.stopPropagation()}
-                >
-                  {connections.map((conn) => (
-                    <Option key={conn.id} value={conn.id}>
-                      {conn.name}
-                    </Option>
-                  ))}
-                </Dropdown>
+          )}
+        </Tab>
+      </MenuTrigger>
+      <MenuPopover>
+        <MenuList>
+          <MenuItem
+            icon={tab.pinned ? <PinOffRegular /> : <PinRegular />}
+            onClick={() => togglePinTab(tab.instanceId)}
+          >
+            {tab.pinned ? 'Unpin Tab' : 'Pin Tab'}
+          </MenuItem>
+          {isPlugin && (
+            <>
+              <MenuItem icon={<CopyRegular />} onClick={() => duplicateTab(tab.instanceId)}>
+                Duplicate Tab
               </MenuItem>
-            </MenuList>
-          </MenuPopover>
-        </Menu>
-      )}
-      <Button
-        appearance="subtle"
-        icon={<DismissRegular />}
-        size="small"
-        className={styles.closeButton}
-        onClick={(e) => {
-          e.stopPropagation();
-          onClose();
-        }}
-      />
-    </Tab>
+              <Menu>
+                <MenuTrigger disableButtonEnhancement>
+                  <MenuItem icon={<PlugConnectedRegular />} disabled={connections.length === 0}>
+                    Duplicate with Connection
+                  </MenuItem>
+                </MenuTrigger>
+                <MenuPopover>
+                  <MenuList>
+                    {connections.map((conn) => (
+                      <MenuItem
+                        key={conn.id}
+                        disabled={conn.id === tab.connectionId}
+                        onClick={() => duplicateTab(tab.instanceId, conn.id)}
+                      >
+                        {conn.name}
+                      </MenuItem>
+                    ))}
+                  </MenuList>
+                </MenuPopover>
+              </Menu>
+            </>
+          )}
+          {isSplit ? (
+            <MenuItem icon={<DismissSquareRegular />} onClick={closeSplit}>
+              Close Split View
+            </MenuItem>
+          ) : (
+            <MenuItem icon={<SplitVerticalRegular />} onClick={() => openInSplit(tab.instanceId)}>
+              Open in Split View
+            </MenuItem>
+          )}
+          <MenuDivider />
+          <MenuItem icon={<DismissRegular />} onClick={onClose}>
+            Close
+          </MenuItem>
+          <MenuItem onClick={() => closeOtherTabs(tab.instanceId)}>Close Others</MenuItem>
+          <MenuItem onClick={() => closeTabsToRight(tab.instanceId)}>Close Tabs to the Right</MenuItem>
+        </MenuList>
+      </MenuPopover>
+    </Menu>
   );
 });
 
 TabItem.displayName = 'TabItem';
 
-export const TabPanel: React.FC = () => {
+interface PluginTabHeaderProps {
+  tab: TabInstance;
+  onConnectionChange: (connectionId: string) => void;
+}
+
+/**
+ * Header of a plugin tab with the picker for the connection the tab is bound to.
+ */
+const PluginTabHeader: React.FC<PluginTabHeaderProps> = ({ tab, onConnectionChange }) => {
   const styles = useStyles();
-  const { tabs, activeTabId, setActiveTab, updateTab, removeTab } = usePluginStore();
-  const activeTab = tabs.find((t) => t.instanceId === activeTabId);
+  const connections = useConnectionStore((state) => state.connections);
+  const currentConnection = tab.connectionId ? connections.find((c) => c.id === tab.connectionId) : null;
+  const isMissing = !!tab.connectionId && !currentConnection;
 
-  const renderTabContent = () => {
-    if (!activeTab) return null;
-
-    if (activeTab.type === 'system') {
-      switch (activeTab.systemView) {
-        case 'connections':
-          return <ConnectionManager />;
-        case 'marketplace':
-          return <Marketplace />;
-        case 'settings':
-          return <Settings />;
-        default:
-          return null;
-      }
-    }
+  return (
+    <div className={styles.tabHeader}>
+      <PlugConnectedRegular className={styles.tabIcon} />
+      <Text size={200} weight="semibold">Connection</Text>
+      <Dropdown
+        size="small"
+        className={styles.connectionPicker}
+        placeholder={connections.length > 0 ? 'Select a connection' : 'No connections configured'}
+        disabled={connections.length === 0}
+        value={currentConnection?.name ?? ''}
+        selectedOptions={tab.connectionId ? [tab.connectionId] : []}
+        onOptionSelect={(_, data) => {
+          if (data.optionValue) onConnectionChange(data.optionValue);
+        }}
+      >
+        {connections.map((conn) => (
+          <Option key={conn.id} value={conn.id} text={conn.name}>
+            {conn.name}
+            {!conn.isAuthenticated && (
+              <Text size={200} className={styles.connectionHint}> (not signed in)</Text>
+            )}
+          </Option>
+        ))}
+      </Dropdown>
+      {currentConnection && <ConnectionEnvironmentBadge connection={currentConnection} />}
+      {currentConnection && <ConnectionStatusBadge connection={currentConnection} />}
+      {currentConnection && (
+        <Text size={200} className={styles.connectionHint} truncate wrap={false}>
+          {currentConnection.url}
+        </Text>
+      )}
+      {isMissing && (
+        <Badge appearance="tint" color="danger" icon={<WarningRegular />}>
+          Connection was removed
+        </Badge>
+      )}
+    </div>
+  );
+};
+
+interface TabContentProps {
+  tab: TabInstance;
+  /** Bumped to load the plugin UI again from scratch */
+  reloadCount: number;
+  onReload: () => void;
+}
 
-    // Plugin tab
-    if (activeTab.remoteEntry && activeTab.scope && activeTab.module) {
-      return (
-        <PluginLoader
-          remoteEntry={activeTab.remoteEntry}
-          scope={activeTab.scope}
-          module={activeTab.module}
-          instanceId={activeTab.instanceId}
-          connectionId={activeTab.connectionId}
-        />
-      );
+/**
+ * Content of one tab: a system view, or the plugin UI below its connection header.
+ */
+const TabContent: React.FC<TabContentProps> = ({ tab, reloadCount, onReload }) => {
+  const styles = useStyles();
+  const availablePlugins = usePluginStore((state) => state.availablePlugins);
+  const updateTab = usePluginStore((state) => state.updateTab);
+  const recordCrash = useCrashLogStore((state) => state.recordCrash);
+  const plugin = tab.pluginId ? availablePlugins.find((p) => p.id === tab.pluginId) : undefined;
+
+  // Tabs served from the plugin's dev server remount when it rebuilds the plugin
+  const devEntry = (plugin?.manifest?.ui as { devEntry?: unknown } | null | undefined)?.devEntry;
+  const devRevision = useDevEntryRevision(tab.remoteEntry, !!tab.remoteEntry && tab.remoteEntry === devEntry);
+
+  const { instanceId, pluginId } = tab;
+  const pluginVersion = plugin?.version ?? null;
+  const handleLoadError = React.useCallback((error: Error) => {
+    if (!pluginId) return;
+    recordCrash({
+      pluginId,
+      pluginVersion,
+      instanceId,
+      phase: 'load',
+      message: error.message,
+      stack: error.stack,
+    });
+  }, [recordCrash, instanceId, pluginId, pluginVersion]);
+
+  if (tab.type === 'system') {
+    switch (tab.systemView) {
+      case 'connections':
+        return <ConnectionManager />;
+      case 'marketplace':
+        return <Marketplace />;
+      case 'settings':
+        return <Settings />;
+      default:
+        return null;
     }
+  }
 
+  if (!tab.pluginId || !tab.remoteEntry || !tab.scope || !tab.module) {
     return null;
+  }
+
+  const blockingDiagnostics = plugin
+    ? getPluginDiagnostics(plugin).filter((d) => d.severity === 'error')
+    : [];
+  return (
+    <div className={styles.pluginTab}>
+      <PluginTabHeader
+        tab={tab}
+        onConnectionChange={(connectionId) => updateTab(tab.instanceId, { connectionId })}
+      />
+      <div className={styles.pluginContent}>
+        {blockingDiagnostics.length > 0 ? (
+          <div className={styles.diagnostics}>
+            <PluginDiagnosticsList diagnostics={blockingDiagnostics} title="This plugin cannot be loaded" />
+          </div>
+        ) : (
+          <PluginErrorBoundary
+            key={`${tab.instanceId}:${reloadCount}:${devRevision}`}
+            pluginId={tab.pluginId}
+            pluginVersion={pluginVersion}
+            instanceId={tab.instanceId}
+            onReload={onReload}
+          >
+            {tab.uiMode === 'isolated' ? (
+              <IsolatedPluginLoader
+                entry={tab.remoteEntry}
+                pluginId={tab.pluginId}
+                instanceId={tab.instanceId}
+                connectionId={tab.connectionId}
+              />
+            ) : (
+              <PluginLoader
+                remoteEntry={tab.remoteEntry}
+                scope={tab.scope}
+                module={tab.module}
+                pluginId={tab.pluginId}
+                instanceId={tab.instanceId}
+                connectionId={tab.connectionId}
+                onError={handleLoadError}
+                onReload={onReload}
+              />
+            )}
+          </PluginErrorBoundary>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export const TabPanel: React.FC = () => {
+  const styles = useStyles();
+  const { tabs, activeTabId, splitTabId, setActiveTab, removeTab, moveTab, closeSplit } = usePluginStore();
+  const activeTab = tabs.find((t) => t.instanceId === activeTabId);
+  const splitTab = tabs.find((t) => t.instanceId === splitTabId);
+
+  // Bumped to load a tab's plugin UI again from scratch
+  const [reloadCounts, setReloadCounts] = React.useState<Record<string, number>>({});
+  const reloadTab = React.useCallback((instanceId: string) => {
+    setReloadCounts((counts) => ({ ...counts, [instanceId]: (counts[instanceId] ?? 0) + 1 }));
+  }, []);
+
+  const handleDragEnd: DragDropEvents['dragend'] = (event) => {
+    const { source } = event.operation;
+    if (event.canceled || !isSortable(source)) return;
+    moveTab(String(source.id), source.sortable.index);
   };
 
+  const renderTab = (tab: TabInstance) => (
+    <TabContent
+      key={tab.instanceId}
+      tab={tab}
+      reloadCount={reloadCounts[tab.instanceId] ?? 0}
+      onReload={() => reloadTab(tab.instanceId)}
+    />
+  );
+
   return (
     <div className={styles.container}>
-      {tabs.length > 0 && (
-        <div className={styles.tabBar}>
+      <div className={styles.tabBar}>
+        <DragDropProvider onDragEnd={handleDragEnd}>
           <TabList
             className={styles.tabList}
             selectedValue={activeTabId || undefined}
             onTabSelect={(_, data) => setActiveTab(data.value as string)}
           >
-            {tabs.map((tab) => (
+            {tabs.map((tab, index) => (
               <TabItem
                 key={tab.instanceId}
                 tab={tab}
-                isActive={tab.instanceId === activeTabId}
-                onActivate={() => setActiveTab(tab.instanceId)}
+                index={index}
+                isSplit={tab.instanceId === splitTabId}
                 onClose={() => removeTab(tab.instanceId)}
-                onConnectionChange={(connectionId) =>
-                  updateTab(tab.instanceId, { connectionId })
-                }
               />
             ))}
           </TabList>
-        </div>
-      )}
+        </DragDropProvider>
+        <WorkspaceSwitcher />
+      </div>
 
       <div className={styles.tabContent}>
-        {renderTabContent()}
+        {activeTab && splitTab ? (
+          <div className={styles.splitView}>
+            <div className={styles.splitPane}>{renderTab(activeTab)}</div>
+            <div className={mergeClasses(styles.splitPane, styles.secondaryPane)}>
+              <div className={styles.splitPaneHeader}>
+                <SplitVerticalRegular className={styles.tabIcon} />
+                <Text size={200} weight="semibold" truncate wrap={false} className={styles.tabTitle}>
+                  {splitTab.title}
+                </Text>
+                <Tooltip content="Close split view" relationship="label">
+                  <Button appearance="subtle" size="small" icon={<DismissRegular />} onClick={closeSplit} />
+                </Tooltip>
+              </div>
+              <div className={styles.splitPaneContent}>{renderTab(splitTab)}</div>
+            </div>
+          </div>
+        ) : (
+          activeTab && renderTab(activeTab)
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import {
+  MessageBar,
+  MessageBarBody,
+  MessageBarTitle,
+  MessageBarActions,
+  Button,
+  Spinner,
+  makeStyles,
+  tokens,
+  shorthands,
+} from '@fluentui/react-components';
+import { ArrowClockwiseRegular, DismissRegular, PersonRegular } from '@fluentui/react-icons';
+import { useConnectionStore } from '../stores/connections';
+import { useNow } from '../hooks/useNow';
+import { formatTimeUntil, getConnectionStatus } from '../utils/connectionStatus';
+import { shellBridge } from '../utils/shellBridge';
+
+const useStyles = makeStyles({
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    ...shorthands.gap(tokens.spacingVerticalXS),
+    ...shorthands.padding(tokens.spacingVerticalXS, tokens.spacingHorizontalS),
+    flexShrink: 0,
+  },
+});
+
+/**
+ * Warns before the token of a signed-in connection expires and offers to
+ * extend the session silently, or to sign in again when that is not possible.
+ */
+export const TokenExpiryWarning: React.FC = () => {
+  const styles = useStyles();
+  const { connections, refreshToken, loadConnections } = useConnectionStore();
+  const now = useNow(15_000);
+  // Keyed by token expiry, so a dismissed warning returns for the next token
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState<string | null>(null);
+  const [errors, setErrors] = useState<Record<string, string>>({});
+
+  const expiring = connections.filter((c) => {
+    const status = getConnectionStatus(c, now);
+    return (status === 'expiring' || status === 'expired') && !dismissed.has(`${c.id}:${c.expiresOn}`);
+  });
+
+  if (expiring.length === 0) return null;
+
+  const run = async (connectionId: string, action: () => Promise<{ success: boolean; error?: string }>) => {
+    setBusy(connectionId);
+    try {
+      const result = await action();
+      setErrors(({ [connectionId]: _, ...rest }) =>
+        result.success ? rest : { ...rest, [connectionId]: result.error || 'Could not refresh the session' }
+      );
+    } catch (err) {
+      setErrors((prev) => ({ ...prev, [connectionId]: err instanceof Error ? err.message : String(err) }));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const signIn = (connectionId: string) =>
+    run(connectionId, async () => {
+      const result = await shellBridge.reauthenticate(connectionId);
+      if (result.success) await loadConnections();
+      return result;
+    });
+
+  return (
+    <div className={styles.container}>
+      {expiring.map((connection) => {
+        const expired = getConnectionStatus(connection, now) === 'expired';
+        const error = errors[connection.id];
+        const isBusy = busy === connection.id;
+        return (
+          <MessageBar key={connection.id} intent={expired || error ? 'error' : 'warning'}>
+            <MessageBarBody>
+              <MessageBarTitle>{connection.name}</MessageBarTitle>
+              {expired
+                ? 'The session has expired.'
+                : `The session expires ${formatTimeUntil(connection.expiresOn!, now)}.`}
+              {error && ` ${error} Sign in again to continue.`}
+            </MessageBarBody>
+            <MessageBarActions
+              containerAction={
+                <Button
+                  appearance="transparent"
+                  size="small"
+                  icon={<DismissRegular />}
+                  aria-label="Dismiss"
+                  onClick={() => setDismissed((prev) => new Set(prev).add(`${connection.id}:${connection.expiresOn}`))}
+                />
+              }
+            >
+              {!error && (
+                <Button
+                  size="small"
+                  icon={isBusy ? <Spinner size="extra-tiny" /> : <ArrowClockwiseRegular />}
+                  disabled={isBusy}
+                  onClick={() => run(connection.id, () => refreshToken(connection.id))}
+                >
+                  Refresh session
+                </Button>
+              )}
+              <Button size="small" icon={<PersonRegular />} disabled={isBusy} onClick={() => signIn(connection.id)}>
+                Sign in
+              </Button>
+            </MessageBarActions>
+          </MessageBar>
+        );
+      })}
+    </div>
+  );
+};
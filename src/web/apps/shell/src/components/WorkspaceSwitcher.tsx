@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import {
+  Menu,
+  MenuTrigger,
+  MenuPopover,
+  MenuList,
+  MenuItemRadio,
+  MenuItem,
+  MenuDivider,
+  MenuGroup,
+  MenuGroupHeader,
+  Button,
+  Dialog,
+  DialogSurface,
+  DialogTitle,
+  DialogBody,
+  DialogActions,
+  DialogContent,
+  Field,
+  Input,
+  makeStyles,
+  tokens,
+  shorthands,
+} from '@fluentui/react-components';
+import {
+  AddRegular,
+  DeleteRegular,
+  EditRegular,
+  GridRegular,
+} from '@fluentui/react-icons';
+import { useWorkspaceStore } from '../stores/workspaces';
+
+const useStyles = makeStyles({
+  trigger: {
+    flexShrink: 0,
+    maxWidth: '220px',
+    ...shorthands.margin(0, tokens.spacingHorizontalS),
+  },
+});
+
+type NameDialogMode = 'create' | 'rename' | null;
+
+/**
+ * Tab bar menu to switch between, create, rename and delete workspaces.
+ */
+export const WorkspaceSwitcher: React.FC = () => {
+  const styles = useStyles();
+  const {
+    workspaces,
+    currentWorkspaceId,
+    switchWorkspace,
+    createWorkspace,
+    renameWorkspace,
+    deleteWorkspace,
+  } = useWorkspaceStore();
+  const current = workspaces.find((w) => w.id === currentWorkspaceId);
+  const [dialogMode, setDialogMode] = useState<NameDialogMode>(null);
+  const [name, setName] = useState('');
+
+  const openDialog = (mode: NameDialogMode) => {
+    setName(mode === 'rename' ? current?.name ?? '' : '');
+    setDialogMode(mode);
+  };
+
+  const handleSubmit = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    if (dialogMode === 'create') {
+      createWorkspace(trimmed);
+    } else if (dialogMode === 'rename' && current) {
+      renameWorkspace(current.id, trimmed);
+    }
+    setDialogMode(null);
+  };
+
+  return (
+    <>
+      <Menu
+        checkedValues={{ workspace: [currentWorkspaceId] }}
+        onCheckedValueChange={(_, data) => {
+          if (data.checkedItems[0]) switchWorkspace(data.checkedItems[0]);
+        }}
+      >
+        <MenuTrigger disableButtonEnhancement>
+          <Button appearance="subtle" icon={<GridRegular />} className={styles.trigger}>
+            {current?.name ?? 'Workspace'}
+          </Button>
+        </MenuTrigger>
+        <MenuPopover>
+          <MenuList>
+            <MenuGroup>
+              <MenuGroupHeader>Workspaces</MenuGroupHeader>
+              {workspaces.map((w) => (
+                <MenuItemRadio key={w.id} name="workspace" value={w.id}>
+                  {w.name}
+                </MenuItemRadio>
+              ))}
+            </MenuGroup>
+            <MenuDivider />
+            <MenuItem icon={<AddRegular />} onClick={() => openDialog('create')}>
+              New workspace...
+            </MenuItem>
+            <MenuItem icon={<EditRegular />} onClick={() => openDialog('rename')}>
+              Rename workspace...
+            </MenuItem>
+            <MenuItem
+              icon={<DeleteRegular />}
+              disabled={workspaces.length === 1}
+              onClick={() => deleteWorkspace(currentWorkspaceId)}
+            >
+              Delete workspace
+            </MenuItem>
+          </MenuList>
+        </MenuPopover>
+      </Menu>
+
+      <Dialog open={dialogMode !== null} onOpenChange={(_, data) => !data.open && setDialogMode(null)}>
+        <DialogSurface>
+          <DialogBody>
+            <DialogTitle>{dialogMode === 'create' ? 'New Workspace' : 'Rename Workspace'}</DialogTitle>
+            <DialogContent>
+              <Field label="Name" required>
+                <Input
+                  value={name}
+                  autoFocus
+                  onChange={(_, data) => setName(data.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+                />
+              </Field>
+            </DialogContent>
+            <DialogActions>
+              <Button appearance="secondary" onClick={() => setDialogMode(null)}>
+                Cancel
+              </Button>
+              <Button appearance="primary" disabled={!name.trim()} onClick={handleSubmit}>
+                {dialogMode === 'create' ? 'Create' : 'Rename'}
+              </Button>
+            </DialogActions>
+          </DialogBody>
+        </DialogSurface>
+      </Dialog>
+    </>
+  );
+};
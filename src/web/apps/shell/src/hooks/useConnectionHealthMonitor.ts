@@ -0,0 +1,35 @@
+import { useEffect } from 'react';
+import { useConnectionStore } from '../stores/connections';
+import { usePluginStore } from '../stores/plugins';
+
+const HEALTH_CHECK_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Checks the health of the connections in use, the active one and those bound
+ * to open tabs, when they are signed in and then every few minutes.
+ */
+export const useConnectionHealthMonitor = () => {
+  const activeConnectionId = useConnectionStore((state) => state.activeConnectionId);
+  // Signing in to a connection checks it right away
+  const authenticatedIds = useConnectionStore((state) =>
+    state.connections.filter((c) => c.isAuthenticated).map((c) => c.id).join(',')
+  );
+  const tabConnectionIds = usePluginStore((state) =>
+    [...new Set(state.tabs.map((t) => t.connectionId).filter(Boolean))].sort().join(',')
+  );
+
+  useEffect(() => {
+    const checkConnectionsInUse = () => {
+      const { checkHealth } = useConnectionStore.getState();
+      const inUse = new Set([activeConnectionId, ...tabConnectionIds.split(',')]);
+      authenticatedIds
+        .split(',')
+        .filter((id) => id && inUse.has(id))
+        .forEach((id) => checkHealth(id));
+    };
+
+    checkConnectionsInUse();
+    const timer = setInterval(checkConnectionsInUse, HEALTH_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [activeConnectionId, tabConnectionIds, authenticatedIds]);
+};
@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+
+/** How often the dev server is asked whether the plugin was rebuilt */
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * Returns a revision that increases whenever the file served at `entry`
+ * changes, so a plugin tab served from its dev server can remount after a
+ * rebuild. Polls only while `enabled`.
+ */
+export const useDevEntryRevision = (entry: string | undefined, enabled: boolean): number => {
+  const [revision, setRevision] = useState(0);
+
+  useEffect(() => {
+    if (!entry || !enabled) return;
+
+    let cancelled = false;
+    let polling = false;
+    let previous: string | undefined;
+
+    const poll = async () => {
+      if (polling) return;
+      polling = true;
+      try {
+        const response = await fetch(entry, { cache: 'no-store' });
+        if (!response.ok) return;
+        const content = await response.text();
+        if (cancelled) return;
+        if (previous !== undefined && content !== previous) {
+          console.info('[DevEntry] Plugin rebuilt, reloading:', entry);
+          setRevision((r) => r + 1);
+        }
+        previous = content;
+      } catch {
+        // The dev server is restarting; keep the last known content
+      } finally {
+        polling = false;
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, POLL_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [entry, enabled]);
+
+  return revision;
+};
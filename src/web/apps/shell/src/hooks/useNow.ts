@@ -0,0 +1,15 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * Current time in milliseconds, updated every `intervalMs`, for countdowns.
+ */
+export const useNow = (intervalMs = 30_000): number => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+};
@@ -0,0 +1,77 @@
+import { useState, useEffect, useCallback } from 'react';
+import { type CatalogPlugin, type ProgressUpdate } from '@ddk/host-sdk';
+import { usePluginStore } from '../stores/plugins';
+import { shellBridge } from '../utils/shellBridge';
+
+export type CatalogAction = 'install' | 'update' | 'uninstall';
+
+export interface CatalogOperation {
+  action: CatalogAction;
+  progress: ProgressUpdate | null;
+}
+
+/**
+ * Loads a plugin catalog feed and drives install, update and uninstall
+ * of its plugins, keeping the list of installed plugins in sync.
+ */
+export const usePluginCatalog = (source: string | null, enabled: boolean) => {
+  const setAvailablePlugins = usePluginStore((state) => state.setAvailablePlugins);
+  const [catalog, setCatalog] = useState<CatalogPlugin[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [operations, setOperations] = useState<Record<string, CatalogOperation>>({});
+
+  const loadCatalog = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setCatalog(await shellBridge.getPluginCatalog(source ?? undefined));
+    } catch (err) {
+      setCatalog([]);
+      setError(err instanceof Error ? err.message : 'Failed to load plugin catalog');
+    } finally {
+      setLoading(false);
+    }
+  }, [source]);
+
+  useEffect(() => {
+    if (enabled) loadCatalog();
+  }, [enabled, loadCatalog]);
+
+  const run = useCallback(async (pluginId: string, action: CatalogAction) => {
+    const onProgress = (progress: ProgressUpdate) =>
+      setOperations((prev) => ({ ...prev, [pluginId]: { action, progress } }));
+
+    setOperations((prev) => ({ ...prev, [pluginId]: { action, progress: null } }));
+    setError(null);
+    try {
+      if (action === 'install') {
+        await shellBridge.installPlugin(pluginId, { source: source ?? undefined, onProgress });
+      } else if (action === 'update') {
+        await shellBridge.updatePlugin(pluginId, { source: source ?? undefined, onProgress });
+      } else {
+        await shellBridge.uninstallPlugin(pluginId);
+      }
+      setAvailablePlugins(await shellBridge.listPlugins());
+      await loadCatalog();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} ${pluginId}`);
+    } finally {
+      setOperations((prev) => {
+        const { [pluginId]: _done, ...rest } = prev;
+        return rest;
+      });
+    }
+  }, [source, loadCatalog, setAvailablePlugins]);
+
+  return {
+    catalog,
+    loading,
+    error,
+    operations,
+    reload: loadCatalog,
+    install: (pluginId: string) => run(pluginId, 'install'),
+    update: (pluginId: string) => run(pluginId, 'update'),
+    uninstall: (pluginId: string) => run(pluginId, 'uninstall'),
+  };
+};
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { type PluginCommand, type PluginMetadata } from '@ddk/host-sdk';
+import { shellBridge } from '../utils/shellBridge';
+
+export interface PluginCommandEntry {
+  plugin: PluginMetadata;
+  command: PluginCommand;
+}
+
+// Commands only change with the plugin version, so they are fetched once per version
+const commandCache = new Map<string, Promise<PluginCommand[]>>();
+
+// From the plugin's metadata or else fetched from the host; rejects if the host can't tell
+const loadCommands = (plugin: PluginMetadata): Promise<PluginCommand[]> => {
+  if (plugin.commands.length > 0) return Promise.resolve(plugin.commands);
+
+  const key = `${plugin.id}@${plugin.version}`;
+  let commands = commandCache.get(key);
+  if (!commands) {
+    commands = shellBridge.getPluginCommands(plugin.id).catch((error) => {
+      commandCache.delete(key);
+      throw error;
+    });
+    commandCache.set(key, commands);
+  }
+  return commands;
+};
+
+/**
+ * Commands contributed by the given plugins. Loads them while `enabled`.
+ */
+export const usePluginCommands = (plugins: PluginMetadata[], enabled: boolean): PluginCommandEntry[] => {
+  const [entries, setEntries] = useState<PluginCommandEntry[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let cancelled = false;
+    Promise.all(plugins.map(async (plugin) => {
+      try {
+        return (await loadCommands(plugin)).map((command) => ({ plugin, command }));
+      } catch (error) {
+        console.error(`Failed to load commands of ${plugin.id}:`, error);
+        return [];
+      }
+    })).then((perPlugin) => {
+      if (!cancelled) setEntries(perPlugin.flat());
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [plugins, enabled]);
+
+  return entries;
+};
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
-import { hostBridge } from '@ddk/host-sdk';
 import { usePluginStore } from '../stores/plugins';
+import { shellBridge } from '../utils/shellBridge';
 
 export const usePlugins = () => {
   const { availablePlugins, setAvailablePlugins } = usePluginStore();
@@ -20,7 +20,7 @@ export const usePlugins = () => {
       setError(null);
 
       try {
-        const plugins = await hostBridge.listPlugins();
+        const plugins = await shellBridge.listPlugins();
         if (mounted) {
           setAvailablePlugins(plugins);
         }
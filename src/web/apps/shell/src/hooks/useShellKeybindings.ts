@@ -0,0 +1,99 @@
+import { useEffect, useRef } from 'react';
+import { keybindings, type KeybindingRegistration } from '@ddk/host-sdk';
+import { usePluginStore } from '../stores/plugins';
+import { useSettingsStore } from '../stores/settings';
+
+const TAB_NAVIGATION = 'Tabs';
+
+/** Activates the tab `offset` positions away from the active one, wrapping around */
+const cycleTab = (offset: number) => {
+  const { tabs, activeTabId, setActiveTab } = usePluginStore.getState();
+  if (tabs.length === 0) return;
+  const index = tabs.findIndex((t) => t.instanceId === activeTabId);
+  const next = (index + offset + tabs.length) % tabs.length;
+  setActiveTab(tabs[next].instanceId);
+};
+
+/**
+ * Listens for keyboard shortcuts and registers the shell's own: tab navigation,
+ * closing and reopening tabs, and the command palette. Keeps the registry in
+ * sync with the user's overrides and the active tab.
+ */
+export const useShellKeybindings = (toggleCommandPalette: () => void) => {
+  const overrides = useSettingsStore((state) => state.settings.keybindings);
+  const activeTabId = usePluginStore((state) => state.activeTabId);
+  const toggleRef = useRef(toggleCommandPalette);
+  toggleRef.current = toggleCommandPalette;
+
+  useEffect(() => keybindings.attach(), []);
+
+  useEffect(() => {
+    keybindings.setOverrides(overrides ?? {});
+  }, [overrides]);
+
+  useEffect(() => {
+    keybindings.setActiveTab(activeTabId);
+  }, [activeTabId]);
+
+  useEffect(() => {
+    const bindings: KeybindingRegistration[] = [
+      {
+        id: 'shell.commandPalette',
+        title: 'Command Palette',
+        category: 'Shell',
+        defaultKeys: 'Ctrl+K',
+        allowInEditable: true,
+        handler: () => toggleRef.current(),
+      },
+      {
+        id: 'tabs.next',
+        title: 'Next Tab',
+        category: TAB_NAVIGATION,
+        defaultKeys: 'Ctrl+Tab',
+        allowInEditable: true,
+        handler: () => cycleTab(1),
+      },
+      {
+        id: 'tabs.previous',
+        title: 'Previous Tab',
+        category: TAB_NAVIGATION,
+        defaultKeys: 'Ctrl+Shift+Tab',
+        allowInEditable: true,
+        handler: () => cycleTab(-1),
+      },
+      {
+        id: 'tabs.close',
+        title: 'Close Tab',
+        category: TAB_NAVIGATION,
+        defaultKeys: 'Ctrl+W',
+        allowInEditable: true,
+        handler: () => {
+          const { activeTabId: tabId, removeTab } = usePluginStore.getState();
+          if (tabId) removeTab(tabId);
+        },
+      },
+      {
+        id: 'tabs.reopen',
+        title: 'Reopen Closed Tab',
+        category: TAB_NAVIGATION,
+        defaultKeys: 'Ctrl+Shift+T',
+        allowInEditable: true,
+        handler: () => usePluginStore.getState().reopenClosedTab(),
+      },
+      ...Array.from({ length: 9 }, (_, i): KeybindingRegistration => ({
+        id: `tabs.goTo${i + 1}`,
+        title: `Go to Tab ${i + 1}`,
+        category: TAB_NAVIGATION,
+        defaultKeys: `Alt+${i + 1}`,
+        allowInEditable: true,
+        handler: () => {
+          const { tabs, setActiveTab } = usePluginStore.getState();
+          if (tabs[i]) setActiveTab(tabs[i].instanceId);
+        },
+      })),
+    ];
+
+    const unregister = bindings.map((binding) => keybindings.register(binding));
+    return () => unregister.forEach((fn) => fn());
+  }, []);
+};
@@ -0,0 +1,28 @@
+import { useEffect, useState } from 'react';
+import { webDarkTheme, webLightTheme, type Theme } from '@fluentui/react-components';
+import { useSettingsStore } from '../stores/settings';
+
+const prefersDark = () => window.matchMedia('(prefers-color-scheme: dark)').matches;
+
+/**
+ * Returns the Fluent theme picked in Settings, following the OS when set to "system".
+ */
+export const useShellTheme = (): Theme => {
+  const themeSetting = useSettingsStore((state) => state.settings.theme);
+  const [systemDark, setSystemDark] = useState(prefersDark);
+
+  useEffect(() => {
+    // Listen for system theme changes
+    if (themeSetting !== 'system') return;
+
+    setSystemDark(prefersDark());
+    const mediaQuery = window.matchMedia('(prefers-color-scheme: dark)');
+    const handler = (e: MediaQueryListEvent) => setSystemDark(e.matches);
+    mediaQuery.addEventListener('change', handler);
+    return () => mediaQuery.removeEventListener('change', handler);
+  }, [themeSetting]);
+
+  if (themeSetting === 'light') return webLightTheme;
+  if (themeSetting === 'system') return systemDark ? webDarkTheme : webLightTheme;
+  return webDarkTheme;
+};
@@ -1,5 +1,20 @@
 import { create } from 'zustand';
-import type { ConnectionInfo } from '@ddk/host-sdk';
+import {
+  type AuthResult,
+  type ConnectionDefinition,
+  type ConnectionEnvironment,
+  type ConnectionHealth,
+  type ConnectionInfo,
+} from '@ddk/host-sdk';
+import { findConnectionByUrl } from '../utils/connectionEnvironments';
+import { shellBridge } from '../utils/shellBridge';
+
+export interface ConnectionImportResult {
+  added: number;
+  /** Connections whose URL was already configured */
+  skipped: number;
+  errors: string[];
+}
 
 interface ConnectionState {
   connections: ConnectionInfo[];
@@ -8,9 +23,19 @@ interface ConnectionState {
   addConnection: (connection: ConnectionInfo) => void;
   removeConnection: (id: string) => void;
   setActiveConnection: (id: string | null) => void;
+  updateConnection: (id: string, updates: Partial<ConnectionInfo>) => void;
+  loadConnections: () => Promise<void>;
+  /** Checks the connection's environment and stores the result on the connection */
+  checkHealth: (id: string) => Promise<ConnectionHealth | null>;
+  /** Extends the connection's session without signing in again */
+  refreshToken: (id: string) => Promise<AuthResult>;
+  /** Tags the connection with an environment, or removes the tag when null */
+  setEnvironment: (id: string, environment: ConnectionEnvironment | null) => Promise<void>;
+  /** Adds exported connection definitions, skipping URLs that are already configured */
+  importConnections: (definitions: ConnectionDefinition[]) => Promise<ConnectionImportResult>;
 }
 
-export const useConnectionStore = create<ConnectionState>((set) => ({
+export const useConnectionStore = create<ConnectionState>((set, get) => ({
   connections: [],
   activeConnectionId: null,
   setConnections: (connections) => set({ connections }),
@@ -22,4 +47,58 @@ export const useConnectionStore = create<ConnectionState>((set) => ({
       activeConnectionId: state.activeConnectionId === id ? null : state.activeConnectionId,
     })),
   setActiveConnection: (id) => set({ activeConnectionId: id }),
+  updateConnection: (id, updates) =>
+    set((state) => ({
+      connections: state.connections.map((c) => (c.id === id ? { ...c, ...updates } : c)),
+    })),
+  loadConnections: async () => {
+    try {
+      const connections = await shellBridge.listConnections();
+      const active = connections.find((c) => c.isActive);
+      set((state) => ({
+        connections,
+        activeConnectionId: active?.id ?? state.activeConnectionId,
+      }));
+    } catch (error) {
+      console.error('Failed to load connections:', error);
+    }
+  },
+  checkHealth: async (id) => {
+    try {
+      const health = await shellBridge.checkConnectionHealth(id);
+      get().updateConnection(id, { health });
+      return health;
+    } catch (error) {
+      console.error('Failed to check connection health:', error);
+      return null;
+    }
+  },
+  refreshToken: async (id) => {
+    const result = await shellBridge.refreshToken(id);
+    if (result.success) {
+      get().updateConnection(id, { isAuthenticated: true, authenticatedUser: result.user, expiresOn: result.expiresOn });
+    }
+    return result;
+  },
+  setEnvironment: async (id, environment) => {
+    const connection = await shellBridge.updateConnection({ id, environment: environment ?? '' });
+    get().updateConnection(id, { environment: connection.environment });
+  },
+  importConnections: async (definitions) => {
+    const result: ConnectionImportResult = { added: 0, skipped: 0, errors: [] };
+    for (const definition of definitions) {
+      if (findConnectionByUrl(get().connections, definition.url)) {
+        result.skipped++;
+        continue;
+      }
+      try {
+        const connection = await shellBridge.addConnection({ ...definition, authType: definition.authType ?? 'OAuth' });
+        get().addConnection(connection);
+        result.added++;
+      } catch (error) {
+        result.errors.push(`${definition.name}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+    return result;
+  },
 }));
@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+
+/** Plugin tab crashes kept in the log; older ones are dropped */
+const MAX_CRASHES = 50;
+
+/** `load` for failures fetching the plugin's UI, `render` for exceptions thrown while rendering it */
+export type CrashPhase = 'load' | 'render';
+
+export interface CrashReport {
+  id: string;
+  pluginId: string;
+  pluginVersion: string | null;
+  instanceId: string;
+  phase: CrashPhase;
+  message: string;
+  stack?: string;
+  /** React component stack of render crashes */
+  componentStack?: string;
+  occurredAt: string;
+}
+
+interface CrashLogState {
+  crashes: CrashReport[];
+  recordCrash: (crash: Omit<CrashReport, 'id' | 'occurredAt'>) => CrashReport;
+  removeCrash: (id: string) => void;
+  clearCrashes: () => void;
+}
+
+/**
+ * Local log of plugin tab crashes, newest first, shown in Settings.
+ */
+export const useCrashLogStore = create<CrashLogState>()(
+  persist(
+    (set) => ({
+      crashes: [],
+      recordCrash: (crash) => {
+        const report: CrashReport = {
+          ...crash,
+          id: `crash-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+          occurredAt: new Date().toISOString(),
+        };
+        set((state) => ({ crashes: [report, ...state.crashes].slice(0, MAX_CRASHES) }));
+        return report;
+      },
+      removeCrash: (id) => set((state) => ({ crashes: state.crashes.filter((c) => c.id !== id) })),
+      clearCrashes: () => set({ crashes: [] }),
+    }),
+    {
+      name: 'ddk-crash-log',
+      storage: createJSONStorage(() => localStorage),
+    }
+  )
+);
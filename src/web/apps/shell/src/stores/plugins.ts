@@ -1,5 +1,7 @@
 import { create } from 'zustand';
-import type { PluginMetadata } from '@ddk/host-sdk';
+import { type PluginMetadata, type PluginUiMode } from '@ddk/host-sdk';
+import { SYSTEM_VIEWS } from '../utils/systemViews';
+import { shellBridge } from '../utils/shellBridge';
 
 export type TabType = 'plugin' | 'system';
 export type SystemView = 'connections' | 'marketplace' | 'settings';
@@ -15,6 +17,9 @@ export interface TabInstance {
   remoteEntry?: string;
   scope?: string;
   module?: string;
+  uiMode?: PluginUiMode;
+  /** Pinned tabs stay at the front and survive "close others" */
+  pinned?: boolean;
   // For system tabs
   systemView?: SystemView;
 }
@@ -23,18 +28,41 @@ interface PluginState {
   availablePlugins: PluginMetadata[];
   tabs: TabInstance[];
   activeTabId: string | null;
+  /** Tab shown next to the active one in split view */
+  splitTabId: string | null;
+  /** Recently closed tabs, most recent last, for reopening */
+  closedTabs: TabInstance[];
   setAvailablePlugins: (plugins: PluginMetadata[]) => void;
   addTab: (tab: TabInstance) => void;
   removeTab: (tabId: string) => void;
+  closeOtherTabs: (tabId: string) => void;
+  closeTabsToRight: (tabId: string) => void;
+  reopenClosedTab: () => void;
   updateTab: (tabId: string, updates: Partial<TabInstance>) => void;
+  moveTab: (tabId: string, toIndex: number) => void;
+  togglePinTab: (tabId: string) => void;
+  duplicateTab: (tabId: string, connectionId?: string | null) => Promise<void>;
   setActiveTab: (tabId: string | null) => void;
+  openInSplit: (tabId: string) => void;
+  closeSplit: () => void;
   openSystemView: (view: SystemView, title: string, icon?: React.ReactNode) => void;
+  restoreTabs: (tabs: TabInstance[], activeTabId: string | null, splitTabId?: string | null) => void;
 }
 
-export const usePluginStore = create<PluginState>((set) => ({
+const MAX_CLOSED_TABS = 10;
+
+/** Keeps pinned tabs in front of the others, otherwise preserving the order */
+const sortPinnedFirst = (tabs: TabInstance[]): TabInstance[] => [
+  ...tabs.filter((t) => t.pinned),
+  ...tabs.filter((t) => !t.pinned),
+];
+
+export const usePluginStore = create<PluginState>((set, get) => ({
   availablePlugins: [],
   tabs: [],
   activeTabId: null,
+  splitTabId: null,
+  closedTabs: [],
   setAvailablePlugins: (availablePlugins) => set({ availablePlugins }),
   addTab: (tab) =>
     set((state) => ({
@@ -42,17 +70,128 @@ export const usePluginStore = create<PluginState>((set) => ({
       activeTabId: tab.instanceId,
     })),
   removeTab: (tabId) =>
-    set((state) => ({
-      tabs: state.tabs.filter((t) => t.instanceId !== tabId),
-      activeTabId: state.activeTabId === tabId ? null : state.activeTabId,
-    })),
+    set((state) => {
+      const tab = state.tabs.find((t) => t.instanceId === tabId);
+      if (tab?.type === 'plugin' && tab.pluginId) {
+        // Deferred so the plugin gets to unmount (and save) before its state is dropped
+        const { pluginId } = tab;
+        setTimeout(() => {
+          shellBridge.clearInstanceState(pluginId, tabId).catch((error) => {
+            console.error('Failed to clear plugin instance state:', error);
+          });
+        });
+      }
+      // Closing one side of the split view leaves the other side
+      const splitTabId = state.splitTabId === tabId ? null : state.splitTabId;
+      return {
+        tabs: state.tabs.filter((t) => t.instanceId !== tabId),
+        activeTabId: state.activeTabId === tabId ? splitTabId : state.activeTabId,
+        splitTabId: state.activeTabId === tabId ? null : splitTabId,
+        closedTabs: tab ? [...state.closedTabs, tab].slice(-MAX_CLOSED_TABS) : state.closedTabs,
+      };
+    }),
+  closeOtherTabs: (tabId) => {
+    const { tabs, removeTab } = get();
+    tabs.filter((t) => t.instanceId !== tabId && !t.pinned).forEach((t) => removeTab(t.instanceId));
+    get().setActiveTab(tabId);
+  },
+  closeTabsToRight: (tabId) => {
+    const { tabs, removeTab } = get();
+    const index = tabs.findIndex((t) => t.instanceId === tabId);
+    if (index === -1) return;
+    tabs.slice(index + 1).filter((t) => !t.pinned).forEach((t) => removeTab(t.instanceId));
+  },
+  reopenClosedTab: () =>
+    set((state) => {
+      const tab = state.closedTabs[state.closedTabs.length - 1];
+      if (!tab) return {};
+      const closedTabs = state.closedTabs.slice(0, -1);
+
+      if (tab.type === 'system') {
+        const existing = state.tabs.find((t) => t.type === 'system' && t.systemView === tab.systemView);
+        if (existing) return { closedTabs, activeTabId: existing.instanceId };
+      }
+      // Plugin instance state was cleared on close, so the tab starts over as a new instance
+      const reopened: TabInstance = {
+        ...tab,
+        instanceId: tab.type === 'plugin' ? `${tab.pluginId}-${Date.now()}` : tab.instanceId,
+      };
+      return {
+        tabs: sortPinnedFirst([...state.tabs, reopened]),
+        activeTabId: reopened.instanceId,
+        closedTabs,
+      };
+    }),
   updateTab: (tabId, updates) =>
     set((state) => ({
       tabs: state.tabs.map((t) =>
         t.instanceId === tabId ? { ...t, ...updates } : t
       ),
     })),
-  setActiveTab: (activeTabId) => set({ activeTabId }),
+  moveTab: (tabId, toIndex) =>
+    set((state) => {
+      const tab = state.tabs.find((t) => t.instanceId === tabId);
+      if (!tab) return {};
+      const tabs = state.tabs.filter((t) => t !== tab);
+      tabs.splice(Math.max(0, Math.min(toIndex, tabs.length)), 0, tab);
+      // A tab dragged across the pinned boundary snaps back to its own group
+      return { tabs: sortPinnedFirst(tabs) };
+    }),
+  togglePinTab: (tabId) =>
+    set((state) => {
+      const tab = state.tabs.find((t) => t.instanceId === tabId);
+      if (!tab) return {};
+      const pinned = { ...tab, pinned: !tab.pinned };
+      const others = state.tabs.filter((t) => t !== tab);
+      const pinnedCount = others.filter((t) => t.pinned).length;
+      // Pinned tabs go to the end of the pinned group, unpinned ones to the start of the rest
+      return { tabs: [...others.slice(0, pinnedCount), pinned, ...others.slice(pinnedCount)] };
+    }),
+  duplicateTab: async (tabId, connectionId) => {
+    const tab = get().tabs.find((t) => t.instanceId === tabId);
+    if (!tab || tab.type !== 'plugin' || !tab.pluginId) return;
+
+    const copy: TabInstance = {
+      ...tab,
+      instanceId: `${tab.pluginId}-${Date.now()}`,
+      pinned: false,
+      connectionId: connectionId === undefined ? tab.connectionId : connectionId,
+    };
+    // The copy starts from the original's session, e.g. its filters
+    try {
+      const state = await shellBridge.getInstanceState(tab.pluginId, tab.instanceId);
+      if (state !== null) {
+        await shellBridge.setInstanceState(tab.pluginId, copy.instanceId, state);
+      }
+    } catch (error) {
+      console.error('Failed to copy plugin instance state:', error);
+    }
+
+    set((state) => {
+      const index = state.tabs.findIndex((t) => t.instanceId === tabId);
+      const tabs = [...state.tabs];
+      tabs.splice(index === -1 ? tabs.length : index + 1, 0, copy);
+      return { tabs: sortPinnedFirst(tabs), activeTabId: copy.instanceId };
+    });
+  },
+  setActiveTab: (activeTabId) =>
+    set((state) => {
+      // Selecting the split tab swaps the sides, so both stay visible
+      if (activeTabId && activeTabId === state.splitTabId) {
+        return { activeTabId, splitTabId: state.activeTabId };
+      }
+      return { activeTabId };
+    }),
+  openInSplit: (tabId) =>
+    set((state) => {
+      if (tabId === state.activeTabId) {
+        // Split the active tab away from whatever else is open
+        const other = state.tabs.find((t) => t.instanceId !== tabId);
+        return other ? { activeTabId: other.instanceId, splitTabId: tabId } : {};
+      }
+      return { splitTabId: tabId };
+    }),
+  closeSplit: () => set({ splitTabId: null }),
   openSystemView: (view, title, icon) =>
     set((state) => {
       // Check if this system view is already open
@@ -75,4 +214,13 @@ export const usePluginStore = create<PluginState>((set) => ({
         activeTabId: newTab.instanceId,
       };
     }),
+  restoreTabs: (tabs, activeTabId, splitTabId = null) =>
+    set({
+      // Icons are not serializable, so system tabs get theirs back here
+      tabs: tabs.map((t) =>
+        t.type === 'system' && t.systemView ? { ...t, icon: SYSTEM_VIEWS[t.systemView]?.icon } : t
+      ),
+      activeTabId: tabs.some((t) => t.instanceId === activeTabId) ? activeTabId : tabs[0]?.instanceId ?? null,
+      splitTabId: splitTabId !== activeTabId && tabs.some((t) => t.instanceId === splitTabId) ? splitTabId : null,
+    }),
 }));
@@ -1,5 +1,6 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
+import type { KeybindingOverrides } from '@ddk/host-sdk';
 
 export type Theme = 'light' | 'dark' | 'system';
 
@@ -7,6 +8,10 @@ export interface UserSettings {
   theme: Theme;
   sidebarCollapsed: boolean;
   defaultConnectionId: string | null;
+  /** Plugin catalog feed: URL, index file or directory. Null uses the host's default. */
+  catalogSource: string | null;
+  /** Keyboard shortcuts changed by the user, by binding id. Null disables a shortcut. */
+  keybindings: KeybindingOverrides;
 }
 
 interface SettingsState {
@@ -19,6 +24,8 @@ const defaultSettings: UserSettings = {
   theme: 'dark',
   sidebarCollapsed: false,
   defaultConnectionId: null,
+  catalogSource: null,
+  keybindings: {},
 };
 
 export const useSettingsStore = create<SettingsState>()(
@@ -34,6 +41,11 @@ export const useSettingsStore = create<SettingsState>()(
     {
       name: 'ddk-settings',
       storage: createJSONStorage(() => localStorage),
+      // Settings saved by older versions lack newer fields, which get their defaults
+      merge: (persisted, current) => ({
+        ...current,
+        settings: { ...defaultSettings, ...(persisted as Partial<SettingsState> | undefined)?.settings },
+      }),
     }
   )
 );
@@ -0,0 +1,128 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { usePluginStore, type TabInstance } from './plugins';
+import { SYSTEM_VIEWS } from '../utils/systemViews';
+import { shellBridge } from '../utils/shellBridge';
+
+/** Serializable part of a tab; icons are recreated on restore */
+export type WorkspaceTab = Omit<TabInstance, 'icon'>;
+
+export interface Workspace {
+  id: string;
+  name: string;
+  tabs: WorkspaceTab[];
+  activeTabId: string | null;
+  /** Tab shown next to the active one; missing in workspaces saved before split view */
+  splitTabId?: string | null;
+  updatedAt: string;
+}
+
+interface WorkspaceState {
+  workspaces: Workspace[];
+  currentWorkspaceId: string;
+  saveTabs: (tabs: TabInstance[], activeTabId: string | null, splitTabId: string | null) => void;
+  createWorkspace: (name: string) => void;
+  renameWorkspace: (id: string, name: string) => void;
+  deleteWorkspace: (id: string) => void;
+  switchWorkspace: (id: string) => void;
+}
+
+export const DEFAULT_WORKSPACE_ID = 'default';
+
+const createEmptyWorkspace = (id: string, name: string): Workspace => ({
+  id,
+  name,
+  tabs: [],
+  activeTabId: null,
+  updatedAt: new Date().toISOString(),
+});
+
+const toWorkspaceTab = ({ icon: _icon, ...tab }: TabInstance): WorkspaceTab => tab;
+
+export const useWorkspaceStore = create<WorkspaceState>()(
+  persist(
+    (set, get) => ({
+      workspaces: [createEmptyWorkspace(DEFAULT_WORKSPACE_ID, 'Default')],
+      currentWorkspaceId: DEFAULT_WORKSPACE_ID,
+      saveTabs: (tabs, activeTabId, splitTabId) =>
+        set((state) => ({
+          workspaces: state.workspaces.map((w) =>
+            w.id === state.currentWorkspaceId
+              ? { ...w, tabs: tabs.map(toWorkspaceTab), activeTabId, splitTabId, updatedAt: new Date().toISOString() }
+              : w
+          ),
+        })),
+      createWorkspace: (name) => {
+        const workspace = createEmptyWorkspace(`workspace-${Date.now()}`, name);
+        set((state) => ({ workspaces: [...state.workspaces, workspace] }));
+        get().switchWorkspace(workspace.id);
+      },
+      renameWorkspace: (id, name) =>
+        set((state) => ({
+          workspaces: state.workspaces.map((w) => (w.id === id ? { ...w, name } : w)),
+        })),
+      deleteWorkspace: (id) => {
+        const { workspaces, currentWorkspaceId, switchWorkspace } = get();
+        const workspace = workspaces.find((w) => w.id === id);
+        if (!workspace || workspaces.length === 1) return;
+
+        if (id === currentWorkspaceId) {
+          switchWorkspace(workspaces.find((w) => w.id !== id)!.id);
+        }
+        set((state) => ({ workspaces: state.workspaces.filter((w) => w.id !== id) }));
+
+        for (const tab of workspace.tabs) {
+          if (tab.type === 'plugin' && tab.pluginId) {
+            shellBridge.clearInstanceState(tab.pluginId, tab.instanceId).catch((error) => {
+              console.error('Failed to clear plugin instance state:', error);
+            });
+          }
+        }
+      },
+      switchWorkspace: (id) => {
+        const { workspaces, currentWorkspaceId } = get();
+        const target = workspaces.find((w) => w.id === id);
+        if (!target || id === currentWorkspaceId) return;
+
+        // Tabs are synced continuously, so the current workspace is already up to date
+        set({ currentWorkspaceId: id });
+        restoreWorkspace();
+      },
+    }),
+    {
+      name: 'ddk-workspaces',
+      storage: createJSONStorage(() => localStorage),
+      partialize: (state) => ({
+        workspaces: state.workspaces,
+        currentWorkspaceId: state.currentWorkspaceId,
+      }),
+    }
+  )
+);
+
+/**
+ * Loads the tabs of the current workspace into the tab bar.
+ * An empty workspace starts out with the marketplace.
+ */
+export function restoreWorkspace(): void {
+  const { workspaces, currentWorkspaceId } = useWorkspaceStore.getState();
+  const workspace = workspaces.find((w) => w.id === currentWorkspaceId) ?? workspaces[0];
+  const { restoreTabs, openSystemView } = usePluginStore.getState();
+
+  restoreTabs(workspace?.tabs ?? [], workspace?.activeTabId ?? null, workspace?.splitTabId ?? null);
+  if (!workspace || workspace.tabs.length === 0) {
+    openSystemView('marketplace', SYSTEM_VIEWS.marketplace.title, SYSTEM_VIEWS.marketplace.icon);
+  }
+}
+
+/**
+ * Keeps the current workspace in sync with the open tabs.
+ * Call after restoring, so the restored tabs are not overwritten by the empty tab bar.
+ */
+export function startWorkspaceSync(): () => void {
+  return usePluginStore.subscribe((state, prev) => {
+    if (state.tabs !== prev.tabs || state.activeTabId !== prev.activeTabId || state.splitTabId !== prev.splitTabId) {
+      useWorkspaceStore.getState().saveTabs(state.tabs, state.activeTabId, state.splitTabId);
+    }
+  });
+}
@@ -0,0 +1,16 @@
+import type { BadgeProps } from '@fluentui/react-components';
+import type { ConnectionEnvironment, ConnectionInfo } from '@ddk/host-sdk';
+
+export const ENVIRONMENT_BADGES: Record<ConnectionEnvironment, { label: string; color: BadgeProps['color'] }> = {
+  dev: { label: 'Dev', color: 'success' },
+  test: { label: 'Test', color: 'warning' },
+  prod: { label: 'Prod', color: 'danger' },
+};
+
+/** Normalizes a URL so the same environment is recognized regardless of case or a trailing slash */
+export const normalizeConnectionUrl = (url: string): string => url.trim().replace(/\/+$/, '').toLowerCase();
+
+export const findConnectionByUrl = (connections: ConnectionInfo[], url: string): ConnectionInfo | undefined => {
+  const normalized = normalizeConnectionUrl(url);
+  return connections.find((c) => normalizeConnectionUrl(c.url) === normalized);
+};
@@ -0,0 +1,28 @@
+import type { ConnectionInfo } from '@ddk/host-sdk';
+
+/** How long before a token expires the shell starts warning */
+export const EXPIRY_WARNING_MS = 5 * 60 * 1000;
+
+export type ConnectionStatus = 'signedOut' | 'expired' | 'expiring' | 'unhealthy' | 'healthy' | 'unknown';
+
+/**
+ * Summarizes a connection's sign-in state and latest health check, worst first:
+ * an expired or expiring token outweighs a successful health check.
+ */
+export const getConnectionStatus = (connection: ConnectionInfo, now = Date.now()): ConnectionStatus => {
+  if (!connection.isAuthenticated) return 'signedOut';
+  const expiresAt = connection.expiresOn ? Date.parse(connection.expiresOn) : NaN;
+  if (expiresAt <= now) return 'expired';
+  if (expiresAt - now <= EXPIRY_WARNING_MS) return 'expiring';
+  if (!connection.health) return 'unknown';
+  return connection.health.isHealthy ? 'healthy' : 'unhealthy';
+};
+
+/** "in 4 min", "in 1 h 20 min", or "expired" */
+export const formatTimeUntil = (timestamp: string, now = Date.now()): string => {
+  const minutes = Math.ceil((Date.parse(timestamp) - now) / 60_000);
+  if (minutes <= 0) return 'expired';
+  if (minutes < 60) return `in ${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 === 0 ? `in ${hours} h` : `in ${hours} h ${minutes % 60} min`;
+};
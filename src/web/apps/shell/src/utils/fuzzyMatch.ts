@@ -0,0 +1,44 @@
+export interface FuzzyMatch {
+  /** Higher is better */
+  score: number;
+  /** Positions in the text of the matched query characters, for highlighting */
+  indices: number[];
+}
+
+const isWordStart = (text: string, index: number): boolean =>
+  index === 0 || /[\s\-_.:/]/.test(text[index - 1]) || (text[index - 1] === text[index - 1].toLowerCase() && text[index] !== text[index].toLowerCase());
+
+/**
+ * Matches `query` against `text` as a case-insensitive subsequence, e.g. "opst"
+ * matches "Open Settings". Consecutive characters and characters at the start
+ * of words score higher. Returns null when the text does not match.
+ */
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return { score: 0, indices: [] };
+
+  const haystack = text.toLowerCase();
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (const char of needle) {
+    if (char === ' ') continue;
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+
+    const previous = indices[indices.length - 1];
+    score += 1;
+    if (previous !== undefined && index === previous + 1) score += 5;
+    if (isWordStart(text, index)) score += 3;
+    // Matches close to the beginning are slightly preferred
+    score -= Math.min(index - from, 10) * 0.1;
+
+    indices.push(index);
+    from = index + 1;
+  }
+
+  // A match of the whole query as written beats a scattered one
+  if (haystack.includes(needle)) score += 10;
+  return { score, indices };
+};
@@ -0,0 +1,161 @@
+import React from 'react';
+import { MessageBar, MessageBarBody, MessageBarTitle, Text, makeStyles } from '@fluentui/react-components';
+import {
+  IsolatedPluginRelay,
+  ISOLATED_FRAME_NAME,
+  parseIsolatedFrameMessage,
+  type IsolatedFrameMessage,
+  type IsolatedPluginContext,
+} from '@ddk/host-sdk';
+import { useShellTheme } from '../hooks/useShellTheme';
+import { shellBridge } from './shellBridge';
+
+/** How long the plugin page may take to announce itself before a hint is shown */
+const READY_TIMEOUT_MS = 15000;
+
+/**
+ * No `allow-same-origin`: the page gets an opaque origin, so it cannot reach the
+ * shell's DOM, stores or storage and can only talk to the host through the relay.
+ */
+const FRAME_SANDBOX = 'allow-scripts allow-forms allow-popups allow-downloads';
+
+const useStyles = makeStyles({
+  container: {
+    display: 'flex',
+    flexDirection: 'column',
+    height: '100%',
+  },
+  frame: {
+    flex: 1,
+    width: '100%',
+    border: 'none',
+  },
+  hint: {
+    padding: '20px',
+  },
+});
+
+export interface IsolatedPluginLoaderProps {
+  /** URL of the plugin's page */
+  entry: string;
+  pluginId: string;
+  instanceId: string;
+  connectionId?: string | null;
+}
+
+/**
+ * Runs a plugin with `ui.mode: "isolated"` in a sandboxed iframe. The page's
+ * host SDK talks to the shell over postMessage; its requests are relayed to the
+ * host on behalf of the plugin, and it is given the tab's context and theme.
+ */
+export const IsolatedPluginLoader: React.FC<IsolatedPluginLoaderProps> = ({
+  entry,
+  pluginId,
+  instanceId,
+  connectionId,
+}) => {
+  const styles = useStyles();
+  const theme = useShellTheme();
+  const frameRef = React.useRef<HTMLIFrameElement>(null);
+  // Counts ready messages, so a page that reloads itself gets its context again
+  const [readyCount, setReadyCount] = React.useState(0);
+  const [timedOut, setTimedOut] = React.useState(false);
+  const [registerError, setRegisterError] = React.useState<string | null>(null);
+
+  const context = React.useMemo<IsolatedPluginContext>(
+    () => ({ pluginId, instanceId, connectionId: connectionId ?? null, theme: { ...theme } }),
+    [pluginId, instanceId, connectionId, theme]
+  );
+
+  const post = React.useCallback((message: IsolatedFrameMessage) => {
+    // The sandboxed page has an opaque origin, so it cannot be targeted by origin
+    frameRef.current?.contentWindow?.postMessage(message, '*');
+  }, []);
+
+  React.useEffect(() => {
+    const frame = frameRef.current;
+    if (!frame) return;
+
+    setReadyCount(0);
+    setTimedOut(false);
+    setRegisterError(null);
+    let disposed = false;
+    let relay: IsolatedPluginRelay | null = null;
+    // Requests the page sends before the host registered the instance wait for it
+    const queued: string[] = [];
+    shellBridge.registerCaller({ pluginId, instanceId }).then(
+      (bridge) => {
+        if (disposed) return;
+        relay = new IsolatedPluginRelay(bridge, post);
+        queued.splice(0).forEach((data) => relay!.relay(data));
+      },
+      (err) => !disposed && setRegisterError(err instanceof Error ? err.message : String(err))
+    );
+    const timer = setTimeout(() => setTimedOut(true), READY_TIMEOUT_MS);
+
+    const listener = (e: MessageEvent) => {
+      if (e.source !== frame.contentWindow) return;
+      const message = parseIsolatedFrameMessage(e.data);
+      if (message?.type === 'ddk:ready') {
+        clearTimeout(timer);
+        setTimedOut(false);
+        setReadyCount((count) => count + 1);
+      } else if (message?.type === 'ddk:rpc') {
+        if (relay) relay.relay(message.data);
+        else queued.push(message.data);
+      }
+    };
+    window.addEventListener('message', listener);
+
+    return () => {
+      clearTimeout(timer);
+      window.removeEventListener('message', listener);
+      disposed = true;
+      relay?.dispose();
+    };
+  }, [entry, pluginId, instanceId, post]);
+
+  // Keep the page in sync with the tab's connection and the shell's theme
+  React.useEffect(() => {
+    if (readyCount > 0) {
+      post({ type: 'ddk:context', context });
+    }
+  }, [context, readyCount, post]);
+
+  return (
+    <div className={styles.container}>
+      {registerError && (
+        <div className={styles.hint}>
+          <MessageBar intent="error">
+            <MessageBarBody>
+              <MessageBarTitle>The plugin could not be registered with the host</MessageBarTitle>
+              {registerError}
+            </MessageBarBody>
+          </MessageBar>
+        </div>
+      )}
+      {timedOut && (
+        <div className={styles.hint}>
+          <MessageBar intent="warning">
+            <MessageBarBody>
+              <MessageBarTitle>The plugin has not connected</MessageBarTitle>
+              Isolated plugins must call onIsolatedPluginContext from @ddk/host-sdk, and their assets must be
+              served with CORS headers.
+              <br />
+              <Text size={200}>Entry {entry}</Text>
+            </MessageBarBody>
+          </MessageBar>
+        </div>
+      )}
+      <iframe
+        key={instanceId}
+        ref={frameRef}
+        className={styles.frame}
+        src={entry}
+        name={ISOLATED_FRAME_NAME}
+        sandbox={FRAME_SANDBOX}
+        title={pluginId}
+      />
+    </div>
+  );
+};
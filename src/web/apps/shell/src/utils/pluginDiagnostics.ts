@@ -0,0 +1,76 @@
+import {
+  HOST_SDK_VERSION,
+  satisfiesVersionRange,
+  validateSchema,
+  type JsonSchema,
+  type PluginMetadata,
+} from '@ddk/host-sdk';
+import manifestSchema from '../../../../../../tools/schema/plugin.manifest.schema.json';
+
+export type PluginDiagnosticSeverity = 'error' | 'warning';
+
+export interface PluginDiagnostic {
+  /** Errors keep the plugin from being launched, warnings are informational */
+  severity: PluginDiagnosticSeverity;
+  message: string;
+  /** JSON pointer into the manifest, for schema violations */
+  path?: string;
+}
+
+/**
+ * Checks a plugin before its UI is loaded: the manifest against
+ * plugin.manifest.schema.json, the module federation entry and the
+ * host SDK range the plugin targets.
+ */
+export const getPluginDiagnostics = (plugin: PluginMetadata): PluginDiagnostic[] => {
+  const diagnostics: PluginDiagnostic[] = [];
+
+  if (plugin.manifest) {
+    for (const issue of validateSchema(manifestSchema as JsonSchema, plugin.manifest)) {
+      diagnostics.push({
+        severity: 'warning',
+        path: issue.path,
+        message: `Manifest ${issue.path || '(root)'} ${issue.message}`,
+      });
+    }
+  }
+
+  if (!plugin.uiEntry) {
+    diagnostics.push({ severity: 'error', message: 'The plugin has no UI entry (ui.entry or ui.devEntry).' });
+  } else if (plugin.uiMode !== 'isolated') {
+    // Isolated plugins are loaded as a page, without module federation
+    if (!plugin.uiScope) {
+      diagnostics.push({ severity: 'error', message: 'The manifest does not declare the module federation scope (ui.scope).' });
+    }
+    if (!plugin.uiModule) {
+      diagnostics.push({ severity: 'error', message: 'The manifest does not declare the exposed module (ui.module).' });
+    }
+  }
+
+  const range = plugin.engines?.hostSdkVersion;
+  if (!range) {
+    diagnostics.push({
+      severity: 'warning',
+      message: `The manifest does not declare engines.hostSdkVersion; compatibility with host SDK ${HOST_SDK_VERSION} is unknown.`,
+    });
+  } else {
+    try {
+      if (!satisfiesVersionRange(HOST_SDK_VERSION, range)) {
+        diagnostics.push({
+          severity: 'error',
+          message: `Requires host SDK ${range}, but this version of DataverseDevKit provides ${HOST_SDK_VERSION}.`,
+        });
+      }
+    } catch (error) {
+      diagnostics.push({
+        severity: 'error',
+        message: `engines.hostSdkVersion is not a valid version range: ${error instanceof Error ? error.message : range}`,
+      });
+    }
+  }
+
+  return diagnostics;
+};
+
+export const hasBlockingDiagnostics = (diagnostics: PluginDiagnostic[]): boolean =>
+  diagnostics.some((d) => d.severity === 'error');
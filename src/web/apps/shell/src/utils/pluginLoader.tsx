@@ -1,9 +1,12 @@
 import React from 'react';
+import { MessageBar, MessageBarBody, MessageBarTitle, MessageBarActions, Button, Text } from '@fluentui/react-components';
+import type { HostBridge } from '@ddk/host-sdk';
 import {
   __federation_method_getRemote as getRemote,
   __federation_method_setRemote as setRemote,
   __federation_method_unwrapDefault as unwrapDefault,
 } from 'virtual:__federation__';
+import { shellBridge } from './shellBridge';
 
 export interface RemotePlugin {
   remoteEntry: string;
@@ -31,6 +34,9 @@ export const loadRemoteModule = async (
 
     // Get the remote module using the federation API
     const remoteModule = await getRemote(scope, module);
+    if (!remoteModule) {
+      throw new Error(`The remote entry does not expose module "${module}" in scope "${scope}".`);
+    }
     console.log('[PluginLoader] Remote module fetched');
 
     // Unwrap to get the actual component
@@ -48,23 +54,42 @@ export interface PluginLoaderProps {
   remoteEntry: string;
   scope: string;
   module: string;
+  pluginId: string;
   instanceId: string;
   connectionId?: string | null;
   onLoad?: () => void;
   onError?: (error: Error) => void;
+  /** Offered as an action when the plugin fails to load */
+  onReload?: () => void;
 }
 
 export const PluginLoader: React.FC<PluginLoaderProps> = ({
   remoteEntry,
   scope,
   module,
+  pluginId,
   instanceId,
   connectionId,
   onLoad,
   onError,
+  onReload,
 }) => {
   const [Component, setComponent] = React.useState<React.ComponentType<any> | null>(null);
   const [error, setError] = React.useState<Error | null>(null);
+  // Requests of the plugin carry the session the host issued to this instance, so the host enforces its permissions
+  const [bridge, setBridge] = React.useState<HostBridge | null>(null);
+
+  React.useEffect(() => {
+    let mounted = true;
+    setBridge(null);
+    shellBridge.registerCaller({ pluginId, instanceId }).then(
+      (registered) => mounted && setBridge(registered),
+      (err) => mounted && setError(err instanceof Error ? err : new Error('Could not register the plugin with the host'))
+    );
+    return () => {
+      mounted = false;
+    };
+  }, [pluginId, instanceId]);
 
   React.useEffect(() => {
     let mounted = true;
@@ -94,14 +119,27 @@ export const PluginLoader: React.FC<PluginLoaderProps> = ({
 
   if (error) {
     return (
-      <div style={{ padding: '20px', color: 'red' }}>
-        <h3>Failed to load plugin</h3>
-        <p>{error.message}</p>
+      <div style={{ padding: '20px' }}>
+        <MessageBar intent="error" layout="multiline">
+          <MessageBarBody>
+            <MessageBarTitle>Failed to load plugin</MessageBarTitle>
+            {error.message}
+            <br />
+            <Text size={200}>
+              Entry {remoteEntry}, scope "{scope}", module "{module}"
+            </Text>
+          </MessageBarBody>
+          {onReload && (
+            <MessageBarActions>
+              <Button size="small" onClick={onReload}>Reload</Button>
+            </MessageBarActions>
+          )}
+        </MessageBar>
       </div>
     );
   }
 
-  if (!Component) {
+  if (!Component || !bridge) {
     return (
       <div style={{ padding: '20px' }}>
         <p>Loading plugin...</p>
@@ -109,5 +147,5 @@ export const PluginLoader: React.FC<PluginLoaderProps> = ({
     );
   }
 
-  return <Component instanceId={instanceId} connectionId={connectionId} />;
+  return <Component instanceId={instanceId} connectionId={connectionId} hostBridge={bridge} />;
 };
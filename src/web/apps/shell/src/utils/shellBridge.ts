@@ -0,0 +1,14 @@
+import { hostBridge } from '@ddk/host-sdk';
+
+const { bridge, connected } = hostBridge.connectShell();
+
+/**
+ * Bridge for the shell's own requests, the only one the host treats as the
+ * shell. Plugins are not handed it: they get bridges from
+ * `shellBridge.registerCaller`, and `hostBridge` itself has no session and
+ * no longer gives access to the transport.
+ */
+export const shellBridge = bridge;
+
+/** Settles once the host handed over the shell's session */
+export const shellConnected = connected;
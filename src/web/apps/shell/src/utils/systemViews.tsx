@@ -0,0 +1,16 @@
+import {
+  AppsRegular,
+  PlugConnectedRegular,
+  SettingsRegular,
+} from '@fluentui/react-icons';
+import type { SystemView } from '../stores/plugins';
+
+/**
+ * Title and icon of each system view, used when opening its tab
+ * and when a tab is restored from a workspace.
+ */
+export const SYSTEM_VIEWS: Record<SystemView, { title: string; icon: React.ReactNode }> = {
+  connections: { title: 'Connections', icon: <PlugConnectedRegular /> },
+  marketplace: { title: 'Marketplace', icon: <AppsRegular /> },
+  settings: { title: 'Settings', icon: <SettingsRegular /> },
+};
@@ -1,8 +1,13 @@
 import type {
   JsonRpcRequest,
+  JsonRpcNotification,
+  JsonRpcMessage,
+  JsonRpcBatchRequest,
   JsonRpcResponse,
   ConnectionInfo,
+  ConnectionHealth,
   AddConnectionParams,
+  UpdateConnectionParams,
   PluginMetadata,
   PluginCommand,
   EventCallback,
@@ -10,45 +15,165 @@ import type {
   AuthResult,
   AuthStatus,
   SessionExpiredPayload,
+  DeviceCodePayload,
+  BridgeTransport,
+  RequestOptions,
+  CancelRequestParams,
+  RequestHeldParams,
+  BatchCall,
+  ProgressCallback,
+  ProgressUpdate,
+  ProgressResult,
+  PluginInvokeOptions,
+  StorageOperation,
+  StorageWriteOptions,
+  StorageChangedPayload,
+  StorageUsage,
+  CatalogPlugin,
+  PluginInstallOptions,
+  RequestCaller,
+  PermissionConsentHandler,
+  PluginInvokeGuard,
+  PluginInvokeRequest,
+  InvokeAuditEntry,
+  PermissionErrorData,
+  PermissionGrant,
+  PluginPermission,
 } from './types';
+import { JsonRpcRequestError } from './errors';
+import { SHELL_SESSION_HOOK, isEventVisibleTo } from './permissions';
+import { WebViewTransport } from './transports/WebViewTransport';
+import { MockHostTransport } from './transports/MockHostTransport';
+import { PostMessageTransport } from './transports/PostMessageTransport';
+
+/** Timeout applied to requests that don't specify `timeoutMs` */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+
+/** Notification sent to the host when a pending request is cancelled */
+export const CANCEL_REQUEST_METHOD = '$/cancelRequest';
+
+/** Notification by which the host tells the bridge that a request waits for the user */
+export const REQUEST_HELD_METHOD = '$/requestHeld';
+
+/** Event type of progress updates for long-running commands */
+export const PROGRESS_EVENT = 'progress';
+
+/** Event type raised while a DeviceCode sign-in waits for the user to enter the code */
+export const DEVICE_CODE_EVENT = 'auth:deviceCode';
+
+/** Event type raised after a plugin's storage was written */
+export const STORAGE_CHANGED_EVENT = 'storage:changed';
+
+/** Event type raised to the shell for each `plugin.invoke` request the host holds for confirmation */
+export const INVOKE_CONFIRM_EVENT = 'invoke:confirm';
+
+/** Error code of storage writes rejected because the plugin's quota would be exceeded */
+export const STORAGE_QUOTA_EXCEEDED_CODE = -32010;
+
+/** Error code of plugin requests outside the plugin's declared or granted permissions */
+export const PERMISSION_DENIED_CODE = -32011;
+
+/** Error code of plugin requests needing a permission the user has not decided on yet */
+export const PERMISSION_CONSENT_REQUIRED_CODE = -32012;
+
+/** Error code of `plugin.invoke` requests the host held and the user did not confirm */
+export const INVOKE_DECLINED_CODE = -32013;
+
+/** How long `connectShell` waits for the host to hand over the shell's session */
+const SHELL_CONNECT_TIMEOUT_MS = 10000;
+
+/** Number of operations whose latest progress is kept for late subscribers */
+const PROGRESS_SNAPSHOT_LIMIT = 50;
 
 export class HostBridge {
   private requestId = 0;
-  private pendingRequests = new Map<number, {
+  /** Bridge that owns the transport; scoped bridges, e.g. from `registerCaller`, share its state */
+  private root: HostBridge = this;
+  private caller?: RequestCaller;
+  /** Session stamped on requests, see `connectShell` and `registerCaller` */
+  private session?: string;
+  /** Whether this is the bridge returned by `connectShell` */
+  private shell = false;
+  private shellConnected = false;
+  private consentHandler: PermissionConsentHandler | null = null;
+  private removeInvokeGuard: (() => void) | null = null;
+  private pendingRequests = new Map<string | number, {
+    method: string;
     resolve: (value: unknown) => void;
     reject: (error: Error) => void;
+    hold: () => void;
   }>();
   private eventListeners = new Map<string, Set<EventCallback>>();
+  private progressSnapshots = new Map<string, ProgressUpdate>();
+  // Private at runtime, not just to TypeScript: plugins sharing `hostBridge` must not wrap the transport
+  #transport: BridgeTransport;
+  #unsubscribeTransport: () => void;
 
-  constructor() {
-    this.setupMessageListener();
+  /**
+   * @param transport Transport used to reach the host. Defaults to the shell
+   * inside an isolated plugin frame, otherwise the native WebView transport
+   * when available, otherwise an in-memory mock host.
+   */
+  constructor(transport?: BridgeTransport) {
+    this.#transport = transport ?? HostBridge.createDefaultTransport();
+    this.#unsubscribeTransport = this.#transport.onMessage((data) => this.handleMessage(data));
+    console.log('[HostBridge] Using transport:', this.#transport.name);
   }
 
-  private setupMessageListener(): void {
-    // For MAUI HybridWebView
-    if (typeof window !== 'undefined') {
-      // Log what's available
-      console.log('[HostBridge] Window APIs available:', {
-        HybridWebView: !!(window as any).HybridWebView,
-        SendRawMessage: !!(window as any).HybridWebView?.SendRawMessage,
-        chromeWebview: !!(window as any).chrome?.webview,
-      });
+  /**
+   * Picks the transport for the current environment.
+   */
+  static createDefaultTransport(): BridgeTransport {
+    if (PostMessageTransport.isAvailable()) {
+      return new PostMessageTransport();
+    }
+    if (WebViewTransport.isAvailable()) {
+      return new WebViewTransport();
+    }
+    console.warn('[HostBridge] WebView not available, using in-memory mock host');
+    return new MockHostTransport();
+  }
 
-      // Expose handleResponse for MAUI to call back
-      (window as any).__ddkBridge = {
-        handleResponse: (data: string) => {
-          this.handleMessage(data);
-        }
-      };
+  /**
+   * The transport currently used to reach the host. Once the shell is
+   * connected only its bridge may access the transport, which carries its session.
+   */
+  getTransport(): BridgeTransport {
+    this.assertTransportAccess();
+    return this.root.#transport;
+  }
 
-      console.log('[HostBridge] Registered __ddkBridge.handleResponse');
+  /**
+   * Replaces the transport. Requests still pending on the previous
+   * transport are rejected. Once the shell is connected only its bridge may
+   * replace the transport.
+   */
+  setTransport(transport: BridgeTransport): void {
+    this.assertTransportAccess();
+    if (this.root !== this) {
+      this.root.setTransport(transport);
+      return;
     }
 
-    // For WebView2 (legacy)
-    if (typeof window !== 'undefined' && (window as any).chrome?.webview) {
-      (window as any).chrome.webview.addEventListener('message', (e: MessageEvent) => {
-        this.handleMessage(e.data);
-      });
+    this.#unsubscribeTransport();
+    this.#transport.dispose?.();
+
+    this.pendingRequests.forEach(pending => pending.reject(new Error('Transport replaced')));
+    this.pendingRequests.clear();
+
+    this.#transport = transport;
+    this.#unsubscribeTransport = transport.onMessage((data) => this.handleMessage(data));
+    console.log('[HostBridge] Switched transport:', transport.name);
+
+    // Re-establish backend subscriptions on the new transport
+    this.eventListeners.forEach((_, eventType) => {
+      this.sendRequest('events.subscribe', { eventType }).catch(console.error);
+    });
+  }
+
+  private assertTransportAccess(): void {
+    if (this.root.shellConnected && !this.shell) {
+      throw new Error('Only the shell can access the transport once it is connected');
     }
   }
 
@@ -66,31 +191,49 @@ export class HostBridge {
       console.log('[HostBridge] Received message:', jsonString);
       const message = JSON.parse(jsonString);
 
-      // Check if it's an event
-      if ('type' in message && 'pluginId' in message) {
-        this.dispatchEvent(message as PluginEvent);
-        return;
+      // Batch responses arrive as one array, in any order
+      const entries: unknown[] = Array.isArray(message) ? message : [message];
+      entries.forEach(entry => this.handleEntry(entry as JsonRpcResponse | JsonRpcNotification | PluginEvent));
+    } catch (error) {
+      console.error('Failed to handle message:', error);
+    }
+  }
+
+  private handleEntry(message: JsonRpcResponse | JsonRpcNotification | PluginEvent): void {
+    // Check if it's an event
+    if ('type' in message && 'pluginId' in message) {
+      this.dispatchEvent(message as PluginEvent);
+      return;
+    }
+
+    if ('method' in message) {
+      if (message.method === REQUEST_HELD_METHOD) {
+        this.pendingRequests.get((message.params as RequestHeldParams).id)?.hold();
       }
+      return;
+    }
 
-      // Handle JSON-RPC response
-      const response = message as JsonRpcResponse;
-      const pending = this.pendingRequests.get(response.id as number);
-      if (pending) {
-        this.pendingRequests.delete(response.id as number);
-        if (response.error) {
-          pending.reject(new Error(response.error.message));
-        } else {
-          pending.resolve(response.result);
-        }
+    // Handle JSON-RPC response, correlated by id
+    const response = message as JsonRpcResponse;
+    const pending = response.id !== null ? this.pendingRequests.get(response.id) : undefined;
+    if (pending) {
+      if (response.error) {
+        pending.reject(new JsonRpcRequestError(pending.method, response.error));
       } else {
-        console.warn('[HostBridge] No pending request for response id:', response.id);
+        pending.resolve(response.result);
       }
-    } catch (error) {
-      console.error('Failed to handle message:', error);
+    } else if (response.id === null && response.error) {
+      console.error('[HostBridge] Host rejected message:', response.error.message);
+    } else {
+      console.warn('[HostBridge] No pending request for response id:', response.id);
     }
   }
 
   private dispatchEvent(event: PluginEvent): void {
+    if (event.type === PROGRESS_EVENT) {
+      this.recordProgress(event);
+    }
+
     const listeners = this.eventListeners.get(event.type);
     if (listeners) {
       listeners.forEach(callback => {
@@ -115,85 +258,387 @@ export class HostBridge {
     }
   }
 
-  private async sendRequest<T>(method: string, params?: unknown): Promise<T> {
-    const id = ++this.requestId;
-    const request: JsonRpcRequest = {
+  // Progress can arrive before the caller subscribes to the token it was just handed
+  private recordProgress(event: PluginEvent): void {
+    const update = parseProgress(event);
+    if (!update?.token) return;
+
+    this.progressSnapshots.delete(update.token);
+    this.progressSnapshots.set(update.token, update);
+    if (this.progressSnapshots.size > PROGRESS_SNAPSHOT_LIMIT) {
+      const oldest = this.progressSnapshots.keys().next().value as string;
+      this.progressSnapshots.delete(oldest);
+    }
+  }
+
+  /**
+   * Returns a bridge that stamps every request with `caller`, so the host can
+   * check it against the plugin's permissions. The scoped bridge shares this
+   * bridge's transport, pending requests and event listeners.
+   *
+   * The native host only accepts requests with a session, so this is meant
+   * for the mock host; the shell gives plugins bridges from `registerCaller`.
+   *
+   * ```ts
+   * const bridge = hostBridge.withCaller({ pluginId, instanceId });
+   * ```
+   */
+  withCaller(caller: RequestCaller): HostBridge {
+    return Object.create(this.root, { caller: { value: caller } }) as HostBridge;
+  }
+
+  /**
+   * Connects the shell to the host. Returns the bridge for the shell's own
+   * requests, the only one the host treats as the shell, and a promise that
+   * settles once the host handed over the shell's session. The host hands it
+   * over through a hook this call installs for good, so it has to be made
+   * before any plugin code runs; `hostBridge` itself never acts as the shell,
+   * and after this call only the returned bridge may access the transport.
+   * Federated plugins run in the shell's page and are trusted not to patch its
+   * globals; isolated plugins are the ones kept from the shell's session.
+   *
+   * ```ts
+   * const { bridge: shellBridge, connected } = hostBridge.connectShell();
+   * await connected;
+   * ```
+   */
+  connectShell(options: RequestOptions = {}): { bridge: HostBridge; connected: Promise<void> } {
+    const root = this.root;
+    const shell = Object.create(root, {
+      shell: { value: true },
+      session: { value: undefined, writable: true },
+    }) as HostBridge;
+
+    const connected = new Promise<void>((resolve, reject) => {
+      if (root.shellConnected) {
+        reject(new Error('The shell is already connected'));
+        return;
+      }
+      root.shellConnected = true;
+
+      const { timeoutMs = SHELL_CONNECT_TIMEOUT_MS } = options;
+      const timer = setTimeout(() => reject(new Error('The host did not hand over the shell session')), timeoutMs);
+      // Neither writable nor configurable: code loaded later cannot intercept the session
+      Object.defineProperty(window, SHELL_SESSION_HOOK, {
+        value: (session: string) => {
+          shell.session = session;
+          clearTimeout(timer);
+          resolve();
+        },
+      });
+
+      root.sendSingleRequest('shell.connect', undefined, options).catch((error) => {
+        clearTimeout(timer);
+        reject(error);
+      });
+    });
+
+    return { bridge: shell, connected };
+  }
+
+  /**
+   * Registers a plugin instance with the host and returns a bridge making
+   * requests as that instance, checked against the plugin's permissions.
+   * Only the shell's bridge can register instances.
+   *
+   * ```ts
+   * const bridge = await shellBridge.registerCaller({ pluginId, instanceId });
+   * ```
+   */
+  async registerCaller(caller: RequestCaller, options?: RequestOptions): Promise<HostBridge> {
+    const { session } = await this.sendRequest<{ session: string }>('shell.registerCaller', caller, options);
+    return Object.create(this.root, { caller: { value: caller }, session: { value: session } }) as HostBridge;
+  }
+
+  /** Plugin instance this bridge makes requests for; undefined for the shell */
+  getCaller(): RequestCaller | undefined {
+    return this.caller;
+  }
+
+  /**
+   * Sets the handler asked for consent when a plugin first uses a permission
+   * it declared. Requests are retried once the handler grants the permission;
+   * the handler is responsible for recording the decision with `setPermissionGrant`.
+   * Without a handler such requests fail with `PERMISSION_CONSENT_REQUIRED_CODE`.
+   */
+  setConsentHandler(handler: PermissionConsentHandler | null): void {
+    this.assertShell('set the consent handler');
+    this.root.consentHandler = handler;
+  }
+
+  /**
+   * Sets the guard asked about the `plugin.invoke` requests the host holds,
+   * those of plugins and the shell alike that may change data on a production
+   * connection. The host decides what to hold and records the answer in its
+   * audit trail; declined requests fail with `INVOKE_DECLINED_CODE`. Without a
+   * guard held requests are declined once the host stops waiting.
+   */
+  setInvokeGuard(guard: PluginInvokeGuard | null): void {
+    this.assertShell('set the invoke guard');
+    this.root.removeInvokeGuard?.();
+    this.root.removeInvokeGuard = guard && this.addEventListener(INVOKE_CONFIRM_EVENT, async (event) => {
+      const request = event.payload as PluginInvokeRequest;
+      let confirmed = false;
+      try {
+        confirmed = await guard(request);
+      } catch (error) {
+        console.error('[HostBridge] Invoke guard failed:', request.pluginId, request.command, error);
+      }
+      this.sendRequest('shell.confirmInvoke', { id: request.id, confirmed }).catch(console.error);
+    });
+  }
+
+  private assertShell(action: string): void {
+    if (!this.shell) throw new Error(`Only the shell's bridge can ${action}`);
+  }
+
+  /**
+   * Sends a request for any bridge method. Prefer the typed methods; this is
+   * meant for forwarding, e.g. relaying the requests of isolated plugins.
+   */
+  request<T = unknown>(method: string, params?: unknown, options?: RequestOptions): Promise<T> {
+    return this.sendRequest<T>(method, params, options);
+  }
+
+  private async sendRequest<T>(method: string, params?: unknown, options: RequestOptions = {}): Promise<T> {
+    return this.retryWithConsent(this.sendSingleRequest<T>(method, params, options), method, params, options);
+  }
+
+  /**
+   * Settles with the outcome of `sent`, or, if the host wants consent for a
+   * permission first, asks for it and sends the request again. Each missing
+   * permission is asked for in turn, e.g. plugins:invoke and then dataverse:read;
+   * if the host asks for one again, e.g. because the grant was not saved, the
+   * error is passed on rather than asking forever.
+   */
+  private async retryWithConsent<T>(sent: Promise<T>, method: string, params: unknown, options: RequestOptions): Promise<T> {
+    const asked = new Set<string>();
+    for (;;) {
+      try {
+        return await sent;
+      } catch (error) {
+        if (!(await this.requestConsent(error, method, asked))) throw error;
+      }
+      sent = this.sendSingleRequest<T>(method, params, options);
+    }
+  }
+
+  private async requestConsent(error: unknown, method: string, asked: Set<string>): Promise<boolean> {
+    const handler = this.root.consentHandler;
+    if (!this.caller || !handler) return false;
+    if (!(error instanceof JsonRpcRequestError) || error.code !== PERMISSION_CONSENT_REQUIRED_CODE) return false;
+
+    const { permission } = error.data as PermissionErrorData;
+    if (!permission || asked.has(permission)) return false;
+    asked.add(permission);
+    return handler({ ...this.caller, permission, method });
+  }
+
+  private async sendSingleRequest<T>(method: string, params?: unknown, options: RequestOptions = {}): Promise<T> {
+    if (options.signal?.aborted) {
+      throw createAbortError();
+    }
+
+    const request = this.createRequest(method, params);
+    const promise = this.trackRequest<T>(request, options);
+
+    console.log(`[HostBridge] Sending via ${this.root.#transport.name}:`, method, params);
+    this.sendMessage(request, [request]);
+    return promise;
+  }
+
+  /**
+   * Sends several requests and notifications to the host as a single JSON-RPC
+   * batch, saving round trips. Returns one promise per call, in call order;
+   * notifications resolve with `undefined` right away. `options` apply to
+   * every request in the batch. Requests that need consent are sent again on
+   * their own once it is given.
+   */
+  batch(calls: BatchCall[], options: RequestOptions = {}): Promise<unknown>[] {
+    if (options.signal?.aborted) {
+      return calls.map(() => Promise.reject(createAbortError()));
+    }
+    if (calls.length === 0) {
+      return [];
+    }
+
+    const messages: JsonRpcMessage[] = [];
+    const requests: JsonRpcRequest[] = [];
+    const promises = calls.map(call => {
+      if (call.notification) {
+        messages.push(this.stamp<JsonRpcNotification>({ jsonrpc: '2.0', method: call.method, params: call.params }));
+        return Promise.resolve(undefined);
+      }
+      const request = this.createRequest(call.method, call.params);
+      messages.push(request);
+      requests.push(request);
+      return this.retryWithConsent(this.trackRequest(request, options), call.method, call.params, options);
+    });
+
+    console.log(`[HostBridge] Sending batch of ${messages.length} via ${this.root.#transport.name}:`, calls.map(c => c.method));
+    this.sendMessage(messages, requests);
+    return promises;
+  }
+
+  /**
+   * Sends a notification: the host runs the method but never replies.
+   */
+  notify(method: string, params?: unknown): void {
+    const notification = this.stamp<JsonRpcNotification>({ jsonrpc: '2.0', method, params });
+
+    try {
+      this.root.#transport.send(JSON.stringify(notification));
+    } catch (error) {
+      console.error('[HostBridge] Failed to send notification:', method, error);
+    }
+  }
+
+  private createRequest(method: string, params?: unknown): JsonRpcRequest {
+    return this.stamp<JsonRpcRequest>({
       jsonrpc: '2.0',
-      id,
+      id: ++this.root.requestId,
       method,
       params,
-    };
+    });
+  }
+
+  // Adds who the message is from, so the host can tell the shell and plugin instances apart
+  private stamp<T extends JsonRpcMessage>(message: T): T {
+    if (this.caller) message.caller = this.caller;
+    if (this.session) message.session = this.session;
+    return message;
+  }
+
+  /**
+   * Registers a pending request and settles it on response, abort or timeout.
+   */
+  private trackRequest<T>(request: JsonRpcRequest, options: RequestOptions): Promise<T> {
+    const { signal, timeoutMs = DEFAULT_REQUEST_TIMEOUT_MS, onHeld } = options;
+    const { id } = request;
 
     return new Promise((resolve, reject) => {
-      this.pendingRequests.set(id, { resolve: resolve as (value: unknown) => void, reject });
-
-      const message = JSON.stringify(request);
-
-      // Try MAUI HybridWebView first
-      if (typeof window !== 'undefined' && (window as any).HybridWebView?.SendRawMessage) {
-        console.log('[HostBridge] Sending via HybridWebView:', method, params);
-        (window as any).HybridWebView.SendRawMessage(message);
-      } 
-      // Fall back to WebView2
-      else if (typeof window !== 'undefined' && (window as any).chrome?.webview) {
-        console.log('[HostBridge] Sending via chrome.webview:', method, params);
-        (window as any).chrome.webview.postMessage(message);
-      } 
-      // Development mock
-      else {
-        console.warn('WebView not available, using mock response');
-        setTimeout(() => {
-          this.pendingRequests.delete(id);
-          resolve({} as T);
-        }, 100);
-      }
+      let timer: ReturnType<typeof setTimeout> | undefined;
 
-      // Timeout after 30 seconds
-      setTimeout(() => {
+      const onAbort = () => {
         if (this.pendingRequests.has(id)) {
-          this.pendingRequests.delete(id);
-          reject(new Error('Request timeout'));
+          this.pendingRequests.get(id)!.reject(createAbortError());
+          this.cancelRequest(id);
         }
-      }, 30000);
+      };
+
+      const cleanup = () => {
+        this.pendingRequests.delete(id);
+        if (timer) clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      this.pendingRequests.set(id, {
+        method: request.method,
+        resolve: (value) => {
+          cleanup();
+          resolve(value as T);
+        },
+        reject: (error) => {
+          cleanup();
+          reject(error);
+        },
+        // Waiting for the user is not the host being unresponsive
+        hold: () => {
+          if (timer) clearTimeout(timer);
+          timer = undefined;
+          onHeld?.();
+        },
+      });
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      if (timeoutMs > 0) {
+        timer = setTimeout(() => {
+          if (this.pendingRequests.has(id)) {
+            this.pendingRequests.get(id)!.reject(new Error('Request timeout'));
+            // The caller gave up, so don't let the host keep working on it
+            this.cancelRequest(id);
+          }
+        }, timeoutMs);
+      }
     });
   }
 
+  /**
+   * Writes a request or batch to the transport, failing the given
+   * pending requests if the transport cannot send.
+   */
+  private sendMessage(message: JsonRpcMessage | JsonRpcBatchRequest, requests: JsonRpcRequest[]): void {
+    try {
+      this.root.#transport.send(JSON.stringify(message));
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(String(error));
+      requests.forEach(request => this.pendingRequests.get(request.id)?.reject(err));
+    }
+  }
+
+  private cancelRequest(id: string | number): void {
+    const params: CancelRequestParams = { id };
+    this.notify(CANCEL_REQUEST_METHOD, params);
+  }
+
   // Connection management
-  async addConnection(params: AddConnectionParams): Promise<ConnectionInfo> {
-    return this.sendRequest<ConnectionInfo>('connection.add', params);
+  async addConnection(params: AddConnectionParams, options?: RequestOptions): Promise<ConnectionInfo> {
+    return this.sendRequest<ConnectionInfo>('connection.add', params, options);
   }
 
-  async listConnections(): Promise<ConnectionInfo[]> {
-    return this.sendRequest<ConnectionInfo[]>('connection.list');
+  async listConnections(options?: RequestOptions): Promise<ConnectionInfo[]> {
+    return this.sendRequest<ConnectionInfo[]>('connection.list', undefined, options);
   }
 
-  async activateConnection(connectionId: string): Promise<void> {
-    return this.sendRequest<void>('connection.setActive', { id: connectionId });
+  async activateConnection(connectionId: string, options?: RequestOptions): Promise<void> {
+    return this.sendRequest<void>('connection.setActive', { id: connectionId }, options);
   }
 
-  async removeConnection(connectionId: string): Promise<void> {
-    return this.sendRequest<void>('connection.remove', { id: connectionId });
+  /** Renames a connection or changes its environment tag */
+  async updateConnection(params: UpdateConnectionParams, options?: RequestOptions): Promise<ConnectionInfo> {
+    return this.sendRequest<ConnectionInfo>('connection.update', params, options);
+  }
+
+  async removeConnection(connectionId: string, options?: RequestOptions): Promise<void> {
+    return this.sendRequest<void>('connection.remove', { id: connectionId }, options);
+  }
+
+  /**
+   * Makes a request to the connection's environment and reports its latency,
+   * organization version and user. The result is also stored on the connection.
+   */
+  async checkConnectionHealth(connectionId: string, options?: RequestOptions): Promise<ConnectionHealth> {
+    return this.sendRequest<ConnectionHealth>('connection.checkHealth', { id: connectionId }, options);
   }
 
   // Authentication
-  async login(connectionId: string): Promise<AuthResult> {
-    return this.sendRequest<AuthResult>('auth.login', { connectionId });
+  async login(connectionId: string, options?: RequestOptions): Promise<AuthResult> {
+    return this.sendRequest<AuthResult>('auth.login', { connectionId }, options);
   }
 
-  async logout(): Promise<boolean> {
-    return this.sendRequest<boolean>('auth.logout');
+  async logout(options?: RequestOptions): Promise<boolean> {
+    return this.sendRequest<boolean>('auth.logout', undefined, options);
   }
 
-  async getAuthStatus(): Promise<AuthStatus> {
-    return this.sendRequest<AuthStatus>('auth.getStatus');
+  async getAuthStatus(options?: RequestOptions): Promise<AuthStatus> {
+    return this.sendRequest<AuthStatus>('auth.getStatus', undefined, options);
   }
 
   /**
    * Reauthenticate a specific connection after session expiration.
    * This will trigger an interactive OAuth flow.
    */
-  async reauthenticate(connectionId: string): Promise<AuthResult> {
-    return this.sendRequest<AuthResult>('auth.reauthenticate', { connectionId });
+  async reauthenticate(connectionId: string, options?: RequestOptions): Promise<AuthResult> {
+    return this.sendRequest<AuthResult>('auth.reauthenticate', { connectionId }, options);
+  }
+
+  /**
+   * Acquires a fresh token for a connection without user interaction, before
+   * the current one expires. Fails (`success: false`) if the user has to sign in again.
+   */
+  async refreshToken(connectionId: string, options?: RequestOptions): Promise<AuthResult> {
+    return this.sendRequest<AuthResult>('auth.refresh', { connectionId }, options);
   }
 
   /**
@@ -206,25 +651,94 @@ export class HostBridge {
     });
   }
 
+  /**
+   * Subscribe to the codes of DeviceCode sign-ins, which the user has to enter
+   * on another device while `login` is pending. Returns an unsubscribe function.
+   */
+  onDeviceCode(callback: (payload: DeviceCodePayload) => void): () => void {
+    return this.addEventListener(DEVICE_CODE_EVENT, (event) => {
+      callback(event.payload as DeviceCodePayload);
+    });
+  }
+
   // Plugin management
-  async listPlugins(): Promise<PluginMetadata[]> {
-    return this.sendRequest<PluginMetadata[]>('plugin.list');
+  async listPlugins(options?: RequestOptions): Promise<PluginMetadata[]> {
+    return this.sendRequest<PluginMetadata[]>('plugin.list', undefined, options);
+  }
+
+  async getPluginCommands(pluginId: string, options?: RequestOptions): Promise<PluginCommand[]> {
+    return this.sendRequest<PluginCommand[]>('plugin.getCommands', { pluginId }, options);
+  }
+
+  /**
+   * Invokes a plugin command. Pass `options.signal` to cancel a long-running
+   * command; the host is notified so the backend work stops as well.
+   * Pass `options.connectionId` to run it against a specific connection.
+   */
+  async invokePluginCommand(pluginId: string, command: string, payload?: string, options: PluginInvokeOptions = {}): Promise<any> {
+    const { connectionId, ...requestOptions } = options;
+    return this.sendRequest<any>('plugin.invoke', createInvokeParams(pluginId, command, payload, connectionId), requestOptions);
+  }
+
+  /**
+   * Lists the plugins of a catalog feed (URL, index file or directory) with
+   * their installed versions. Omit `source` to use the host's configured catalog.
+   */
+  async getPluginCatalog(source?: string, options?: RequestOptions): Promise<CatalogPlugin[]> {
+    return this.sendRequest<CatalogPlugin[]>('plugin.catalog', { source }, options);
+  }
+
+  /**
+   * Downloads, verifies (sha256) and installs a plugin from a catalog.
+   * Installs can take a while, so no timeout applies unless one is passed.
+   */
+  async installPlugin(pluginId: string, options: PluginInstallOptions = {}): Promise<PluginMetadata> {
+    return this.runInstall('plugin.install', pluginId, options);
+  }
+
+  /** Replaces an installed plugin with the newer version from a catalog */
+  async updatePlugin(pluginId: string, options: PluginInstallOptions = {}): Promise<PluginMetadata> {
+    return this.runInstall('plugin.update', pluginId, options);
   }
 
-  async getPluginCommands(pluginId: string): Promise<PluginCommand[]> {
-    return this.sendRequest<PluginCommand[]>('plugin.getCommands', { pluginId });
+  /** Removes a plugin installed from a catalog; bundled plugins are rejected */
+  async uninstallPlugin(pluginId: string, options?: RequestOptions): Promise<boolean> {
+    return this.sendRequest<boolean>('plugin.uninstall', { pluginId }, options);
   }
 
-  async invokePluginCommand(pluginId: string, command: string, payload?: string): Promise<any> {
-    return this.sendRequest<any>('plugin.invoke', { pluginId, command, payload: payload ?? '' });
+  private async runInstall(method: string, pluginId: string, options: PluginInstallOptions): Promise<PluginMetadata> {
+    const { source, onProgress, ...requestOptions } = options;
+    const progressToken = `${method}-${pluginId}-${Date.now().toString(36)}`;
+    const stopProgress = onProgress ? this.onProgress(progressToken, onProgress) : undefined;
+    try {
+      return await this.sendRequest<PluginMetadata>(
+        method,
+        { source, pluginId, progressToken },
+        { timeoutMs: 0, ...requestOptions }
+      );
+    } finally {
+      stopProgress?.();
+    }
   }
 
-  // Event subscription
+  /**
+   * Subscribes to host events of a type; `*` receives all of them, but only on
+   * the shell's bridge. Bridges of plugin instances only receive the events
+   * `isEventVisibleTo` lets through, and once the shell is connected the shared
+   * `hostBridge` receives none.
+   */
   addEventListener(eventType: string, callback: EventCallback): () => void {
+    if (eventType === '*' && this.caller) {
+      throw new Error('Plugins must subscribe to events by type');
+    }
+
+    const listener: EventCallback = (event) => {
+      if (this.canReceive(event)) callback(event);
+    };
     if (!this.eventListeners.has(eventType)) {
       this.eventListeners.set(eventType, new Set());
     }
-    this.eventListeners.get(eventType)!.add(callback);
+    this.eventListeners.get(eventType)!.add(listener);
 
     // Subscribe to backend events
     this.sendRequest('events.subscribe', { eventType }).catch(console.error);
@@ -233,7 +747,7 @@ export class HostBridge {
     return () => {
       const listeners = this.eventListeners.get(eventType);
       if (listeners) {
-        listeners.delete(callback);
+        listeners.delete(listener);
         if (listeners.size === 0) {
           this.eventListeners.delete(eventType);
           this.sendRequest('events.unsubscribe', { eventType }).catch(console.error);
@@ -242,14 +756,195 @@ export class HostBridge {
     };
   }
 
+  private canReceive(event: PluginEvent): boolean {
+    if (this.caller) return isEventVisibleTo(event, this.caller);
+    return this.shell || !this.root.shellConnected;
+  }
+
+  /**
+   * Subscribes to progress updates of the operation identified by `token`,
+   * as returned in a command's `progressToken`. The subscription ends
+   * automatically after the final (`done`) update.
+   */
+  onProgress(token: string, callback: ProgressCallback): () => void {
+    const unsubscribe = this.addEventListener(PROGRESS_EVENT, (event) => {
+      const update = parseProgress(event);
+      if (update?.token !== token) return;
+
+      callback(update);
+      if (update.done) unsubscribe();
+    });
+
+    // Replay the latest update received before subscribing
+    const snapshot = this.progressSnapshots.get(token);
+    if (snapshot) {
+      callback(snapshot);
+      if (snapshot.done) unsubscribe();
+    }
+    return unsubscribe;
+  }
+
+  /** Latest progress received for a token, if any */
+  getProgress(token: string): ProgressUpdate | undefined {
+    return this.progressSnapshots.get(token);
+  }
+
   // Storage
-  async getStorage(pluginId: string, key: string): Promise<string | null> {
-    return this.sendRequest<string | null>('storage.get', { pluginId, key });
+  async getStorage(pluginId: string, key: string, options?: RequestOptions): Promise<string | null> {
+    return this.sendRequest<string | null>('storage.get', { pluginId, key }, options);
+  }
+
+  /**
+   * Stores a value under a key. Rejects with code `STORAGE_QUOTA_EXCEEDED_CODE`
+   * when the plugin's quota would be exceeded.
+   */
+  async setStorage(pluginId: string, key: string, value: string, options: StorageWriteOptions = {}): Promise<void> {
+    const { origin, ...requestOptions } = options;
+    return this.sendRequest<void>('storage.set', { pluginId, key, value, origin }, requestOptions);
+  }
+
+  /** Deletes a key; resolves to false if it did not exist */
+  async deleteStorage(pluginId: string, key: string, options: StorageWriteOptions = {}): Promise<boolean> {
+    const { origin, ...requestOptions } = options;
+    return this.sendRequest<boolean>('storage.delete', { pluginId, key, origin }, requestOptions);
   }
 
-  async setStorage(pluginId: string, key: string, value: string): Promise<void> {
-    return this.sendRequest<void>('storage.set', { pluginId, key, value });
+  /** Lists the stored keys of a plugin, optionally only those starting with `prefix` */
+  async listStorageKeys(pluginId: string, prefix?: string, options?: RequestOptions): Promise<string[]> {
+    return this.sendRequest<string[]>('storage.keys', { pluginId, prefix }, options);
   }
+
+  /** Deletes all keys of a plugin, or those starting with `prefix`, and resolves to their number */
+  async clearStorage(pluginId: string, prefix?: string, options: StorageWriteOptions = {}): Promise<number> {
+    const { origin, ...requestOptions } = options;
+    return this.sendRequest<number>('storage.clear', { pluginId, prefix, origin }, requestOptions);
+  }
+
+  /** Applies writes and deletes atomically: all of them or, on failure, none */
+  async storageTransaction(pluginId: string, operations: StorageOperation[], options: StorageWriteOptions = {}): Promise<void> {
+    const { origin, ...requestOptions } = options;
+    return this.sendRequest<void>('storage.transaction', { pluginId, operations, origin }, requestOptions);
+  }
+
+  /** Storage usage and quota of one plugin, or of all plugins when `pluginId` is omitted */
+  async getStorageUsage(pluginId?: string, options?: RequestOptions): Promise<StorageUsage[]> {
+    return this.sendRequest<StorageUsage[]>('storage.usage', { pluginId }, options);
+  }
+
+  /** Sets the storage quota of a plugin; null restores the host default */
+  async setStorageQuota(pluginId: string, quotaBytes: number | null, options?: RequestOptions): Promise<StorageUsage> {
+    return this.sendRequest<StorageUsage>('storage.setQuota', { pluginId, quotaBytes }, options);
+  }
+
+  /**
+   * Subscribes to `storage:changed` events of a plugin, raised for writes from
+   * any tab. Compare `origin` to skip changes made by the subscriber itself.
+   */
+  onStorageChanged(pluginId: string, callback: (payload: StorageChangedPayload) => void): () => void {
+    return this.addEventListener(STORAGE_CHANGED_EVENT, (event) => {
+      if (event.pluginId !== pluginId) return;
+      callback(event.payload as StorageChangedPayload);
+    });
+  }
+
+  // Permissions
+  /** Consent decisions, of every plugin or of one */
+  async listPermissionGrants(pluginId?: string, options?: RequestOptions): Promise<PermissionGrant[]> {
+    return this.sendRequest<PermissionGrant[]>('permissions.list', pluginId ? { pluginId } : {}, options);
+  }
+
+  /** Records the user's decision on a permission of a plugin */
+  async setPermissionGrant(pluginId: string, permission: PluginPermission, granted: boolean, options?: RequestOptions): Promise<PermissionGrant> {
+    return this.sendRequest<PermissionGrant>('permissions.set', { pluginId, permission, granted }, options);
+  }
+
+  /** Forgets decisions so the user is asked again; all of the plugin's without `permission` */
+  async resetPermissionGrants(pluginId: string, permission?: PluginPermission, options?: RequestOptions): Promise<number> {
+    return this.sendRequest<number>('permissions.reset', { pluginId, permission }, options);
+  }
+
+  // Audit trail
+  /** Commands the host held on production connections, newest first, with the user's answer */
+  async listInvokeAudit(options?: RequestOptions): Promise<InvokeAuditEntry[]> {
+    return this.sendRequest<InvokeAuditEntry[]>('audit.list', undefined, options);
+  }
+
+  /** Empties the audit trail; resolves to the number of entries removed */
+  async clearInvokeAudit(options?: RequestOptions): Promise<number> {
+    return this.sendRequest<number>('audit.clear', undefined, options);
+  }
+
+  // Instance state
+  /**
+   * Reads the state a plugin saved for one of its tab instances.
+   * Workspaces restore tabs with their original instanceId, so this is how a plugin
+   * picks up where it left off after a restart. Resolves to null if nothing was saved.
+   */
+  async getInstanceState<T = unknown>(pluginId: string, instanceId: string, options?: RequestOptions): Promise<T | null> {
+    const value = await this.getStorage(pluginId, getInstanceStateKey(instanceId), options);
+    if (!value) return null;
+    try {
+      return JSON.parse(value) as T;
+    } catch (error) {
+      console.error(`[HostBridge] Ignoring unreadable state of instance ${instanceId}:`, error);
+      return null;
+    }
+  }
+
+  /** Saves the state of a plugin tab instance as JSON */
+  async setInstanceState(pluginId: string, instanceId: string, state: unknown, options?: RequestOptions): Promise<void> {
+    return this.setStorage(pluginId, getInstanceStateKey(instanceId), JSON.stringify(state), options);
+  }
+
+  /** Forgets the saved state of a plugin tab instance, e.g. when its tab is closed */
+  async clearInstanceState(pluginId: string, instanceId: string, options?: RequestOptions): Promise<void> {
+    await this.deleteStorage(pluginId, getInstanceStateKey(instanceId), options);
+  }
+}
+
+/**
+ * Storage key under which the state of a plugin tab instance is kept.
+ */
+export function getInstanceStateKey(instanceId: string): string {
+  return `instance-state.${instanceId}`;
+}
+
+/**
+ * Builds the params of a `plugin.invoke` request.
+ */
+export function createInvokeParams(pluginId: string, command: string, payload?: string, connectionId?: string | null) {
+  return connectionId
+    ? { pluginId, command, payload: payload ?? '', connectionId }
+    : { pluginId, command, payload: payload ?? '' };
+}
+
+function parseProgress(event: PluginEvent): ProgressUpdate | null {
+  try {
+    return typeof event.payload === 'string' ? JSON.parse(event.payload) : event.payload as ProgressUpdate;
+  } catch (error) {
+    console.error('[HostBridge] Failed to parse progress event:', error);
+    return null;
+  }
+}
+
+function createAbortError(): Error {
+  return new DOMException('Request cancelled', 'AbortError');
+}
+
+/**
+ * Returns the progress token of a command result, if it reports progress.
+ */
+export function getProgressToken(result: unknown): string | undefined {
+  if (typeof result !== 'object' || result === null) return undefined;
+  const token = (result as ProgressResult).progressToken;
+  return typeof token === 'string' && token.length > 0 ? token : undefined;
+}
+
+/**
+ * Returns true when an error was raised because the request was aborted.
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
 }
 
 // Singleton instance
@@ -0,0 +1,240 @@
+import type { PluginCommand, RequestOptions } from './types';
+import { hostBridge, createInvokeParams, type HostBridge } from './HostBridge';
+import { PayloadValidationError } from './errors';
+import { validateSchema, type JsonSchema, type SchemaValidationIssue } from './schema';
+
+/**
+ * Describes the payload and result types of a single plugin command.
+ */
+export interface PluginCommandSpec<TPayload = unknown, TResult = unknown> {
+  payload: TPayload;
+  result: TResult;
+}
+
+/**
+ * Maps command names to their payload/result types, e.g.
+ * `{ fetchSolutions: PluginCommandSpec<{ connectionId: string }, { solutions: Solution[] }> }`.
+ */
+export type PluginCommandMap = { [command: string]: PluginCommandSpec<any, any> };
+
+/** A single command invocation within `PluginClient.invokeBatch` */
+export type PluginCommandCall<Commands extends PluginCommandMap> = {
+  [K in keyof Commands & string]: { command: K; payload: Commands[K]['payload'] };
+}[keyof Commands & string];
+
+export interface PluginClientOptions {
+  /** Bridge used to reach the host. Defaults to the shared hostBridge. */
+  bridge?: HostBridge;
+  /** Validate payloads against the command's payloadSchema before sending. Default: true */
+  validate?: boolean;
+  /** Command metadata to validate against instead of fetching it via plugin.getCommands */
+  commands?: PluginCommand[];
+  /** Request options applied to every call; per-call options take precedence */
+  defaults?: RequestOptions;
+  /**
+   * Connection every command runs against, e.g. the `connectionId` prop of the
+   * plugin tab. Also filled into object payloads that don't set `connectionId`
+   * when the command has no schema or its schema declares `connectionId`.
+   */
+  connectionId?: string | null;
+}
+
+/**
+ * Typed client for the commands of a single plugin.
+ * Payloads are serialized and validated against the command's `payloadSchema`,
+ * results are parsed, and host errors surface as `JsonRpcRequestError`
+ * with their `code` and `data`.
+ */
+export class PluginClient<Commands extends PluginCommandMap> {
+  private readonly bridge: HostBridge;
+  private readonly shouldValidate: boolean;
+  private readonly defaults: RequestOptions;
+  private commandsPromise: Promise<Map<string, PluginCommand>> | null = null;
+
+  /** Connection the commands run against; null for the host's active connection */
+  readonly connectionId: string | null;
+
+  constructor(readonly pluginId: string, private readonly options: PluginClientOptions = {}) {
+    this.bridge = options.bridge ?? hostBridge;
+    this.shouldValidate = options.validate ?? true;
+    this.defaults = options.defaults ?? {};
+    this.connectionId = options.connectionId ?? null;
+    if (options.commands) {
+      this.commandsPromise = Promise.resolve(indexCommands(options.commands));
+    }
+  }
+
+  /**
+   * Invokes a command with a typed payload and returns its typed result.
+   * Throws `PayloadValidationError` without contacting the host when the
+   * payload does not match the command's schema.
+   */
+  async invoke<K extends keyof Commands & string>(
+    command: K,
+    payload: Commands[K]['payload'],
+    options?: RequestOptions
+  ): Promise<Commands[K]['result']> {
+    const boundPayload = await this.bindPayload(command, payload);
+    if (this.shouldValidate) {
+      const issues = await this.validate(command, boundPayload);
+      if (issues.length > 0) {
+        throw new PayloadValidationError(this.pluginId, command, issues);
+      }
+    }
+
+    const result = await this.bridge.invokePluginCommand(
+      this.pluginId,
+      command,
+      JSON.stringify(boundPayload ?? {}),
+      { ...this.defaults, ...options, connectionId: this.connectionId }
+    );
+    return parseResult(result) as Commands[K]['result'];
+  }
+
+  /**
+   * Invokes several commands in a single JSON-RPC batch (one round trip to the
+   * host) and resolves with their results in call order. Rejects with the first
+   * failure; all payloads are validated before anything is sent.
+   *
+   * ```ts
+   * const [solutions, types] = await client.invokeBatch([
+   *   { command: 'fetchSolutions', payload: { connectionId } },
+   *   { command: 'getComponentTypes', payload: {} },
+   * ]);
+   * ```
+   */
+  async invokeBatch<const Calls extends readonly PluginCommandCall<Commands>[]>(
+    calls: Calls,
+    options?: RequestOptions
+  ): Promise<{ -readonly [I in keyof Calls]: Commands[Calls[I]['command']]['result'] }> {
+    const bound = await Promise.all(
+      calls.map(async ({ command, payload }) => ({ command, payload: await this.bindPayload(command, payload) }))
+    );
+    if (this.shouldValidate) {
+      for (const { command, payload } of bound) {
+        const issues = await this.validate(command, payload);
+        if (issues.length > 0) {
+          throw new PayloadValidationError(this.pluginId, command, issues);
+        }
+      }
+    }
+
+    const results = await Promise.all(this.bridge.batch(
+      bound.map(({ command, payload }) => ({
+        method: 'plugin.invoke',
+        params: createInvokeParams(this.pluginId, command, JSON.stringify(payload ?? {}), this.connectionId),
+      })),
+      { ...this.defaults, ...options }
+    ));
+    return results.map(parseResult) as { -readonly [I in keyof Calls]: Commands[Calls[I]['command']]['result'] };
+  }
+
+  /**
+   * Validates a payload against the command's `payloadSchema`.
+   * Commands without a schema, or with one that is not valid JSON, accept any payload.
+   */
+  async validate<K extends keyof Commands & string>(
+    command: K,
+    payload: Commands[K]['payload']
+  ): Promise<SchemaValidationIssue[]> {
+    const schema = await this.getPayloadSchema(command);
+    if (!schema) return [];
+    return validateSchema(schema, payload ?? {});
+  }
+
+  /**
+   * Returns a client for the same plugin bound to another connection.
+   * Command metadata is shared with this client.
+   */
+  withConnection(connectionId: string | null | undefined): PluginClient<Commands> {
+    const client = new PluginClient<Commands>(this.pluginId, { ...this.options, connectionId });
+    client.commandsPromise = this.commandsPromise;
+    return client;
+  }
+
+  /**
+   * Returns the command metadata reported by the plugin.
+   */
+  async getCommands(): Promise<PluginCommand[]> {
+    return [...(await this.getCommandMap()).values()];
+  }
+
+  // Fills in the bound connection unless the caller chose one explicitly or the schema has no place for it
+  private async bindPayload<T>(command: string, payload: T): Promise<T> {
+    if (!this.connectionId || typeof payload !== 'object' || payload === null || Array.isArray(payload)) {
+      return payload;
+    }
+    const record = payload as Record<string, unknown>;
+    if (record.connectionId !== undefined) return payload;
+
+    const schema = await this.getPayloadSchema(command);
+    if (schema && !schema.properties?.connectionId) return payload;
+    return { ...record, connectionId: this.connectionId } as T;
+  }
+
+  private async getPayloadSchema(command: string): Promise<JsonSchema | null> {
+    const schema = (await this.getCommandMap()).get(command)?.payloadSchema;
+    if (!schema) return null;
+    const normalized = normalizeSchema(schema);
+    if (!normalized) {
+      console.warn(`[PluginClient] ${this.pluginId}.${command} declares a payloadSchema that is not valid JSON, skipping validation`);
+    }
+    return normalized;
+  }
+
+  private getCommandMap(): Promise<Map<string, PluginCommand>> {
+    if (!this.commandsPromise) {
+      this.commandsPromise = this.bridge
+        .getPluginCommands(this.pluginId)
+        .then(indexCommands)
+        .catch((error) => {
+          // Without metadata we can still invoke commands, just unvalidated
+          console.warn(`[PluginClient] Could not load commands for ${this.pluginId}, skipping validation:`, error);
+          return new Map<string, PluginCommand>();
+        });
+    }
+    return this.commandsPromise;
+  }
+}
+
+/**
+ * Creates a typed client for a plugin's commands.
+ *
+ * ```ts
+ * type Commands = {
+ *   fetchSolutions: PluginCommandSpec<{ connectionId: string }, { solutions: Solution[] }>;
+ * };
+ * const client = createPluginClient<Commands>('com.contoso.plugin');
+ * const { solutions } = await client.invoke('fetchSolutions', { connectionId });
+ * ```
+ */
+export function createPluginClient<Commands extends PluginCommandMap>(
+  pluginId: string,
+  options?: PluginClientOptions
+): PluginClient<Commands> {
+  return new PluginClient<Commands>(pluginId, options);
+}
+
+function indexCommands(commands: PluginCommand[]): Map<string, PluginCommand> {
+  return new Map((commands ?? []).map(c => [c.name, c]));
+}
+
+// Hosts may forward the schema as the raw JSON string declared by the plugin; null if it does not parse
+function normalizeSchema(schema: JsonSchema | string): JsonSchema | null {
+  if (typeof schema !== 'string') return schema;
+  try {
+    const parsed: unknown = JSON.parse(schema);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed) ? parsed as JsonSchema : null;
+  } catch {
+    return null;
+  }
+}
+
+function parseResult(result: unknown): unknown {
+  if (typeof result !== 'string') return result;
+  try {
+    return JSON.parse(result);
+  } catch {
+    return result;
+  }
+}
@@ -0,0 +1,151 @@
+import type { RequestOptions, StorageOperation, StorageUsage } from './types';
+import { hostBridge, type HostBridge } from './HostBridge';
+
+/** Separator between a namespace and the keys inside it */
+export const STORAGE_NAMESPACE_SEPARATOR = '/';
+
+export interface PluginStorageOptions {
+  /** Bridge used to reach the host. Defaults to the shared hostBridge. */
+  bridge?: HostBridge;
+  /** Namespace all keys are scoped to, e.g. `configs` */
+  namespace?: string;
+  /**
+   * Tag sent with every write, e.g. the tab's instanceId, so change
+   * listeners can tell their own writes apart.
+   */
+  origin?: string;
+}
+
+/** Change reported to `PluginStorage.onChange`, with keys relative to the namespace */
+export interface PluginStorageChange {
+  keys: string[];
+  /** True if the change was made through a storage with the same origin */
+  isOwnChange: boolean;
+}
+
+/**
+ * Collects writes and deletes that are committed together by
+ * `PluginStorage.transaction`.
+ */
+export class StorageTransaction {
+  /** @internal */
+  readonly operations: StorageOperation[] = [];
+
+  constructor(private readonly toKey: (key: string) => string) {}
+
+  set<T>(key: string, value: T): this {
+    this.operations.push({ type: 'set', key: this.toKey(key), value: JSON.stringify(value) });
+    return this;
+  }
+
+  delete(key: string): this {
+    this.operations.push({ type: 'delete', key: this.toKey(key) });
+    return this;
+  }
+}
+
+/**
+ * JSON storage of a single plugin, optionally scoped to a namespace.
+ * Values are serialized with JSON; writes count against the plugin's quota
+ * and raise `storage:changed` for every tab of the plugin.
+ *
+ * ```ts
+ * const storage = createPluginStorage('com.contoso.plugin', { origin: instanceId });
+ * const configs = storage.namespace('configs');
+ * await configs.set('default', { pageSize: 50 });
+ * const keys = await configs.keys();
+ * ```
+ */
+export class PluginStorage {
+  private readonly bridge: HostBridge;
+  private readonly prefix: string;
+
+  constructor(readonly pluginId: string, private readonly options: PluginStorageOptions = {}) {
+    this.bridge = options.bridge ?? hostBridge;
+    this.prefix = options.namespace ? `${options.namespace}${STORAGE_NAMESPACE_SEPARATOR}` : '';
+  }
+
+  /** Reads and parses a value; resolves to null if the key is missing or not valid JSON */
+  async get<T>(key: string, options?: RequestOptions): Promise<T | null> {
+    const value = await this.bridge.getStorage(this.pluginId, this.toKey(key), options);
+    if (value === null || value === '') return null;
+    try {
+      return JSON.parse(value) as T;
+    } catch (error) {
+      console.warn(`[PluginStorage] Ignoring unreadable value of ${this.toKey(key)}:`, error);
+      return null;
+    }
+  }
+
+  async set<T>(key: string, value: T, options?: RequestOptions): Promise<void> {
+    return this.bridge.setStorage(this.pluginId, this.toKey(key), JSON.stringify(value), this.writeOptions(options));
+  }
+
+  async delete(key: string, options?: RequestOptions): Promise<boolean> {
+    return this.bridge.deleteStorage(this.pluginId, this.toKey(key), this.writeOptions(options));
+  }
+
+  /** Keys in this namespace, optionally only those starting with `prefix` */
+  async keys(prefix = '', options?: RequestOptions): Promise<string[]> {
+    const keys = await this.bridge.listStorageKeys(this.pluginId, this.toKey(prefix), options);
+    return keys.map(key => key.slice(this.prefix.length));
+  }
+
+  /** Deletes every key in this namespace (or of the plugin, without one) */
+  async clear(options?: RequestOptions): Promise<number> {
+    return this.bridge.clearStorage(this.pluginId, this.prefix || undefined, this.writeOptions(options));
+  }
+
+  /**
+   * Commits the writes and deletes made in `build` atomically. Nothing is
+   * written if `build` throws or the host rejects any operation.
+   *
+   * ```ts
+   * await storage.transaction((tx) => {
+   *   tx.set('current', config);
+   *   tx.delete('draft');
+   * });
+   * ```
+   */
+  async transaction(build: (tx: StorageTransaction) => void | Promise<void>, options?: RequestOptions): Promise<void> {
+    const tx = new StorageTransaction((key) => this.toKey(key));
+    await build(tx);
+    if (tx.operations.length === 0) return;
+    return this.bridge.storageTransaction(this.pluginId, tx.operations, this.writeOptions(options));
+  }
+
+  /** Returns a storage scoped to a nested namespace */
+  namespace(name: string): PluginStorage {
+    return new PluginStorage(this.pluginId, { ...this.options, namespace: this.toKey(name) });
+  }
+
+  /** Usage and quota of the whole plugin */
+  async usage(options?: RequestOptions): Promise<StorageUsage | undefined> {
+    const [usage] = await this.bridge.getStorageUsage(this.pluginId, options);
+    return usage;
+  }
+
+  /** Subscribes to changes of keys in this namespace, made by any tab of the plugin */
+  onChange(callback: (change: PluginStorageChange) => void): () => void {
+    return this.bridge.onStorageChanged(this.pluginId, ({ keys, origin }) => {
+      const scoped = keys.filter(key => key.startsWith(this.prefix)).map(key => key.slice(this.prefix.length));
+      if (scoped.length === 0) return;
+      callback({ keys: scoped, isOwnChange: !!origin && origin === this.options.origin });
+    });
+  }
+
+  private toKey(key: string): string {
+    return `${this.prefix}${key}`;
+  }
+
+  private writeOptions(options?: RequestOptions) {
+    return { ...options, origin: this.options.origin };
+  }
+}
+
+/**
+ * Creates a JSON storage for a plugin.
+ */
+export function createPluginStorage(pluginId: string, options?: PluginStorageOptions): PluginStorage {
+  return new PluginStorage(pluginId, options);
+}
@@ -0,0 +1,291 @@
+import type { AddConnectionParams, ConnectionAuthType, ConnectionEnvironment, ConnectionInfo } from './types';
+import { validateSchema, type JsonSchema } from './schema';
+
+/** Environment tags in order from least to most sensitive */
+export const CONNECTION_ENVIRONMENTS: readonly ConnectionEnvironment[] = ['dev', 'test', 'prod'];
+
+export const isConnectionEnvironment = (value: unknown): value is ConnectionEnvironment =>
+  CONNECTION_ENVIRONMENTS.includes(value as ConnectionEnvironment);
+
+/**
+ * True for connections tagged as production, which plugins should treat with
+ * extra care, e.g. by asking before changing data.
+ */
+export const isProductionConnection = (connection: Pick<ConnectionInfo, 'environment'> | null | undefined): boolean =>
+  connection?.environment === 'prod';
+
+export const CONNECTION_AUTH_TYPES: readonly ConnectionAuthType[] = [
+  'OAuth',
+  'DeviceCode',
+  'ClientSecret',
+  'Certificate',
+  'ManagedIdentity',
+];
+
+export const isConnectionAuthType = (value: unknown): value is ConnectionAuthType =>
+  CONNECTION_AUTH_TYPES.includes(value as ConnectionAuthType);
+
+/** A problem with one field of `AddConnectionParams` */
+export interface ConnectionParamsIssue {
+  field: keyof AddConnectionParams;
+  message: string;
+}
+
+const GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const THUMBPRINT_PATTERN = /^[0-9a-f]{40}$/i;
+
+/** Removes the spaces and colons certificate viewers put between the bytes of a thumbprint */
+export const normalizeThumbprint = (thumbprint: string): string => thumbprint.replace(/[\s:]/g, '').toUpperCase();
+
+/**
+ * Checks the parameters of a new connection, including the settings its auth
+ * type needs. Returns no issues when the connection can be added.
+ */
+export function validateConnectionParams(params: AddConnectionParams): ConnectionParamsIssue[] {
+  const issues: ConnectionParamsIssue[] = [];
+  const require = (field: keyof AddConnectionParams, label: string) => {
+    const value = params[field];
+    if (typeof value !== 'string' || value.trim() === '') {
+      issues.push({ field, message: `${label} is required` });
+      return false;
+    }
+    return true;
+  };
+  const requireClientId = (optional = false) => {
+    if (optional && !params.clientId) return;
+    if (require('clientId', 'Client ID') && !GUID_PATTERN.test(params.clientId!.trim())) {
+      issues.push({ field: 'clientId', message: 'Client ID must be a GUID' });
+    }
+  };
+
+  require('name', 'Name');
+  if (require('url', 'URL')) {
+    let url: URL | null = null;
+    try {
+      url = new URL(params.url.trim());
+    } catch {
+      // Reported below
+    }
+    if (url?.protocol !== 'https:') {
+      issues.push({ field: 'url', message: 'URL must be an https:// address, e.g. https://yourorg.crm.dynamics.com' });
+    }
+  }
+
+  switch (params.authType) {
+    case 'OAuth':
+    case 'DeviceCode':
+      break;
+    case 'ClientSecret':
+      requireClientId();
+      require('tenantId', 'Tenant ID');
+      require('clientSecret', 'Client secret');
+      break;
+    case 'Certificate':
+      requireClientId();
+      require('tenantId', 'Tenant ID');
+      if (params.certificateThumbprint && params.certificatePath) {
+        issues.push({ field: 'certificatePath', message: 'Use either a thumbprint or a certificate file, not both' });
+      } else if (params.certificateThumbprint) {
+        if (!THUMBPRINT_PATTERN.test(normalizeThumbprint(params.certificateThumbprint))) {
+          issues.push({ field: 'certificateThumbprint', message: 'Thumbprint must be 40 hexadecimal characters' });
+        }
+      } else if (params.certificatePath) {
+        if (!/\.(pfx|p12)$/i.test(params.certificatePath.trim())) {
+          issues.push({ field: 'certificatePath', message: 'Certificate file must be a .pfx or .p12 file' });
+        }
+      } else {
+        issues.push({ field: 'certificateThumbprint', message: 'A certificate thumbprint or file is required' });
+      }
+      break;
+    case 'ManagedIdentity':
+      requireClientId(true);
+      break;
+    default:
+      issues.push({ field: 'authType', message: `Unknown auth type: ${String(params.authType)}` });
+  }
+
+  return issues;
+}
+
+/** The settings a Dataverse connection string describes: everything but a name */
+export type ConnectionStringSettings = Omit<AddConnectionParams, 'name' | 'environment'>;
+
+/** Connection string keys, without spaces and lowercased, and their aliases */
+const CONNECTION_STRING_KEYS: Record<string, keyof ConnectionStringSettings> = {
+  url: 'url',
+  serviceuri: 'url',
+  server: 'url',
+  clientid: 'clientId',
+  appid: 'clientId',
+  applicationid: 'clientId',
+  clientsecret: 'clientSecret',
+  secret: 'clientSecret',
+  tenantid: 'tenantId',
+  tenant: 'tenantId',
+  thumbprint: 'certificateThumbprint',
+  certthumbprint: 'certificateThumbprint',
+  certificatethumbprint: 'certificateThumbprint',
+  certificatepath: 'certificatePath',
+  certificatefile: 'certificatePath',
+  certificatepassword: 'certificatePassword',
+};
+
+/** Splits `key=value` pairs on semicolons outside of single or double quotes */
+function splitConnectionString(value: string): [string, string][] {
+  const pairs: [string, string][] = [];
+  let current = '';
+  let quote: string | null = null;
+  const flush = () => {
+    const separator = current.indexOf('=');
+    if (current.trim() !== '') {
+      if (separator <= 0) throw new Error(`Expected key=value but found "${current.trim()}"`);
+      pairs.push([current.slice(0, separator).trim(), current.slice(separator + 1).trim()]);
+    }
+    current = '';
+  };
+
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = null;
+      else current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === ';') {
+      flush();
+    } else {
+      current += char;
+    }
+  }
+  if (quote) throw new Error('Unterminated quoted value');
+  flush();
+  return pairs;
+}
+
+/**
+ * Reads a Dataverse connection string such as
+ * `AuthType=ClientSecret;Url=https://org.crm.dynamics.com;ClientId=...;ClientSecret=...`.
+ * Keys are case-insensitive and the usual aliases (`ServiceUri`, `AppId`, ...) are
+ * understood. Throws for malformed strings and auth types the host does not support;
+ * use `validateConnectionParams` to find settings that are missing.
+ */
+export function parseConnectionString(value: string): ConnectionStringSettings {
+  const settings: Partial<ConnectionStringSettings> = {};
+  let authType: string | undefined;
+
+  for (const [rawKey, rawValue] of splitConnectionString(value)) {
+    const key = rawKey.replace(/\s/g, '').toLowerCase();
+    if (key === 'authtype' || key === 'authenticationtype') {
+      authType = rawValue;
+      continue;
+    }
+    const field = CONNECTION_STRING_KEYS[key];
+    if (field && field !== 'authType') settings[field] = rawValue;
+    // Keys like LoginPrompt, RedirectUri or RequireNewInstance don't apply to the host
+  }
+
+  if (!settings.url) throw new Error('The connection string has no Url');
+
+  const normalizedAuthType = CONNECTION_AUTH_TYPES.find(t => t.toLowerCase() === authType?.toLowerCase());
+  if (authType && !normalizedAuthType) {
+    throw new Error(`Auth type "${authType}" is not supported; use one of ${CONNECTION_AUTH_TYPES.join(', ')}`);
+  }
+
+  return { ...settings, url: settings.url, authType: normalizedAuthType ?? 'OAuth' };
+}
+
+/** Version of the connection export format written by `createConnectionExport` */
+export const CONNECTION_EXPORT_VERSION = 1;
+
+/** A connection as stored in an export: what is needed to add it again, never secrets */
+export interface ConnectionDefinition {
+  name: string;
+  url: string;
+  environment?: ConnectionEnvironment;
+  authType?: ConnectionAuthType;
+  clientId?: string;
+  tenantId?: string;
+  certificateThumbprint?: string;
+}
+
+const DEFINITION_FIELDS: (keyof ConnectionDefinition)[] = [
+  'name',
+  'url',
+  'environment',
+  'authType',
+  'clientId',
+  'tenantId',
+  'certificateThumbprint',
+];
+
+/** Copies the fields of a definition that are set, leaving out anything else */
+const toDefinition = (source: ConnectionDefinition): ConnectionDefinition =>
+  Object.fromEntries(DEFINITION_FIELDS.filter(field => source[field]).map(field => [field, source[field]])) as
+    unknown as ConnectionDefinition;
+
+export interface ConnectionExport {
+  version: number;
+  exportedAt: string;
+  connections: ConnectionDefinition[];
+}
+
+const CONNECTION_EXPORT_SCHEMA: JsonSchema = {
+  type: 'object',
+  required: ['version', 'connections'],
+  properties: {
+    version: { type: 'integer' },
+    exportedAt: { type: 'string' },
+    connections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['name', 'url'],
+        properties: {
+          name: { type: 'string', minLength: 1 },
+          url: { type: 'string', minLength: 1 },
+          environment: { type: 'string', enum: [...CONNECTION_ENVIRONMENTS] },
+          authType: { type: 'string', enum: [...CONNECTION_AUTH_TYPES] },
+          clientId: { type: 'string' },
+          tenantId: { type: 'string' },
+          certificateThumbprint: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Builds an export of connection definitions. Only names, URLs, environment
+ * tags and the non-secret auth settings are included; sign-in state, client
+ * secrets and certificate files stay on this machine.
+ */
+export function createConnectionExport(connections: ConnectionInfo[]): ConnectionExport {
+  return {
+    version: CONNECTION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    connections: connections.map(toDefinition),
+  };
+}
+
+/**
+ * Reads the connection definitions of an export created by `createConnectionExport`.
+ * Throws with the problems found if the JSON is not a valid export.
+ */
+export function parseConnectionExport(json: string): ConnectionDefinition[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const issues = validateSchema(CONNECTION_EXPORT_SCHEMA, data);
+  if (issues.length > 0) {
+    throw new Error(`Not a connection export: ${issues.map(i => `${i.path || '/'} ${i.message}`).join('; ')}`);
+  }
+
+  const { version, connections } = data as ConnectionExport;
+  if (version > CONNECTION_EXPORT_VERSION) {
+    throw new Error(`Connection export version ${version} is newer than this version of DataverseDevKit supports`);
+  }
+  return connections.map(toDefinition);
+}
@@ -0,0 +1,33 @@
+import type { JsonRpcError } from './types';
+import { formatSchemaIssues, type SchemaValidationIssue } from './schema';
+
+/**
+ * Raised when the host answers a request with a JSON-RPC error.
+ * Carries the structured `code` and `data` from the response.
+ */
+export class JsonRpcRequestError extends Error {
+  readonly code: number;
+  readonly data?: unknown;
+
+  constructor(readonly method: string, error: JsonRpcError) {
+    super(error.message);
+    this.name = 'JsonRpcRequestError';
+    this.code = error.code;
+    this.data = error.data;
+  }
+}
+
+/**
+ * Raised by a plugin client when a payload does not match the command's
+ * `payloadSchema`. The request is never sent.
+ */
+export class PayloadValidationError extends Error {
+  constructor(
+    readonly pluginId: string,
+    readonly command: string,
+    readonly issues: SchemaValidationIssue[]
+  ) {
+    super(`Invalid payload for ${pluginId}.${command}:\n${formatSchemaIssues(issues)}`);
+    this.name = 'PayloadValidationError';
+  }
+}
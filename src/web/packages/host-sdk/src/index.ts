@@ -1,3 +1,13 @@
 export * from './types';
 export * from './HostBridge';
+export * from './transports';
+export * from './errors';
+export * from './schema';
+export * from './PluginClient';
+export * from './PluginStorage';
+export * from './version';
+export * from './permissions';
+export * from './isolation';
+export * from './keybindings';
+export * from './connections';
 export { hostBridge as default } from './HostBridge';
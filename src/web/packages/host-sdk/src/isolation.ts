@@ -0,0 +1,211 @@
+import type {
+  CancelRequestParams,
+  IsolatedPluginContext,
+  JsonRpcError,
+  JsonRpcNotification,
+  JsonRpcRequest,
+  JsonRpcResponse,
+  RequestHeldParams,
+} from './types';
+import {
+  CANCEL_REQUEST_METHOD,
+  PERMISSION_DENIED_CODE,
+  REQUEST_HELD_METHOD,
+  isAbortError,
+  type HostBridge,
+} from './HostBridge';
+import { JsonRpcRequestError } from './errors';
+import {
+  PostMessageTransport,
+  parseIsolatedFrameMessage,
+  type IsolatedFrameMessage,
+} from './transports/PostMessageTransport';
+
+/** Error code returned to an isolated plugin for requests it cancelled */
+const REQUEST_CANCELLED_CODE = -32800;
+
+/**
+ * Relays the JSON-RPC messages of an isolated plugin frame to the host.
+ * Requests are re-issued through `bridge`, a bridge the shell got for the
+ * plugin from `registerCaller`, so a frame cannot claim another identity. Events
+ * of the types the frame subscribed to are forwarded back to it if they concern
+ * the plugin or are listed in `PLUGIN_VISIBLE_HOST_EVENTS`.
+ *
+ * ```ts
+ * const relay = new IsolatedPluginRelay(await shellBridge.registerCaller({ pluginId, instanceId }),
+ *   (message) => iframe.contentWindow?.postMessage(message, '*'));
+ * relay.relay(message.data);
+ * ```
+ */
+export class IsolatedPluginRelay {
+  private pending = new Map<string | number, AbortController>();
+  private subscriptions = new Map<string, () => void>();
+  private disposed = false;
+
+  constructor(
+    private readonly bridge: HostBridge,
+    private readonly post: (message: IsolatedFrameMessage) => void
+  ) {}
+
+  /** Handles a serialized JSON-RPC message or batch posted by the frame */
+  relay(data: string): void {
+    let message: unknown;
+    try {
+      message = JSON.parse(data);
+    } catch {
+      this.respond({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } });
+      return;
+    }
+
+    // Batch entries are answered one by one; the frame correlates them by id
+    const entries: unknown[] = Array.isArray(message) ? message : [message];
+    entries.forEach(entry => {
+      if (isRelayableEntry(entry)) {
+        this.relayEntry(entry);
+        return;
+      }
+      const { id } = (entry ?? {}) as { id?: unknown };
+      this.respond({
+        jsonrpc: '2.0',
+        id: typeof id === 'string' || typeof id === 'number' ? id : null,
+        error: { code: -32600, message: 'Invalid Request' },
+      });
+    });
+  }
+
+  /** Cancels relayed requests and drops the frame's event subscriptions */
+  dispose(): void {
+    this.disposed = true;
+    this.pending.forEach(controller => controller.abort());
+    this.pending.clear();
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions.clear();
+  }
+
+  private async relayEntry(entry: JsonRpcRequest | JsonRpcNotification): Promise<void> {
+    if (!('id' in entry) || entry.id === null || entry.id === undefined) {
+      // Only cancellations are honored; other notifications could not be attributed to the plugin
+      if (entry.method === CANCEL_REQUEST_METHOD) {
+        this.pending.get((entry.params as CancelRequestParams | undefined)?.id ?? '')?.abort();
+      }
+      return;
+    }
+
+    const { id, method, params } = entry;
+    const controller = new AbortController();
+    this.pending.set(id, controller);
+    try {
+      const result = await this.forward(id, method, params, controller.signal);
+      this.respond({ jsonrpc: '2.0', id, result });
+    } catch (error) {
+      this.respond({ jsonrpc: '2.0', id, error: toJsonRpcError(error) });
+    } finally {
+      this.pending.delete(id);
+    }
+  }
+
+  private async forward(id: string | number, method: string, params: unknown, signal: AbortSignal): Promise<unknown> {
+    const { eventType } = (params ?? {}) as { eventType?: string };
+
+    switch (method) {
+      case 'events.subscribe': {
+        if (eventType === '*') {
+          throw new JsonRpcRequestError(method, {
+            code: PERMISSION_DENIED_CODE,
+            message: 'Plugins must subscribe to events by type',
+          });
+        }
+        // Checked against the plugin's permissions before any event is forwarded;
+        // the plugin's bridge then only lets through the events it may see
+        const result = await this.bridge.request(method, params, { signal });
+        if (eventType && !this.disposed && !this.subscriptions.has(eventType)) {
+          this.subscriptions.set(eventType, this.bridge.addEventListener(eventType, (event) => {
+            this.post({ type: 'ddk:rpc', data: JSON.stringify(event) });
+          }));
+        }
+        return result;
+      }
+      case 'events.unsubscribe':
+        if (eventType) {
+          this.subscriptions.get(eventType)?.();
+          this.subscriptions.delete(eventType);
+        }
+        return { unsubscribed: true };
+      default:
+        // The frame applies its own timeout and cancels when it gives up; it
+        // must not run while the host waits for the user
+        return this.bridge.request(method, params, {
+          signal,
+          timeoutMs: 0,
+          onHeld: () => this.notifyHeld(id),
+        });
+    }
+  }
+
+  private notifyHeld(id: string | number): void {
+    if (this.disposed) return;
+    const params: RequestHeldParams = { id };
+    const notification: JsonRpcNotification = { jsonrpc: '2.0', method: REQUEST_HELD_METHOD, params };
+    this.post({ type: 'ddk:rpc', data: JSON.stringify(notification) });
+  }
+
+  private respond(response: JsonRpcResponse): void {
+    if (this.disposed) return;
+    this.post({ type: 'ddk:rpc', data: JSON.stringify(response) });
+  }
+}
+
+// A frame can post anything, so entries are checked before they are looked at
+function isRelayableEntry(entry: unknown): entry is JsonRpcRequest | JsonRpcNotification {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) return false;
+  const { method, id } = entry as { method?: unknown; id?: unknown };
+  return typeof method === 'string' && (id === undefined || id === null || typeof id === 'string' || typeof id === 'number');
+}
+
+function toJsonRpcError(error: unknown): JsonRpcError {
+  if (error instanceof JsonRpcRequestError) {
+    return { code: error.code, message: error.message, data: error.data };
+  }
+  if (isAbortError(error)) {
+    return { code: REQUEST_CANCELLED_CODE, message: 'Request cancelled' };
+  }
+  return { code: -32603, message: error instanceof Error ? error.message : 'Internal error' };
+}
+
+/**
+ * Returns true when the plugin runs in an isolated frame rather than in the
+ * shell's React tree.
+ */
+export function isIsolatedPlugin(): boolean {
+  return PostMessageTransport.isAvailable();
+}
+
+/**
+ * Subscribes an isolated plugin page to the context of its tab: instance,
+ * connection and the shell's Fluent theme tokens. The callback runs once the
+ * shell answers and again whenever the connection or theme changes.
+ *
+ * ```ts
+ * onIsolatedPluginContext(({ instanceId, connectionId, theme }) => {
+ *   root.render(<FluentProvider theme={theme}><Plugin instanceId={instanceId} connectionId={connectionId} /></FluentProvider>);
+ * });
+ * ```
+ */
+export function onIsolatedPluginContext(callback: (context: IsolatedPluginContext) => void): () => void {
+  if (!isIsolatedPlugin()) {
+    throw new Error('onIsolatedPluginContext can only be used in an isolated plugin frame');
+  }
+
+  const listener = (e: MessageEvent) => {
+    if (e.source !== window.parent) return;
+    const message = parseIsolatedFrameMessage(e.data);
+    if (message?.type === 'ddk:context') {
+      callback(message.context);
+    }
+  };
+  window.addEventListener('message', listener);
+
+  const ready: IsolatedFrameMessage = { type: 'ddk:ready' };
+  window.parent.postMessage(ready, '*');
+  return () => window.removeEventListener('message', listener);
+}
@@ -0,0 +1,289 @@
+import type {
+  KeybindingContext,
+  KeybindingDefinition,
+  KeybindingInfo,
+  KeybindingOverrides,
+  KeybindingRegistration,
+} from './types';
+
+const MODIFIER_ORDER = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+type Modifier = typeof MODIFIER_ORDER[number];
+
+const MODIFIER_ALIASES: Record<string, Modifier | 'Mod'> = {
+  ctrl: 'Ctrl',
+  control: 'Ctrl',
+  alt: 'Alt',
+  option: 'Alt',
+  shift: 'Shift',
+  meta: 'Meta',
+  cmd: 'Meta',
+  command: 'Meta',
+  win: 'Meta',
+  mod: 'Mod',
+};
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: 'Escape',
+  escape: 'Escape',
+  del: 'Delete',
+  delete: 'Delete',
+  space: 'Space',
+  ' ': 'Space',
+  enter: 'Enter',
+  return: 'Enter',
+  tab: 'Tab',
+  backspace: 'Backspace',
+  up: 'ArrowUp',
+  down: 'ArrowDown',
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  arrowup: 'ArrowUp',
+  arrowdown: 'ArrowDown',
+  arrowleft: 'ArrowLeft',
+  arrowright: 'ArrowRight',
+  pageup: 'PageUp',
+  pagedown: 'PageDown',
+  home: 'Home',
+  end: 'End',
+  plus: '+',
+};
+
+// Dialogs take precedence over the active tab, which takes precedence over the shell
+const CONTEXT_PRIORITY: Record<KeybindingContext, number> = { dialog: 2, tab: 1, global: 0 };
+
+const isMac = (): boolean =>
+  typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform || navigator.userAgent);
+
+const normalizeKey = (key: string): string => {
+  const alias = KEY_ALIASES[key.toLowerCase()];
+  if (alias) return alias;
+  if (key.length === 1) return key.toUpperCase();
+  // Named keys such as F5: capitalize the first letter
+  return key[0].toUpperCase() + key.slice(1);
+};
+
+const formatCombination = (modifiers: Set<Modifier>, key: string): string =>
+  [...MODIFIER_ORDER.filter(m => modifiers.has(m)), key].join('+');
+
+/**
+ * Brings a key combination into canonical form, e.g. `shift+ctrl+t` to
+ * `Ctrl+Shift+T` and `Mod+K` to `Ctrl+K` (`Meta+K` on macOS).
+ * Returns null if the combination has no key besides modifiers.
+ */
+export function normalizeKeys(keys: string): string | null {
+  const parts = keys.trim().endsWith('++')
+    ? [...keys.trim().slice(0, -2).split('+'), '+']
+    : keys.trim().split('+');
+
+  const modifiers = new Set<Modifier>();
+  let key: string | null = null;
+  for (const part of parts.map(p => p.trim()).filter(Boolean)) {
+    const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+    if (modifier === 'Mod') {
+      modifiers.add(isMac() ? 'Meta' : 'Ctrl');
+    } else if (modifier) {
+      modifiers.add(modifier);
+    } else {
+      key = normalizeKey(part);
+    }
+  }
+  return key ? formatCombination(modifiers, key) : null;
+}
+
+/**
+ * Returns the canonical key combination of a keyboard event, or null while
+ * only modifiers are pressed. Letters and digits are read from the physical
+ * key, so Shift+1 is `Shift+1` rather than `Shift+!`.
+ */
+export function formatKeyEvent(event: KeyboardEvent): string | null {
+  if (['Control', 'Alt', 'Shift', 'Meta'].includes(event.key)) return null;
+
+  const modifiers = new Set<Modifier>();
+  if (event.ctrlKey) modifiers.add('Ctrl');
+  if (event.altKey) modifiers.add('Alt');
+  if (event.shiftKey) modifiers.add('Shift');
+  if (event.metaKey) modifiers.add('Meta');
+
+  const code = event.code ?? '';
+  const key = /^Key[A-Z]$/.test(code) ? code.slice(3)
+    : /^Digit[0-9]$/.test(code) ? code.slice(5)
+    : normalizeKey(event.key);
+  return formatCombination(modifiers, key);
+}
+
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!target || typeof (target as HTMLElement).tagName !== 'string') return false;
+  const element = target as HTMLElement;
+  return element.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(element.tagName);
+};
+
+interface Registration {
+  binding: KeybindingRegistration;
+  order: number;
+}
+
+/**
+ * Central registry of keyboard shortcuts for the shell and plugins. Bindings
+ * are registered with a context and matched against key presses; users can
+ * rebind or disable them by id through `setOverrides`.
+ *
+ * ```ts
+ * const unregister = keybindings.register({
+ *   id: 'myPlugin.refresh',
+ *   title: 'Refresh',
+ *   category: 'My Plugin',
+ *   context: 'tab',
+ *   instanceId,
+ *   defaultKeys: 'Mod+R',
+ *   handler: () => refresh(),
+ * });
+ * ```
+ */
+export class KeybindingRegistry {
+  private registrations: Registration[] = [];
+  private definitions = new Map<string, KeybindingDefinition>();
+  private overrides: KeybindingOverrides = {};
+  private activeTabId: string | null = null;
+  private openDialogs = 0;
+  private nextOrder = 0;
+  private listeners = new Set<() => void>();
+
+  /**
+   * Registers a binding and returns a function that removes it. Several
+   * registrations may share an id, e.g. one per plugin tab.
+   */
+  register(binding: KeybindingRegistration): () => void {
+    const registration: Registration = { binding, order: this.nextOrder++ };
+    this.registrations.push(registration);
+    // Definitions stay known after unregistering, so they can still be customized.
+    // The first registration of an id describes it in Settings.
+    if (!this.definitions.has(binding.id)) {
+      const { handler: _handler, instanceId: _instanceId, ...definition } = binding;
+      this.definitions.set(binding.id, definition);
+    }
+    this.notify();
+
+    return () => {
+      this.registrations = this.registrations.filter(r => r !== registration);
+      this.notify();
+    };
+  }
+
+  /** Replaces the user's overrides; bindings not listed use their defaults */
+  setOverrides(overrides: KeybindingOverrides): void {
+    this.overrides = { ...overrides };
+    this.notify();
+  }
+
+  getOverrides(): KeybindingOverrides {
+    return { ...this.overrides };
+  }
+
+  /** Keys that trigger the binding after overrides, in canonical form; null when unbound */
+  getKeys(id: string): string | null {
+    const keys = id in this.overrides ? this.overrides[id] : this.definitions.get(id)?.defaultKeys;
+    return keys ? normalizeKeys(keys) : null;
+  }
+
+  /** Every binding registered so far, sorted by category and title */
+  list(): KeybindingInfo[] {
+    return [...this.definitions.values()]
+      .map(d => ({
+        id: d.id,
+        title: d.title,
+        category: d.category,
+        context: d.context ?? 'global',
+        defaultKeys: d.defaultKeys ? normalizeKeys(d.defaultKeys) : null,
+        keys: this.getKeys(d.id),
+      }))
+      .sort((a, b) => (a.category ?? '').localeCompare(b.category ?? '') || a.title.localeCompare(b.title));
+  }
+
+  /** Ids of other bindings that use the same keys and could fire in the same context */
+  findConflicts(id: string, keys: string): string[] {
+    const normalized = normalizeKeys(keys);
+    if (!normalized) return [];
+    return [...this.definitions.keys()].filter(other => other !== id && this.getKeys(other) === normalized);
+  }
+
+  /** Tells the registry which plugin tab is active, for `tab` bindings */
+  setActiveTab(instanceId: string | null): void {
+    this.activeTabId = instanceId;
+  }
+
+  /**
+   * Marks a dialog as open until the returned function is called. While a
+   * dialog is open only `dialog` bindings fire.
+   */
+  enterDialog(): () => void {
+    this.openDialogs++;
+    let exited = false;
+    return () => {
+      if (exited) return;
+      exited = true;
+      this.openDialogs--;
+    };
+  }
+
+  /**
+   * Runs the binding matching the event, if any. Returns true if one ran.
+   * While typing in a field only bindings with `allowInEditable` fire, and
+   * only for combinations with Ctrl, Alt or Meta.
+   */
+  handleKeyDown(event: KeyboardEvent): boolean {
+    const keys = formatKeyEvent(event);
+    if (!keys) return false;
+    const editable = isEditableTarget(event.target);
+    if (editable && !/Ctrl|Alt|Meta/.test(keys)) return false;
+
+    const match = this.registrations
+      .filter(r =>
+        this.getKeys(r.binding.id) === keys &&
+        this.isActive(r.binding) &&
+        (!editable || r.binding.allowInEditable)
+      )
+      .sort((a, b) =>
+        CONTEXT_PRIORITY[b.binding.context ?? 'global'] - CONTEXT_PRIORITY[a.binding.context ?? 'global'] ||
+        b.order - a.order
+      )[0];
+    if (!match) return false;
+
+    event.preventDefault();
+    try {
+      match.binding.handler(event);
+    } catch (error) {
+      console.error(`[Keybindings] ${match.binding.id} failed:`, error);
+    }
+    return true;
+  }
+
+  /** Listens for key presses on `target` (the window by default) until the returned function is called */
+  attach(target: Window | HTMLElement = window): () => void {
+    const listener = (event: Event) => this.handleKeyDown(event as KeyboardEvent);
+    target.addEventListener('keydown', listener);
+    return () => target.removeEventListener('keydown', listener);
+  }
+
+  /** Calls `listener` whenever bindings or overrides change */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private isActive(binding: KeybindingRegistration): boolean {
+    const context = binding.context ?? 'global';
+    if (this.openDialogs > 0) return context === 'dialog';
+    if (context === 'dialog') return false;
+    if (context === 'tab' && binding.instanceId) return binding.instanceId === this.activeTabId;
+    return true;
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+// Singleton shared by the shell and federated plugins
+export const keybindings = new KeybindingRegistry();
@@ -0,0 +1,120 @@
+import type { PluginCommandSideEffects, PluginEvent, PluginPermission, RequestCaller } from './types';
+
+/** What each permission lets a plugin do, as shown to the user when asking for consent */
+export const PLUGIN_PERMISSION_DESCRIPTIONS: Record<PluginPermission, string> = {
+  'connections:read': 'See your Dataverse connections and sign-in status',
+  'connections:write': 'Add, remove and switch Dataverse connections',
+  'auth': 'Sign in to and out of Dataverse connections',
+  'dataverse:read': 'Read data from Dataverse through your connections',
+  'dataverse:write': 'Read and change data in Dataverse through your connections',
+  'storage': 'Keep its own data on this computer',
+  'events': 'Receive notifications from the host and other plugins',
+  'plugins:invoke': 'Run commands of other plugins',
+  'plugins:manage': 'Install, update and uninstall plugins',
+};
+
+/**
+ * Global function through which the native host hands the shell its session.
+ * The shell defines it before any plugin code runs and it cannot be replaced.
+ * This keeps the session out of `hostBridge`, not out of the page: federated
+ * plugins share the shell's page and could patch the globals every transport
+ * sends through, so only isolated plugins are kept from acting as the shell.
+ */
+export const SHELL_SESSION_HOOK = '__ddkShellSession';
+
+/**
+ * Host events every plugin with the `events` permission receives. Other events
+ * only reach the plugin they were raised for, e.g. its own progress and storage changes.
+ */
+export const PLUGIN_VISIBLE_HOST_EVENTS: readonly string[] = ['session:expired'];
+
+/** Whether an event may be delivered to a plugin instance */
+export function isEventVisibleTo(event: PluginEvent, caller: RequestCaller): boolean {
+  return event.pluginId === caller.pluginId || PLUGIN_VISIBLE_HOST_EVENTS.includes(event.type);
+}
+
+/** Permissions that also cover others, e.g. `dataverse:write` covers `dataverse:read` */
+const IMPLIED_PERMISSIONS: Partial<Record<PluginPermission, PluginPermission[]>> = {
+  'connections:write': ['connections:read'],
+  'dataverse:write': ['dataverse:read'],
+};
+
+/** Permissions a bridge method needs, or why plugins may not call it at all */
+export type PermissionRequirement =
+  | { permissions: PluginPermission[] }
+  | { denied: string };
+
+/**
+ * Maps a bridge method to the permissions a plugin needs to call it. Mirrors
+ * the checks of the native host so the mock host enforces the same rules.
+ * For `plugin.invoke`, `sideEffects` is what the invoked command declares.
+ */
+export function getPermissionRequirement(
+  method: string,
+  params: unknown,
+  caller: RequestCaller,
+  sideEffects?: PluginCommandSideEffects
+): PermissionRequirement {
+  const { pluginId, eventType } = (params ?? {}) as { pluginId?: unknown; eventType?: unknown };
+
+  switch (method) {
+    case 'connection.list':
+    case 'connection.get':
+    case 'connection.checkHealth':
+    case 'auth.getStatus':
+      return { permissions: ['connections:read'] };
+    case 'connection.add':
+    case 'connection.update':
+    case 'connection.remove':
+    case 'connection.setActive':
+      return { permissions: ['connections:write'] };
+    case 'auth.login':
+    case 'auth.logout':
+    case 'auth.reauthenticate':
+    case 'auth.refresh':
+      return { permissions: ['auth'] };
+    case 'events.subscribe':
+      return eventType === '*'
+        ? { denied: 'Plugins must subscribe to events by type' }
+        : { permissions: ['events'] };
+    case 'events.unsubscribe':
+      return { permissions: ['events'] };
+    case 'plugin.list':
+    case 'plugin.getCommands':
+      return { permissions: [] };
+    case 'plugin.invoke': {
+      const permissions: PluginPermission[] = [];
+      if (pluginId !== caller.pluginId) permissions.push('plugins:invoke');
+      // Commands run without a connection use the active one, so every call reaches Dataverse
+      permissions.push(sideEffects === 'write' || sideEffects === 'destructive' ? 'dataverse:write' : 'dataverse:read');
+      return { permissions };
+    }
+    case 'plugin.catalog':
+    case 'plugin.install':
+    case 'plugin.update':
+    case 'plugin.uninstall':
+      return { permissions: ['plugins:manage'] };
+    case 'storage.setQuota':
+      return { denied: 'Storage quotas can only be changed by the user' };
+  }
+
+  if (method.startsWith('storage.')) {
+    return pluginId === caller.pluginId
+      ? { permissions: ['storage'] }
+      : { denied: 'Plugins can only access their own storage' };
+  }
+
+  return { denied: `${method} is not available to plugins` };
+}
+
+/**
+ * Returns the declared permission that covers `permission`: the permission
+ * itself, or one that implies it. Undefined if none is declared.
+ */
+export function findCoveringPermission(
+  permission: PluginPermission,
+  declared: readonly PluginPermission[]
+): PluginPermission | undefined {
+  if (declared.includes(permission)) return permission;
+  return declared.find(d => IMPLIED_PERMISSIONS[d]?.includes(permission));
+}
@@ -0,0 +1,185 @@
+/**
+ * Minimal JSON Schema (draft-07 subset) support used to validate plugin
+ * command payloads and manifests without pulling in a validator dependency.
+ *
+ * Supported keywords: type, enum, const, properties, required,
+ * additionalProperties, items, minItems, maxItems, uniqueItems, minLength,
+ * maxLength, pattern, format (uri), minimum, maximum, allOf, anyOf, oneOf, not.
+ */
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  minimum?: number;
+  maximum?: number;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  not?: JsonSchema;
+  [keyword: string]: unknown;
+}
+
+export interface SchemaValidationIssue {
+  /** JSON pointer to the offending value ('' for the root) */
+  path: string;
+  message: string;
+}
+
+/**
+ * Validates a value against a JSON schema.
+ * Returns the list of issues; an empty list means the value is valid.
+ */
+export function validateSchema(schema: JsonSchema, value: unknown): SchemaValidationIssue[] {
+  const issues: SchemaValidationIssue[] = [];
+  validateNode(schema, value, '', issues);
+  return issues;
+}
+
+// A pattern that is not a valid regular expression is a fault of the schema,
+// not of the value, so the keyword is skipped like an unsupported one
+function compilePattern(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Formats validation issues as a single human-readable line per issue.
+ */
+export function formatSchemaIssues(issues: SchemaValidationIssue[]): string {
+  return issues.map(i => `${i.path || '(root)'}: ${i.message}`).join('\n');
+}
+
+function typeOf(value: unknown): JsonSchemaType {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'integer' : 'number';
+  return typeof value as JsonSchemaType;
+}
+
+function matchesType(expected: JsonSchemaType, actual: JsonSchemaType): boolean {
+  return expected === actual || (expected === 'number' && actual === 'integer');
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function validateNode(schema: JsonSchema, value: unknown, path: string, issues: SchemaValidationIssue[]): void {
+  const actual = typeOf(value);
+
+  if (schema.type !== undefined) {
+    const expected = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!expected.some(t => matchesType(t, actual))) {
+      issues.push({ path, message: `expected ${expected.join(' | ')} but got ${actual}` });
+      // Further keywords assume the right type
+      return;
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(e => isEqual(e, value))) {
+    issues.push({ path, message: `must be one of ${schema.enum.map(e => JSON.stringify(e)).join(', ')}` });
+  }
+
+  if ('const' in schema && !isEqual(schema.const, value)) {
+    issues.push({ path, message: `must equal ${JSON.stringify(schema.const)}` });
+  }
+
+  if (actual === 'string') {
+    const str = value as string;
+    if (schema.minLength !== undefined && str.length < schema.minLength) {
+      issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && str.length > schema.maxLength) {
+      issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+    }
+    const pattern = schema.pattern ? compilePattern(schema.pattern) : null;
+    if (pattern && !pattern.test(str)) {
+      issues.push({ path, message: `must match pattern ${schema.pattern}` });
+    }
+    if (schema.format === 'uri' && !/^[a-z][a-z0-9+.-]*:/i.test(str)) {
+      issues.push({ path, message: 'must be a URI' });
+    }
+  }
+
+  if (actual === 'number' || actual === 'integer') {
+    const num = value as number;
+    if (schema.minimum !== undefined && num < schema.minimum) {
+      issues.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && num > schema.maximum) {
+      issues.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (actual === 'array') {
+    const arr = value as unknown[];
+    if (schema.minItems !== undefined && arr.length < schema.minItems) {
+      issues.push({ path, message: `must contain at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && arr.length > schema.maxItems) {
+      issues.push({ path, message: `must contain at most ${schema.maxItems} items` });
+    }
+    if (schema.uniqueItems && new Set(arr.map(i => JSON.stringify(i))).size !== arr.length) {
+      issues.push({ path, message: 'must not contain duplicate items' });
+    }
+    if (schema.items) {
+      arr.forEach((item, index) => validateNode(schema.items!, item, `${path}/${index}`, issues));
+    }
+  }
+
+  if (actual === 'object') {
+    const obj = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (obj[key] === undefined) {
+        issues.push({ path: `${path}/${key}`, message: 'is required' });
+      }
+    }
+    for (const [key, propValue] of Object.entries(obj)) {
+      if (propValue === undefined) continue;
+      const propSchema = schema.properties?.[key];
+      if (propSchema) {
+        validateNode(propSchema, propValue, `${path}/${key}`, issues);
+      } else if (schema.additionalProperties === false) {
+        issues.push({ path: `${path}/${key}`, message: 'is not an allowed property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(schema.additionalProperties, propValue, `${path}/${key}`, issues);
+      }
+    }
+  }
+
+  if (schema.allOf) {
+    schema.allOf.forEach(sub => validateNode(sub, value, path, issues));
+  }
+
+  if (schema.anyOf && !schema.anyOf.some(sub => validateSchema(sub, value).length === 0)) {
+    issues.push({ path, message: 'must match at least one of the allowed schemas' });
+  }
+
+  if (schema.oneOf && schema.oneOf.filter(sub => validateSchema(sub, value).length === 0).length !== 1) {
+    issues.push({ path, message: 'must match exactly one of the allowed schemas' });
+  }
+
+  if (schema.not && validateSchema(schema.not, value).length === 0) {
+    issues.push({ path, message: 'must not match the excluded schema' });
+  }
+}
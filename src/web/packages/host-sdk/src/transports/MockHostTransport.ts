@@ -0,0 +1,844 @@
+import type {
+  BridgeTransport,
+  TransportMessageHandler,
+  JsonRpcRequest,
+  JsonRpcNotification,
+  JsonRpcMessage,
+  JsonRpcResponse,
+  ConnectionInfo,
+  ConnectionHealth,
+  AddConnectionParams,
+  UpdateConnectionParams,
+  DeviceCodePayload,
+  PluginMetadata,
+  PluginEvent,
+  ProgressUpdate,
+  StorageOperation,
+  StorageChangedPayload,
+  StorageUsage,
+  CatalogPlugin,
+  PermissionGrant,
+  PluginPermission,
+  PluginInvokeRequest,
+  InvokeAuditEntry,
+  RequestCaller,
+} from '../types';
+import { compareVersions } from '../version';
+import { SHELL_SESSION_HOOK, findCoveringPermission, getPermissionRequirement } from '../permissions';
+import {
+  isConnectionEnvironment,
+  isProductionConnection,
+  normalizeThumbprint,
+  validateConnectionParams,
+} from '../connections';
+
+/**
+ * Error thrown from mock handlers to produce a JSON-RPC error response.
+ */
+export class MockHostError extends Error {
+  constructor(public readonly code: number, message: string, public readonly data?: unknown) {
+    super(message);
+    this.name = 'MockHostError';
+  }
+}
+
+/** Handles a bridge method such as `connection.list` */
+export type MockMethodHandler = (
+  params: any,
+  host: MockHostTransport,
+  signal: AbortSignal
+) => unknown | Promise<unknown>;
+
+/** Handles a `plugin.invoke` call for a single plugin command */
+export type MockCommandHandler = (
+  payload: any,
+  context: {
+    pluginId: string;
+    command: string;
+    /** Connection the call was routed to; null for the active connection */
+    connectionId: string | null;
+    host: MockHostTransport;
+    /** Aborted when the bridge sends `$/cancelRequest` for this call */
+    signal: AbortSignal;
+  }
+) => unknown | Promise<unknown>;
+
+export interface MockHostOptions {
+  /** Simulated round-trip latency (ms). Default: 100 */
+  latencyMs?: number;
+  /** Initial connections. Defaults to unauthenticated dev and prod connections. */
+  connections?: ConnectionInfo[];
+  /** Plugins returned by `plugin.list` */
+  plugins?: PluginMetadata[];
+  /** User name reported after a successful login */
+  user?: string;
+  /** Storage quota of each plugin (bytes). Default: 10 MB, like the native host */
+  storageQuotaBytes?: number;
+  /** Plugins offered by `plugin.catalog`, installable with `plugin.install` */
+  catalog?: PluginMetadata[];
+  /** Lifetime of the tokens issued by login and refresh (ms). Default: 1 hour */
+  tokenLifetimeMs?: number;
+  /** How long a DeviceCode login waits for the code to be "entered" (ms). Default: 3 seconds */
+  deviceCodeDelayMs?: number;
+}
+
+const DEFAULT_STORAGE_QUOTA_BYTES = 10 * 1024 * 1024;
+
+/** Audit entries kept, like the native host */
+const MAX_AUDIT_ENTRIES = 500;
+
+/** Payloads recorded in the audit trail are cut after this many characters */
+const MAX_AUDIT_PAYLOAD_LENGTH = 2000;
+
+const DEFAULT_CONNECTIONS: ConnectionInfo[] = [
+  {
+    id: 'mock-dev',
+    name: 'Contoso (Dev)',
+    url: 'https://contoso-dev.crm.dynamics.com',
+    isActive: true,
+    isAuthenticated: false,
+  },
+  {
+    id: 'mock-prod',
+    name: 'Contoso (Prod)',
+    url: 'https://contoso.crm.dynamics.com',
+    isActive: false,
+    isAuthenticated: false,
+  },
+];
+
+/**
+ * In-memory host that answers bridge requests without a native host.
+ * Implements `connection.*`, `auth.*`, `plugin.*`, `storage.*`, `permissions.*`,
+ * `audit.*` and `events.*` with realistic state, checks requests stamped with a caller
+ * against the plugin's permissions and holds commands on production connections
+ * like the native host, and can be scripted per method or per plugin command.
+ * Unlike the native host it also runs requests without a session, so plugins can be developed standalone:
+ *
+ * ```ts
+ * const host = new MockHostTransport({ plugins: [myPlugin] });
+ * host.handleCommand('com.contoso.plugin', 'fetch', (payload) => ({ items: [] }));
+ * hostBridge.setTransport(host);
+ * ```
+ */
+export class MockHostTransport implements BridgeTransport {
+  readonly name = 'mock';
+  private handlers = new Set<TransportMessageHandler>();
+  private methodHandlers = new Map<string, MockMethodHandler>();
+  private commandHandlers = new Map<string, MockCommandHandler>();
+  private connections: ConnectionInfo[];
+  private plugins: PluginMetadata[];
+  private catalog: PluginMetadata[];
+  private storage = new Map<string, Map<string, string>>();
+  private quotas = new Map<string, number>();
+  private grants = new Map<string, PermissionGrant>();
+  private readonly shellSession = createSessionId();
+  private callerSessions = new Map<string, RequestCaller>();
+  private readonly defaultQuotaBytes: number;
+  private subscriptions = new Set<string>();
+  /** Keyed by session and id, as senders may only cancel their own requests */
+  private inFlight = new Map<string, AbortController>();
+  private cancelledRequests: (string | number)[] = [];
+  /** Answers `shell.confirmInvoke` for the held `plugin.invoke` requests, keyed by hold id */
+  private heldInvokes = new Map<string, (confirmed: boolean) => void>();
+  private auditEntries: InvokeAuditEntry[] = [];
+  private latencyMs: number;
+  private readonly user: string;
+  private readonly tokenLifetimeMs: number;
+  private readonly deviceCodeDelayMs: number;
+
+  constructor(options: MockHostOptions = {}) {
+    this.latencyMs = options.latencyMs ?? 100;
+    this.connections = (options.connections ?? DEFAULT_CONNECTIONS).map(c => ({ ...c }));
+    this.plugins = options.plugins ?? [];
+    this.catalog = options.catalog ?? [];
+    this.user = options.user ?? 'dev.user@contoso.com';
+    this.tokenLifetimeMs = options.tokenLifetimeMs ?? 60 * 60 * 1000;
+    this.deviceCodeDelayMs = options.deviceCodeDelayMs ?? 3000;
+    this.defaultQuotaBytes = options.storageQuotaBytes ?? DEFAULT_STORAGE_QUOTA_BYTES;
+    this.registerDefaults();
+  }
+
+  send(message: string): void {
+    let parsed: JsonRpcMessage | JsonRpcMessage[];
+    try {
+      parsed = JSON.parse(message);
+    } catch (error) {
+      console.error('[MockHost] Failed to parse request:', error);
+      return;
+    }
+
+    if (Array.isArray(parsed)) {
+      this.handleBatch(parsed);
+      return;
+    }
+
+    if (!('id' in parsed)) {
+      this.notify(parsed);
+      return;
+    }
+
+    this.process(parsed).then(response => {
+      if (response) this.deliver(response);
+    });
+  }
+
+  onMessage(handler: TransportMessageHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  dispose(): void {
+    this.handlers.clear();
+  }
+
+  /**
+   * Overrides (or adds) the handler for a bridge method, e.g. `connection.list`.
+   */
+  handle(method: string, handler: MockMethodHandler): this {
+    this.methodHandlers.set(method, handler);
+    return this;
+  }
+
+  /**
+   * Registers the handler for `plugin.invoke` of a specific plugin command.
+   * The payload is passed already parsed from JSON.
+   */
+  handleCommand(pluginId: string, command: string, handler: MockCommandHandler): this {
+    this.commandHandlers.set(`${pluginId}::${command}`, handler);
+    return this;
+  }
+
+  /**
+   * Pushes an event to the bridge as if it was raised by the host or a plugin.
+   */
+  emit(type: string, payload: unknown, pluginId = 'host'): void {
+    const event: PluginEvent = {
+      type,
+      pluginId,
+      payload,
+      timestamp: new Date().toISOString(),
+    };
+    setTimeout(() => this.deliver(event), 0);
+  }
+
+  /**
+   * Pushes a `progress` event for the operation identified by `update.token`.
+   */
+  reportProgress(pluginId: string, update: ProgressUpdate): void {
+    this.emit('progress', update, pluginId);
+  }
+
+  /** Sets the simulated latency for subsequent requests */
+  setLatency(latencyMs: number): void {
+    this.latencyMs = latencyMs;
+  }
+
+  /** Replaces the plugins returned by `plugin.list` */
+  setPlugins(plugins: PluginMetadata[]): void {
+    this.plugins = plugins;
+  }
+
+  /** Replaces the plugins offered by `plugin.catalog` */
+  setCatalog(catalog: PluginMetadata[]): void {
+    this.catalog = catalog;
+  }
+
+  /** Ids of requests the bridge has cancelled, oldest first */
+  get cancelled(): (string | number)[] {
+    return [...this.cancelledRequests];
+  }
+
+  /** Event types the bridge has subscribed to */
+  get subscribedEvents(): string[] {
+    return [...this.subscriptions];
+  }
+
+  private notify(notification: JsonRpcNotification): void {
+    if (notification.method === '$/cancelRequest') {
+      const { id } = notification.params as { id: string | number };
+      this.cancelledRequests.push(id);
+      this.inFlight.get(inFlightKey(notification.session, id))?.abort();
+      return;
+    }
+
+    const handler = this.methodHandlers.get(notification.method);
+    if (handler) {
+      Promise.resolve(handler(notification.params ?? {}, this, new AbortController().signal)).catch(error => {
+        console.error('[MockHost] Notification handler failed:', notification.method, error);
+      });
+    }
+  }
+
+  private handleBatch(messages: JsonRpcMessage[]): void {
+    if (messages.length === 0) {
+      setTimeout(() => this.deliver({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: -32600, message: 'Invalid Request: empty batch' },
+      }), this.latencyMs);
+      return;
+    }
+
+    // Notifications take effect immediately, requests share a single round trip
+    const requests: JsonRpcRequest[] = [];
+    messages.forEach(message => {
+      if ('id' in message) {
+        requests.push(message);
+      } else {
+        this.notify(message);
+      }
+    });
+    if (requests.length === 0) return;
+
+    Promise.all(requests.map(request => this.process(request))).then(results => {
+      const responses = results.filter((r): r is JsonRpcResponse => r !== null);
+      // A batch of only cancelled requests gets no response at all
+      if (responses.length > 0) this.deliver(responses);
+    });
+  }
+
+  /** Runs a request after the simulated latency; resolves with null when the bridge cancelled it */
+  private async process(request: JsonRpcRequest): Promise<JsonRpcResponse | null> {
+    const controller = new AbortController();
+    const key = inFlightKey(request.session, request.id);
+    this.inFlight.set(key, controller);
+    try {
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+      if (controller.signal.aborted) return null;
+      const response = await this.dispatch(request, controller.signal);
+      // A cancelled request gets no response, like the real host
+      return controller.signal.aborted ? null : response;
+    } finally {
+      this.inFlight.delete(key);
+    }
+  }
+
+  private async dispatch(request: JsonRpcRequest, signal: AbortSignal): Promise<JsonRpcResponse> {
+    // A session decides who the request is from, whatever caller it claims
+    const caller = request.session === this.shellSession
+      ? undefined
+      : (request.session && this.callerSessions.get(request.session)) || request.caller;
+    try {
+      if (caller) this.authorize(caller, request.method, request.params);
+      if (request.method === 'plugin.invoke') await this.holdInvoke(request, caller, signal);
+    } catch (error) {
+      const { code, message, data } = error as MockHostError;
+      return { jsonrpc: '2.0', id: request.id, error: { code, message, data } };
+    }
+
+    const handler = this.methodHandlers.get(request.method);
+    if (!handler) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32601, message: `Method not found: ${request.method}` },
+      };
+    }
+
+    try {
+      const result = await handler(request.params ?? {}, this, signal);
+      return { jsonrpc: '2.0', id: request.id, result: result ?? null };
+    } catch (error) {
+      if (error instanceof MockHostError) {
+        return { jsonrpc: '2.0', id: request.id, error: { code: error.code, message: error.message, data: error.data } };
+      }
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: { code: -32603, message: error instanceof Error ? error.message : 'Internal error' },
+      };
+    }
+  }
+
+  private deliver(message: JsonRpcResponse | JsonRpcResponse[] | JsonRpcNotification | PluginEvent): void {
+    const data = JSON.stringify(message);
+    this.handlers.forEach(handler => handler(data));
+  }
+
+  /** Throws the error the native host returns for a plugin request outside its permissions */
+  private authorize(caller: RequestCaller, method: string, params: unknown): void {
+    const { pluginId, command } = (params ?? {}) as { pluginId?: string; command?: string };
+    const sideEffects = method === 'plugin.invoke'
+      ? this.plugins.find(p => p.id === pluginId)?.commands.find(c => c.name === command)?.sideEffects
+      : undefined;
+    const requirement = getPermissionRequirement(method, params, caller, sideEffects);
+    if ('denied' in requirement) {
+      throw new MockHostError(-32011, requirement.denied, { pluginId: caller.pluginId, permission: null });
+    }
+    if (requirement.permissions.length === 0) return;
+
+    const plugin = this.plugins.find(p => p.id === caller.pluginId);
+    if (!plugin) {
+      throw new MockHostError(-32011, `Unknown plugin '${caller.pluginId}'`, { pluginId: caller.pluginId, permission: null });
+    }
+
+    for (const permission of requirement.permissions) {
+      const covering = findCoveringPermission(permission, plugin.permissions ?? []);
+      if (!covering) {
+        throw new MockHostError(
+          -32011,
+          `Plugin '${caller.pluginId}' does not declare the '${permission}' permission required by ${method}`,
+          { pluginId: caller.pluginId, permission }
+        );
+      }
+
+      const grant = this.grants.get(`${caller.pluginId}::${covering}`);
+      if (grant?.granted) continue;
+      if (grant) {
+        throw new MockHostError(
+          -32011,
+          `The '${covering}' permission of plugin '${caller.pluginId}' was denied`,
+          { pluginId: caller.pluginId, permission: covering }
+        );
+      }
+      throw new MockHostError(
+        -32012,
+        `Plugin '${caller.pluginId}' needs consent for the '${covering}' permission`,
+        { pluginId: caller.pluginId, permission: covering }
+      );
+    }
+  }
+
+  /**
+   * Holds a `plugin.invoke` request that may change data on a production
+   * connection until the shell answers the `invoke:confirm` event, and records
+   * the answer in the audit trail. Like the native host, commands that declare
+   * no side effects are held too, and unknown connection ids mean the active one.
+   * Without a subscriber to answer, the request is declined right away.
+   */
+  private async holdInvoke(request: JsonRpcRequest, caller: RequestCaller | undefined, signal: AbortSignal): Promise<void> {
+    const { pluginId, command, payload, connectionId } = (request.params ?? {}) as {
+      pluginId: string;
+      command: string;
+      payload?: string;
+      connectionId?: string | null;
+    };
+    const connection = this.connections.find(c => c.id === connectionId && connectionId !== 'default')
+      ?? this.connections.find(c => c.isActive);
+    if (!connection || !isProductionConnection(connection)) return;
+
+    const plugin = this.plugins.find(p => p.id === pluginId);
+    const declared = plugin?.commands.find(c => c.name === command);
+    const sideEffects = declared?.sideEffects ?? 'undeclared';
+    if (sideEffects === 'none') return;
+
+    const held: PluginInvokeRequest = {
+      id: createSessionId(),
+      pluginId,
+      pluginName: plugin?.name ?? pluginId,
+      command,
+      commandLabel: declared?.label ?? command,
+      sideEffects,
+      payload: payload ?? '',
+      connectionId: connection.id,
+      connectionName: connection.name,
+      connectionUrl: connection.url,
+      ...(caller && { caller }),
+    };
+
+    let confirmed = false;
+    if (this.subscriptions.has('invoke:confirm')) {
+      this.deliver({ jsonrpc: '2.0', method: '$/requestHeld', params: { id: request.id } });
+      this.emit('invoke:confirm', held);
+      confirmed = await new Promise<boolean>(resolve => {
+        this.heldInvokes.set(held.id, resolve);
+        signal.addEventListener('abort', () => resolve(false), { once: true });
+      });
+      this.heldInvokes.delete(held.id);
+    }
+
+    const entry: InvokeAuditEntry = {
+      ...held,
+      payload: held.payload.length > MAX_AUDIT_PAYLOAD_LENGTH
+        ? `${held.payload.slice(0, MAX_AUDIT_PAYLOAD_LENGTH)}…`
+        : held.payload,
+      confirmed,
+      occurredAt: new Date().toISOString(),
+    };
+    this.auditEntries = [entry, ...this.auditEntries].slice(0, MAX_AUDIT_ENTRIES);
+
+    if (!confirmed) {
+      throw new MockHostError(-32013, `Running ${pluginId}.${command} was declined`, { pluginId, command });
+    }
+  }
+
+  private findConnection(id: string): ConnectionInfo {
+    const connection = this.connections.find(c => c.id === id);
+    if (!connection) {
+      throw new MockHostError(-32602, `Connection not found: ${id}`);
+    }
+    return connection;
+  }
+
+  private pluginStorage(pluginId: string): Map<string, string> {
+    let store = this.storage.get(pluginId);
+    if (!store) {
+      store = new Map();
+      this.storage.set(pluginId, store);
+    }
+    return store;
+  }
+
+  private storageUsage(pluginId: string): StorageUsage {
+    const store = this.pluginStorage(pluginId);
+    let usedBytes = 0;
+    store.forEach(value => { usedBytes += byteLength(value); });
+    return {
+      pluginId,
+      usedBytes,
+      quotaBytes: this.quotas.get(pluginId) ?? this.defaultQuotaBytes,
+      keyCount: store.size,
+    };
+  }
+
+  // Applies storage writes all-or-nothing, like the native host
+  private applyStorage(pluginId: string, operations: StorageOperation[], origin?: string): true {
+    const store = this.pluginStorage(pluginId);
+    const next = new Map(store);
+    for (const operation of operations) {
+      if (!operation.key) {
+        throw new MockHostError(-32602, 'Storage keys must not be empty');
+      }
+      if (operation.type === 'set') {
+        next.set(operation.key, operation.value ?? '');
+      } else {
+        next.delete(operation.key);
+      }
+    }
+
+    const { quotaBytes } = this.storageUsage(pluginId);
+    let usedBytes = 0;
+    next.forEach(value => { usedBytes += byteLength(value); });
+    if (usedBytes > quotaBytes) {
+      throw new MockHostError(
+        -32010,
+        `Storage quota of plugin '${pluginId}' exceeded: ${usedBytes} of ${quotaBytes} bytes`
+      );
+    }
+
+    this.storage.set(pluginId, next);
+    const payload: StorageChangedPayload = { keys: [...new Set(operations.map(o => o.key))], origin: origin ?? null };
+    this.emit('storage:changed', payload, pluginId);
+    return true;
+  }
+
+  // Walks through the same phases as the native host, without touching any files
+  private async installFromCatalog(
+    { source, pluginId, progressToken }: { source?: string; pluginId: string; progressToken?: string },
+    isUpdate: boolean,
+    signal: AbortSignal
+  ): Promise<PluginMetadata> {
+    const token = progressToken ?? `plugin-install-${pluginId}`;
+    const entry = this.catalog.find(p => p.id === pluginId);
+    const installed = this.plugins.find(p => p.id === pluginId);
+    const fail = (message: string): never => {
+      this.reportProgress('host', { token, phase: 'failed', message, done: true, error: message });
+      throw new MockHostError(-32603, message);
+    };
+
+    if (!entry) fail(`Plugin ${pluginId} is not in the catalog`);
+    if (isUpdate && !installed) fail(`Plugin is not installed: ${pluginId}`);
+    if (isUpdate && !installed!.source) fail(`Plugin ${pluginId} is bundled with the app and cannot be updated`);
+    if (!isUpdate && installed) fail(`Plugin ${pluginId} is already installed (${installed.version})`);
+
+    for (const phase of ['download', 'verify', 'extract', 'install']) {
+      this.reportProgress('host', { token, phase, percent: 0, message: `${phase}...` });
+      await new Promise(resolve => setTimeout(resolve, this.latencyMs));
+      if (signal.aborted) fail('Install cancelled');
+    }
+
+    const plugin: PluginMetadata = {
+      ...entry!,
+      source: source ?? 'mock://catalog',
+      checksum: '0'.repeat(64),
+      installedAt: new Date().toISOString(),
+    };
+    this.plugins = [...this.plugins.filter(p => p.id !== pluginId), plugin];
+    this.reportProgress('host', { token, phase: 'complete', percent: 100, message: `${plugin.name} ${plugin.version} installed`, done: true });
+    return plugin;
+  }
+
+  private registerDefaults(): void {
+    // Connections
+    this.handle('connection.list', () => this.connections.map(c => ({ ...c })));
+    this.handle('connection.get', ({ id }) => ({ ...this.findConnection(id) }));
+    this.handle('connection.add', (params: AddConnectionParams) => {
+      const issues = validateConnectionParams(params);
+      if (issues.length > 0) {
+        throw new MockHostError(-32602, issues[0].message, issues);
+      }
+      // Secrets are accepted but, like in the host, never returned
+      const connection: ConnectionInfo = {
+        id: `mock-${Date.now().toString(36)}`,
+        name: params.name,
+        url: params.url,
+        isActive: this.connections.length === 0,
+        isAuthenticated: false,
+        authType: params.authType,
+        ...(params.clientId && { clientId: params.clientId }),
+        ...(params.tenantId && { tenantId: params.tenantId }),
+        ...(params.certificateThumbprint && { certificateThumbprint: normalizeThumbprint(params.certificateThumbprint) }),
+        ...(params.certificatePath && { certificatePath: params.certificatePath }),
+        ...(params.environment && { environment: params.environment }),
+      };
+      this.connections.push(connection);
+      return { ...connection };
+    });
+    this.handle('connection.setActive', ({ id }) => {
+      this.findConnection(id);
+      this.connections.forEach(c => {
+        c.isActive = c.id === id;
+      });
+      return true;
+    });
+    this.handle('connection.update', ({ id, name, environment }: UpdateConnectionParams) => {
+      const connection = this.findConnection(id);
+      if (environment && !isConnectionEnvironment(environment)) {
+        throw new MockHostError(-32602, `Unknown environment: ${environment}`);
+      }
+      if (name?.trim()) connection.name = name;
+      if (environment === '') delete connection.environment;
+      else if (environment !== undefined) connection.environment = environment;
+      return { ...connection };
+    });
+    this.handle('connection.remove', ({ id }) => {
+      this.findConnection(id);
+      this.connections = this.connections.filter(c => c.id !== id);
+      return true;
+    });
+    this.handle('connection.checkHealth', ({ id }) => {
+      const connection = this.findConnection(id);
+      const expired = !connection.expiresOn || Date.parse(connection.expiresOn) <= Date.now();
+      const health: ConnectionHealth = connection.isAuthenticated && !expired
+        ? {
+          checkedAt: new Date().toISOString(),
+          isHealthy: true,
+          latencyMs: this.latencyMs,
+          organizationVersion: '9.2.25061.00000',
+          user: connection.authenticatedUser,
+        }
+        : {
+          checkedAt: new Date().toISOString(),
+          isHealthy: false,
+          user: connection.authenticatedUser,
+          error: connection.isAuthenticated
+            ? `Session expired for connection '${connection.name}'. Please login again.`
+            : `No authenticated account found for connection '${connection.name}'. Please login first.`,
+        };
+      connection.health = health;
+      return { ...health };
+    });
+
+    // Authentication
+    const login = ({ connectionId }: { connectionId: string }) => {
+      const connection = this.findConnection(connectionId);
+      // App-only sign-ins act as the app registration or managed identity, not a user
+      const user = connection.authType === 'ClientSecret' || connection.authType === 'Certificate'
+        ? connection.clientId!
+        : connection.authType === 'ManagedIdentity'
+          ? connection.clientId ?? 'System-assigned managed identity'
+          : this.user;
+      connection.isAuthenticated = true;
+      connection.authenticatedUser = user;
+      connection.expiresOn = new Date(Date.now() + this.tokenLifetimeMs).toISOString();
+      return {
+        success: true,
+        user,
+        expiresOn: connection.expiresOn,
+      };
+    };
+    const interactiveLogin = async ({ connectionId }: { connectionId: string }) => {
+      const connection = this.findConnection(connectionId);
+      if (connection.authType === 'DeviceCode') {
+        const payload: DeviceCodePayload = {
+          connectionId,
+          userCode: 'MOCK-' + Math.random().toString(36).slice(2, 6).toUpperCase(),
+          verificationUrl: 'https://microsoft.com/devicelogin',
+          message: 'To sign in, use a web browser to open the page https://microsoft.com/devicelogin and enter the code to authenticate.',
+          expiresOn: new Date(Date.now() + 15 * 60_000).toISOString(),
+        };
+        this.emit('auth:deviceCode', payload);
+        await new Promise(resolve => setTimeout(resolve, this.deviceCodeDelayMs));
+      }
+      return login({ connectionId });
+    };
+    this.handle('auth.login', interactiveLogin);
+    this.handle('auth.reauthenticate', interactiveLogin);
+    this.handle('auth.refresh', ({ connectionId }: { connectionId: string }) => {
+      const connection = this.findConnection(connectionId);
+      if (!connection.isAuthenticated) {
+        return {
+          success: false,
+          error: `No authenticated account found for connection '${connection.name}'. Please login first.`,
+        };
+      }
+      return login({ connectionId });
+    });
+    this.handle('auth.logout', () => {
+      const active = this.connections.find(c => c.isActive);
+      if (active) {
+        active.isAuthenticated = false;
+        delete active.authenticatedUser;
+        delete active.expiresOn;
+        delete active.health;
+      }
+      return true;
+    });
+    this.handle('auth.getStatus', () => {
+      const active = this.connections.find(c => c.isActive);
+      return {
+        isAuthenticated: !!active?.isAuthenticated,
+        user: active?.authenticatedUser,
+      };
+    });
+
+    // Plugins
+    this.handle('plugin.list', () => this.plugins);
+    this.handle('plugin.getCommands', ({ pluginId }) => {
+      const plugin = this.plugins.find(p => p.id === pluginId);
+      if (!plugin) {
+        throw new MockHostError(-32602, `Plugin not found: ${pluginId}`);
+      }
+      return plugin.commands;
+    });
+    this.handle('plugin.catalog', ({ source }) => this.catalog.map((entry): CatalogPlugin => {
+      const installed = this.plugins.find(p => p.id === entry.id);
+      return {
+        id: entry.id,
+        name: entry.name,
+        version: entry.version,
+        description: entry.description,
+        author: entry.author,
+        category: entry.category,
+        company: entry.company,
+        icon: entry.icon,
+        packageUrl: `${source ?? 'mock://catalog'}/${entry.id}-${entry.version}.zip`,
+        installedVersion: installed?.version ?? null,
+        isBundled: !!installed && !installed.source,
+        updateAvailable: !!installed && compareVersions(entry.version, installed.version) > 0,
+      };
+    }));
+    this.handle('plugin.install', (params, _host, signal) => this.installFromCatalog(params, false, signal));
+    this.handle('plugin.update', (params, _host, signal) => this.installFromCatalog(params, true, signal));
+    this.handle('plugin.uninstall', ({ pluginId }) => {
+      const installed = this.plugins.find(p => p.id === pluginId);
+      if (!installed) {
+        throw new MockHostError(-32602, `Plugin is not installed: ${pluginId}`);
+      }
+      if (!installed.source) {
+        throw new MockHostError(-32603, `Plugin ${pluginId} is bundled with the app and cannot be uninstalled`);
+      }
+      this.plugins = this.plugins.filter(p => p.id !== pluginId);
+      return true;
+    });
+    this.handle('plugin.invoke', async ({ pluginId, command, payload, connectionId }, _host, signal) => {
+      const handler = this.commandHandlers.get(`${pluginId}::${command}`);
+      if (!handler) {
+        throw new MockHostError(-32601, `Plugin command not mocked: ${pluginId}.${command}`);
+      }
+      const parsed = typeof payload === 'string' && payload.length > 0 ? JSON.parse(payload) : payload;
+      return handler(parsed, { pluginId, command, connectionId: connectionId ?? null, host: this, signal });
+    });
+
+    // Storage
+    this.handle('storage.get', ({ pluginId, key }) => this.pluginStorage(pluginId).get(key) ?? null);
+    this.handle('storage.set', ({ pluginId, key, value, origin }) =>
+      this.applyStorage(pluginId, [{ type: 'set', key, value }], origin));
+    this.handle('storage.delete', ({ pluginId, key, origin }) =>
+      this.pluginStorage(pluginId).has(key) && this.applyStorage(pluginId, [{ type: 'delete', key }], origin));
+    this.handle('storage.keys', ({ pluginId, prefix }) =>
+      [...this.pluginStorage(pluginId).keys()].filter(key => !prefix || key.startsWith(prefix)).sort());
+    this.handle('storage.clear', ({ pluginId, prefix, origin }) => {
+      const keys = [...this.pluginStorage(pluginId).keys()].filter(key => !prefix || key.startsWith(prefix));
+      if (keys.length > 0) {
+        this.applyStorage(pluginId, keys.map(key => ({ type: 'delete', key })), origin);
+      }
+      return keys.length;
+    });
+    this.handle('storage.transaction', ({ pluginId, operations, origin }) =>
+      this.applyStorage(pluginId, operations, origin));
+    this.handle('storage.usage', ({ pluginId }) =>
+      (pluginId ? [pluginId] : [...new Set([...this.storage.keys(), ...this.quotas.keys()])].sort())
+        .map(id => this.storageUsage(id)));
+    this.handle('storage.setQuota', ({ pluginId, quotaBytes }) => {
+      if (quotaBytes === null || quotaBytes === undefined) {
+        this.quotas.delete(pluginId);
+      } else {
+        this.quotas.set(pluginId, quotaBytes);
+      }
+      return this.storageUsage(pluginId);
+    });
+
+    // Shell sessions
+    this.handle('shell.connect', () => {
+      const hook = (globalThis as Record<string, unknown>)[SHELL_SESSION_HOOK];
+      if (typeof hook === 'function') hook(this.shellSession);
+      return { connected: true };
+    });
+    this.handle('shell.registerCaller', ({ pluginId, instanceId }) => {
+      const session = createSessionId();
+      this.callerSessions.set(session, { pluginId, instanceId });
+      return { session };
+    });
+    this.handle('shell.confirmInvoke', ({ id, confirmed }) => {
+      const answer = this.heldInvokes.get(id);
+      answer?.(!!confirmed);
+      return !!answer;
+    });
+
+    // Audit trail
+    this.handle('audit.list', () => [...this.auditEntries]);
+    this.handle('audit.clear', () => {
+      const removed = this.auditEntries.length;
+      this.auditEntries = [];
+      return removed;
+    });
+
+    // Permissions
+    this.handle('permissions.list', ({ pluginId }) =>
+      [...this.grants.values()].filter(g => !pluginId || g.pluginId === pluginId)
+    );
+    this.handle('permissions.set', ({ pluginId, permission, granted }) => {
+      const grant: PermissionGrant = {
+        pluginId,
+        permission: permission as PluginPermission,
+        granted: !!granted,
+        decidedAt: new Date().toISOString(),
+      };
+      this.grants.set(`${pluginId}::${permission}`, grant);
+      return grant;
+    });
+    this.handle('permissions.reset', ({ pluginId, permission }) => {
+      const keys = [...this.grants.values()]
+        .filter(g => g.pluginId === pluginId && (!permission || g.permission === permission))
+        .map(g => `${g.pluginId}::${g.permission}`);
+      keys.forEach(key => this.grants.delete(key));
+      return keys.length;
+    });
+
+    // Events
+    this.handle('events.subscribe', ({ eventType }) => {
+      this.subscriptions.add(eventType);
+      return { subscribed: true };
+    });
+    this.handle('events.unsubscribe', ({ eventType }) => {
+      this.subscriptions.delete(eventType);
+      return { subscribed: false };
+    });
+  }
+}
+
+function inFlightKey(session: string | undefined, id: string | number): string {
+  return `${session ?? ''}|${id}`;
+}
+
+function createSessionId(): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
@@ -0,0 +1,74 @@
+import type { BridgeTransport, IsolatedPluginContext, TransportMessageHandler } from '../types';
+
+/** `name` of the sandboxed iframes isolated plugins run in, used to detect isolation */
+export const ISOLATED_FRAME_NAME = 'ddk-isolated-plugin';
+
+/** Messages exchanged over `postMessage` between the shell and an isolated plugin frame */
+export type IsolatedFrameMessage =
+  /** Frame → shell: the plugin page is loaded and waits for its context */
+  | { type: 'ddk:ready' }
+  /** Shell → frame: the tab the plugin runs in, sent again when its connection or the theme changes */
+  | { type: 'ddk:context'; context: IsolatedPluginContext }
+  /** Both ways: a serialized JSON-RPC message */
+  | { type: 'ddk:rpc'; data: string };
+
+/** Returns the message if `data` is an isolated frame message, otherwise null */
+export function parseIsolatedFrameMessage(data: unknown): IsolatedFrameMessage | null {
+  if (typeof data !== 'object' || data === null) return null;
+  const { type } = data as { type?: unknown };
+  return typeof type === 'string' && type.startsWith('ddk:') ? data as IsolatedFrameMessage : null;
+}
+
+/**
+ * Transport for plugins running in an isolated frame. JSON-RPC messages are
+ * posted to the shell, which checks them against the plugin's permissions and
+ * relays them to the host; responses and events come back the same way.
+ */
+export class PostMessageTransport implements BridgeTransport {
+  readonly name = 'postmessage';
+  private handlers = new Set<TransportMessageHandler>();
+  private listener: ((e: MessageEvent) => void) | null = null;
+
+  /**
+   * Returns true inside a frame the shell created for an isolated plugin.
+   */
+  static isAvailable(): boolean {
+    if (typeof window === 'undefined') return false;
+    return window.parent !== window && window.name === ISOLATED_FRAME_NAME;
+  }
+
+  /**
+   * @param target Window of the shell. Defaults to the parent window.
+   */
+  constructor(private readonly target: Window = window.parent) {
+    this.listener = (e: MessageEvent) => {
+      if (e.source !== this.target) return;
+      const message = parseIsolatedFrameMessage(e.data);
+      if (message?.type === 'ddk:rpc') {
+        this.handlers.forEach(handler => handler(message.data));
+      }
+    };
+    window.addEventListener('message', this.listener);
+  }
+
+  send(message: string): void {
+    // The shell's origin is not known to the sandboxed frame
+    const frameMessage: IsolatedFrameMessage = { type: 'ddk:rpc', data: message };
+    this.target.postMessage(frameMessage, '*');
+  }
+
+  onMessage(handler: TransportMessageHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  dispose(): void {
+    this.handlers.clear();
+    if (this.listener) {
+      window.removeEventListener('message', this.listener);
+      this.listener = null;
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import type { BridgeTransport, TransportMessageHandler } from '../types';
+
+export interface WebSocketTransportOptions {
+  /** Delay before reconnecting after the socket closes (ms). Set to 0 to disable. Default: 2000 */
+  reconnectDelayMs?: number;
+  /** Optional sub-protocols passed to the WebSocket constructor */
+  protocols?: string | string[];
+}
+
+/**
+ * Transport that talks JSON-RPC to a host over a WebSocket, e.g. a
+ * headless host process or a remote debugging proxy.
+ * Messages sent before the socket is open are queued and flushed on connect.
+ */
+export class WebSocketTransport implements BridgeTransport {
+  readonly name = 'websocket';
+  private socket: WebSocket | null = null;
+  private handlers = new Set<TransportMessageHandler>();
+  private queue: string[] = [];
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private disposed = false;
+  private readonly reconnectDelayMs: number;
+
+  constructor(private readonly url: string, private readonly options: WebSocketTransportOptions = {}) {
+    this.reconnectDelayMs = options.reconnectDelayMs ?? 2000;
+    this.connect();
+  }
+
+  /** True when the underlying socket is open */
+  get isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  send(message: string): void {
+    if (this.isOpen) {
+      this.socket!.send(message);
+    } else {
+      this.queue.push(message);
+    }
+  }
+
+  onMessage(handler: TransportMessageHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    this.handlers.clear();
+    this.queue = [];
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private connect(): void {
+    const socket = new WebSocket(this.url, this.options.protocols);
+    this.socket = socket;
+
+    socket.addEventListener('open', () => {
+      console.log('[HostBridge] WebSocket connected:', this.url);
+      const pending = this.queue;
+      this.queue = [];
+      pending.forEach(message => socket.send(message));
+    });
+
+    socket.addEventListener('message', (e: MessageEvent) => {
+      if (typeof e.data !== 'string') {
+        console.warn('[HostBridge] Ignoring non-text WebSocket message');
+        return;
+      }
+      this.handlers.forEach(handler => handler(e.data));
+    });
+
+    socket.addEventListener('close', () => {
+      if (this.disposed || this.reconnectDelayMs <= 0) return;
+      console.warn(`[HostBridge] WebSocket closed, reconnecting in ${this.reconnectDelayMs}ms`);
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.connect();
+      }, this.reconnectDelayMs);
+    });
+
+    socket.addEventListener('error', (e) => {
+      console.error('[HostBridge] WebSocket error:', e);
+    });
+  }
+}
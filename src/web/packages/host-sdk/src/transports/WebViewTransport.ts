@@ -0,0 +1,81 @@
+import type { BridgeTransport, TransportMessageHandler } from '../types';
+
+/**
+ * Transport for the native hosts: MAUI HybridWebView and (legacy) WebView2.
+ * Responses and events are delivered by the host calling
+ * `window.__ddkBridge.handleResponse` or posting a WebView2 message.
+ */
+export class WebViewTransport implements BridgeTransport {
+  readonly name = 'webview';
+  private handlers = new Set<TransportMessageHandler>();
+  private webViewListener: ((e: MessageEvent) => void) | null = null;
+
+  /**
+   * Returns true when a native WebView messaging API is present.
+   */
+  static isAvailable(): boolean {
+    if (typeof window === 'undefined') return false;
+    return !!(window as any).HybridWebView?.SendRawMessage || !!(window as any).chrome?.webview;
+  }
+
+  constructor() {
+    if (typeof window === 'undefined') return;
+
+    // Log what's available
+    console.log('[HostBridge] Window APIs available:', {
+      HybridWebView: !!(window as any).HybridWebView,
+      SendRawMessage: !!(window as any).HybridWebView?.SendRawMessage,
+      chromeWebview: !!(window as any).chrome?.webview,
+    });
+
+    // Expose handleResponse for MAUI to call back
+    (window as any).__ddkBridge = {
+      handleResponse: (data: string) => {
+        this.dispatch(data);
+      }
+    };
+
+    console.log('[HostBridge] Registered __ddkBridge.handleResponse');
+
+    // For WebView2 (legacy)
+    if ((window as any).chrome?.webview) {
+      this.webViewListener = (e: MessageEvent) => this.dispatch(e.data);
+      (window as any).chrome.webview.addEventListener('message', this.webViewListener);
+    }
+  }
+
+  send(message: string): void {
+    // Try MAUI HybridWebView first
+    if ((window as any).HybridWebView?.SendRawMessage) {
+      (window as any).HybridWebView.SendRawMessage(message);
+    }
+    // Fall back to WebView2
+    else if ((window as any).chrome?.webview) {
+      (window as any).chrome.webview.postMessage(message);
+    } else {
+      throw new Error('WebView messaging API is not available');
+    }
+  }
+
+  onMessage(handler: TransportMessageHandler): () => void {
+    this.handlers.add(handler);
+    return () => {
+      this.handlers.delete(handler);
+    };
+  }
+
+  dispose(): void {
+    this.handlers.clear();
+    if (this.webViewListener) {
+      (window as any).chrome?.webview?.removeEventListener('message', this.webViewListener);
+      this.webViewListener = null;
+    }
+    if ((window as any).__ddkBridge) {
+      delete (window as any).__ddkBridge;
+    }
+  }
+
+  private dispatch(data: string): void {
+    this.handlers.forEach(handler => handler(data));
+  }
+}
@@ -0,0 +1,4 @@
+export * from './WebViewTransport';
+export * from './WebSocketTransport';
+export * from './MockHostTransport';
+export * from './PostMessageTransport';
@@ -1,14 +1,39 @@
+import type { JsonSchema } from './schema';
+
 // JSON-RPC types
 export interface JsonRpcRequest {
   jsonrpc: '2.0';
   id: string | number;
   method: string;
   params?: unknown;
+  /** Plugin instance that made the request; absent for requests of the shell */
+  caller?: RequestCaller;
+  /**
+   * Session the host issued to the shell or, through the shell, to a plugin
+   * instance. The host identifies the sender by it and rejects requests without one.
+   */
+  session?: string;
+}
+
+/** A request without an id; the host does not reply to notifications */
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown;
+  caller?: RequestCaller;
+  session?: string;
 }
 
+/** A single entry of a JSON-RPC message or batch */
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification;
+
+/** Batch of requests and notifications sent as one message; answered with one array */
+export type JsonRpcBatchRequest = JsonRpcMessage[];
+
 export interface JsonRpcResponse<T = unknown> {
   jsonrpc: '2.0';
-  id: string | number;
+  /** null when the host could not read the request id (e.g. parse errors) */
+  id: string | number | null;
   result?: T;
   error?: JsonRpcError;
 }
@@ -19,7 +44,75 @@ export interface JsonRpcError {
   data?: unknown;
 }
 
+/** Responses to a batch, one per request (not notification), in any order */
+export type JsonRpcBatchResponse = JsonRpcResponse[];
+
+/** One call of a `HostBridge.batch` */
+export interface BatchCall {
+  method: string;
+  params?: unknown;
+  /** Send as a notification: no id, and the host does not reply */
+  notification?: boolean;
+}
+
+/** Params of the `$/cancelRequest` notification sent when a request is aborted */
+export interface CancelRequestParams {
+  id: string | number;
+}
+
+/** Params of the notification by which the host tells the bridge it holds a request */
+export interface RequestHeldParams {
+  id: string | number;
+}
+
+/** Per-call options accepted by every HostBridge request method */
+export interface RequestOptions {
+  /** Aborts the request and asks the host to cancel the backend work */
+  signal?: AbortSignal;
+  /** Overrides the default request timeout (ms). Use 0 to wait indefinitely. */
+  timeoutMs?: number;
+  /**
+   * Called when the host holds the request until the user confirms it, e.g. a
+   * command on a production connection. The timeout does not run while it is held.
+   */
+  onHeld?: () => void;
+}
+
+// Transport types
+export type TransportMessageHandler = (data: string) => void;
+
+/**
+ * Moves serialized JSON-RPC messages between the HostBridge and a host.
+ * Implementations only deal with raw strings; framing, correlation and
+ * timeouts are handled by the HostBridge.
+ */
+export interface BridgeTransport {
+  /** Human-readable transport name used in diagnostics */
+  readonly name: string;
+  /** Sends a serialized message to the host */
+  send(message: string): void;
+  /**
+   * Registers a handler for messages coming from the host.
+   * Returns an unsubscribe function.
+   */
+  onMessage(handler: TransportMessageHandler): () => void;
+  /** Releases any resources held by the transport */
+  dispose?(): void;
+}
+
 // Connection types
+/** Kind of environment a connection points at, as tagged by the user */
+export type ConnectionEnvironment = 'dev' | 'test' | 'prod';
+
+/**
+ * How the host signs in to a connection:
+ * - `OAuth`: interactive sign-in in the system browser
+ * - `DeviceCode`: sign-in on another device with a code, for machines without a browser
+ * - `ClientSecret` / `Certificate`: an app registration (service principal)
+ * - `ManagedIdentity`: the Azure managed identity of the machine the host runs on
+ */
+export type ConnectionAuthType = 'OAuth' | 'DeviceCode' | 'ClientSecret' | 'Certificate' | 'ManagedIdentity';
+
 export interface ConnectionInfo {
   id: string;
   name: string;
@@ -27,15 +120,54 @@ export interface ConnectionInfo {
   isActive: boolean;
   isAuthenticated: boolean;
   authenticatedUser?: string;
+  /** Missing on connections added before auth types were introduced, which use OAuth */
+  authType?: ConnectionAuthType;
+  /** App registration, or user-assigned managed identity, the connection signs in as */
+  clientId?: string;
+  tenantId?: string;
+  certificateThumbprint?: string;
+  certificatePath?: string;
+  /** Environment tag; missing when the connection is untagged */
+  environment?: ConnectionEnvironment;
+  /** When the access token expires (ISO 8601); missing while signed out */
+  expiresOn?: string;
+  /** Result of the latest health check, if any */
+  health?: ConnectionHealth;
+}
+
+/** Outcome of a round trip to a connection's Dataverse environment */
+export interface ConnectionHealth {
+  checkedAt: string;
+  isHealthy: boolean;
+  /** Duration of the request, in milliseconds */
+  latencyMs?: number;
+  organizationVersion?: string;
+  user?: string;
+  error?: string;
 }
 
 export interface AddConnectionParams {
   name: string;
   url: string;
-  authType: 'OAuth' | 'ClientSecret';
+  authType: ConnectionAuthType;
+  /** Required for ClientSecret and Certificate; optional for ManagedIdentity (user-assigned) */
   clientId?: string;
   clientSecret?: string;
+  /** Required for ClientSecret and Certificate */
   tenantId?: string;
+  /** Certificate in the current user's certificate store; alternative to `certificatePath` */
+  certificateThumbprint?: string;
+  /** PFX file holding the certificate and its private key */
+  certificatePath?: string;
+  certificatePassword?: string;
+  environment?: ConnectionEnvironment;
+}
+
+export interface UpdateConnectionParams {
+  id: string;
+  name?: string;
+  /** An empty string removes the tag */
+  environment?: ConnectionEnvironment | '';
 }
 
 // Plugin types
@@ -52,14 +184,103 @@ export interface PluginMetadata {
   uiEntry: string;
   uiModule?: string;
   uiScope?: string;
+  /** How the UI is loaded; `federated` when the manifest does not say */
+  uiMode?: PluginUiMode;
   isRunning: boolean;
+  engines?: PluginEngines | null;
+  /** Host capabilities declared in the manifest */
+  permissions?: PluginPermission[];
+  /** Manifest document as authored, for validation against plugin.manifest.schema.json */
+  manifest?: Record<string, unknown> | null;
+  /** Catalog the plugin was installed from; absent for plugins bundled with the app */
+  source?: string | null;
+  /** SHA-256 of the package the plugin was installed from */
+  checksum?: string | null;
+  installedAt?: string | null;
 }
 
+/**
+ * `federated` renders the plugin's remote module in the shell's React tree,
+ * `isolated` loads the plugin's page in a sandboxed iframe
+ */
+export type PluginUiMode = 'federated' | 'isolated';
+
+/** Host capabilities a plugin can declare in its manifest's `permissions` */
+export type PluginPermission =
+  | 'connections:read'
+  | 'connections:write'
+  | 'auth'
+  | 'dataverse:read'
+  | 'dataverse:write'
+  | 'storage'
+  | 'events'
+  | 'plugins:invoke'
+  | 'plugins:manage';
+
+export interface PluginEngines {
+  /** Semver range of the host SDK the plugin UI is built against */
+  hostSdkVersion?: string;
+}
+
+/** A plugin offered by a catalog feed, compared to the locally installed version */
+export interface CatalogPlugin {
+  id: string;
+  name: string;
+  /** Version offered by the catalog */
+  version: string;
+  description: string;
+  author: string;
+  category: string;
+  company?: string;
+  icon?: string;
+  homepage?: string;
+  license?: string;
+  packageUrl: string;
+  sha256?: string;
+  size?: number;
+  publishedAt?: string;
+  releaseNotes?: string;
+  /** Locally installed version, if any */
+  installedVersion?: string | null;
+  /** Installed with the app; cannot be updated or uninstalled from a catalog */
+  isBundled: boolean;
+  updateAvailable: boolean;
+}
+
+/** Options for installing or updating a plugin from a catalog */
+export interface PluginInstallOptions extends RequestOptions {
+  /** Catalog URL, index file or directory. Defaults to the host's configured catalog. */
+  source?: string;
+  /** Receives download, verification and install progress */
+  onProgress?: ProgressCallback;
+}
+
+/**
+ * What a command does to the connection's environment: `none` only reads,
+ * `write` creates or changes data, `destructive` deletes data or cannot be undone.
+ */
+export type PluginCommandSideEffects = 'none' | 'write' | 'destructive';
+
 export interface PluginCommand {
   name: string;
   label: string;
   description: string;
-  payloadSchema?: Record<string, unknown>;
+  /** JSON schema of the command payload, used for validation and generated forms */
+  payloadSchema?: JsonSchema;
+  /**
+   * Declared by the plugin; the shell asks for confirmation before `write` and
+   * `destructive` commands run against production connections. Missing means undeclared.
+   */
+  sideEffects?: PluginCommandSideEffects;
+}
+
+/** Options for `HostBridge.invokePluginCommand` */
+export interface PluginInvokeOptions extends RequestOptions {
+  /**
+   * Connection the command runs against. The host routes the call to a plugin
+   * worker bound to that connection; omit to use the active connection.
+   */
+  connectionId?: string | null;
 }
 
 export interface PluginInstance {
@@ -98,8 +319,200 @@ export interface SessionExpiredPayload {
   message: string;
 }
 
+/** Code the user enters on another device to complete a DeviceCode sign-in */
+export interface DeviceCodePayload {
+  connectionId: string;
+  userCode: string;
+  verificationUrl: string;
+  /** Instructions from the identity provider, ready to show as-is */
+  message: string;
+  /** When the code stops working (ISO 8601) */
+  expiresOn: string;
+}
+
 export type EventCallback = (event: PluginEvent) => void;
 
+// Progress types
+/**
+ * Progress reported for a long-running command, delivered as a `progress`
+ * event correlated to the token the command returned.
+ */
+export interface ProgressUpdate {
+  /** Token returned by the command invocation */
+  token: string;
+  /** Current phase, e.g. 'solutions' or 'layers' */
+  phase?: string;
+  /** Completion of the current phase, 0-100 */
+  percent?: number;
+  message?: string;
+  /** Items processed so far in the current phase */
+  completed?: number;
+  /** Total items of the current phase, when known */
+  total?: number;
+  /** True on the final update of the operation */
+  done?: boolean;
+  /** Set when the operation failed; only on the final update */
+  error?: string;
+}
+
+/** Result of a command that reports progress under a token */
+export interface ProgressResult {
+  progressToken?: string;
+}
+
+export type ProgressCallback = (update: ProgressUpdate) => void;
+
+// Storage types
+/** A single write or delete within a storage transaction */
+export type StorageOperation =
+  | { type: 'set'; key: string; value: string }
+  | { type: 'delete'; key: string };
+
+export interface StorageWriteOptions extends RequestOptions {
+  /** Tag reported with the resulting `storage:changed` event, e.g. the writing tab's instanceId */
+  origin?: string;
+}
+
+/** Payload of the `storage:changed` event */
+export interface StorageChangedPayload {
+  /** Keys that were written or deleted */
+  keys: string[];
+  /** Origin passed by the writer, if any */
+  origin?: string | null;
+}
+
+export interface StorageUsage {
+  pluginId: string;
+  usedBytes: number;
+  quotaBytes: number;
+  keyCount: number;
+}
+
+// Permission types
+/** Plugin instance a request is made by, stamped on requests sent through `HostBridge.registerCaller` */
+export interface RequestCaller {
+  pluginId: string;
+  instanceId?: string;
+}
+
+/** The user's decision on one permission of a plugin */
+export interface PermissionGrant {
+  pluginId: string;
+  permission: PluginPermission;
+  granted: boolean;
+  decidedAt: string;
+}
+
+/** Passed to the consent handler when a plugin first uses a declared permission */
+export interface PermissionConsentRequest {
+  pluginId: string;
+  instanceId?: string;
+  permission: PluginPermission;
+  /** Bridge method that needs the permission */
+  method: string;
+}
+
+/** Resolves to true if the user granted the permission */
+export type PermissionConsentHandler = (request: PermissionConsentRequest) => Promise<boolean>;
+
+/** Side effects of a held command; `undeclared` also when its metadata could not be loaded */
+export type HeldCommandSideEffects = Exclude<PluginCommandSideEffects, 'none'> | 'undeclared';
+
+/**
+ * A `plugin.invoke` request the host holds until the user confirms it, passed
+ * to the invoke guard. Everything in it was resolved by the host.
+ */
+export interface PluginInvokeRequest {
+  /** Identifies the held request in the shell's answer */
+  id: string;
+  pluginId: string;
+  pluginName: string;
+  command: string;
+  commandLabel: string;
+  sideEffects: HeldCommandSideEffects;
+  /** JSON payload as sent to the plugin */
+  payload: string;
+  /** Production connection the command would run against */
+  connectionId: string;
+  connectionName: string;
+  connectionUrl: string;
+  /** Plugin instance making the request; undefined when the shell invokes the command */
+  caller?: RequestCaller;
+}
+
+/** Resolves to true if the command may run */
+export type PluginInvokeGuard = (request: PluginInvokeRequest) => Promise<boolean>;
+
+/** A held command as recorded in the host's audit trail */
+export interface InvokeAuditEntry extends PluginInvokeRequest {
+  /** Whether the user confirmed the command; declined commands never reached the plugin */
+  confirmed: boolean;
+  occurredAt: string;
+}
+
+/** `data` of permission errors returned by the host */
+export interface PermissionErrorData {
+  pluginId: string;
+  permission: PluginPermission | null;
+}
+
+// Isolation types
+/** Fluent UI theme tokens passed to isolated plugins, e.g. `colorNeutralBackground1` */
+export type IsolatedPluginTheme = Record<string, string | number>;
+
+/** What the shell tells an isolated plugin about the tab it runs in */
+export interface IsolatedPluginContext {
+  pluginId: string;
+  instanceId: string;
+  connectionId: string | null;
+  theme: IsolatedPluginTheme;
+}
+
+// Keybinding types
+/**
+ * Where a binding applies: `global` anywhere in the shell, `tab` while the
+ * plugin tab it belongs to is active, `dialog` while a dialog is open.
+ * Global and tab bindings are suspended while a dialog is open.
+ */
+export type KeybindingContext = 'global' | 'tab' | 'dialog';
+
+export interface KeybindingDefinition {
+  /** Stable id users override the keys by, e.g. `tabs.close` or `sla.focusFilterBar` */
+  id: string;
+  title: string;
+  /** Groups bindings in Settings, e.g. the plugin name */
+  category?: string;
+  /** Defaults to `global` */
+  context?: KeybindingContext;
+  /** Key combination such as `Ctrl+Shift+T` or `/`; `Mod` is Cmd on macOS and Ctrl elsewhere. Null for no default. */
+  defaultKeys: string | null;
+  /** Plugin tab a `tab` binding belongs to; without it the binding applies to any tab */
+  instanceId?: string;
+  /**
+   * Whether the binding also fires while typing in a field, taking the keys
+   * from the field. Only combinations with Ctrl, Alt or Meta ever do.
+   */
+  allowInEditable?: boolean;
+}
+
+export interface KeybindingRegistration extends KeybindingDefinition {
+  handler: (event: KeyboardEvent) => void;
+}
+
+/** A binding as listed for customization */
+export interface KeybindingInfo {
+  id: string;
+  title: string;
+  category?: string;
+  context: KeybindingContext;
+  defaultKeys: string | null;
+  /** Keys in effect after the user's overrides; null when unbound */
+  keys: string | null;
+}
+
+/** User overrides by binding id; null disables the binding */
+export type KeybindingOverrides = Record<string, string | null>;
+
 // Settings types
 export interface UserSettings {
   theme: 'light' | 'dark' | 'system';
@@ -0,0 +1,104 @@
+/**
+ * Version of the host SDK the shell is built with. Plugins declare the range
+ * they support in their manifest's `engines.hostSdkVersion`.
+ */
+export const HOST_SDK_VERSION = '1.0.0';
+
+/**
+ * Compares two semantic versions (`1.2.3` or `1.2.3-beta.1`).
+ * Returns a negative number if `left` is lower, positive if higher, 0 if equal.
+ */
+export function compareVersions(left: string, right: string): number {
+  const [leftCore, leftPre] = left.split('-', 2);
+  const [rightCore, rightPre] = right.split('-', 2);
+  const leftParts = leftCore.split('.').map(Number);
+  const rightParts = rightCore.split('.').map(Number);
+  for (let i = 0; i < Math.max(leftParts.length, rightParts.length); i++) {
+    const diff = (leftParts[i] ?? 0) - (rightParts[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  if (leftPre === rightPre) return 0;
+  if (leftPre === undefined) return 1;
+  if (rightPre === undefined) return -1;
+  return leftPre < rightPre ? -1 : 1;
+}
+
+type Comparator = { operator: '>=' | '<=' | '>' | '<' | '='; version: string };
+
+const COMPARATOR_PATTERN = /^(>=|<=|>|<|=|\^|~)?\s*v?(\d+|x|\*)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?(-[0-9a-z.]+)?$/i;
+
+const isWildcard = (part: string | undefined) => part === undefined || part === 'x' || part === 'X' || part === '*';
+
+/** Expands one comparator (`^1.2`, `~1.2.3`, `>=2`, `1.x`) into plain bounds */
+function parseComparator(token: string): Comparator[] {
+  if (token === '*' || token === 'x' || token === 'X') return [];
+  const match = COMPARATOR_PATTERN.exec(token);
+  if (!match) {
+    throw new Error(`Invalid version range "${token}"`);
+  }
+
+  const [, operator = '', majorPart, minorPart, patchPart, prerelease = ''] = match;
+  if (isWildcard(majorPart)) return [];
+  const major = Number(majorPart);
+  const minor = isWildcard(minorPart) ? undefined : Number(minorPart);
+  const patch = isWildcard(patchPart) ? undefined : Number(patchPart);
+  const lower = `${major}.${minor ?? 0}.${patch ?? 0}${prerelease}`;
+
+  switch (operator) {
+    case '^': {
+      const upper = major > 0 || minor === undefined
+        ? `${major + 1}.0.0-0`
+        : minor > 0 || patch === undefined
+          ? `0.${minor + 1}.0-0`
+          : `0.0.${patch + 1}-0`;
+      return [{ operator: '>=', version: lower }, { operator: '<', version: upper }];
+    }
+    case '~':
+      return [
+        { operator: '>=', version: lower },
+        { operator: '<', version: minor === undefined ? `${major + 1}.0.0-0` : `${major}.${minor + 1}.0-0` },
+      ];
+    case '':
+    case '=':
+      // A partial version (`1.2`) matches every version it prefixes
+      if (minor === undefined) {
+        return [{ operator: '>=', version: lower }, { operator: '<', version: `${major + 1}.0.0-0` }];
+      }
+      if (patch === undefined) {
+        return [{ operator: '>=', version: lower }, { operator: '<', version: `${major}.${minor + 1}.0-0` }];
+      }
+      return [{ operator: '=', version: lower }];
+    default:
+      return [{ operator: operator as Comparator['operator'], version: lower }];
+  }
+}
+
+function matchesComparator(version: string, { operator, version: bound }: Comparator): boolean {
+  const diff = compareVersions(version, bound);
+  switch (operator) {
+    case '>=': return diff >= 0;
+    case '<=': return diff <= 0;
+    case '>': return diff > 0;
+    case '<': return diff < 0;
+    case '=': return diff === 0;
+  }
+}
+
+/**
+ * Checks a version against a semver range as used by npm, e.g. `^1.2.0`,
+ * `~1.2`, `>=1.0.0 <3.0.0`, `1.x` or `^1.0.0 || ^2.0.0`.
+ * Throws if the range cannot be parsed.
+ */
+export function satisfiesVersionRange(version: string, range: string): boolean {
+  const alternatives = range.split('||').map(alternative => alternative.trim());
+  const comparatorSets = alternatives.map(alternative =>
+    alternative === ''
+      ? []
+      : alternative
+        // Allow `>= 1.0.0` as well as `>=1.0.0`
+        .replace(/(>=|<=|>|<|=|\^|~)\s+/g, '$1')
+        .split(/\s+/)
+        .flatMap(parseComparator)
+  );
+  return comparatorSets.some(set => set.every(comparator => matchesComparator(version, comparator)));
+}